@@ -8,6 +8,7 @@ import {
   PaneType,
 } from "obsidian";
 import { PersistenceManager } from "./src/persistence";
+import { getBasesViewType } from "./src/constants";
 import { View } from "./src/datacore/view";
 import { setDatacorePreact } from "./src/jsx-runtime";
 import { getAvailablePath, getAvailableBasePath } from "./src/utils/file";
@@ -22,6 +23,30 @@ import {
   MASONRY_VIEW_TYPE,
   masonryViewOptions,
 } from "./src/bases/masonry-view";
+import {
+  DynamicViewsKanbanView,
+  kanbanViewOptions,
+} from "./src/bases/kanban-view";
+import {
+  DynamicViewsCalendarView,
+  calendarViewOptions,
+} from "./src/bases/calendar-view";
+import {
+  DynamicViewsTimelineView,
+  timelineViewOptions,
+} from "./src/bases/timeline-view";
+import {
+  DynamicViewsListView,
+  listViewOptions,
+} from "./src/bases/list-view";
+import {
+  DynamicViewsCarouselView,
+  carouselViewOptions,
+} from "./src/bases/carousel-view";
+import {
+  DynamicViewsTreeView,
+  treeViewOptions,
+} from "./src/bases/tree-view";
 import { DynamicViewsSettingTab } from "./src/settings-tab";
 import type { DatacoreAPI } from "./src/datacore/types";
 import {
@@ -30,13 +55,33 @@ import {
   getPaneType,
 } from "./src/utils/randomize";
 import { clearInFlightLoads } from "./src/shared/content-loader";
+import { cleanupMarkdownPreviews } from "./src/shared/markdown-preview";
+import { cleanupSearchHighlights } from "./src/shared/search-highlight";
 import { invalidateCacheForFile } from "./src/shared/image-loader";
 import { initTips, cleanupTips } from "./src/utils/tips";
+import {
+  initPersistentCache,
+  cleanupPersistentCache,
+  prunePersistentCache,
+  invalidatePersistedFile,
+} from "./src/utils/persistent-cache";
+import {
+  initThumbnailCache,
+  cleanupThumbnailCache,
+  pruneThumbnailCache,
+  invalidateThumbnails,
+} from "./src/utils/thumbnail-cache";
 
 // Plugin/feature names (proper nouns, not subject to sentence case)
 const DATACORE = "Datacore";
 const GRID_VIEW = "Grid view";
 const MASONRY_VIEW = "Masonry view";
+const KANBAN_VIEW = "Kanban view";
+const CALENDAR_VIEW = "Calendar view";
+const TIMELINE_VIEW = "Timeline view";
+const LIST_VIEW = "List view";
+const CAROUSEL_VIEW = "Carousel view";
+const TREE_VIEW = "Folder tree view";
 
 export default class DynamicViews extends Plugin {
   persistenceManager: PersistenceManager;
@@ -74,6 +119,17 @@ export default class DynamicViews extends Plugin {
     this.persistenceManager = new PersistenceManager(this);
     await this.persistenceManager.load();
     initTips(this.persistenceManager);
+    // Load the disk caches without delaying startup (cold until loaded)
+    const cachesLoaded = Promise.all([
+      initPersistentCache(this),
+      initThumbnailCache(this),
+    ]);
+    this.app.workspace.onLayoutReady(() => {
+      void cachesLoaded.then(() => {
+        prunePersistentCache();
+        pruneThumbnailCache();
+      });
+    });
 
     // Set initial body classes for settings
     const settings = this.persistenceManager.getPluginSettings();
@@ -102,6 +158,54 @@ export default class DynamicViews extends Plugin {
       options: masonryViewOptions,
     });
 
+    this.registerBasesView("dynamic-views-kanban", {
+      name: "Kanban",
+      icon: "square-kanban",
+      factory: (controller: QueryController, scrollEl: HTMLElement) =>
+        new DynamicViewsKanbanView(controller, scrollEl),
+      options: kanbanViewOptions,
+    });
+
+    this.registerBasesView("dynamic-views-calendar", {
+      name: "Calendar",
+      icon: "calendar",
+      factory: (controller: QueryController, scrollEl: HTMLElement) =>
+        new DynamicViewsCalendarView(controller, scrollEl),
+      options: calendarViewOptions,
+    });
+
+    this.registerBasesView("dynamic-views-timeline", {
+      name: "Timeline",
+      icon: "gantt-chart",
+      factory: (controller: QueryController, scrollEl: HTMLElement) =>
+        new DynamicViewsTimelineView(controller, scrollEl),
+      options: timelineViewOptions,
+    });
+
+    this.registerBasesView("dynamic-views-list", {
+      name: "Dynamic list",
+      icon: "list",
+      factory: (controller: QueryController, scrollEl: HTMLElement) =>
+        new DynamicViewsListView(controller, scrollEl),
+      options: listViewOptions,
+    });
+
+    this.registerBasesView("dynamic-views-carousel", {
+      name: "Carousel",
+      icon: "gallery-horizontal",
+      factory: (controller: QueryController, scrollEl: HTMLElement) =>
+        new DynamicViewsCarouselView(controller, scrollEl),
+      options: carouselViewOptions,
+    });
+
+    this.registerBasesView("dynamic-views-tree", {
+      name: "Folder tree",
+      icon: "folder-tree",
+      factory: (controller: QueryController, scrollEl: HTMLElement) =>
+        new DynamicViewsTreeView(controller, scrollEl),
+      options: treeViewOptions,
+    });
+
     // Notify Style Settings to parse our CSS
     this.app.workspace.trigger("parse-style-settings");
 
@@ -265,6 +369,60 @@ export default class DynamicViews extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "create-base-kanban-view",
+      name: `Create new base with ${KANBAN_VIEW}`,
+      icon: "square-kanban",
+      callback: async () => {
+        await this.createBaseFile("dynamic-views-kanban", "Kanban", false);
+      },
+    });
+
+    this.addCommand({
+      id: "create-base-calendar-view",
+      name: `Create new base with ${CALENDAR_VIEW}`,
+      icon: "calendar",
+      callback: async () => {
+        await this.createBaseFile("dynamic-views-calendar", "Calendar", false);
+      },
+    });
+
+    this.addCommand({
+      id: "create-base-timeline-view",
+      name: `Create new base with ${TIMELINE_VIEW}`,
+      icon: "gantt-chart",
+      callback: async () => {
+        await this.createBaseFile("dynamic-views-timeline", "Timeline", false);
+      },
+    });
+
+    this.addCommand({
+      id: "create-base-list-view",
+      name: `Create new base with ${LIST_VIEW}`,
+      icon: "list",
+      callback: async () => {
+        await this.createBaseFile("dynamic-views-list", "List", false);
+      },
+    });
+
+    this.addCommand({
+      id: "create-base-carousel-view",
+      name: `Create new base with ${CAROUSEL_VIEW}`,
+      icon: "gallery-horizontal",
+      callback: async () => {
+        await this.createBaseFile("dynamic-views-carousel", "Carousel", false);
+      },
+    });
+
+    this.addCommand({
+      id: "create-base-tree-view",
+      name: `Create new base with ${TREE_VIEW}`,
+      icon: "folder-tree",
+      callback: async () => {
+        await this.createBaseFile("dynamic-views-tree", "Folder tree", false);
+      },
+    });
+
     // Invalidate image metadata cache when vault files are modified (#17)
     // Only invalidate for image files to avoid unnecessary cache clears
     const IMAGE_EXTENSIONS = new Set([
@@ -277,16 +435,32 @@ export default class DynamicViews extends Plugin {
       "bmp",
       "ico",
     ]);
+    // Persisted previews/embeds are dropped for any changed note as well
     this.registerEvent(
       this.app.vault.on("modify", (file) => {
         if (file instanceof TFile) {
+          invalidatePersistedFile(file.path);
           const ext = file.extension.toLowerCase();
           if (IMAGE_EXTENSIONS.has(ext)) {
             invalidateCacheForFile(file.path);
+            invalidateThumbnails(file.path);
           }
         }
       }),
     );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        invalidatePersistedFile(file.path);
+        invalidateThumbnails(file.path);
+      }),
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        invalidatePersistedFile(oldPath);
+        invalidateThumbnails(oldPath);
+        void this.persistenceManager.renamePinnedPaths(oldPath, file.path);
+      }),
+    );
 
     // Handle editor-drop events for plugin cards
     this.registerEvent(
@@ -372,8 +546,13 @@ return app.plugins.plugins['dynamic-views'].createView(dc, QUERY, '${queryId}');
         activeFile?.path ?? "",
       ).path;
       const filePath = getAvailableBasePath(this.app, folderPath, "Untitled");
-      const minCol = viewType === "dynamic-views-masonry" ? "two" : "one";
-      const content = `views:\n  - type: ${viewType}\n    name: ${viewName}\n    minimumColumns: ${minCol}\n`;
+      const minCol = viewType === MASONRY_VIEW_TYPE ? "two" : "one";
+      // Only grid and masonry lay cards out in minimumColumns columns
+      const columnsLine =
+        viewType === GRID_VIEW_TYPE || viewType === MASONRY_VIEW_TYPE
+          ? `    minimumColumns: ${minCol}\n`
+          : "";
+      const content = `views:\n  - type: ${viewType}\n    name: ${viewName}\n${columnsLine}`;
 
       await this.app.vault.create(filePath, content);
 
@@ -391,20 +570,28 @@ return app.plugins.plugins['dynamic-views'].createView(dc, QUERY, '${queryId}');
   private getActiveDVGroupedView():
     | DynamicViewsGridView
     | DynamicViewsMasonryView
+    | DynamicViewsKanbanView
+    | DynamicViewsListView
+    | DynamicViewsCarouselView
+    | DynamicViewsTreeView
     | null {
     const leaf = this.app.workspace.getMostRecentLeaf();
     if (!leaf) return null;
     const view = leaf.view as unknown as {
       controller?: {
-        view?: DynamicViewsGridView | DynamicViewsMasonryView;
+        view?:
+          | DynamicViewsGridView
+          | DynamicViewsMasonryView
+          | DynamicViewsKanbanView
+          | DynamicViewsListView
+          | DynamicViewsCarouselView
+          | DynamicViewsTreeView;
       };
     };
     const dvView = view?.controller?.view;
     if (!dvView) return null;
-    if (
-      (dvView.type === GRID_VIEW_TYPE || dvView.type === MASONRY_VIEW_TYPE) &&
-      dvView.isGrouped
-    ) {
+    // Calendar and timeline views don't group (no isGrouped)
+    if (getBasesViewType(dvView.type) && dvView.isGrouped === true) {
       return dvView;
     }
     return null;
@@ -419,5 +606,9 @@ return app.plugins.plugins['dynamic-views'].createView(dc, QUERY, '${queryId}');
 
     clearInFlightLoads();
     cleanupTips();
+    void cleanupPersistentCache();
+    cleanupThumbnailCache();
+    cleanupMarkdownPreviews();
+    cleanupSearchHighlights();
   }
 }
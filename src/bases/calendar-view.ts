@@ -0,0 +1,799 @@
+/**
+ * Bases Calendar View
+ * Places cards on a month or week grid by a date property; dragging a card
+ * to another day rewrites that property on the note
+ */
+
+import {
+  BasesEntry,
+  BasesView,
+  Notice,
+  QueryController,
+  TFile,
+  moment,
+  setIcon,
+} from "obsidian";
+import { CardData } from "../shared/card-renderer";
+import { transformBasesEntries } from "../shared/data-transform";
+import {
+  readBasesSettings,
+  getCalendarViewOptions,
+} from "../shared/settings-schema";
+import { clearStyleSettingsCache } from "../utils/style-settings";
+import { initializeScrollGradients } from "../shared/scroll-gradient";
+import {
+  SharedCardRenderer,
+  initializeTitleTruncation,
+  syncResponsiveClasses,
+  applyViewContainerStyles,
+} from "./shared-renderer";
+import { CardSelection } from "./card-selection";
+import {
+  CALENDAR_MONTH_CARD_LIMIT,
+  CALENDAR_WEEK_CARD_LIMIT,
+} from "../shared/constants";
+import {
+  setupBasesSwipeInterception,
+  setupStyleSettingsObserver,
+  getStyleSettingsHash,
+  getSortMethod,
+  processGroups,
+  cleanupBaseFile,
+  shouldProcessDataUpdate,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
+} from "./utils";
+import {
+  initializeContainerFocus,
+  setupHoverKeyboardNavigation,
+} from "../shared/keyboard-nav";
+import {
+  ScrollPreservation,
+  getLeafProps,
+} from "../shared/scroll-preservation";
+import {
+  buildDisplayToSyntaxMap,
+  buildSyntaxToDisplayMap,
+  getFirstBasesDatePropertyValue,
+  normalizeSettingsPropertyNames,
+} from "../utils/property";
+import { extractTimestamp } from "../shared/render-utils";
+import {
+  CalendarRange,
+  bucketByDay,
+  getCalendarDays,
+  getCalendarTitle,
+  getDroppedDateValue,
+  getWeekdayLabels,
+  getWritableDateProperty,
+  parseDateKey,
+  resolveCalendarTimestamp,
+  shiftCalendarAnchor,
+  toDateKey,
+} from "../shared/calendar";
+import { setupClickOutside } from "../utils/dropdown-position";
+import type DynamicViews from "../../main";
+import type {
+  BasesResolvedSettings,
+  RenderState,
+  SortState,
+  FocusState,
+} from "../types";
+
+export const CALENDAR_VIEW_TYPE = "dynamic-views-calendar";
+
+export class DynamicViewsCalendarView extends BasesView {
+  readonly type = CALENDAR_VIEW_TYPE;
+  private scrollEl: HTMLElement;
+  private leafId: string;
+  private containerEl: HTMLElement;
+  private plugin: DynamicViews;
+  private _resolvedFile: TFile | null | undefined = undefined;
+  private scrollPreservation: ScrollPreservation | null = null;
+  private cardRenderer: SharedCardRenderer;
+  private selection: CardSelection;
+  private _previousCustomClasses: string[] = [];
+
+  // Consolidated state objects (shared patterns with grid-view)
+  private renderState: RenderState = {
+    version: 0,
+    abortController: null,
+    lastRenderHash: "",
+    lastSettingsHash: null,
+    lastMtimes: new Map(),
+  };
+  // Track last rendered settings to detect stale config (see readBasesSettings)
+  private lastRenderedSettings: BasesResolvedSettings | null = null;
+  private sortState: SortState = {
+    isShuffled: false,
+    order: [],
+    lastMethod: null,
+  };
+  private focusState: FocusState = {
+    cardIndex: 0,
+    hoveredEl: null,
+    selectedPaths: new Set(),
+    selectionAnchor: null,
+  };
+  private focusCleanup: (() => void) | null = null;
+  // Pinned cards render first (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private templateToggle: TemplateToggle;
+
+  // Public accessors for sortState (used by randomize.ts)
+  get isShuffled(): boolean {
+    return this.sortState.isShuffled;
+  }
+  set isShuffled(value: boolean) {
+    this.sortState.isShuffled = value;
+  }
+  get shuffledOrder(): string[] {
+    return this.sortState.order;
+  }
+  set shuffledOrder(value: string[]) {
+    this.sortState.order = value;
+  }
+  get viewScrollEl(): HTMLElement {
+    return this.scrollEl;
+  }
+
+  // Calendar-specific state
+  private updateLayoutRef: { current: (() => void) | null } = { current: null };
+  private calendarRef: { current: HTMLElement | null } = { current: null };
+  // Any day in the shown month/week — in memory only, reopening shows today
+  private anchor = new Date();
+  private dragState: { path: string; sourceKey: string } | null = null;
+  private dragAbortController: AbortController | null = null;
+  private swipeAbortController: AbortController | null = null;
+  private popoverCleanup: (() => void) | null = null;
+  private viewId: string | null = null;
+  private lastDataUpdateTime = { value: 0 };
+  private trailingUpdate: {
+    timeoutId: number | null;
+    callback: (() => void) | null;
+    isTrailing?: boolean;
+  } = {
+    timeoutId: null,
+    callback: null,
+  };
+
+  /** Get the current file by resolving from the leaf's view state (cached) */
+  private get currentFile(): TFile | null {
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
+    return this._resolvedFile;
+  }
+
+  constructor(controller: QueryController, scrollEl: HTMLElement) {
+    super(controller);
+
+    this.scrollEl = scrollEl;
+    // Find leaf by matching container (getLeaf() creates new leaf if pinned, activeLeaf is deprecated)
+    this.leafId = "";
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view?.containerEl?.contains(scrollEl)) {
+        this.leafId = getLeafProps(leaf).id ?? "";
+      }
+    });
+
+    this.containerEl = scrollEl.createDiv({
+      cls: "dynamic-views dynamic-views-bases-container",
+    });
+
+    // Access plugin from controller's app
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "calendar", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
+    this.cardRenderer = new SharedCardRenderer(
+      this.app,
+      this.plugin,
+      this.updateLayoutRef,
+    );
+
+    // Shift/Mod-click multi-select with bulk actions
+    this.selection = new CardSelection({
+      app: this.app,
+      focusState: this.focusState,
+      getCardsContainer: () => this.calendarRef.current,
+      getBarParent: () => this.containerEl,
+      getSourcePath: () => this.currentFile?.path ?? "",
+    });
+
+    const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
+
+    // Setup swipe interception on mobile if enabled
+    this.swipeAbortController = setupBasesSwipeInterception(
+      this.containerEl,
+      this.app,
+      pluginSettings,
+    );
+
+    // Watch for Dynamic Views Style Settings changes only
+    const disconnectObserver = setupStyleSettingsObserver(() =>
+      this.onDataUpdated(),
+    );
+    this.register(disconnectObserver);
+
+    // Setup hover-to-start keyboard navigation
+    const cleanupKeyboard = setupHoverKeyboardNavigation(
+      () => this.focusState.hoveredEl,
+      () => this.calendarRef.current,
+      (index) => {
+        this.focusState.cardIndex = index;
+      },
+      (cardEl) => this.selection.extendTo(cardEl, cardEl),
+    );
+    this.register(cleanupKeyboard);
+
+    if (this.leafId) {
+      this.scrollPreservation = new ScrollPreservation({
+        leafId: this.leafId,
+        scrollEl: this.scrollEl,
+        registerEvent: (e) => this.registerEvent(e),
+        register: (c) => this.register(c),
+        app: this.app,
+      });
+    }
+  }
+
+  onload(): void {
+    super.onload();
+  }
+
+  onDataUpdated(): void {
+    this.templateToggle.sync();
+
+    // Delay reading config - Obsidian may fire onDataUpdated before updating config.getOrder()
+    queueMicrotask(() => this.processDataUpdate());
+  }
+
+  /** Internal handler after config has settled */
+  private processDataUpdate(): void {
+    this.trailingUpdate.isTrailing = false;
+    this.trailingUpdate.callback = () => this.onDataUpdated();
+
+    if (
+      !shouldProcessDataUpdate(this.lastDataUpdateTime, this.trailingUpdate)
+    ) {
+      return;
+    }
+
+    void (async () => {
+      // Ensure all views in file have valid ids, get this view's id
+      const viewIds = await cleanupBaseFile(
+        this.app,
+        this.currentFile,
+        this.plugin,
+      );
+      const viewName = this.config?.name;
+      this.viewId = (viewName && viewIds?.get(viewName)) ?? null;
+      this.pins.load();
+
+      if (!this.data) return;
+
+      this.focusState.cardIndex = 0;
+
+      const allEntries = this.data.data;
+
+      const settings = readBasesSettings(
+        this.config,
+        this.plugin.persistenceManager.getPluginSettings(),
+        "calendar",
+        this.lastRenderedSettings ?? undefined,
+      );
+      this.lastRenderedSettings = settings;
+
+      // Normalize property names once — downstream code uses pre-normalized values
+      const reverseMap = buildDisplayToSyntaxMap(
+        this.config,
+        this.allProperties,
+      );
+      const displayNameMap = buildSyntaxToDisplayMap(
+        this.config,
+        this.allProperties,
+      );
+      normalizeSettingsPropertyNames(
+        this.app,
+        settings,
+        reverseMap,
+        displayNameMap,
+      );
+
+      applyViewContainerStyles(this.containerEl, settings);
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
+
+      const sortMethod = getSortMethod(this.config);
+      const visibleProperties = this.config.getOrder();
+      const settingsHash =
+        JSON.stringify(settings) +
+        "\0\0" +
+        visibleProperties.join("\0") +
+        "\0\0" +
+        sortMethod;
+      // Any mtime change can move a card to another day
+      const renderHash =
+        allEntries
+          .map((e: BasesEntry) => `${e.file.path}:${e.file.stat.mtime}`)
+          .join("\0") +
+        "\0\0" +
+        settingsHash +
+        "\0\0" +
+        getStyleSettingsHash() +
+        "\0\0" +
+        toDateKey(this.anchor) +
+        "\0\0" +
+        String(this.sortState.isShuffled) +
+        "\0\0" +
+        this.sortState.order.join("\0");
+
+      if (
+        renderHash === this.renderState.lastRenderHash &&
+        this.calendarRef.current?.isConnected
+      ) {
+        this.scrollPreservation?.restoreAfterRender();
+        return;
+      }
+      this.renderState.lastSettingsHash = settingsHash;
+      this.renderState.lastRenderHash = renderHash;
+
+      // Reset shuffle state if sort method changed
+      if (
+        this.sortState.lastMethod !== null &&
+        this.sortState.lastMethod !== sortMethod
+      ) {
+        this.sortState.isShuffled = false;
+        this.sortState.order = [];
+      }
+      this.sortState.lastMethod = sortMethod;
+
+      // Days ignore Bases groups — flatten them back into sort order, with
+      // pinned cards first in each day
+      const sortedEntries: BasesEntry[] = [];
+      for (const { entries } of processGroups(
+        this.data.groupedData,
+        this.sortState.isShuffled,
+        this.sortState.order,
+      )) {
+        sortedEntries.push(...entries);
+      }
+      const entriesByDay = bucketByDay(
+        this.pins.apply(sortedEntries),
+        (entry) =>
+          resolveCalendarTimestamp(
+            getFirstBasesDatePropertyValue(
+              this.app,
+              entry,
+              settings.calendarDateProperty,
+            ),
+            settings.calendarDateFallback,
+            entry.file.stat.ctime,
+            entry.file.stat.mtime,
+          ),
+      );
+
+      this.closePopover();
+      this.containerEl.empty();
+      this.cardRenderer.cleanup();
+
+      const range = settings.calendarRange;
+      const calendarEl = this.containerEl.createDiv(
+        `dynamic-views-calendar is-${range}`,
+      );
+      this.calendarRef.current = calendarEl;
+      this.focusCleanup?.();
+      this.focusCleanup = initializeContainerFocus(calendarEl);
+
+      this.renderHeader(calendarEl, range);
+
+      const weekStart = moment.localeData().firstDayOfWeek();
+      const weekdaysEl = calendarEl.createDiv(
+        "dynamic-views-calendar-weekdays",
+      );
+      for (const label of getWeekdayLabels(weekStart)) {
+        weekdaysEl.createDiv({
+          cls: "dynamic-views-calendar-weekday",
+          text: label,
+        });
+      }
+
+      const gridEl = calendarEl.createDiv("dynamic-views-calendar-grid");
+      this.setupDragAndDrop(gridEl);
+
+      clearStyleSettingsCache();
+
+      const todayKey = toDateKey(new Date());
+      const limit =
+        range === "week" ? CALENDAR_WEEK_CARD_LIMIT : CALENDAR_MONTH_CARD_LIMIT;
+      let cardIndex = 0;
+      for (const day of getCalendarDays(this.anchor, range, weekStart)) {
+        const dateKey = toDateKey(day);
+        const dayEl = gridEl.createDiv("dynamic-views-calendar-day");
+        dayEl.dataset.date = dateKey;
+        dayEl.toggleClass("is-today", dateKey === todayKey);
+        dayEl.toggleClass(
+          "is-outside-month",
+          range === "month" && day.getMonth() !== this.anchor.getMonth(),
+        );
+        dayEl.createDiv({
+          cls: "dynamic-views-calendar-day-number",
+          text: String(day.getDate()),
+        });
+
+        const entries = entriesByDay.get(dateKey) ?? [];
+        const cardsEl = dayEl.createDiv("dynamic-views-calendar-cards");
+        cardIndex += this.renderDayCards(
+          cardsEl,
+          entries.slice(0, limit),
+          cardIndex,
+          settings,
+        );
+
+        if (entries.length > limit) {
+          const moreEl = dayEl.createEl("button", {
+            cls: "dynamic-views-calendar-more",
+            text: `+${entries.length - limit}`,
+            attr: {
+              "aria-label": `Show ${entries.length - limit} more notes`,
+            },
+          });
+          moreEl.addEventListener("click", (e) => {
+            e.stopPropagation();
+            this.openDayPopover(dayEl, day, entries.slice(limit), settings);
+          });
+        }
+      }
+
+      syncResponsiveClasses(
+        Array.from(calendarEl.querySelectorAll<HTMLElement>(".card")),
+      );
+      initializeScrollGradients(calendarEl);
+      initializeTitleTruncation(calendarEl);
+      this.selection.refresh(
+        new Set(allEntries.map((entry) => entry.file.path)),
+      );
+
+      this.scrollPreservation?.restoreAfterRender();
+    })();
+  }
+
+  /** Navigation, title and month/week switch */
+  private renderHeader(calendarEl: HTMLElement, range: CalendarRange): void {
+    const headerEl = calendarEl.createDiv("dynamic-views-calendar-header");
+    const unit = range === "week" ? "week" : "month";
+
+    const navEl = headerEl.createDiv("dynamic-views-calendar-nav");
+    const prevEl = navEl.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": `Previous ${unit}` },
+    });
+    setIcon(prevEl, "chevron-left");
+    prevEl.addEventListener("click", () => {
+      this.setAnchor(shiftCalendarAnchor(this.anchor, range, -1));
+    });
+    const todayEl = navEl.createEl("button", {
+      cls: "dynamic-views-calendar-today",
+      text: "Today",
+    });
+    todayEl.addEventListener("click", () => this.setAnchor(new Date()));
+    const nextEl = navEl.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": `Next ${unit}` },
+    });
+    setIcon(nextEl, "chevron-right");
+    nextEl.addEventListener("click", () => {
+      this.setAnchor(shiftCalendarAnchor(this.anchor, range, 1));
+    });
+
+    headerEl.createDiv({
+      cls: "dynamic-views-calendar-title",
+      text: getCalendarTitle(
+        this.anchor,
+        range,
+        moment.localeData().firstDayOfWeek(),
+      ),
+    });
+
+    const rangeEl = headerEl.createDiv("dynamic-views-calendar-range");
+    for (const option of ["month", "week"] as const) {
+      const optionEl = rangeEl.createEl("button", {
+        text: option === "month" ? "Month" : "Week",
+      });
+      optionEl.toggleClass("is-active", option === range);
+      optionEl.addEventListener("click", () => {
+        if (option === range) return;
+        // Saved to the view config like any other setting
+        this.config.set("calendarRange", option);
+        this.onDataUpdated();
+      });
+    }
+  }
+
+  /** Show another month/week */
+  private setAnchor(anchor: Date): void {
+    this.anchor = anchor;
+    this.onDataUpdated();
+  }
+
+  /**
+   * Render compact cards into a day cell or popover
+   * @returns Number of cards rendered
+   */
+  private renderDayCards(
+    container: HTMLElement,
+    entries: BasesEntry[],
+    startIndex: number,
+    settings: BasesResolvedSettings,
+  ): number {
+    // Compact cards hide text previews and images, so none are loaded
+    const cards = transformBasesEntries(
+      this.app,
+      entries,
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      {},
+      {},
+      {},
+    );
+
+    for (let i = 0; i < cards.length; i++) {
+      const cardEl = this.renderCard(
+        container,
+        cards[i],
+        entries[i],
+        startIndex + i,
+        settings,
+      );
+      // Cards are always draggable between days, regardless of openFileAction
+      cardEl.draggable = true;
+    }
+    return cards.length;
+  }
+
+  private renderCard(
+    container: HTMLElement,
+    card: CardData,
+    entry: BasesEntry,
+    index: number,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    return this.cardRenderer.renderCard(container, card, entry, settings, {
+      index,
+      focusableCardIndex: this.focusState.cardIndex,
+      containerRef: this.calendarRef,
+      onFocusChange: (newIndex: number) => {
+        this.focusState.cardIndex = newIndex;
+      },
+      onHoverStart: (el: HTMLElement) => {
+        this.focusState.hoveredEl = el;
+      },
+      onHoverEnd: () => {
+        this.focusState.hoveredEl = null;
+      },
+      selection: this.selection,
+      pins: this.pins,
+    });
+  }
+
+  /** List a day's overflow cards above its cell */
+  private openDayPopover(
+    dayEl: HTMLElement,
+    day: Date,
+    entries: BasesEntry[],
+    settings: BasesResolvedSettings,
+  ): void {
+    this.closePopover();
+
+    const popoverEl = dayEl.createDiv("dynamic-views-calendar-popover");
+    const headerEl = popoverEl.createDiv(
+      "dynamic-views-calendar-popover-header",
+    );
+    headerEl.createSpan({
+      text: day.toLocaleDateString(undefined, {
+        weekday: "long",
+        month: "long",
+        day: "numeric",
+      }),
+    });
+    const closeEl = headerEl.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": "Close" },
+    });
+    setIcon(closeEl, "x");
+    closeEl.addEventListener("click", () => this.closePopover());
+
+    const cardsEl = popoverEl.createDiv("dynamic-views-calendar-cards");
+    clearStyleSettingsCache();
+    this.renderDayCards(
+      cardsEl,
+      entries,
+      this.calendarRef.current?.querySelectorAll(".card").length ?? 0,
+      settings,
+    );
+    const cards = Array.from(cardsEl.querySelectorAll<HTMLElement>(".card"));
+    syncResponsiveClasses(cards);
+    initializeTitleTruncation(cardsEl);
+
+    const cleanupClickOutside = setupClickOutside(popoverEl, () =>
+      this.closePopover(),
+    );
+    this.popoverCleanup = () => {
+      cleanupClickOutside();
+      cards.forEach((cardEl) => this.cardRenderer.releaseCard(cardEl));
+      popoverEl.remove();
+    };
+  }
+
+  private closePopover(): void {
+    const cleanup = this.popoverCleanup;
+    this.popoverCleanup = null;
+    cleanup?.();
+  }
+
+  /** Wire card drag between days (listeners live on the grid, recreated per render) */
+  private setupDragAndDrop(gridEl: HTMLElement): void {
+    this.dragAbortController?.abort();
+    this.dragAbortController = new AbortController();
+    const { signal } = this.dragAbortController;
+
+    const getDayEl = (target: EventTarget | null): HTMLElement | null =>
+      target instanceof Element
+        ? target.closest<HTMLElement>(".dynamic-views-calendar-day")
+        : null;
+
+    const clearDropTargets = () => {
+      gridEl
+        .querySelectorAll(".dynamic-views-calendar-day.is-drop-target")
+        .forEach((el) => el.removeClass("is-drop-target"));
+    };
+
+    gridEl.addEventListener(
+      "dragstart",
+      (e) => {
+        const cardEl =
+          e.target instanceof Element
+            ? e.target.closest<HTMLElement>(".card")
+            : null;
+        const dayEl = getDayEl(cardEl);
+        const path = cardEl?.dataset.path;
+        if (!cardEl || !dayEl || !path) return;
+        this.dragState = { path, sourceKey: dayEl.dataset.date ?? "" };
+        cardEl.addClass("is-dragging");
+        // Cards without a drag handler (openFileAction: title) still need a payload
+        if (e.dataTransfer && !e.dataTransfer.types.length) {
+          e.dataTransfer.setData("text/plain", path);
+        }
+      },
+      { signal },
+    );
+
+    gridEl.addEventListener(
+      "dragover",
+      (e) => {
+        if (!this.dragState) return;
+        const dayEl = getDayEl(e.target);
+        if (!dayEl || dayEl.dataset.date === this.dragState.sourceKey) return;
+        e.preventDefault();
+        if (e.dataTransfer) e.dataTransfer.dropEffect = "move";
+        if (!dayEl.hasClass("is-drop-target")) {
+          clearDropTargets();
+          dayEl.addClass("is-drop-target");
+        }
+      },
+      { signal },
+    );
+
+    gridEl.addEventListener(
+      "dragleave",
+      (e) => {
+        const dayEl = getDayEl(e.target);
+        if (dayEl && !dayEl.contains(e.relatedTarget as Node | null)) {
+          dayEl.removeClass("is-drop-target");
+        }
+      },
+      { signal },
+    );
+
+    gridEl.addEventListener(
+      "drop",
+      (e) => {
+        const dragState = this.dragState;
+        const day = parseDateKey(getDayEl(e.target)?.dataset.date ?? "");
+        clearDropTargets();
+        if (!dragState || !day) return;
+        e.preventDefault();
+        this.closePopover();
+        void this.moveCardToDay(dragState.path, day);
+      },
+      { signal },
+    );
+
+    gridEl.addEventListener(
+      "dragend",
+      () => {
+        this.dragState = null;
+        clearDropTargets();
+        gridEl
+          .querySelectorAll(".card.is-dragging")
+          .forEach((el) => el.removeClass("is-dragging"));
+      },
+      { signal },
+    );
+  }
+
+  /** Rewrite the date property so the note lands on the target day */
+  private async moveCardToDay(path: string, day: Date): Promise<void> {
+    const dateProperty = this.lastRenderedSettings?.calendarDateProperty ?? "";
+    const entry = this.data?.data.find((e) => e.file.path === path);
+    const fmProp = getWritableDateProperty(
+      dateProperty,
+      (property) =>
+        !!entry &&
+        getFirstBasesDatePropertyValue(this.app, entry, property) !== null,
+    );
+    if (!fmProp) {
+      new Notice(
+        dateProperty
+          ? "Can't move cards: the date property is not a note property"
+          : "Set a date property to move cards between days",
+      );
+      return;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return;
+
+    const current = entry
+      ? extractTimestamp(
+          getFirstBasesDatePropertyValue(this.app, entry, dateProperty),
+        )
+      : null;
+    const value = getDroppedDateValue(current, day);
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- processFrontMatter callback receives any
+        frontmatter[fmProp] = value;
+      });
+    } catch (error) {
+      console.error(`Failed to move ${path}:`, error);
+      new Notice(`Failed to update ${file.basename}`);
+    }
+  }
+
+  onunload(): void {
+    this.scrollPreservation?.cleanup();
+    if (this.trailingUpdate.timeoutId !== null) {
+      window.clearTimeout(this.trailingUpdate.timeoutId);
+    }
+    this.closePopover();
+    this.swipeAbortController?.abort();
+    this.dragAbortController?.abort();
+    this.focusCleanup?.();
+    this.selection.destroy();
+    this.cardRenderer.cleanup(true); // Force viewer cleanup on view destruction
+  }
+
+  focus(): void {
+    this.containerEl.focus({ preventScroll: true });
+  }
+}
+
+/** Export options for registration */
+export const calendarViewOptions = getCalendarViewOptions;
@@ -0,0 +1,223 @@
+/**
+ * Multi-select for Bases card views
+ * Shift-click selects a range, Mod-click toggles, Shift+arrow extends from the
+ * focused card. A sticky count bar offers bulk actions on the selection.
+ */
+
+import { App, Keymap, TFile, setIcon } from "obsidian";
+import type { FocusState } from "../types";
+import { showBulkFileContextMenu } from "../shared/context-menu";
+import { formatFileCount } from "../shared/bulk-actions";
+
+export const SELECTED_CARD_CLASS = "is-selected";
+
+/** Elements inside a card that keep their own modifier-click behavior */
+const INTERACTIVE_SELECTOR =
+  "a, input, button, select, textarea, .tag, .path-segment, .clickable-icon";
+
+/** Selection hooks used by SharedCardRenderer */
+export interface CardSelectionHandler {
+  readonly size: number;
+  isSelected(path: string): boolean;
+  /** Handle a card click; returns true when it was a selection gesture */
+  handleClick(e: MouseEvent, cardEl: HTMLElement): boolean;
+  /** Extend the selection from one card to another (Shift+arrow) */
+  extendTo(fromCard: HTMLElement, toCard: HTMLElement): void;
+  clear(): void;
+  /** Show the bulk action menu for the current selection */
+  showMenu(e: MouseEvent): void;
+}
+
+export interface CardSelectionConfig {
+  app: App;
+  focusState: FocusState;
+  /** Element whose cards define selection order */
+  getCardsContainer: () => HTMLElement | null;
+  /** Element the count bar is attached to */
+  getBarParent: () => HTMLElement | null;
+  /** Base file path, used to resolve shortest wikilinks */
+  getSourcePath: () => string;
+}
+
+export class CardSelection implements CardSelectionHandler {
+  private config: CardSelectionConfig;
+  private barEl: HTMLElement | null = null;
+  private countEl: HTMLElement | null = null;
+
+  constructor(config: CardSelectionConfig) {
+    this.config = config;
+  }
+
+  private get selected(): Set<string> {
+    return this.config.focusState.selectedPaths;
+  }
+
+  get size(): number {
+    return this.selected.size;
+  }
+
+  isSelected(path: string): boolean {
+    return this.selected.has(path);
+  }
+
+  handleClick(e: MouseEvent, cardEl: HTMLElement): boolean {
+    const path = cardEl.getAttribute("data-path");
+    if (!path) return false;
+
+    const isRange = e.shiftKey;
+    const isToggle = Keymap.isModifier(e, "Mod");
+    if (isRange || isToggle) {
+      const target = e.target as HTMLElement;
+      if (target.closest(INTERACTIVE_SELECTOR)) return false;
+      if (isRange) {
+        this.selectRange(path);
+      } else {
+        this.toggle(path);
+      }
+      return true;
+    }
+
+    // Plain click ends the selection and falls through to open the file
+    if (this.size > 0) this.clear();
+    return false;
+  }
+
+  extendTo(fromCard: HTMLElement, toCard: HTMLElement): void {
+    const fromPath = fromCard.getAttribute("data-path");
+    const toPath = toCard.getAttribute("data-path");
+    if (!fromPath || !toPath) return;
+    if (!this.config.focusState.selectionAnchor) {
+      this.config.focusState.selectionAnchor = fromPath;
+    }
+    this.selectRange(toPath);
+  }
+
+  clear(): void {
+    this.selected.clear();
+    this.config.focusState.selectionAnchor = null;
+    this.update();
+  }
+
+  showMenu(e: MouseEvent): void {
+    const files = this.getSelectedFiles();
+    if (files.length === 0) return;
+    showBulkFileContextMenu(
+      e,
+      this.config.app,
+      files,
+      this.config.getSourcePath(),
+      () => this.clear(),
+    );
+  }
+
+  /**
+   * Re-sync after a full re-render: drop paths no longer in the results,
+   * then restore card classes and the count bar
+   */
+  refresh(validPaths: Set<string>): void {
+    for (const path of this.selected) {
+      if (!validPaths.has(path)) this.selected.delete(path);
+    }
+    const anchor = this.config.focusState.selectionAnchor;
+    if (anchor && !validPaths.has(anchor)) {
+      this.config.focusState.selectionAnchor = null;
+    }
+    this.update();
+  }
+
+  destroy(): void {
+    this.barEl?.remove();
+    this.barEl = null;
+    this.countEl = null;
+  }
+
+  private toggle(path: string): void {
+    if (this.selected.has(path)) {
+      this.selected.delete(path);
+    } else {
+      this.selected.add(path);
+    }
+    this.config.focusState.selectionAnchor = path;
+    this.update();
+  }
+
+  /** Select every rendered card between the anchor and path (inclusive) */
+  private selectRange(path: string): void {
+    const anchor = this.config.focusState.selectionAnchor ?? path;
+    const paths = this.getOrderedPaths();
+    const start = paths.indexOf(anchor);
+    const end = paths.indexOf(path);
+
+    if (start === -1 || end === -1) {
+      this.selected.add(path);
+    } else {
+      const [from, to] = start <= end ? [start, end] : [end, start];
+      for (let i = from; i <= to; i++) {
+        this.selected.add(paths[i]);
+      }
+    }
+    this.config.focusState.selectionAnchor = anchor;
+    this.update();
+  }
+
+  private getOrderedPaths(): string[] {
+    const container = this.config.getCardsContainer();
+    if (!container) return [];
+    return Array.from(
+      container.querySelectorAll<HTMLElement>(".card[data-path]"),
+    ).map((cardEl) => cardEl.getAttribute("data-path") ?? "");
+  }
+
+  private getSelectedFiles(): TFile[] {
+    const files: TFile[] = [];
+    for (const path of this.selected) {
+      const file = this.config.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) files.push(file);
+    }
+    return files;
+  }
+
+  /** Sync card classes and the count bar with the selection */
+  private update(): void {
+    const container = this.config.getCardsContainer();
+    container
+      ?.querySelectorAll<HTMLElement>(".card[data-path]")
+      .forEach((cardEl) => {
+        cardEl.classList.toggle(
+          SELECTED_CARD_CLASS,
+          this.selected.has(cardEl.getAttribute("data-path") ?? ""),
+        );
+      });
+    this.renderBar();
+  }
+
+  private renderBar(): void {
+    const parent = this.config.getBarParent();
+    if (this.size === 0 || !parent) {
+      this.destroy();
+      return;
+    }
+
+    // Re-create after the view was emptied for a re-render
+    if (!this.barEl || this.barEl.parentElement !== parent) {
+      this.barEl?.remove();
+      this.barEl = parent.createDiv("dynamic-views-selection-bar");
+      this.countEl = this.barEl.createSpan("dynamic-views-selection-count");
+
+      const actionsBtn = this.barEl.createEl("button", {
+        text: "Actions",
+        cls: "dynamic-views-selection-actions",
+      });
+      actionsBtn.addEventListener("click", (e) => this.showMenu(e));
+
+      const clearBtn = this.barEl.createDiv({
+        cls: "clickable-icon dynamic-views-selection-clear",
+        attr: { "aria-label": "Clear selection" },
+      });
+      setIcon(clearBtn, "lucide-x");
+      clearBtn.addEventListener("click", () => this.clear());
+    }
+
+    this.countEl?.setText(`${formatFileCount(this.size)} selected`);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Windowed card rendering for large Bases views
+ * Cards far outside the viewport are swapped for empty placeholders that keep
+ * their size and position, then re-rendered from ContentCache on return
+ */
+
+import type { BasesEntry } from "obsidian";
+import {
+  VIRTUAL_WINDOW_PANES,
+  VIRTUALIZE_MIN_CARDS,
+} from "../shared/constants";
+
+/** Class marking an empty stand-in for a released card */
+export const VIRTUALIZED_CARD_CLASS = "card-virtualized";
+
+/** Classes carried across the swap so layout CSS keeps applying */
+const PRESERVED_CLASSES = ["masonry-positioned"];
+
+interface VirtualCardRecord {
+  entry: BasesEntry;
+  index: number;
+}
+
+export interface CardVirtualizerConfig {
+  scrollEl: HTMLElement;
+  /** Render a fresh card for the entry, appended to container */
+  renderCard: (
+    container: HTMLElement,
+    entry: BasesEntry,
+    index: number,
+  ) => HTMLElement;
+  /** Free a card's observers and listeners before it leaves the DOM */
+  releaseCard: (cardEl: HTMLElement) => void;
+  /** Whether a card has settled into its final position (e.g. masonry) */
+  canRelease?: (cardEl: HTMLElement) => boolean;
+  /** Called after placeholders are swapped back for rendered cards */
+  onRestore?: (cards: HTMLElement[], heightChanged: boolean) => void;
+}
+
+export class CardVirtualizer {
+  private config: CardVirtualizerConfig;
+  private records = new Map<HTMLElement, VirtualCardRecord>();
+  private observer: IntersectionObserver;
+
+  constructor(config: CardVirtualizerConfig) {
+    this.config = config;
+    this.observer = new IntersectionObserver(
+      (entries) => this.handleIntersections(entries),
+      {
+        root: config.scrollEl,
+        rootMargin: `${VIRTUAL_WINDOW_PANES * 100}% 0px`,
+      },
+    );
+  }
+
+  /** Start tracking a rendered card so it can be released when off-screen */
+  track(cardEl: HTMLElement, entry: BasesEntry, index: number): void {
+    this.records.set(cardEl, { entry, index });
+    this.observer.observe(cardEl);
+  }
+
+  /** Forget all cards (full re-render or view teardown) */
+  reset(): void {
+    this.observer.disconnect();
+    this.records.clear();
+  }
+
+  private handleIntersections(entries: IntersectionObserverEntry[]): void {
+    const restored: HTMLElement[] = [];
+    const placeholderHeights: number[] = [];
+
+    for (const entry of entries) {
+      const el = entry.target as HTMLElement;
+      if (!this.records.has(el) || !el.isConnected) continue;
+      const isPlaceholder = el.classList.contains(VIRTUALIZED_CARD_CLASS);
+
+      if (entry.isIntersecting && isPlaceholder) {
+        const cardEl = this.restore(el);
+        if (!cardEl) continue;
+        restored.push(cardEl);
+        placeholderHeights.push(Math.round(entry.boundingClientRect.height));
+      } else if (!entry.isIntersecting && !isPlaceholder) {
+        if (this.records.size < VIRTUALIZE_MIN_CARDS) continue;
+        this.release(el, entry.boundingClientRect.height);
+      }
+    }
+
+    if (restored.length > 0) {
+      // Read heights after all swaps (single reflow)
+      const heightChanged = restored.some(
+        (cardEl, i) => cardEl.offsetHeight !== placeholderHeights[i],
+      );
+      this.config.onRestore?.(restored, heightChanged);
+    }
+  }
+
+  /** Swap a card for a placeholder of the same size */
+  private release(cardEl: HTMLElement, height: number): void {
+    // Keep cards the user is interacting with
+    if (cardEl.contains(document.activeElement) || cardEl.matches(":hover")) {
+      return;
+    }
+    if (this.config.canRelease && !this.config.canRelease(cardEl)) return;
+    const record = this.records.get(cardEl);
+    if (!record || height <= 0) return;
+
+    const placeholder = document.createElement("div");
+    placeholder.className = `card ${VIRTUALIZED_CARD_CLASS}`;
+    // Focusable so arrow navigation can land here before it's restored
+    placeholder.tabIndex = -1;
+    const path = cardEl.getAttribute("data-path");
+    if (path !== null) placeholder.setAttribute("data-path", path);
+    copyLayoutState(cardEl, placeholder);
+    placeholder.style.setProperty(
+      "--dynamic-views-virtual-height",
+      `${height}px`,
+    );
+
+    this.config.releaseCard(cardEl);
+    this.observer.unobserve(cardEl);
+    this.records.delete(cardEl);
+    cardEl.replaceWith(placeholder);
+
+    this.records.set(placeholder, record);
+    this.observer.observe(placeholder);
+  }
+
+  /** Re-render a placeholder's card in place */
+  private restore(placeholder: HTMLElement): HTMLElement | null {
+    const record = this.records.get(placeholder);
+    const container = placeholder.parentElement;
+    if (!record || !container) return null;
+
+    const hadFocus = document.activeElement === placeholder;
+    const cardEl = this.config.renderCard(
+      container,
+      record.entry,
+      record.index,
+    );
+    copyLayoutState(placeholder, cardEl);
+    placeholder.replaceWith(cardEl);
+
+    this.observer.unobserve(placeholder);
+    this.records.delete(placeholder);
+    this.records.set(cardEl, record);
+    this.observer.observe(cardEl);
+
+    if (hadFocus) cardEl.focus({ preventScroll: true });
+    return cardEl;
+  }
+}
+
+/** Copy masonry position/size custom properties and layout classes */
+function copyLayoutState(from: HTMLElement, to: HTMLElement): void {
+  for (let i = 0; i < from.style.length; i++) {
+    const prop = from.style[i];
+    if (prop.startsWith("--masonry-")) {
+      to.style.setProperty(prop, from.style.getPropertyValue(prop));
+    }
+  }
+  for (const cls of PRESERVED_CLASSES) {
+    to.classList.toggle(cls, from.classList.contains(cls));
+  }
+}
@@ -0,0 +1,837 @@
+/**
+ * Bases Carousel View
+ * Lays out each group as one horizontally scrolling row of cards with snap
+ * points and arrow buttons; compact enough for bases embedded in dashboards
+ */
+
+import {
+  BasesEntry,
+  BasesEntryGroup,
+  BasesView,
+  QueryController,
+  TFile,
+  setIcon,
+} from "obsidian";
+import { CardData } from "../shared/card-renderer";
+import { transformBasesEntries } from "../shared/data-transform";
+import {
+  readBasesSettings,
+  getCarouselViewOptions,
+} from "../shared/settings-schema";
+import { clearStyleSettingsCache } from "../utils/style-settings";
+import { initializeScrollGradients } from "../shared/scroll-gradient";
+import {
+  SharedCardRenderer,
+  initializeTitleTruncation,
+  syncResponsiveClasses,
+  applyViewContainerStyles,
+} from "./shared-renderer";
+import { CardSelection } from "./card-selection";
+import {
+  getCarouselArrowState,
+  planCarouselRows,
+  setupCarouselNavigation,
+  type CarouselRowPlan,
+} from "./carousel";
+import {
+  CAROUSEL_ROW_BATCH_SIZE,
+  PANE_MULTIPLIER,
+  SCROLL_THROTTLE_MS,
+} from "../shared/constants";
+import {
+  setupBasesSwipeInterception,
+  setupStyleSettingsObserver,
+  getStyleSettingsHash,
+  getSortMethod,
+  loadContentForEntries,
+  processGroups,
+  renderGroupHeader,
+  hasGroupBy,
+  serializeGroupKey,
+  setGroupKeyDataset,
+  UNDEFINED_GROUP_KEY_SENTINEL,
+  cleanupBaseFile,
+  shouldProcessDataUpdate,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
+} from "./utils";
+import {
+  initializeContainerFocus,
+  setupHoverKeyboardNavigation,
+} from "../shared/keyboard-nav";
+import {
+  ScrollPreservation,
+  getLeafProps,
+} from "../shared/scroll-preservation";
+import {
+  buildDisplayToSyntaxMap,
+  buildSyntaxToDisplayMap,
+  normalizeSettingsPropertyNames,
+} from "../utils/property";
+import {
+  parseGroupSummaries,
+  renderGroupSummaries,
+  type GroupSummary,
+} from "./group-summaries";
+import type DynamicViews from "../../main";
+import type {
+  BasesResolvedSettings,
+  ContentCache,
+  RenderState,
+  SortState,
+  FocusState,
+} from "../types";
+
+export const CAROUSEL_VIEW_TYPE = "dynamic-views-carousel";
+
+/** Per-row render state */
+interface CarouselRow {
+  group: BasesEntryGroup;
+  collapseKey: string;
+  entries: BasesEntry[];
+  rowEl: HTMLElement;
+  trackEl: HTMLElement;
+  /** Arrow navigation stays within the row (see renderCard) */
+  trackRef: { current: HTMLElement | null };
+  rendered: number;
+  /** Sync arrow button states with the track's scroll position */
+  updateArrows: () => void;
+}
+
+export class DynamicViewsCarouselView extends BasesView {
+  readonly type = CAROUSEL_VIEW_TYPE;
+  private scrollEl: HTMLElement;
+  private leafId: string;
+  private containerEl: HTMLElement;
+  private plugin: DynamicViews;
+  private _resolvedFile: TFile | null | undefined = undefined;
+  private _collapsedGroupsLoaded = false;
+  private scrollPreservation: ScrollPreservation | null = null;
+  private cardRenderer: SharedCardRenderer;
+  private selection: CardSelection;
+  private _previousCustomClasses: string[] = [];
+
+  // Consolidated state objects (shared patterns with grid-view)
+  private contentCache: ContentCache = {
+    textPreviews: {},
+    images: {},
+    hasImageAvailable: {},
+  };
+  private renderState: RenderState = {
+    version: 0,
+    abortController: null,
+    lastRenderHash: "",
+    lastSettingsHash: null,
+    lastMtimes: new Map(),
+  };
+  // Track last rendered settings to detect stale config (see readBasesSettings)
+  private lastRenderedSettings: BasesResolvedSettings | null = null;
+  private sortState: SortState = {
+    isShuffled: false,
+    order: [],
+    lastMethod: null,
+  };
+  private focusState: FocusState = {
+    cardIndex: 0,
+    hoveredEl: null,
+    selectedPaths: new Set(),
+    selectionAnchor: null,
+  };
+  private focusCleanups: (() => void)[] = [];
+  // Pinned cards render first (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private templateToggle: TemplateToggle;
+
+  // Public accessors for sortState (used by randomize.ts)
+  get isShuffled(): boolean {
+    return this.sortState.isShuffled;
+  }
+  set isShuffled(value: boolean) {
+    this.sortState.isShuffled = value;
+  }
+  get shuffledOrder(): string[] {
+    return this.sortState.order;
+  }
+  set shuffledOrder(value: string[]) {
+    this.sortState.order = value;
+  }
+  get viewScrollEl(): HTMLElement {
+    return this.scrollEl;
+  }
+
+  // Carousel-specific state
+  private updateLayoutRef: { current: (() => void) | null } = { current: null };
+  private carouselRef: { current: HTMLElement | null } = { current: null };
+  private rows: CarouselRow[] = [];
+  // Rendered card count per row — survives re-renders so updates keep scroll depth
+  private rowRenderCounts: Map<string, number> = new Map();
+  // Listeners on row tracks, recreated per render
+  private rowsAbortController: AbortController | null = null;
+  private swipeAbortController: AbortController | null = null;
+  private collapsedGroups: Set<string> = new Set();
+  private viewId: string | null = null;
+  private lastDataUpdateTime = { value: 0 };
+  private trailingUpdate: {
+    timeoutId: number | null;
+    callback: (() => void) | null;
+    isTrailing?: boolean;
+  } = {
+    timeoutId: null,
+    callback: null,
+  };
+
+  /** Get the current file by resolving from the leaf's view state (cached) */
+  private get currentFile(): TFile | null {
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
+    return this._resolvedFile;
+  }
+
+  /** Get the collapse key for a group (sentinel for undefined keys) */
+  private getCollapseKey(groupKey: string | undefined): string {
+    return groupKey ?? UNDEFINED_GROUP_KEY_SENTINEL;
+  }
+
+  /** Persist collapse state (async — in-memory state is authoritative) */
+  private persistCollapsedGroups(): void {
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      {
+        collapsedGroups: Array.from(this.collapsedGroups),
+      },
+    );
+  }
+
+  /** Toggle collapse state for a row and persist */
+  private toggleGroupCollapse(row: CarouselRow, headerEl: HTMLElement) {
+    const wasCollapsed = this.collapsedGroups.has(row.collapseKey);
+    if (wasCollapsed) {
+      this.collapsedGroups.delete(row.collapseKey);
+    } else {
+      this.collapsedGroups.add(row.collapseKey);
+    }
+    headerEl.toggleClass("collapsed", !wasCollapsed);
+    row.rowEl.toggleClass("collapsed", !wasCollapsed);
+    this.persistCollapsedGroups();
+
+    if (wasCollapsed) {
+      // Expanding: surgically populate only this row (avoids full re-render flash)
+      void this.appendRowCards(
+        row,
+        this.rowRenderCounts.get(row.collapseKey) ?? CAROUSEL_ROW_BATCH_SIZE,
+      );
+    } else {
+      row.trackEl.empty();
+      row.rendered = 0;
+    }
+    // Invalidate render hash so next onDataUpdated() doesn't skip
+    this.renderState.lastRenderHash = "";
+  }
+
+  /** Whether this view has grouped data */
+  public get isGrouped(): boolean {
+    return hasGroupBy(this.config) && (this.data?.groupedData?.length ?? 0) > 0;
+  }
+
+  /** Fold all groups — called by command palette */
+  public foldAllGroups(): void {
+    if (!this.data) return;
+    for (const g of this.data.groupedData) {
+      const groupKey = g.hasKey() ? serializeGroupKey(g.key) : undefined;
+      this.collapsedGroups.add(this.getCollapseKey(groupKey));
+    }
+    this.persistCollapsedGroups();
+    this.renderState.lastRenderHash = "";
+    this.onDataUpdated();
+  }
+
+  /** Unfold all groups — called by command palette */
+  public unfoldAllGroups(): void {
+    this.collapsedGroups.clear();
+    this.persistCollapsedGroups();
+    this.onDataUpdated();
+  }
+
+  constructor(controller: QueryController, scrollEl: HTMLElement) {
+    super(controller);
+
+    this.scrollEl = scrollEl;
+    // Find leaf by matching container (getLeaf() creates new leaf if pinned, activeLeaf is deprecated)
+    this.leafId = "";
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view?.containerEl?.contains(scrollEl)) {
+        this.leafId = getLeafProps(leaf).id ?? "";
+      }
+    });
+
+    this.containerEl = scrollEl.createDiv({
+      cls: "dynamic-views dynamic-views-bases-container",
+    });
+
+    // Access plugin from controller's app
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "carousel", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
+    this.cardRenderer = new SharedCardRenderer(
+      this.app,
+      this.plugin,
+      this.updateLayoutRef,
+    );
+
+    // Shift/Mod-click multi-select with bulk actions
+    this.selection = new CardSelection({
+      app: this.app,
+      focusState: this.focusState,
+      getCardsContainer: () => this.carouselRef.current,
+      getBarParent: () => this.containerEl,
+      getSourcePath: () => this.currentFile?.path ?? "",
+    });
+
+    const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
+
+    // Setup swipe interception on mobile if enabled
+    this.swipeAbortController = setupBasesSwipeInterception(
+      this.containerEl,
+      this.app,
+      pluginSettings,
+    );
+
+    // Watch for Dynamic Views Style Settings changes only
+    const disconnectObserver = setupStyleSettingsObserver(() =>
+      this.onDataUpdated(),
+    );
+    this.register(disconnectObserver);
+
+    // Setup hover-to-start keyboard navigation (scoped to the hovered row)
+    const cleanupKeyboard = setupHoverKeyboardNavigation(
+      () => this.focusState.hoveredEl,
+      () =>
+        this.focusState.hoveredEl?.closest<HTMLElement>(
+          ".dynamic-views-carousel-track",
+        ) ?? null,
+      (index) => {
+        this.focusState.cardIndex = index;
+      },
+      (cardEl) => this.selection.extendTo(cardEl, cardEl),
+    );
+    this.register(cleanupKeyboard);
+
+    if (this.leafId) {
+      this.scrollPreservation = new ScrollPreservation({
+        leafId: this.leafId,
+        scrollEl: this.scrollEl,
+        registerEvent: (e) => this.registerEvent(e),
+        register: (c) => this.register(c),
+        app: this.app,
+      });
+    }
+  }
+
+  onload(): void {
+    super.onload();
+  }
+
+  onDataUpdated(): void {
+    this.templateToggle.sync();
+
+    // Delay reading config - Obsidian may fire onDataUpdated before updating config.getOrder()
+    queueMicrotask(() => this.processDataUpdate());
+  }
+
+  /** Internal handler after config has settled */
+  private processDataUpdate(): void {
+    this.trailingUpdate.isTrailing = false;
+    this.trailingUpdate.callback = () => this.onDataUpdated();
+
+    if (
+      !shouldProcessDataUpdate(this.lastDataUpdateTime, this.trailingUpdate)
+    ) {
+      return;
+    }
+
+    void (async () => {
+      // Ensure all views in file have valid ids, get this view's id
+      const viewIds = await cleanupBaseFile(
+        this.app,
+        this.currentFile,
+        this.plugin,
+      );
+      const viewName = this.config?.name;
+      this.viewId = (viewName && viewIds?.get(viewName)) ?? null;
+
+      // Load collapsed groups from persisted UI state only on first render
+      // (see grid-view for why the in-memory Set is authoritative afterwards)
+      if (!this._collapsedGroupsLoaded) {
+        const basesState = this.plugin.persistenceManager.getBasesState(
+          this.viewId ?? undefined,
+        );
+        this.collapsedGroups = new Set(basesState.collapsedGroups ?? []);
+        this.pins.load();
+        this._collapsedGroupsLoaded = true;
+      }
+
+      if (!this.data) return;
+
+      // Increment render version to cancel any in-flight stale renders
+      this.renderState.version++;
+      const currentVersion = this.renderState.version;
+      this.renderState.abortController?.abort();
+      this.renderState.abortController = new AbortController();
+
+      this.focusState.cardIndex = 0;
+
+      const groupedData = this.data.groupedData;
+      const allEntries = this.data.data;
+
+      const settings = this.readSettings();
+      this.lastRenderedSettings = settings;
+
+      applyViewContainerStyles(this.containerEl, settings);
+      this.containerEl.style.setProperty(
+        "--dynamic-views-carousel-card-width",
+        `${settings.cardSize}px`,
+      );
+      this.containerEl.style.setProperty(
+        "--dynamic-views-image-aspect-ratio",
+        String(settings.imageRatio),
+      );
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
+
+      const groupByProperty = hasGroupBy(this.config)
+        ? this.config.groupBy?.property
+        : undefined;
+      const sortMethod = getSortMethod(this.config);
+      const visibleProperties = this.config.getOrder();
+      const settingsHash =
+        JSON.stringify(settings) +
+        "\0\0" +
+        visibleProperties.join("\0") +
+        "\0\0" +
+        sortMethod +
+        "\0\0" +
+        (groupByProperty ?? "");
+      const renderHash =
+        allEntries
+          .map((e: BasesEntry) => `${e.file.path}:${e.file.stat.mtime}`)
+          .join("\0") +
+        "\0\0" +
+        settingsHash +
+        "\0\0" +
+        getStyleSettingsHash() +
+        "\0\0" +
+        Array.from(this.collapsedGroups).sort().join("\0") +
+        "\0\0" +
+        String(this.sortState.isShuffled) +
+        "\0\0" +
+        this.sortState.order.join("\0");
+
+      if (
+        renderHash === this.renderState.lastRenderHash &&
+        this.carouselRef.current?.isConnected
+      ) {
+        this.scrollPreservation?.restoreAfterRender();
+        return;
+      }
+
+      const settingsChanged =
+        this.renderState.lastSettingsHash !== null &&
+        this.renderState.lastSettingsHash !== settingsHash;
+      if (settingsChanged) {
+        this.contentCache.textPreviews = {};
+        this.contentCache.images = {};
+        this.contentCache.hasImageAvailable = {};
+        this.rowRenderCounts.clear();
+      } else {
+        // Drop cached content for modified files only
+        for (const entry of allEntries) {
+          const lastMtime = this.renderState.lastMtimes.get(entry.file.path);
+          if (lastMtime !== undefined && lastMtime !== entry.file.stat.mtime) {
+            delete this.contentCache.textPreviews[entry.file.path];
+            delete this.contentCache.images[entry.file.path];
+            delete this.contentCache.hasImageAvailable[entry.file.path];
+          }
+        }
+      }
+      this.renderState.lastMtimes.clear();
+      for (const entry of allEntries) {
+        this.renderState.lastMtimes.set(entry.file.path, entry.file.stat.mtime);
+      }
+      this.renderState.lastSettingsHash = settingsHash;
+      this.renderState.lastRenderHash = renderHash;
+
+      // Reset shuffle state if sort method changed
+      if (
+        this.sortState.lastMethod !== null &&
+        this.sortState.lastMethod !== sortMethod
+      ) {
+        this.sortState.isShuffled = false;
+        this.sortState.order = [];
+      }
+      this.sortState.lastMethod = sortMethod;
+
+      const isGrouped = !!groupByProperty;
+      const rowPlans = planCarouselRows(
+        processGroups(
+          groupedData,
+          this.sortState.isShuffled,
+          this.sortState.order,
+        ).map(({ group, entries }) => ({
+          group,
+          entries: this.pins.apply(entries),
+        })),
+        isGrouped,
+        this.collapsedGroups,
+        this.rowRenderCounts,
+      );
+
+      await loadContentForEntries(
+        rowPlans.flatMap((plan) => plan.initialEntries),
+        settings,
+        this.app,
+        this.contentCache.textPreviews,
+        this.contentCache.images,
+        this.contentCache.hasImageAvailable,
+      );
+
+      if (
+        this.renderState.version !== currentVersion ||
+        this.renderState.abortController?.signal.aborted
+      ) {
+        return;
+      }
+
+      // Preserve height during clear to prevent parent scroll reset
+      const currentHeight = this.containerEl.scrollHeight;
+      this.containerEl.setCssProps({
+        "--dynamic-views-preserve-height": `${currentHeight}px`,
+      });
+      this.containerEl.addClass("dynamic-views-height-preserved");
+      // Each row keeps its horizontal position across re-renders
+      const previousScrollLefts = new Map(
+        this.rows.map((row) => [row.collapseKey, row.trackEl.scrollLeft]),
+      );
+
+      this.containerEl.empty();
+      this.cardRenderer.cleanup();
+      this.rows = [];
+      this.rowsAbortController?.abort();
+      this.rowsAbortController = new AbortController();
+      this.focusCleanups.forEach((cleanup) => cleanup());
+      this.focusCleanups = [];
+      this.containerEl.toggleClass("is-grouped", isGrouped);
+
+      const carouselEl = this.containerEl.createDiv("dynamic-views-carousel");
+      this.carouselRef.current = carouselEl;
+
+      clearStyleSettingsCache();
+
+      const groupSummaries = parseGroupSummaries(settings.groupSummaries);
+      let cardIndex = 0;
+      for (const plan of rowPlans) {
+        const row = this.renderRow(carouselEl, plan, groupSummaries);
+        setGroupKeyDataset(row.rowEl, plan.groupKey);
+
+        if (plan.isCollapsed) continue;
+
+        cardIndex += this.renderRowCards(
+          row,
+          plan.initialEntries,
+          cardIndex,
+          settings,
+        );
+        row.trackEl.scrollLeft = previousScrollLefts.get(plan.collapseKey) ?? 0;
+        row.updateArrows();
+      }
+
+      syncResponsiveClasses(
+        Array.from(carouselEl.querySelectorAll<HTMLElement>(".card")),
+      );
+      initializeScrollGradients(carouselEl);
+      initializeTitleTruncation(carouselEl);
+      this.selection.refresh(
+        new Set(allEntries.map((entry) => entry.file.path)),
+      );
+
+      this.scrollPreservation?.restoreAfterRender();
+      this.containerEl.removeClass("dynamic-views-height-preserved");
+
+      // Clear skip-cover-fade after cached image load events have fired
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => {
+          this.scrollEl
+            .closest(".workspace-leaf-content")
+            ?.classList.remove("skip-cover-fade");
+        });
+      });
+    })();
+  }
+
+  /** Resolve settings with property names normalized to syntax names */
+  private readSettings(): BasesResolvedSettings {
+    const settings = readBasesSettings(
+      this.config,
+      this.plugin.persistenceManager.getPluginSettings(),
+      "carousel",
+      this.lastRenderedSettings ?? undefined,
+    );
+    const reverseMap = buildDisplayToSyntaxMap(this.config, this.allProperties);
+    const displayNameMap = buildSyntaxToDisplayMap(
+      this.config,
+      this.allProperties,
+    );
+    normalizeSettingsPropertyNames(
+      this.app,
+      settings,
+      reverseMap,
+      displayNameMap,
+    );
+    return settings;
+  }
+
+  /**
+   * Row shell: group header, arrow buttons and the scrolling track
+   * Buttons and swipes move a page at a time; snap points align the cards.
+   */
+  private renderRow(
+    carouselEl: HTMLElement,
+    plan: CarouselRowPlan,
+    groupSummaries: GroupSummary[],
+  ): CarouselRow {
+    const { group, collapseKey, entries, isCollapsed } = plan;
+    const { signal } = this.rowsAbortController!;
+    const rowEl = carouselEl.createDiv("dynamic-views-carousel-row");
+    rowEl.toggleClass("collapsed", isCollapsed);
+
+    const viewportEl = rowEl.createDiv("dynamic-views-carousel-viewport");
+    const prevEl = viewportEl.createEl("button", {
+      cls: "dynamic-views-carousel-arrow is-prev",
+      attr: { "aria-label": "Previous" },
+    });
+    setIcon(prevEl, "chevron-left");
+    const trackEl = viewportEl.createDiv(
+      "dynamic-views-group bases-cards-group dynamic-views-carousel-track",
+    );
+    const nextEl = viewportEl.createEl("button", {
+      cls: "dynamic-views-carousel-arrow is-next",
+      attr: { "aria-label": "Next" },
+    });
+    setIcon(nextEl, "chevron-right");
+
+    const row: CarouselRow = {
+      group,
+      collapseKey,
+      entries,
+      rowEl,
+      trackEl,
+      trackRef: { current: trackEl },
+      rendered: 0,
+      updateArrows: () => {
+        const { atStart, atEnd } = getCarouselArrowState(
+          trackEl,
+          row.rendered >= row.entries.length,
+        );
+        prevEl.toggleClass("is-disabled", atStart);
+        nextEl.toggleClass("is-disabled", atEnd);
+      },
+    };
+    this.rows.push(row);
+
+    const headerEl = renderGroupHeader(
+      rowEl,
+      group,
+      this.config,
+      this.app,
+      entries.length,
+      isCollapsed,
+      () => {
+        if (headerEl) this.toggleGroupCollapse(row, headerEl);
+      },
+    );
+    // Header must precede the track (renderGroupHeader appends)
+    if (headerEl) {
+      rowEl.insertBefore(headerEl, viewportEl);
+      renderGroupSummaries(
+        headerEl,
+        this.app,
+        this.config,
+        entries,
+        groupSummaries,
+      );
+    }
+
+    this.focusCleanups.push(initializeContainerFocus(trackEl));
+
+    setupCarouselNavigation(trackEl, prevEl, nextEl, signal);
+
+    // Load more as the end of the row comes into range
+    let scrollTimeoutId: number | null = null;
+    const checkAndLoad = () => {
+      row.updateArrows();
+      if (
+        !trackEl.isConnected ||
+        rowEl.hasClass("collapsed") ||
+        row.rendered === 0 ||
+        row.rendered >= row.entries.length
+      ) {
+        return;
+      }
+      if (
+        trackEl.scrollWidth - trackEl.scrollLeft <
+        trackEl.clientWidth * PANE_MULTIPLIER
+      ) {
+        void this.appendRowCards(row, CAROUSEL_ROW_BATCH_SIZE);
+      }
+    };
+    trackEl.addEventListener(
+      "scroll",
+      () => {
+        if (scrollTimeoutId !== null) return;
+        checkAndLoad();
+        scrollTimeoutId = window.setTimeout(() => {
+          scrollTimeoutId = null;
+          checkAndLoad(); // Trailing call catches scroll position changes during throttle
+        }, SCROLL_THROTTLE_MS);
+      },
+      { passive: true, signal },
+    );
+    signal.addEventListener("abort", () => {
+      if (scrollTimeoutId !== null) window.clearTimeout(scrollTimeoutId);
+    });
+
+    return row;
+  }
+
+  /**
+   * Render cards into a row
+   * @returns Number of cards rendered
+   */
+  private renderRowCards(
+    row: CarouselRow,
+    entries: BasesEntry[],
+    startIndex: number,
+    settings: BasesResolvedSettings,
+  ): number {
+    const cards = transformBasesEntries(
+      this.app,
+      entries,
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+
+    for (let i = 0; i < cards.length; i++) {
+      this.renderCard(row, cards[i], entries[i], startIndex + i, settings);
+    }
+    row.rendered += cards.length;
+    return cards.length;
+  }
+
+  /** Load and append the next cards of a row (infinite scroll, expand) */
+  private async appendRowCards(
+    row: CarouselRow,
+    batchSize: number,
+  ): Promise<void> {
+    const start = row.rendered;
+    const newEntries = row.entries.slice(start, start + batchSize);
+    if (newEntries.length === 0) return;
+    const currentVersion = this.renderState.version;
+    const settings = this.readSettings();
+
+    await loadContentForEntries(
+      newEntries,
+      settings,
+      this.app,
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+
+    // Bail if a new render started or the row was re-rendered during loading
+    if (
+      this.renderState.version !== currentVersion ||
+      row.rendered !== start ||
+      !row.trackEl.isConnected
+    ) {
+      return;
+    }
+
+    clearStyleSettingsCache();
+    const startIndex =
+      this.carouselRef.current?.querySelectorAll(".card").length ?? 0;
+    this.renderRowCards(row, newEntries, startIndex, settings);
+    this.rowRenderCounts.set(row.collapseKey, row.rendered);
+
+    syncResponsiveClasses(
+      Array.from(row.trackEl.querySelectorAll<HTMLElement>(".card")),
+    );
+    initializeScrollGradients(row.trackEl);
+    initializeTitleTruncation(row.trackEl);
+    row.updateArrows();
+  }
+
+  private renderCard(
+    row: CarouselRow,
+    card: CardData,
+    entry: BasesEntry,
+    index: number,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    return this.cardRenderer.renderCard(row.trackEl, card, entry, settings, {
+      index,
+      focusableCardIndex: this.focusState.cardIndex,
+      // Left/right arrows step through this row's cards only
+      containerRef: row.trackRef,
+      onFocusChange: (newIndex: number) => {
+        this.focusState.cardIndex = newIndex;
+      },
+      onHoverStart: (el: HTMLElement) => {
+        this.focusState.hoveredEl = el;
+      },
+      onHoverEnd: () => {
+        this.focusState.hoveredEl = null;
+      },
+      selection: this.selection,
+      pins: this.pins,
+    });
+  }
+
+  onunload(): void {
+    this.scrollPreservation?.cleanup();
+    if (this.trailingUpdate.timeoutId !== null) {
+      window.clearTimeout(this.trailingUpdate.timeoutId);
+    }
+    this.rowsAbortController?.abort();
+    this.swipeAbortController?.abort();
+    this.renderState.abortController?.abort();
+    this.focusCleanups.forEach((cleanup) => cleanup());
+    this.selection.destroy();
+    this.cardRenderer.cleanup(true); // Force viewer cleanup on view destruction
+  }
+
+  focus(): void {
+    this.containerEl.focus({ preventScroll: true });
+  }
+}
+
+/** Export options for registration */
+export const carouselViewOptions = getCarouselViewOptions;
@@ -0,0 +1,83 @@
+/**
+ * Carousel view helpers
+ * Row planning, arrow state and page navigation for carousel-view
+ */
+
+import type { BasesEntry, BasesEntryGroup } from "obsidian";
+import { setupSwipeGestures } from "../shared/slideshow";
+import { CAROUSEL_ROW_BATCH_SIZE, SCROLL_TOLERANCE } from "../shared/constants";
+import { serializeGroupKey, UNDEFINED_GROUP_KEY_SENTINEL } from "./utils";
+
+/** One row per group, before rendering */
+export interface CarouselRowPlan {
+  group: BasesEntryGroup;
+  groupKey: string | undefined;
+  /** Collapse and render-count key (sentinel for undefined group keys) */
+  collapseKey: string;
+  entries: BasesEntry[];
+  isCollapsed: boolean;
+  /** Entries rendered up front (none while collapsed) */
+  initialEntries: BasesEntry[];
+}
+
+/**
+ * Plan one row per group
+ * Rows keep the card count they had scrolled to (rowRenderCounts); collapse
+ * only applies when the view is grouped.
+ */
+export function planCarouselRows(
+  groups: Array<{ group: BasesEntryGroup; entries: BasesEntry[] }>,
+  isGrouped: boolean,
+  collapsedGroups: Set<string>,
+  rowRenderCounts: Map<string, number>,
+): CarouselRowPlan[] {
+  return groups.map(({ group, entries }) => {
+    const groupKey = group.hasKey() ? serializeGroupKey(group.key) : undefined;
+    const collapseKey = groupKey ?? UNDEFINED_GROUP_KEY_SENTINEL;
+    const isCollapsed = isGrouped && collapsedGroups.has(collapseKey);
+    const count = rowRenderCounts.get(collapseKey) ?? CAROUSEL_ROW_BATCH_SIZE;
+    return {
+      group,
+      groupKey,
+      collapseKey,
+      entries,
+      isCollapsed,
+      initialEntries: isCollapsed ? [] : entries.slice(0, count),
+    };
+  });
+}
+
+/**
+ * Which ends of a row its track is scrolled to
+ * The end only counts once every card of the row is rendered.
+ */
+export function getCarouselArrowState(
+  trackEl: Pick<HTMLElement, "scrollLeft" | "clientWidth" | "scrollWidth">,
+  allRendered: boolean,
+): { atStart: boolean; atEnd: boolean } {
+  return {
+    atStart: trackEl.scrollLeft <= SCROLL_TOLERANCE,
+    atEnd:
+      allRendered &&
+      trackEl.scrollLeft + trackEl.clientWidth >=
+        trackEl.scrollWidth - SCROLL_TOLERANCE,
+  };
+}
+
+/** Arrow buttons and swipes scroll the track a page at a time */
+export function setupCarouselNavigation(
+  trackEl: HTMLElement,
+  prevEl: HTMLElement,
+  nextEl: HTMLElement,
+  signal: AbortSignal,
+): void {
+  const navigate = (direction: 1 | -1) => {
+    trackEl.scrollBy({
+      left: direction * trackEl.clientWidth,
+      behavior: "smooth",
+    });
+  };
+  prevEl.addEventListener("click", () => navigate(-1), { signal });
+  nextEl.addEventListener("click", () => navigate(1), { signal });
+  setupSwipeGestures(trackEl, navigate, signal);
+}
@@ -3,13 +3,18 @@
  * Primary implementation using Bases API
  */
 
-import { BasesView, BasesEntry, QueryController, TFile } from "obsidian";
+import {
+  BasesView,
+  BasesEntry,
+  BasesEntryGroup,
+  QueryController,
+  TFile,
+} from "obsidian";
 import { CardData } from "../shared/card-renderer";
 import { transformBasesEntries } from "../shared/data-transform";
 import {
   readBasesSettings,
   getBasesViewOptions,
-  extractBasesTemplate,
 } from "../shared/settings-schema";
 import {
   getCardSpacing,
@@ -22,6 +27,8 @@ import {
   syncResponsiveClasses,
   applyViewContainerStyles,
 } from "./shared-renderer";
+import { CardVirtualizer } from "./card-virtualizer";
+import { CardSelection } from "./card-selection";
 import {
   PANE_MULTIPLIER,
   ROWS_PER_COLUMN,
@@ -35,15 +42,23 @@ import {
   getSortMethod,
   loadContentForEntries,
   processGroups,
+  nestGroups,
+  syncGroupHeadingHeight,
+  getGroupSectionParent,
+  getSubgroupProperties,
+  getCollapseKey,
   renderGroupHeader,
   hasGroupBy,
   serializeGroupKey,
   setGroupKeyDataset,
-  UNDEFINED_GROUP_KEY_SENTINEL,
+  type NestedGroup,
   cleanupBaseFile,
-  clearOldTemplateToggles,
-  isCurrentTemplateView,
   shouldProcessDataUpdate,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
 } from "./utils";
 import {
   initializeContainerFocus,
@@ -58,6 +73,18 @@ import {
   buildSyntaxToDisplayMap,
   normalizeSettingsPropertyNames,
 } from "../utils/property";
+import {
+  parseGroupSummaries,
+  renderGroupSummaries,
+  renderSummaryFooter,
+  type GroupSummary,
+} from "./group-summaries";
+import {
+  moveInManualOrder,
+  setupManualReorder,
+  type DropPosition,
+} from "../shared/manual-order";
+import { renderMarkdownPreview } from "../shared/markdown-preview";
 import type DynamicViews from "../../main";
 import type {
   BasesResolvedSettings,
@@ -68,7 +95,6 @@ import type {
   SortState,
   FocusState,
 } from "../types";
-import { VIEW_DEFAULTS } from "../constants";
 import { showTipOnce } from "../utils/tips";
 
 // Extend Obsidian types
@@ -93,6 +119,8 @@ export class DynamicViewsGridView extends BasesView {
   private _collapsedGroupsLoaded = false;
   private scrollPreservation: ScrollPreservation | null = null;
   private cardRenderer: SharedCardRenderer;
+  private virtualizer: CardVirtualizer;
+  private selection: CardSelection;
   private _previousCustomClasses: string[] = [];
 
   // Consolidated state objects (shared patterns with masonry-view)
@@ -110,6 +138,11 @@ export class DynamicViewsGridView extends BasesView {
   };
   // Track last rendered settings to detect stale config (see readBasesSettings)
   private lastRenderedSettings: BasesResolvedSettings | null = null;
+  // Parsed from settings.groupSummaries each render
+  private groupSummaries: GroupSummary[] = [];
+  // Group sections by collapse key, so subgroups (also in batches) nest in
+  // their parent's section and its heading stays stuck over them
+  private groupSections = new Map<string, HTMLElement>();
   private lastGroup: LastGroupState = { key: undefined, container: null };
   private scrollThrottle: ScrollThrottleState = {
     listener: null,
@@ -120,9 +153,19 @@ export class DynamicViewsGridView extends BasesView {
     order: [],
     lastMethod: null,
   };
-  private focusState: FocusState = { cardIndex: 0, hoveredEl: null };
+  private focusState: FocusState = {
+    cardIndex: 0,
+    hoveredEl: null,
+    selectedPaths: new Set(),
+    selectionAnchor: null,
+  };
   private focusCleanup: (() => void) | null = null;
-  private previousIsTemplate: boolean | undefined = undefined;
+  // Manual sort: file paths in drag-and-drop order (persisted in BasesUIState)
+  private manualOrder: string[] = [];
+  // Pinned card paths, rendered first in each group (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private reorderAbortController: AbortController | null = null;
+  private templateToggle: TemplateToggle;
 
   // Public accessors for sortState (used by randomize.ts)
   get isShuffled(): boolean {
@@ -168,32 +211,143 @@ export class DynamicViewsGridView extends BasesView {
     callback: null,
   };
 
-  /** Get the current file by resolving from the leaf's view state (cached).
-   *  controller.currentFile is a shared global that can return the wrong file. */
+  /** Get the current file by resolving from the leaf's view state (cached) */
   private get currentFile(): TFile | null {
-    if (this._resolvedFile !== undefined) return this._resolvedFile;
-    this._resolvedFile = null;
-    this.app.workspace.iterateAllLeaves((leaf) => {
-      if (leaf.view?.containerEl?.contains(this.scrollEl)) {
-        const path = (leaf.view.getState() as { file?: string })?.file;
-        if (path) {
-          const abstract = this.app.vault.getAbstractFileByPath(path);
-          this._resolvedFile = abstract instanceof TFile ? abstract : null;
-        }
-      }
-    });
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
     return this._resolvedFile;
   }
 
-  /** Get the collapse key for a group (sentinel for undefined keys) */
-  private getCollapseKey(groupKey: string | undefined): string {
-    return groupKey ?? UNDEFINED_GROUP_KEY_SENTINEL;
+  /** Get the collapse key for a group (nested under its parent group) */
+  private getCollapseKey(
+    groupKey: string | undefined,
+    parentCollapseKey?: string,
+  ): string {
+    return getCollapseKey(groupKey, parentCollapseKey);
+  }
+
+  /**
+   * processGroups in shuffled or manual order (a shuffle wins until reset),
+   * with pinned cards first in each group
+   * Notes missing from the manual order follow in Bases sort order.
+   */
+  private orderGroups(
+    groupedData: BasesEntryGroup[],
+  ): Array<{ group: BasesEntryGroup; entries: BasesEntry[] }> {
+    const manual =
+      !this.sortState.isShuffled && !!this.lastRenderedSettings?.manualOrder;
+    return processGroups(
+      groupedData,
+      this.sortState.isShuffled || manual,
+      manual ? this.manualOrder : this.sortState.order,
+    ).map(({ group, entries }) => ({
+      group,
+      entries: this.pins.apply(entries),
+    }));
+  }
+
+  /** Drop a card next to another and persist the new manual order */
+  private moveCard(
+    path: string,
+    targetPath: string,
+    position: DropPosition,
+  ): void {
+    if (!this.data) return;
+    // Save every current path so new notes keep their place and deleted
+    // ones drop out
+    const paths = processGroups(
+      this.data.groupedData,
+      true,
+      this.manualOrder,
+    ).flatMap(({ entries }) => entries.map((entry) => entry.file.path));
+    this.manualOrder = moveInManualOrder(paths, path, targetPath, position);
+    this.sortState.isShuffled = false;
+    this.sortState.order = [];
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      { manualOrder: this.manualOrder },
+    );
+    this.renderState.lastRenderHash = "";
+    this.onDataUpdated();
+  }
+
+  /** Groups and their subgroups in render order (see nestGroups) */
+  private getNestedGroups(
+    processedGroups: Array<{ group: BasesEntryGroup; entries: BasesEntry[] }>,
+    settings: BasesResolvedSettings,
+  ): NestedGroup[] {
+    return nestGroups(
+      processedGroups,
+      getSubgroupProperties(this.config, settings),
+      this.collapsedGroups,
+    );
   }
 
-  /** Toggle collapse state for a group and persist */
+  /** Section wrapper so sticky scopes to the group's content */
+  private renderGroupSection(
+    feedEl: HTMLElement,
+    nested: NestedGroup,
+    isCollapsed: boolean,
+  ): HTMLElement {
+    const parentEl = getGroupSectionParent(
+      this.groupSections,
+      feedEl,
+      nested.parentCollapseKey,
+    );
+    const sectionEl = parentEl.createDiv("dynamic-views-group-section");
+    this.groupSections.set(nested.collapseKey, sectionEl);
+    if (nested.depth > 0) {
+      sectionEl.addClass("is-subgroup");
+      sectionEl.style.setProperty(
+        "--dynamic-views-group-depth",
+        String(nested.depth),
+      );
+    }
+
+    const { collapseKey, hasSubgroups } = nested;
+    const headerEl = renderGroupHeader(
+      sectionEl,
+      nested.group,
+      this.config,
+      this.app,
+      nested.count,
+      isCollapsed,
+      () => {
+        if (headerEl) {
+          this.toggleGroupCollapse(collapseKey, headerEl, hasSubgroups);
+        }
+      },
+      nested.property,
+    );
+    if (headerEl) {
+      renderGroupSummaries(
+        headerEl,
+        this.app,
+        this.config,
+        nested.allEntries,
+        this.groupSummaries,
+      );
+    }
+
+    // Container for cards (empty if collapsed or split into subgroups, for
+    // DOM sibling structure)
+    const groupEl = sectionEl.createDiv(
+      "dynamic-views-group bases-cards-group",
+    );
+    setGroupKeyDataset(groupEl, nested.groupKey);
+    return groupEl;
+  }
+
+  /**
+   * Toggle collapse state for a group and persist
+   * Groups split into subgroups re-render, since their subgroup sections
+   * follow as siblings.
+   */
   private toggleGroupCollapse(
     collapseKey: string,
     headerEl: HTMLElement,
+    hasSubgroups = false,
   ): void {
     const wasCollapsed = this.collapsedGroups.has(collapseKey);
     if (wasCollapsed) {
@@ -212,6 +366,11 @@ export class DynamicViewsGridView extends BasesView {
       },
     );
 
+    if (hasSubgroups) {
+      this.onDataUpdated();
+      return;
+    }
+
     const groupEl = headerEl.nextElementSibling as HTMLElement | null;
     if (wasCollapsed) {
       // Expanding: surgically populate only this group (avoids full re-render flash)
@@ -244,13 +403,6 @@ export class DynamicViewsGridView extends BasesView {
     if (!this.data) return;
     const currentVersion = this.renderState.version;
 
-    // Find the matching group in data
-    const group = this.data.groupedData.find((g) => {
-      const gk = g.hasKey() ? serializeGroupKey(g.key) : undefined;
-      return this.getCollapseKey(gk) === collapseKey;
-    });
-    if (!group) return;
-
     const settings = readBasesSettings(
       this.config,
       this.plugin.persistenceManager.getPluginSettings(),
@@ -273,13 +425,13 @@ export class DynamicViewsGridView extends BasesView {
 
     const sortMethod = getSortMethod(this.config);
 
-    // processGroups for shuffle-stable ordering
-    const processed = processGroups(
-      [group],
-      this.sortState.isShuffled,
-      this.sortState.order,
-    );
-    const entries = processed[0]?.entries ?? [];
+    // Find the matching group or subgroup (processGroups for shuffle-stable
+    // ordering)
+    const nested = this.getNestedGroups(
+      this.orderGroups(this.data.groupedData),
+      settings,
+    ).find((g) => g.collapseKey === collapseKey);
+    const entries = nested?.entries ?? [];
     if (entries.length === 0) return;
 
     // Load content (cache-hit no-op for already-loaded entries)
@@ -420,63 +572,6 @@ export class DynamicViewsGridView extends BasesView {
     );
   }
 
-  /**
-   * Handle template toggle changes
-   * Called from onDataUpdated() since Obsidian calls that for config changes
-   */
-  private handleTemplateToggle(): void {
-    const isTemplate = this.config.get("isTemplate") === true;
-
-    // Only process if isTemplate actually changed
-    if (this.previousIsTemplate === isTemplate) {
-      return;
-    }
-    this.previousIsTemplate = isTemplate;
-
-    if (isTemplate) {
-      const existingTimestamp = this.config.get("templateSetAt") as
-        | number
-        | undefined;
-
-      if (existingTimestamp !== undefined) {
-        // View loaded with existing toggle — validate it's not stale
-        const isStale = !isCurrentTemplateView(
-          this.config,
-          "grid",
-          this.plugin,
-        );
-        if (isStale) {
-          this.config.set("isTemplate", false);
-          this.previousIsTemplate = false;
-          return;
-        }
-        // Valid template — no action needed on load
-      } else {
-        // User just enabled toggle — set timestamp + clear other views
-        const timestamp = Date.now();
-        this.config.set("templateSetAt", timestamp);
-        clearOldTemplateToggles(this.app, GRID_VIEW_TYPE, this);
-
-        // Save settings template
-        const templateSettings = extractBasesTemplate(
-          this.config,
-          VIEW_DEFAULTS,
-        );
-        void this.plugin.persistenceManager.setSettingsTemplate("grid", {
-          settings: templateSettings,
-          setAt: timestamp,
-        });
-      }
-    } else {
-      // Toggle turned OFF — clear template if this view was the template
-      const hadTimestamp = this.config.get("templateSetAt") !== undefined;
-      if (hadTimestamp) {
-        this.config.set("templateSetAt", undefined);
-        void this.plugin.persistenceManager.setSettingsTemplate("grid", null);
-      }
-    }
-  }
-
   constructor(controller: QueryController, scrollEl: HTMLElement) {
     super(controller);
     // Note: this.config is undefined in constructor (assigned later by QueryController.update())
@@ -498,10 +593,17 @@ export class DynamicViewsGridView extends BasesView {
     });
 
     // Access plugin from controller's app
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
-    this.plugin = (this.app as any).plugins.plugins[
-      "dynamic-views"
-    ] as DynamicViews;
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "grid", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
     // Initialize shared card renderer
     this.cardRenderer = new SharedCardRenderer(
       this.app,
@@ -509,6 +611,30 @@ export class DynamicViewsGridView extends BasesView {
       this.updateLayoutRef,
     );
 
+    // Release off-screen cards in long views, re-render them on return
+    this.virtualizer = new CardVirtualizer({
+      scrollEl: this.scrollEl,
+      renderCard: (container, entry, index) =>
+        this.renderCachedCard(container, entry, index),
+      releaseCard: (cardEl) => this.cardRenderer.releaseCard(cardEl),
+      onRestore: (cards) => {
+        syncResponsiveClasses(cards);
+        if (this.feedContainerRef.current) {
+          initializeScrollGradients(this.feedContainerRef.current);
+          initializeTitleTruncation(this.feedContainerRef.current);
+        }
+      },
+    });
+
+    // Shift/Mod-click multi-select with bulk actions
+    this.selection = new CardSelection({
+      app: this.app,
+      focusState: this.focusState,
+      getCardsContainer: () => this.feedContainerRef.current,
+      getBarParent: () => this.containerEl,
+      getSourcePath: () => this.currentFile?.path ?? "",
+    });
+
     // Get plugin settings for feature flags
     const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
 
@@ -535,6 +661,7 @@ export class DynamicViewsGridView extends BasesView {
       (index) => {
         this.focusState.cardIndex = index;
       },
+      (cardEl) => this.selection.extendTo(cardEl, cardEl),
     );
     this.register(cleanupKeyboard);
 
@@ -556,7 +683,7 @@ export class DynamicViewsGridView extends BasesView {
 
   onDataUpdated(): void {
     // Handle template toggle changes (Obsidian calls onDataUpdated for config changes)
-    this.handleTemplateToggle();
+    this.templateToggle.sync();
 
     // CSS fast-path: apply CSS-only settings immediately (bypasses throttle)
     this.applyCssOnlySettings();
@@ -632,6 +759,8 @@ export class DynamicViewsGridView extends BasesView {
           this.viewId ?? undefined,
         );
         this.collapsedGroups = new Set(basesState.collapsedGroups ?? []);
+        this.manualOrder = basesState.manualOrder ?? [];
+        this.pins.load();
         this._collapsedGroupsLoaded = true;
       }
 
@@ -687,40 +816,17 @@ export class DynamicViewsGridView extends BasesView {
         reverseMap,
         displayNameMap,
       );
+      this.groupSummaries = parseGroupSummaries(settings.groupSummaries);
 
       // Apply per-view CSS classes and variables to container
       applyViewContainerStyles(this.containerEl, settings);
 
       // Apply custom CSS classes from settings (mimics cssclasses frontmatter)
-      const customClasses = settings.cssclasses
-        .split(",")
-        .map((cls) => cls.trim())
-        .filter(Boolean);
-
-      // Only update if classes changed (prevents unnecessary DOM mutations)
-      const classesChanged =
-        !this._previousCustomClasses ||
-        this._previousCustomClasses.length !== customClasses.length ||
-        !this._previousCustomClasses.every(
-          (cls, i) => cls === customClasses[i],
-        );
-
-      if (classesChanged) {
-        // Clear previous custom classes
-        if (this._previousCustomClasses) {
-          this._previousCustomClasses.forEach((cls: string) => {
-            this.scrollEl.removeClass(cls);
-          });
-        }
-
-        // Apply new custom classes
-        customClasses.forEach((cls) => {
-          this.scrollEl.addClass(cls);
-        });
-
-        // Store for next update
-        this._previousCustomClasses = customClasses;
-      }
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
 
       // Check if data or settings changed - skip re-render if not (prevents tab switch flash)
       // Use null byte delimiter (cannot appear in file paths) to avoid hash collisions
@@ -909,11 +1015,11 @@ export class DynamicViewsGridView extends BasesView {
       }
       this.sortState.lastMethod = sortMethod;
 
-      // Process groups and apply shuffle within groups if enabled
-      const processedGroups = processGroups(
-        groupedData,
-        this.sortState.isShuffled,
-        this.sortState.order,
+      // Process groups and apply shuffle within groups if enabled, then split
+      // them into subgroups
+      const processedGroups = this.getNestedGroups(
+        this.orderGroups(groupedData),
+        settings,
       );
 
       // Determine grouping state early — collapse state only applies when grouped
@@ -925,13 +1031,7 @@ export class DynamicViewsGridView extends BasesView {
 
       for (const processedGroup of processedGroups) {
         if (remainingCount <= 0) break;
-        const groupKey = processedGroup.group.hasKey()
-          ? serializeGroupKey(processedGroup.group.key)
-          : undefined;
-        if (
-          isGrouped &&
-          this.collapsedGroups.has(this.getCollapseKey(groupKey))
-        )
+        if (isGrouped && this.collapsedGroups.has(processedGroup.collapseKey))
           continue;
         const entriesToTake = Math.min(
           processedGroup.entries.length,
@@ -968,6 +1068,7 @@ export class DynamicViewsGridView extends BasesView {
 
       // Clear and re-render
       this.containerEl.empty();
+      this.groupSections.clear();
 
       // Reset batch append state for full re-render
       this.previousDisplayedCount = 0;
@@ -978,6 +1079,7 @@ export class DynamicViewsGridView extends BasesView {
 
       // Cleanup card renderer observers before re-rendering
       this.cardRenderer.cleanup();
+      this.virtualizer.reset();
 
       // Toggle is-grouped class
       this.containerEl.toggleClass("is-grouped", isGrouped);
@@ -992,6 +1094,30 @@ export class DynamicViewsGridView extends BasesView {
       this.focusCleanup?.();
       this.focusCleanup = initializeContainerFocus(feedEl);
 
+      // Manual order: drag cards onto each other to reorder
+      this.reorderAbortController?.abort();
+      this.reorderAbortController = null;
+      if (settings.manualOrder) {
+        this.reorderAbortController = new AbortController();
+        setupManualReorder(
+          feedEl,
+          (path, targetPath, position) =>
+            this.moveCard(path, targetPath, position),
+          this.reorderAbortController.signal,
+        );
+      }
+
+      // Totals footer follows the feed (batches append inside the feed)
+      if (settings.summaryFooter) {
+        renderSummaryFooter(
+          this.containerEl,
+          this.app,
+          this.config,
+          allEntries,
+          this.groupSummaries,
+        );
+      }
+
       // Clear CSS variable cache to pick up any style changes
       // (prevents layout thrashing from repeated getComputedStyle calls per card)
       clearStyleSettingsCache();
@@ -999,10 +1125,7 @@ export class DynamicViewsGridView extends BasesView {
       // Render groups with headers
       let displayedSoFar = 0;
       for (const processedGroup of processedGroups) {
-        const groupKey = processedGroup.group.hasKey()
-          ? serializeGroupKey(processedGroup.group.key)
-          : undefined;
-        const collapseKey = this.getCollapseKey(groupKey);
+        const { collapseKey } = processedGroup;
         // Collapse state only applies when grouped — ungrouped views use
         // a single group with the sentinel key, which may match a previously
         // collapsed group's persisted state.
@@ -1012,27 +1135,12 @@ export class DynamicViewsGridView extends BasesView {
         // but always render collapsed group headers (they cost 0 cards)
         if (displayedSoFar >= this.displayedCount && !isCollapsed) break;
 
-        // Wrap header + group in a section so sticky scopes to the group's content
-        const sectionEl = feedEl.createDiv("dynamic-views-group-section");
-
-        // Render group header (always visible, with chevron)
-        const headerEl = renderGroupHeader(
-          sectionEl,
-          processedGroup.group,
-          this.config,
-          this.app,
-          processedGroup.entries.length,
+        // Render group header (always visible, with chevron) and card container
+        const groupEl = this.renderGroupSection(
+          feedEl,
+          processedGroup,
           isCollapsed,
-          () => {
-            if (headerEl) this.toggleGroupCollapse(collapseKey, headerEl);
-          },
-        );
-
-        // Create group container for cards (empty if collapsed, for DOM sibling structure)
-        const groupEl = sectionEl.createDiv(
-          "dynamic-views-group bases-cards-group",
         );
-        setGroupKeyDataset(groupEl, groupKey);
 
         // Skip card rendering for collapsed groups
         if (isCollapsed) continue;
@@ -1067,7 +1175,7 @@ export class DynamicViewsGridView extends BasesView {
         displayedSoFar += entriesToDisplay;
 
         // Track last group for batch append
-        this.lastGroup.key = groupKey;
+        this.lastGroup.key = collapseKey;
         this.lastGroup.container = groupEl;
       }
 
@@ -1079,16 +1187,17 @@ export class DynamicViewsGridView extends BasesView {
       syncResponsiveClasses(
         Array.from(feedEl.querySelectorAll<HTMLElement>(".card")),
       );
+      syncGroupHeadingHeight(feedEl);
       initializeScrollGradients(feedEl);
       initializeTitleTruncation(feedEl);
+      this.selection.refresh(
+        new Set(allEntries.map((entry) => entry.file.path)),
+      );
 
       // Compute effective total (exclude collapsed groups)
       let effectiveTotal = 0;
       for (const pg of processedGroups) {
-        const gk = pg.group.hasKey()
-          ? serializeGroupKey(pg.group.key)
-          : undefined;
-        if (!isGrouped || !this.collapsedGroups.has(this.getCollapseKey(gk))) {
+        if (!isGrouped || !this.collapsedGroups.has(pg.collapseKey)) {
           effectiveTotal += pg.entries.length;
         }
       }
@@ -1201,20 +1310,71 @@ export class DynamicViewsGridView extends BasesView {
     index: number,
     settings: BasesResolvedSettings,
   ): HTMLElement {
-    return this.cardRenderer.renderCard(container, card, entry, settings, {
-      index,
-      focusableCardIndex: this.focusState.cardIndex,
-      containerRef: this.feedContainerRef,
-      onFocusChange: (newIndex: number) => {
-        this.focusState.cardIndex = newIndex;
-      },
-      onHoverStart: (el: HTMLElement) => {
-        this.focusState.hoveredEl = el;
-      },
-      onHoverEnd: () => {
-        this.focusState.hoveredEl = null;
+    const cardEl = this.createCardEl(container, card, entry, index, settings);
+    this.virtualizer.track(cardEl, entry, index);
+    return cardEl;
+  }
+
+  /** Re-render a virtualized card from ContentCache */
+  private renderCachedCard(
+    container: HTMLElement,
+    entry: BasesEntry,
+    index: number,
+  ): HTMLElement {
+    // Fall back to fresh settings if no render has stored them yet
+    const settings =
+      this.lastRenderedSettings ??
+      readBasesSettings(
+        this.config,
+        this.plugin.persistenceManager.getPluginSettings(),
+        "grid",
+      );
+    const [card] = transformBasesEntries(
+      this.app,
+      [entry],
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+    return this.createCardEl(container, card, entry, index, settings);
+  }
+
+  private createCardEl(
+    container: HTMLElement,
+    card: CardData,
+    entry: BasesEntry,
+    index: number,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    const cardEl = this.cardRenderer.renderCard(
+      container,
+      card,
+      entry,
+      settings,
+      {
+        index,
+        focusableCardIndex: this.focusState.cardIndex,
+        containerRef: this.feedContainerRef,
+        onFocusChange: (newIndex: number) => {
+          this.focusState.cardIndex = newIndex;
+        },
+        onHoverStart: (el: HTMLElement) => {
+          this.focusState.hoveredEl = el;
+        },
+        onHoverEnd: () => {
+          this.focusState.hoveredEl = null;
+        },
+        selection: this.selection,
+        pins: this.pins,
       },
-    });
+    );
+    // Manual order: cards drag regardless of openFileAction
+    if (settings.manualOrder) cardEl.draggable = true;
+    return cardEl;
   }
 
   /** Update only changed cards in-place without full re-render */
@@ -1251,9 +1411,12 @@ export class DynamicViewsGridView extends BasesView {
       if (!cardEl) continue;
 
       // Update text preview
-      const previewEl = cardEl.querySelector(".card-text-preview");
-      if (previewEl) {
-        previewEl.textContent = this.contentCache.textPreviews[path] || "";
+      const previewEl = cardEl.querySelector<HTMLElement>(".card-text-preview");
+      const preview = this.contentCache.textPreviews[path] || "";
+      if (previewEl && settings.textPreviewStyle === "rendered") {
+        renderMarkdownPreview(previewEl, this.app, preview, path);
+      } else if (previewEl) {
+        previewEl.textContent = preview;
       }
     }
 
@@ -1293,11 +1456,10 @@ export class DynamicViewsGridView extends BasesView {
 
     const sortMethod = getSortMethod(this.config);
 
-    // Process groups with shuffle logic
-    const processedGroups = processGroups(
-      groupedData,
-      this.sortState.isShuffled,
-      this.sortState.order,
+    // Process groups with shuffle logic, then split them into subgroups
+    const processedGroups = this.getNestedGroups(
+      this.orderGroups(groupedData),
+      settings,
     );
 
     // Capture state at start - these may change during async operations
@@ -1310,10 +1472,7 @@ export class DynamicViewsGridView extends BasesView {
     const isGrouped = hasGroupBy(this.config);
 
     for (const processedGroup of processedGroups) {
-      const groupKey = processedGroup.group.hasKey()
-        ? serializeGroupKey(processedGroup.group.key)
-        : undefined;
-      if (isGrouped && this.collapsedGroups.has(this.getCollapseKey(groupKey)))
+      if (isGrouped && this.collapsedGroups.has(processedGroup.collapseKey))
         continue;
 
       const groupStart = currentCount;
@@ -1368,16 +1527,22 @@ export class DynamicViewsGridView extends BasesView {
     for (const processedGroup of processedGroups) {
       if (displayedSoFar >= currCount) break;
 
-      const currentGroupKey = processedGroup.group.hasKey()
-        ? serializeGroupKey(processedGroup.group.key)
-        : undefined;
+      const { collapseKey } = processedGroup;
 
       // Skip collapsed groups entirely (only when grouped)
-      if (
-        isGrouped &&
-        this.collapsedGroups.has(this.getCollapseKey(currentGroupKey))
-      )
+      if (isGrouped && this.collapsedGroups.has(collapseKey)) continue;
+
+      // Parent header of subgroups that start in this batch
+      if (processedGroup.hasSubgroups) {
+        if (displayedSoFar >= prevCount) {
+          this.renderGroupSection(
+            this.feedContainerRef.current,
+            processedGroup,
+            false,
+          );
+        }
         continue;
+      }
 
       const groupEntriesToDisplay = Math.min(
         processedGroup.entries.length,
@@ -1401,37 +1566,22 @@ export class DynamicViewsGridView extends BasesView {
       let groupEl: HTMLElement;
 
       if (
-        currentGroupKey === this.lastGroup.key &&
+        collapseKey === this.lastGroup.key &&
         this.lastGroup.container?.isConnected
       ) {
         // Same group as last - append to existing container
         groupEl = this.lastGroup.container;
       } else {
-        // Wrap header + group in a section so sticky scopes to the group's content
-        const sectionEl = this.feedContainerRef.current.createDiv(
-          "dynamic-views-group-section",
-        );
-
-        // Render group header
-        const collapseKey = this.getCollapseKey(currentGroupKey);
-        const headerEl = renderGroupHeader(
-          sectionEl,
-          processedGroup.group,
-          this.config,
-          this.app,
-          processedGroup.entries.length,
-          false, // not collapsed (we skipped collapsed groups above)
-          () => {
-            if (headerEl) this.toggleGroupCollapse(collapseKey, headerEl);
-          },
+        // New group - render header (not collapsed, we skipped collapsed
+        // groups above) and container for cards
+        groupEl = this.renderGroupSection(
+          this.feedContainerRef.current,
+          processedGroup,
+          false,
         );
 
-        // New group - create container for cards
-        groupEl = sectionEl.createDiv("dynamic-views-group bases-cards-group");
-        setGroupKeyDataset(groupEl, currentGroupKey);
-
         // Update last group tracking
-        this.lastGroup.key = currentGroupKey;
+        this.lastGroup.key = collapseKey;
         this.lastGroup.container = groupEl;
       }
 
@@ -1628,6 +1778,9 @@ export class DynamicViewsGridView extends BasesView {
     this.swipeAbortController?.abort();
     this.renderState.abortController?.abort();
     this.focusCleanup?.();
+    this.reorderAbortController?.abort();
+    this.virtualizer.reset();
+    this.selection.destroy();
     this.cardRenderer.cleanup(true); // Force viewer cleanup on view destruction
   }
 
@@ -0,0 +1,216 @@
+/**
+ * Group summaries
+ * Aggregates of a property over a group's entries (sum, average, min, max,
+ * earliest/latest date, checked count), shown in group headers and the
+ * optional totals footer.
+ */
+
+import type { App, BasesEntry, BasesPropertyId } from "obsidian";
+import { getFirstBasesPropertyValue } from "../utils/property";
+import { extractTimestamp, formatTimestamp } from "../shared/render-utils";
+
+export const SUMMARY_FUNCTIONS = [
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "earliest",
+  "latest",
+  "checked",
+] as const;
+
+export type SummaryFunction = (typeof SUMMARY_FUNCTIONS)[number];
+
+/** One configured summary, e.g. "sum: note.cost" */
+export interface GroupSummary {
+  fn: SummaryFunction;
+  property: string;
+}
+
+const SUMMARY_LABELS: Record<SummaryFunction, string> = {
+  sum: "Sum",
+  avg: "Average",
+  min: "Min",
+  max: "Max",
+  earliest: "Earliest",
+  latest: "Latest",
+  checked: "Checked",
+};
+
+/** Accepted spellings beyond the function names themselves */
+const SUMMARY_ALIASES: Record<string, SummaryFunction> = {
+  average: "avg",
+  mean: "avg",
+  total: "sum",
+};
+
+/** A property value reduced to what summaries can aggregate */
+type SummaryValue =
+  | number
+  | boolean
+  | { timestamp: number; isDateOnly: boolean }
+  | null;
+
+/**
+ * Parse the summaries setting: comma-separated "function: property" pairs
+ * Unknown functions and pairs without a property are skipped.
+ */
+export function parseGroupSummaries(setting: string): GroupSummary[] {
+  if (!setting) return [];
+  const summaries: GroupSummary[] = [];
+  for (const part of setting.split(",")) {
+    const index = part.indexOf(":");
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim().toLowerCase();
+    const property = part.slice(index + 1).trim();
+    const fn =
+      SUMMARY_ALIASES[name] ??
+      SUMMARY_FUNCTIONS.find((candidate) => candidate === name);
+    if (fn && property) summaries.push({ fn, property });
+  }
+  return summaries;
+}
+
+/**
+ * Resolve a property the same way as resolveBasesProperty, but keep the raw
+ * number, checkbox or date instead of a display string
+ */
+export function getSummaryValue(
+  app: App,
+  entry: BasesEntry,
+  property: string,
+): SummaryValue {
+  const prop = property.trim().toLowerCase();
+  if (prop === "file.ctime" || prop === "created time") {
+    return { timestamp: entry.file.stat.ctime, isDateOnly: false };
+  }
+  if (prop === "file.mtime" || prop === "modified time") {
+    return { timestamp: entry.file.stat.mtime, isDateOnly: false };
+  }
+
+  const value = getFirstBasesPropertyValue(app, entry, property);
+  if (!value) return null;
+
+  const timestampData = extractTimestamp(value);
+  if (timestampData) return timestampData;
+
+  const data = (value as { data?: unknown }).data;
+  if (typeof data === "number") return Number.isFinite(data) ? data : null;
+  if (typeof data === "boolean") return data;
+  // Text properties holding numbers ("12.50")
+  if (typeof data === "string" && data.trim() !== "") {
+    const number = Number(data);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+/** Format a number with thousands separators and at most two decimals */
+function formatSummaryNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Aggregate resolved values for one summary function
+ * Returns null when no value applies (e.g. sum over a text property).
+ */
+export function aggregateSummaryValues(
+  fn: SummaryFunction,
+  values: SummaryValue[],
+): string | null {
+  if (fn === "checked") {
+    const checkboxes = values.filter((v) => typeof v === "boolean");
+    if (checkboxes.length === 0) return null;
+    const checked = checkboxes.filter(Boolean).length;
+    return `${checked}/${checkboxes.length}`;
+  }
+
+  if (fn === "earliest" || fn === "latest") {
+    let pick: { timestamp: number; isDateOnly: boolean } | null = null;
+    for (const value of values) {
+      if (value === null || typeof value !== "object") continue;
+      if (
+        !pick ||
+        (fn === "earliest"
+          ? value.timestamp < pick.timestamp
+          : value.timestamp > pick.timestamp)
+      ) {
+        pick = value;
+      }
+    }
+    return pick ? formatTimestamp(pick.timestamp, pick.isDateOnly) : null;
+  }
+
+  const numbers = values.filter((v): v is number => typeof v === "number");
+  if (numbers.length === 0) return null;
+  // One pass - spreading a large group into Math.min/max overflows the stack
+  const stats = numbers.reduce(
+    (acc, n) => {
+      acc.sum += n;
+      acc.min = Math.min(acc.min, n);
+      acc.max = Math.max(acc.max, n);
+      return acc;
+    },
+    { sum: 0, min: Infinity, max: -Infinity },
+  );
+  switch (fn) {
+    case "sum":
+      return formatSummaryNumber(stats.sum);
+    case "avg":
+      return formatSummaryNumber(stats.sum / numbers.length);
+    case "min":
+      return formatSummaryNumber(stats.min);
+    case "max":
+      return formatSummaryNumber(stats.max);
+  }
+}
+
+/**
+ * Render "Sum Cost 1,250" items for a set of entries
+ * Summaries without a value for these entries are left out.
+ */
+export function renderGroupSummaries(
+  containerEl: HTMLElement,
+  app: App,
+  config: { getDisplayName(propertyId: BasesPropertyId): string },
+  entries: BasesEntry[],
+  summaries: GroupSummary[],
+): void {
+  if (summaries.length === 0) return;
+  const summariesEl = containerEl.createDiv("dynamic-views-group-summaries");
+  for (const { fn, property } of summaries) {
+    const result = aggregateSummaryValues(
+      fn,
+      entries.map((entry) => getSummaryValue(app, entry, property)),
+    );
+    if (result === null) continue;
+    const itemEl = summariesEl.createSpan("dynamic-views-group-summary");
+    itemEl.dataset.summary = fn;
+    itemEl.createSpan({
+      cls: "dynamic-views-group-summary-label",
+      text: `${SUMMARY_LABELS[fn]} ${config.getDisplayName(property as BasesPropertyId)}`,
+    });
+    itemEl.createSpan({
+      cls: "dynamic-views-group-summary-value",
+      text: result,
+    });
+  }
+  if (!summariesEl.hasChildNodes()) summariesEl.remove();
+}
+
+/** Totals footer for the whole view (all entries, collapsed groups included) */
+export function renderSummaryFooter(
+  containerEl: HTMLElement,
+  app: App,
+  config: { getDisplayName(propertyId: BasesPropertyId): string },
+  entries: BasesEntry[],
+  summaries: GroupSummary[],
+): void {
+  if (summaries.length === 0) return;
+  const footerEl = containerEl.createDiv("dynamic-views-summary-footer");
+  footerEl.createSpan({
+    cls: "dynamic-views-summary-footer-label",
+    text: "Total",
+  });
+  renderGroupSummaries(footerEl, app, config, entries, summaries);
+}
@@ -0,0 +1,987 @@
+/**
+ * Bases Kanban View
+ * Lays out groups as horizontal columns; dragging a card between columns
+ * rewrites the group-by property on the note
+ */
+
+import {
+  BasesEntry,
+  BasesEntryGroup,
+  BasesPropertyId,
+  BasesView,
+  Notice,
+  QueryController,
+  TFile,
+} from "obsidian";
+import { CardData } from "../shared/card-renderer";
+import { transformBasesEntries } from "../shared/data-transform";
+import {
+  readBasesSettings,
+  getKanbanViewOptions,
+} from "../shared/settings-schema";
+import { clearStyleSettingsCache } from "../utils/style-settings";
+import { initializeScrollGradients } from "../shared/scroll-gradient";
+import {
+  SharedCardRenderer,
+  initializeTitleTruncation,
+  syncResponsiveClasses,
+  applyViewContainerStyles,
+} from "./shared-renderer";
+import { CardSelection } from "./card-selection";
+import {
+  KANBAN_COLUMN_BATCH_SIZE,
+  PANE_MULTIPLIER,
+  SCROLL_THROTTLE_MS,
+} from "../shared/constants";
+import {
+  setupBasesSwipeInterception,
+  setupStyleSettingsObserver,
+  getStyleSettingsHash,
+  getSortMethod,
+  loadContentForEntries,
+  processGroups,
+  renderGroupHeader,
+  hasGroupBy,
+  serializeGroupKey,
+  setGroupKeyDataset,
+  getWritableGroupProperty,
+  groupKeyToFrontmatterValue,
+  UNDEFINED_GROUP_KEY_SENTINEL,
+  cleanupBaseFile,
+  shouldProcessDataUpdate,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
+} from "./utils";
+import {
+  initializeContainerFocus,
+  setupHoverKeyboardNavigation,
+} from "../shared/keyboard-nav";
+import {
+  ScrollPreservation,
+  getLeafProps,
+} from "../shared/scroll-preservation";
+import {
+  buildDisplayToSyntaxMap,
+  buildSyntaxToDisplayMap,
+  normalizeSettingsPropertyNames,
+} from "../utils/property";
+import {
+  parseGroupSummaries,
+  renderGroupSummaries,
+} from "./group-summaries";
+import type DynamicViews from "../../main";
+import type {
+  BasesResolvedSettings,
+  ContentCache,
+  RenderState,
+  ScrollThrottleState,
+  SortState,
+  FocusState,
+} from "../types";
+
+export const KANBAN_VIEW_TYPE = "dynamic-views-kanban";
+
+/** Per-column render state */
+interface KanbanColumn {
+  group: BasesEntryGroup;
+  collapseKey: string;
+  entries: BasesEntry[];
+  columnEl: HTMLElement;
+  cardsEl: HTMLElement;
+  rendered: number;
+}
+
+export class DynamicViewsKanbanView extends BasesView {
+  readonly type = KANBAN_VIEW_TYPE;
+  private scrollEl: HTMLElement;
+  private leafId: string;
+  private containerEl: HTMLElement;
+  private plugin: DynamicViews;
+  private _resolvedFile: TFile | null | undefined = undefined;
+  private _collapsedGroupsLoaded = false;
+  private scrollPreservation: ScrollPreservation | null = null;
+  private cardRenderer: SharedCardRenderer;
+  private selection: CardSelection;
+  private _previousCustomClasses: string[] = [];
+
+  // Consolidated state objects (shared patterns with grid-view)
+  private contentCache: ContentCache = {
+    textPreviews: {},
+    images: {},
+    hasImageAvailable: {},
+  };
+  private renderState: RenderState = {
+    version: 0,
+    abortController: null,
+    lastRenderHash: "",
+    lastSettingsHash: null,
+    lastMtimes: new Map(),
+  };
+  // Track last rendered settings to detect stale config (see readBasesSettings)
+  private lastRenderedSettings: BasesResolvedSettings | null = null;
+  private scrollThrottle: ScrollThrottleState = {
+    listener: null,
+    timeoutId: null,
+  };
+  private sortState: SortState = {
+    isShuffled: false,
+    order: [],
+    lastMethod: null,
+  };
+  private focusState: FocusState = {
+    cardIndex: 0,
+    hoveredEl: null,
+    selectedPaths: new Set(),
+    selectionAnchor: null,
+  };
+  private focusCleanup: (() => void) | null = null;
+  // Pinned cards render first (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private templateToggle: TemplateToggle;
+
+  // Public accessors for sortState (used by randomize.ts)
+  get isShuffled(): boolean {
+    return this.sortState.isShuffled;
+  }
+  set isShuffled(value: boolean) {
+    this.sortState.isShuffled = value;
+  }
+  get shuffledOrder(): string[] {
+    return this.sortState.order;
+  }
+  set shuffledOrder(value: string[]) {
+    this.sortState.order = value;
+  }
+  get viewScrollEl(): HTMLElement {
+    return this.scrollEl;
+  }
+
+  // Kanban-specific state
+  private updateLayoutRef: { current: (() => void) | null } = { current: null };
+  private boardRef: { current: HTMLElement | null } = { current: null };
+  private columns: KanbanColumn[] = [];
+  // Rendered card count per column — survives re-renders so a drop doesn't reset scroll depth
+  private columnRenderCounts: Map<string, number> = new Map();
+  private dragState: { path: string; sourceKey: string } | null = null;
+  private dragAbortController: AbortController | null = null;
+  private swipeAbortController: AbortController | null = null;
+  private collapsedGroups: Set<string> = new Set();
+  private viewId: string | null = null;
+  private lastDataUpdateTime = { value: 0 };
+  private trailingUpdate: {
+    timeoutId: number | null;
+    callback: (() => void) | null;
+    isTrailing?: boolean;
+  } = {
+    timeoutId: null,
+    callback: null,
+  };
+
+  /** Get the current file by resolving from the leaf's view state (cached) */
+  private get currentFile(): TFile | null {
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
+    return this._resolvedFile;
+  }
+
+  /** Get the collapse key for a group (sentinel for undefined keys) */
+  private getCollapseKey(groupKey: string | undefined): string {
+    return groupKey ?? UNDEFINED_GROUP_KEY_SENTINEL;
+  }
+
+  /** Persist collapse state (async — in-memory state is authoritative) */
+  private persistCollapsedGroups(): void {
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      {
+        collapsedGroups: Array.from(this.collapsedGroups),
+      },
+    );
+  }
+
+  /** Toggle collapse state for a column and persist */
+  private toggleGroupCollapse(column: KanbanColumn, headerEl: HTMLElement) {
+    const wasCollapsed = this.collapsedGroups.has(column.collapseKey);
+    if (wasCollapsed) {
+      this.collapsedGroups.delete(column.collapseKey);
+    } else {
+      this.collapsedGroups.add(column.collapseKey);
+    }
+    headerEl.toggleClass("collapsed", !wasCollapsed);
+    column.columnEl.toggleClass("collapsed", !wasCollapsed);
+    this.persistCollapsedGroups();
+
+    if (wasCollapsed) {
+      // Expanding: surgically populate only this column (avoids full re-render flash)
+      void this.appendColumnCards(
+        column,
+        this.columnRenderCounts.get(column.collapseKey) ??
+          KANBAN_COLUMN_BATCH_SIZE,
+      );
+    } else {
+      column.cardsEl.empty();
+      column.rendered = 0;
+    }
+    // Invalidate render hash so next onDataUpdated() doesn't skip
+    this.renderState.lastRenderHash = "";
+  }
+
+  /** Whether this view has grouped data */
+  public get isGrouped(): boolean {
+    return hasGroupBy(this.config) && (this.data?.groupedData?.length ?? 0) > 0;
+  }
+
+  /** Fold all groups — called by command palette */
+  public foldAllGroups(): void {
+    if (!this.data) return;
+    for (const g of this.data.groupedData) {
+      const groupKey = g.hasKey() ? serializeGroupKey(g.key) : undefined;
+      this.collapsedGroups.add(this.getCollapseKey(groupKey));
+    }
+    this.persistCollapsedGroups();
+    this.renderState.lastRenderHash = "";
+    this.onDataUpdated();
+  }
+
+  /** Unfold all groups — called by command palette */
+  public unfoldAllGroups(): void {
+    this.collapsedGroups.clear();
+    this.persistCollapsedGroups();
+    this.onDataUpdated();
+  }
+
+  constructor(controller: QueryController, scrollEl: HTMLElement) {
+    super(controller);
+
+    this.scrollEl = scrollEl;
+    // Find leaf by matching container (getLeaf() creates new leaf if pinned, activeLeaf is deprecated)
+    this.leafId = "";
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view?.containerEl?.contains(scrollEl)) {
+        this.leafId = getLeafProps(leaf).id ?? "";
+      }
+    });
+
+    this.containerEl = scrollEl.createDiv({
+      cls: "dynamic-views dynamic-views-bases-container",
+    });
+
+    // Access plugin from controller's app
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "kanban", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
+    this.cardRenderer = new SharedCardRenderer(
+      this.app,
+      this.plugin,
+      this.updateLayoutRef,
+    );
+
+    // Shift/Mod-click multi-select with bulk actions
+    this.selection = new CardSelection({
+      app: this.app,
+      focusState: this.focusState,
+      getCardsContainer: () => this.boardRef.current,
+      getBarParent: () => this.containerEl,
+      getSourcePath: () => this.currentFile?.path ?? "",
+    });
+
+    const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
+
+    // Setup swipe interception on mobile if enabled
+    this.swipeAbortController = setupBasesSwipeInterception(
+      this.containerEl,
+      this.app,
+      pluginSettings,
+    );
+
+    // Watch for Dynamic Views Style Settings changes only
+    const disconnectObserver = setupStyleSettingsObserver(() =>
+      this.onDataUpdated(),
+    );
+    this.register(disconnectObserver);
+
+    // Setup hover-to-start keyboard navigation
+    const cleanupKeyboard = setupHoverKeyboardNavigation(
+      () => this.focusState.hoveredEl,
+      () => this.boardRef.current,
+      (index) => {
+        this.focusState.cardIndex = index;
+      },
+      (cardEl) => this.selection.extendTo(cardEl, cardEl),
+    );
+    this.register(cleanupKeyboard);
+
+    if (this.leafId) {
+      this.scrollPreservation = new ScrollPreservation({
+        leafId: this.leafId,
+        scrollEl: this.scrollEl,
+        registerEvent: (e) => this.registerEvent(e),
+        register: (c) => this.register(c),
+        app: this.app,
+      });
+    }
+  }
+
+  onload(): void {
+    super.onload();
+  }
+
+  onDataUpdated(): void {
+    this.templateToggle.sync();
+
+    // Delay reading config - Obsidian may fire onDataUpdated before updating config.getOrder()
+    queueMicrotask(() => this.processDataUpdate());
+  }
+
+  /** Internal handler after config has settled */
+  private processDataUpdate(): void {
+    this.trailingUpdate.isTrailing = false;
+    this.trailingUpdate.callback = () => this.onDataUpdated();
+
+    if (
+      !shouldProcessDataUpdate(this.lastDataUpdateTime, this.trailingUpdate)
+    ) {
+      return;
+    }
+
+    void (async () => {
+      // Ensure all views in file have valid ids, get this view's id
+      const viewIds = await cleanupBaseFile(
+        this.app,
+        this.currentFile,
+        this.plugin,
+      );
+      const viewName = this.config?.name;
+      this.viewId = (viewName && viewIds?.get(viewName)) ?? null;
+
+      // Load collapsed groups from persisted UI state only on first render
+      // (see grid-view for why the in-memory Set is authoritative afterwards)
+      if (!this._collapsedGroupsLoaded) {
+        const basesState = this.plugin.persistenceManager.getBasesState(
+          this.viewId ?? undefined,
+        );
+        this.collapsedGroups = new Set(basesState.collapsedGroups ?? []);
+        this.pins.load();
+        this._collapsedGroupsLoaded = true;
+      }
+
+      if (!this.data) return;
+
+      // Increment render version to cancel any in-flight stale renders
+      this.renderState.version++;
+      const currentVersion = this.renderState.version;
+      this.renderState.abortController?.abort();
+      this.renderState.abortController = new AbortController();
+
+      this.focusState.cardIndex = 0;
+
+      const groupedData = this.data.groupedData;
+      const allEntries = this.data.data;
+
+      const settings = readBasesSettings(
+        this.config,
+        this.plugin.persistenceManager.getPluginSettings(),
+        "kanban",
+        this.lastRenderedSettings ?? undefined,
+      );
+      this.lastRenderedSettings = settings;
+
+      // Normalize property names once — downstream code uses pre-normalized values
+      const reverseMap = buildDisplayToSyntaxMap(
+        this.config,
+        this.allProperties,
+      );
+      const displayNameMap = buildSyntaxToDisplayMap(
+        this.config,
+        this.allProperties,
+      );
+      normalizeSettingsPropertyNames(
+        this.app,
+        settings,
+        reverseMap,
+        displayNameMap,
+      );
+
+      applyViewContainerStyles(this.containerEl, settings);
+      this.containerEl.style.setProperty(
+        "--dynamic-views-kanban-column-width",
+        `${settings.cardSize}px`,
+      );
+      this.containerEl.style.setProperty(
+        "--dynamic-views-image-aspect-ratio",
+        String(settings.imageRatio),
+      );
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
+
+      const groupByProperty = hasGroupBy(this.config)
+        ? this.config.groupBy?.property
+        : undefined;
+      const sortMethod = getSortMethod(this.config);
+      const visibleProperties = this.config.getOrder();
+      const settingsHash =
+        JSON.stringify(settings) +
+        "\0\0" +
+        visibleProperties.join("\0") +
+        "\0\0" +
+        sortMethod +
+        "\0\0" +
+        (groupByProperty ?? "");
+      // Kanban re-renders on any mtime change: a moved card changes both content and column
+      const renderHash =
+        allEntries
+          .map((e: BasesEntry) => `${e.file.path}:${e.file.stat.mtime}`)
+          .join("\0") +
+        "\0\0" +
+        settingsHash +
+        "\0\0" +
+        getStyleSettingsHash() +
+        "\0\0" +
+        Array.from(this.collapsedGroups).sort().join("\0") +
+        "\0\0" +
+        String(this.sortState.isShuffled) +
+        "\0\0" +
+        this.sortState.order.join("\0");
+
+      if (
+        renderHash === this.renderState.lastRenderHash &&
+        this.boardRef.current?.isConnected
+      ) {
+        this.scrollPreservation?.restoreAfterRender();
+        return;
+      }
+
+      const settingsChanged =
+        this.renderState.lastSettingsHash !== null &&
+        this.renderState.lastSettingsHash !== settingsHash;
+      if (settingsChanged) {
+        this.contentCache.textPreviews = {};
+        this.contentCache.images = {};
+        this.contentCache.hasImageAvailable = {};
+        this.columnRenderCounts.clear();
+      } else {
+        // Drop cached content for modified files only
+        for (const entry of allEntries) {
+          const lastMtime = this.renderState.lastMtimes.get(entry.file.path);
+          if (lastMtime !== undefined && lastMtime !== entry.file.stat.mtime) {
+            delete this.contentCache.textPreviews[entry.file.path];
+            delete this.contentCache.images[entry.file.path];
+            delete this.contentCache.hasImageAvailable[entry.file.path];
+          }
+        }
+      }
+      this.renderState.lastMtimes.clear();
+      for (const entry of allEntries) {
+        this.renderState.lastMtimes.set(entry.file.path, entry.file.stat.mtime);
+      }
+      this.renderState.lastSettingsHash = settingsHash;
+      this.renderState.lastRenderHash = renderHash;
+
+      // Reset shuffle state if sort method changed
+      if (
+        this.sortState.lastMethod !== null &&
+        this.sortState.lastMethod !== sortMethod
+      ) {
+        this.sortState.isShuffled = false;
+        this.sortState.order = [];
+      }
+      this.sortState.lastMethod = sortMethod;
+
+      const processedGroups = processGroups(
+        groupedData,
+        this.sortState.isShuffled,
+        this.sortState.order,
+      ).map(({ group, entries }) => ({
+        group,
+        entries: this.pins.apply(entries),
+      }));
+      const isGrouped = !!groupByProperty;
+
+      // Collect entries for the initial batch of every expanded column
+      const visibleEntries: BasesEntry[] = [];
+      for (const { group, entries } of processedGroups) {
+        const groupKey = group.hasKey()
+          ? serializeGroupKey(group.key)
+          : undefined;
+        const collapseKey = this.getCollapseKey(groupKey);
+        if (isGrouped && this.collapsedGroups.has(collapseKey)) continue;
+        const count =
+          this.columnRenderCounts.get(collapseKey) ?? KANBAN_COLUMN_BATCH_SIZE;
+        visibleEntries.push(...entries.slice(0, count));
+      }
+
+      await loadContentForEntries(
+        visibleEntries,
+        settings,
+        this.app,
+        this.contentCache.textPreviews,
+        this.contentCache.images,
+        this.contentCache.hasImageAvailable,
+      );
+
+      if (
+        this.renderState.version !== currentVersion ||
+        this.renderState.abortController?.signal.aborted
+      ) {
+        return;
+      }
+
+      // Preserve height during clear to prevent parent scroll reset
+      const currentHeight = this.containerEl.scrollHeight;
+      this.containerEl.setCssProps({
+        "--dynamic-views-preserve-height": `${currentHeight}px`,
+      });
+      this.containerEl.addClass("dynamic-views-height-preserved");
+      const previousScrollLeft = this.boardRef.current?.scrollLeft ?? 0;
+
+      this.containerEl.empty();
+      this.cardRenderer.cleanup();
+      this.columns = [];
+      this.containerEl.toggleClass("is-grouped", isGrouped);
+
+      const boardEl = this.containerEl.createDiv("dynamic-views-kanban");
+      this.boardRef.current = boardEl;
+      this.focusCleanup?.();
+      this.focusCleanup = initializeContainerFocus(boardEl);
+      this.setupDragAndDrop(boardEl);
+
+      clearStyleSettingsCache();
+
+      const groupSummaries = parseGroupSummaries(settings.groupSummaries);
+      let cardIndex = 0;
+      for (const { group, entries } of processedGroups) {
+        const groupKey = group.hasKey()
+          ? serializeGroupKey(group.key)
+          : undefined;
+        const collapseKey = this.getCollapseKey(groupKey);
+        const isCollapsed = isGrouped && this.collapsedGroups.has(collapseKey);
+
+        const columnEl = boardEl.createDiv("dynamic-views-kanban-column");
+        columnEl.toggleClass("collapsed", isCollapsed);
+        setGroupKeyDataset(columnEl, groupKey);
+
+        const cardsEl = columnEl.createDiv(
+          "dynamic-views-group bases-cards-group dynamic-views-kanban-cards",
+        );
+        const column: KanbanColumn = {
+          group,
+          collapseKey,
+          entries,
+          columnEl,
+          cardsEl,
+          rendered: 0,
+        };
+        this.columns.push(column);
+
+        const headerEl = renderGroupHeader(
+          columnEl,
+          group,
+          this.config,
+          this.app,
+          entries.length,
+          isCollapsed,
+          () => {
+            if (headerEl) this.toggleGroupCollapse(column, headerEl);
+          },
+        );
+        // Header must precede cards (renderGroupHeader appends)
+        if (headerEl) {
+          columnEl.insertBefore(headerEl, cardsEl);
+          renderGroupSummaries(
+            headerEl,
+            this.app,
+            this.config,
+            entries,
+            groupSummaries,
+          );
+        }
+
+        if (isCollapsed) continue;
+
+        const count =
+          this.columnRenderCounts.get(collapseKey) ?? KANBAN_COLUMN_BATCH_SIZE;
+        cardIndex += this.renderColumnCards(
+          column,
+          entries.slice(0, count),
+          cardIndex,
+          settings,
+        );
+      }
+
+      syncResponsiveClasses(
+        Array.from(boardEl.querySelectorAll<HTMLElement>(".card")),
+      );
+      initializeScrollGradients(boardEl);
+      initializeTitleTruncation(boardEl);
+      this.selection.refresh(
+        new Set(allEntries.map((entry) => entry.file.path)),
+      );
+
+      boardEl.scrollLeft = previousScrollLeft;
+      this.setupInfiniteScroll();
+
+      this.scrollPreservation?.restoreAfterRender();
+      this.containerEl.removeClass("dynamic-views-height-preserved");
+
+      // Clear skip-cover-fade after cached image load events have fired
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => {
+          this.scrollEl
+            .closest(".workspace-leaf-content")
+            ?.classList.remove("skip-cover-fade");
+        });
+      });
+    })();
+  }
+
+  /**
+   * Render cards into a column
+   * @returns Number of cards rendered
+   */
+  private renderColumnCards(
+    column: KanbanColumn,
+    entries: BasesEntry[],
+    startIndex: number,
+    settings: BasesResolvedSettings,
+  ): number {
+    const cards = transformBasesEntries(
+      this.app,
+      entries,
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+
+    for (let i = 0; i < cards.length; i++) {
+      const cardEl = this.renderCard(
+        column.cardsEl,
+        cards[i],
+        entries[i],
+        startIndex + i,
+        settings,
+      );
+      // Cards are always draggable between columns, regardless of openFileAction
+      cardEl.draggable = true;
+    }
+    column.rendered += cards.length;
+    return cards.length;
+  }
+
+  /** Load and append the next cards of a column (infinite scroll, expand) */
+  private async appendColumnCards(
+    column: KanbanColumn,
+    batchSize: number,
+  ): Promise<void> {
+    const start = column.rendered;
+    const newEntries = column.entries.slice(start, start + batchSize);
+    if (newEntries.length === 0) return;
+    const currentVersion = this.renderState.version;
+
+    const settings = readBasesSettings(
+      this.config,
+      this.plugin.persistenceManager.getPluginSettings(),
+      "kanban",
+      this.lastRenderedSettings ?? undefined,
+    );
+    const reverseMap = buildDisplayToSyntaxMap(this.config, this.allProperties);
+    const displayNameMap = buildSyntaxToDisplayMap(
+      this.config,
+      this.allProperties,
+    );
+    normalizeSettingsPropertyNames(
+      this.app,
+      settings,
+      reverseMap,
+      displayNameMap,
+    );
+
+    await loadContentForEntries(
+      newEntries,
+      settings,
+      this.app,
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+
+    // Bail if a new render started or the column was re-rendered during loading
+    if (
+      this.renderState.version !== currentVersion ||
+      column.rendered !== start ||
+      !column.cardsEl.isConnected
+    ) {
+      return;
+    }
+
+    clearStyleSettingsCache();
+    const startIndex =
+      this.boardRef.current?.querySelectorAll(".card").length ?? 0;
+    this.renderColumnCards(column, newEntries, startIndex, settings);
+    this.columnRenderCounts.set(column.collapseKey, column.rendered);
+
+    syncResponsiveClasses(
+      Array.from(column.cardsEl.querySelectorAll<HTMLElement>(".card")),
+    );
+    initializeScrollGradients(column.cardsEl);
+    initializeTitleTruncation(column.cardsEl);
+  }
+
+  private renderCard(
+    container: HTMLElement,
+    card: CardData,
+    entry: BasesEntry,
+    index: number,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    return this.cardRenderer.renderCard(container, card, entry, settings, {
+      index,
+      focusableCardIndex: this.focusState.cardIndex,
+      containerRef: this.boardRef,
+      onFocusChange: (newIndex: number) => {
+        this.focusState.cardIndex = newIndex;
+      },
+      onHoverStart: (el: HTMLElement) => {
+        this.focusState.hoveredEl = el;
+      },
+      onHoverEnd: () => {
+        this.focusState.hoveredEl = null;
+      },
+      selection: this.selection,
+      pins: this.pins,
+    });
+  }
+
+  /** Wire card drag between columns (listeners live on the board, recreated per render) */
+  private setupDragAndDrop(boardEl: HTMLElement): void {
+    this.dragAbortController?.abort();
+    this.dragAbortController = new AbortController();
+    const { signal } = this.dragAbortController;
+
+    const getColumnEl = (target: EventTarget | null): HTMLElement | null =>
+      target instanceof Element
+        ? target.closest<HTMLElement>(".dynamic-views-kanban-column")
+        : null;
+
+    const clearDropTargets = () => {
+      boardEl
+        .querySelectorAll(".dynamic-views-kanban-column.is-drop-target")
+        .forEach((el) => el.removeClass("is-drop-target"));
+    };
+
+    boardEl.addEventListener(
+      "dragstart",
+      (e) => {
+        const cardEl =
+          e.target instanceof Element
+            ? e.target.closest<HTMLElement>(".card")
+            : null;
+        const columnEl = getColumnEl(cardEl);
+        const path = cardEl?.dataset.path;
+        if (!cardEl || !columnEl || !path) return;
+        this.dragState = {
+          path,
+          sourceKey: columnEl.dataset.groupKey ?? "",
+        };
+        cardEl.addClass("is-dragging");
+        // Cards without a drag handler (openFileAction: title) still need a payload
+        if (e.dataTransfer && !e.dataTransfer.types.length) {
+          e.dataTransfer.setData("text/plain", path);
+        }
+      },
+      { signal },
+    );
+
+    boardEl.addEventListener(
+      "dragover",
+      (e) => {
+        if (!this.dragState) return;
+        const columnEl = getColumnEl(e.target);
+        if (
+          !columnEl ||
+          columnEl.dataset.groupKey === this.dragState.sourceKey
+        ) {
+          return;
+        }
+        e.preventDefault();
+        if (e.dataTransfer) e.dataTransfer.dropEffect = "move";
+        if (!columnEl.hasClass("is-drop-target")) {
+          clearDropTargets();
+          columnEl.addClass("is-drop-target");
+        }
+      },
+      { signal },
+    );
+
+    boardEl.addEventListener(
+      "dragleave",
+      (e) => {
+        const columnEl = getColumnEl(e.target);
+        if (columnEl && !columnEl.contains(e.relatedTarget as Node | null)) {
+          columnEl.removeClass("is-drop-target");
+        }
+      },
+      { signal },
+    );
+
+    boardEl.addEventListener(
+      "drop",
+      (e) => {
+        const dragState = this.dragState;
+        const columnEl = getColumnEl(e.target);
+        clearDropTargets();
+        if (!dragState || !columnEl) return;
+        e.preventDefault();
+        const column = this.columns.find((c) => c.columnEl === columnEl);
+        if (column) void this.moveCardToColumn(dragState.path, column);
+      },
+      { signal },
+    );
+
+    boardEl.addEventListener(
+      "dragend",
+      () => {
+        this.dragState = null;
+        clearDropTargets();
+        boardEl
+          .querySelectorAll(".card.is-dragging")
+          .forEach((el) => el.removeClass("is-dragging"));
+      },
+      { signal },
+    );
+  }
+
+  /** Rewrite the group-by property so the note lands in the target column */
+  private async moveCardToColumn(
+    path: string,
+    column: KanbanColumn,
+  ): Promise<void> {
+    const groupByProperty = hasGroupBy(this.config)
+      ? this.config.groupBy?.property
+      : undefined;
+    const fmProp = getWritableGroupProperty(groupByProperty);
+    if (!groupByProperty || !fmProp) {
+      new Notice(
+        groupByProperty
+          ? `Can't move cards: ${this.config.getDisplayName(groupByProperty as BasesPropertyId)} is not a note property`
+          : "Group by a note property to move cards between columns",
+      );
+      return;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return;
+
+    const value = column.group.hasKey()
+      ? groupKeyToFrontmatterValue(column.group.key)
+      : null;
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        if (value === null) {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- processFrontMatter callback receives any
+          delete frontmatter[fmProp];
+        } else {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- processFrontMatter callback receives any
+          frontmatter[fmProp] = value;
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to move ${path}:`, error);
+      new Notice(`Failed to update ${file.basename}`);
+    }
+  }
+
+  /** Load more cards in columns whose bottom edge nears the viewport */
+  private setupInfiniteScroll(): void {
+    const scrollContainer = this.scrollEl;
+
+    if (this.scrollThrottle.listener) {
+      scrollContainer.removeEventListener(
+        "scroll",
+        this.scrollThrottle.listener,
+      );
+      this.scrollThrottle.listener = null;
+    }
+    if (this.scrollThrottle.timeoutId !== null) {
+      window.clearTimeout(this.scrollThrottle.timeoutId);
+      this.scrollThrottle.timeoutId = null;
+    }
+
+    const checkAndLoad = () => {
+      if (!scrollContainer.isConnected) return;
+      const viewportBottom =
+        scrollContainer.getBoundingClientRect().bottom +
+        scrollContainer.clientHeight * PANE_MULTIPLIER;
+      for (const column of this.columns) {
+        if (
+          column.columnEl.hasClass("collapsed") ||
+          column.rendered === 0 ||
+          column.rendered >= column.entries.length
+        ) {
+          continue;
+        }
+        if (column.cardsEl.getBoundingClientRect().bottom < viewportBottom) {
+          void this.appendColumnCards(column, KANBAN_COLUMN_BATCH_SIZE);
+        }
+      }
+    };
+
+    this.scrollThrottle.listener = () => {
+      if (this.scrollThrottle.timeoutId !== null) return;
+      checkAndLoad();
+      this.scrollThrottle.timeoutId = window.setTimeout(() => {
+        this.scrollThrottle.timeoutId = null;
+        checkAndLoad(); // Trailing call catches scroll position changes during throttle
+      }, SCROLL_THROTTLE_MS);
+    };
+
+    scrollContainer.addEventListener("scroll", this.scrollThrottle.listener, {
+      passive: true,
+    });
+    checkAndLoad();
+  }
+
+  onunload(): void {
+    this.scrollPreservation?.cleanup();
+    if (this.trailingUpdate.timeoutId !== null) {
+      window.clearTimeout(this.trailingUpdate.timeoutId);
+    }
+    if (this.scrollThrottle.listener) {
+      this.scrollEl.removeEventListener("scroll", this.scrollThrottle.listener);
+    }
+    if (this.scrollThrottle.timeoutId !== null) {
+      window.clearTimeout(this.scrollThrottle.timeoutId);
+    }
+    this.swipeAbortController?.abort();
+    this.dragAbortController?.abort();
+    this.renderState.abortController?.abort();
+    this.focusCleanup?.();
+    this.selection.destroy();
+    this.cardRenderer.cleanup(true); // Force viewer cleanup on view destruction
+  }
+
+  focus(): void {
+    this.containerEl.focus({ preventScroll: true });
+  }
+}
+
+/** Export options for registration */
+export const kanbanViewOptions = getKanbanViewOptions;
@@ -0,0 +1,894 @@
+/**
+ * Bases List View
+ * One compact row per entry (title, subtitle, optional thumbnail and inline
+ * properties) for dense note indexes; groups collapse like the grid view
+ */
+
+import {
+  BasesEntry,
+  BasesPropertyId,
+  BasesView,
+  Keymap,
+  QueryController,
+  TFile,
+} from "obsidian";
+import { CardData } from "../shared/card-renderer";
+import { transformBasesEntries } from "../shared/data-transform";
+import {
+  readBasesSettings,
+  getListViewOptions,
+} from "../shared/settings-schema";
+import { showFileContextMenu } from "../shared/context-menu";
+import { renderPinBadge } from "../shared/card-pins";
+import { applyViewContainerStyles } from "./shared-renderer";
+import {
+  BATCH_SIZE,
+  PANE_MULTIPLIER,
+  SCROLL_THROTTLE_MS,
+} from "../shared/constants";
+import {
+  setupBasesSwipeInterception,
+  setupStyleSettingsObserver,
+  getStyleSettingsHash,
+  getSortMethod,
+  loadContentForEntries,
+  processGroups,
+  nestGroups,
+  planGroupBatch,
+  syncGroupHeadingHeight,
+  getGroupSectionParent,
+  getSubgroupProperties,
+  getCollapseKey,
+  cleanupBaseFile,
+  shouldProcessDataUpdate,
+  renderGroupHeader,
+  hasGroupBy,
+  serializeGroupKey,
+  setGroupKeyDataset,
+  type NestedGroup,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
+} from "./utils";
+import {
+  ScrollPreservation,
+  getLeafProps,
+} from "../shared/scroll-preservation";
+import {
+  buildDisplayToSyntaxMap,
+  buildSyntaxToDisplayMap,
+  normalizeSettingsPropertyNames,
+} from "../utils/property";
+import {
+  parseGroupSummaries,
+  renderGroupSummaries,
+  renderSummaryFooter,
+} from "./group-summaries";
+import type DynamicViews from "../../main";
+import type {
+  BasesResolvedSettings,
+  ContentCache,
+  RenderState,
+  SortState,
+} from "../types";
+
+export const LIST_VIEW_TYPE = "dynamic-views-list";
+
+/** A Bases group or subgroup in render order, with its collapse key */
+type ListGroup = NestedGroup;
+
+export class DynamicViewsListView extends BasesView {
+  readonly type = LIST_VIEW_TYPE;
+  private scrollEl: HTMLElement;
+  private leafId: string;
+  private containerEl: HTMLElement;
+  private plugin: DynamicViews;
+  private _resolvedFile: TFile | null | undefined = undefined;
+  private scrollPreservation: ScrollPreservation | null = null;
+  private _previousCustomClasses: string[] = [];
+  private _collapsedGroupsLoaded = false;
+
+  // Consolidated state objects (shared patterns with grid-view)
+  private contentCache: ContentCache = {
+    textPreviews: {},
+    images: {},
+    hasImageAvailable: {},
+  };
+  private renderState: RenderState = {
+    version: 0,
+    abortController: null,
+    lastRenderHash: "",
+    lastSettingsHash: null,
+    lastMtimes: new Map(),
+  };
+  // Track last rendered settings to detect stale config (see readBasesSettings)
+  private lastRenderedSettings: BasesResolvedSettings | null = null;
+  private sortState: SortState = {
+    isShuffled: false,
+    order: [],
+    lastMethod: null,
+  };
+  private templateToggle: TemplateToggle;
+
+  // Public accessors for sortState (used by randomize.ts)
+  get isShuffled(): boolean {
+    return this.sortState.isShuffled;
+  }
+  set isShuffled(value: boolean) {
+    this.sortState.isShuffled = value;
+  }
+  get shuffledOrder(): string[] {
+    return this.sortState.order;
+  }
+  set shuffledOrder(value: string[]) {
+    this.sortState.order = value;
+  }
+  get viewScrollEl(): HTMLElement {
+    return this.scrollEl;
+  }
+
+  // List-specific state
+  private listEl: HTMLElement | null = null;
+  private groups: ListGroup[] = [];
+  // Group sections by collapse key, so subgroups (also in batches) nest in
+  // their parent's section and its heading stays stuck over them
+  private groupSections = new Map<string, HTMLElement>();
+  // Next row to render: group index and offset within that group
+  private position = { groupIndex: 0, offset: 0 };
+  private openGroupEl: HTMLElement | null = null;
+  private rendered = 0;
+  // Rows to restore after a re-render (survives data updates, not settings)
+  private displayedCount = BATCH_SIZE;
+  private isLoading = false;
+  private collapsedGroups: Set<string> = new Set();
+  // Pinned rows come first in each group (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private viewId: string | null = null;
+  private swipeAbortController: AbortController | null = null;
+  private scrollAbortController: AbortController | null = null;
+  private scrollTimeoutId: number | null = null;
+  private lastDataUpdateTime = { value: 0 };
+  private trailingUpdate: {
+    timeoutId: number | null;
+    callback: (() => void) | null;
+    isTrailing?: boolean;
+  } = {
+    timeoutId: null,
+    callback: null,
+  };
+
+  /** Get the current file by resolving from the leaf's view state (cached) */
+  private get currentFile(): TFile | null {
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
+    return this._resolvedFile;
+  }
+
+  /** Get the collapse key for a group (nested under its parent group) */
+  private getCollapseKey(
+    groupKey: string | undefined,
+    parentCollapseKey?: string,
+  ): string {
+    return getCollapseKey(groupKey, parentCollapseKey);
+  }
+
+  /** Collapse state only applies when grouped (see grid-view) */
+  private isCollapsed(listGroup: ListGroup): boolean {
+    return (
+      hasGroupBy(this.config) &&
+      !!this.config.groupBy?.property &&
+      this.collapsedGroups.has(listGroup.collapseKey)
+    );
+  }
+
+  /**
+   * Toggle collapse state for a group and persist
+   * Groups split into subgroups re-render, since their subgroup sections
+   * follow as siblings.
+   */
+  private toggleGroupCollapse(
+    collapseKey: string,
+    headerEl: HTMLElement,
+    hasSubgroups = false,
+  ): void {
+    const wasCollapsed = this.collapsedGroups.has(collapseKey);
+    if (wasCollapsed) {
+      this.collapsedGroups.delete(collapseKey);
+      headerEl.removeClass("collapsed");
+    } else {
+      this.collapsedGroups.add(collapseKey);
+      headerEl.addClass("collapsed");
+    }
+
+    // Persist collapse state (async — in-memory state is authoritative)
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      {
+        collapsedGroups: Array.from(this.collapsedGroups),
+      },
+    );
+
+    if (hasSubgroups) {
+      this.onDataUpdated();
+      return;
+    }
+
+    const groupEl = headerEl.nextElementSibling as HTMLElement | null;
+    if (wasCollapsed) {
+      // Expanding: populate only this group (avoids full re-render flash)
+      if (groupEl) void this.expandGroup(collapseKey, groupEl);
+    } else {
+      // Collapsing: remove rows, then keep a stuck header at the viewport top
+      if (groupEl) groupEl.empty();
+      // A group still being filled by infinite scroll is done
+      if (groupEl && groupEl === this.openGroupEl) {
+        this.position = { groupIndex: this.position.groupIndex + 1, offset: 0 };
+        this.openGroupEl = null;
+      }
+      this.renderState.lastRenderHash = "";
+      const headerTop = headerEl.getBoundingClientRect().top;
+      const scrollTop = this.scrollEl.getBoundingClientRect().top;
+      if (headerTop < scrollTop) {
+        this.scrollEl.scrollTop += headerTop - scrollTop;
+      }
+      // Collapsing reduces height, may need to load more
+      this.scrollEl.dispatchEvent(new Event("scroll"));
+    }
+  }
+
+  /** Populate a single group's rows without re-rendering the entire view */
+  private async expandGroup(
+    collapseKey: string,
+    groupEl: HTMLElement,
+  ): Promise<void> {
+    const listGroup = this.groups.find((g) => g.collapseKey === collapseKey);
+    if (!listGroup || listGroup.entries.length === 0) return;
+    const currentVersion = this.renderState.version;
+    const settings = this.readSettings();
+
+    await this.loadThumbnails(listGroup.entries, settings);
+
+    // Bail if a new render started during content loading
+    if (this.renderState.version !== currentVersion) return;
+
+    this.renderRows(groupEl, listGroup.entries, settings);
+
+    // Invalidate render hash so next onDataUpdated() doesn't skip
+    this.renderState.lastRenderHash = "";
+  }
+
+  /** Whether this view has grouped data */
+  public get isGrouped(): boolean {
+    return hasGroupBy(this.config) && (this.data?.groupedData?.length ?? 0) > 0;
+  }
+
+  /** Fold all groups — called by command palette */
+  public foldAllGroups(): void {
+    if (!this.data) return;
+    // Collect all group keys from data (not DOM — infinite scroll may not have rendered all)
+    for (const g of this.data.groupedData) {
+      const groupKey = g.hasKey() ? serializeGroupKey(g.key) : undefined;
+      this.collapsedGroups.add(this.getCollapseKey(groupKey));
+    }
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      {
+        collapsedGroups: Array.from(this.collapsedGroups),
+      },
+    );
+    this.renderState.lastRenderHash = "";
+    this.onDataUpdated();
+  }
+
+  /** Unfold all groups — called by command palette */
+  public unfoldAllGroups(): void {
+    this.collapsedGroups.clear();
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      {
+        collapsedGroups: [],
+      },
+    );
+    this.onDataUpdated();
+  }
+
+  constructor(controller: QueryController, scrollEl: HTMLElement) {
+    super(controller);
+
+    this.scrollEl = scrollEl;
+    // Find leaf by matching container (getLeaf() creates new leaf if pinned, activeLeaf is deprecated)
+    this.leafId = "";
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view?.containerEl?.contains(scrollEl)) {
+        this.leafId = getLeafProps(leaf).id ?? "";
+      }
+    });
+
+    this.containerEl = scrollEl.createDiv({
+      cls: "dynamic-views dynamic-views-bases-container",
+    });
+
+    // Access plugin from controller's app
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "list", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
+
+    const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
+
+    // Setup swipe interception on mobile if enabled
+    this.swipeAbortController = setupBasesSwipeInterception(
+      this.containerEl,
+      this.app,
+      pluginSettings,
+    );
+
+    // Watch for Dynamic Views Style Settings changes only
+    const disconnectObserver = setupStyleSettingsObserver(() =>
+      this.onDataUpdated(),
+    );
+    this.register(disconnectObserver);
+
+    if (this.leafId) {
+      this.scrollPreservation = new ScrollPreservation({
+        leafId: this.leafId,
+        scrollEl: this.scrollEl,
+        registerEvent: (e) => this.registerEvent(e),
+        register: (c) => this.register(c),
+        app: this.app,
+      });
+    }
+  }
+
+  onload(): void {
+    super.onload();
+  }
+
+  onDataUpdated(): void {
+    this.templateToggle.sync();
+
+    // Delay reading config - Obsidian may fire onDataUpdated before updating config.getOrder()
+    queueMicrotask(() => this.processDataUpdate());
+  }
+
+  /** Internal handler after config has settled */
+  private processDataUpdate(): void {
+    this.trailingUpdate.isTrailing = false;
+    this.trailingUpdate.callback = () => this.onDataUpdated();
+
+    if (
+      !shouldProcessDataUpdate(this.lastDataUpdateTime, this.trailingUpdate)
+    ) {
+      return;
+    }
+
+    void (async () => {
+      // Ensure all views in file have valid ids, get this view's id
+      const viewIds = await cleanupBaseFile(
+        this.app,
+        this.currentFile,
+        this.plugin,
+      );
+      const viewName = this.config?.name;
+      this.viewId = (viewName && viewIds?.get(viewName)) ?? null;
+
+      // Load collapsed groups only on first render; afterwards the in-memory
+      // Set is authoritative (same as grid-view)
+      if (!this._collapsedGroupsLoaded) {
+        const basesState = this.plugin.persistenceManager.getBasesState(
+          this.viewId ?? undefined,
+        );
+        this.collapsedGroups = new Set(basesState.collapsedGroups ?? []);
+        this.pins.load();
+        this._collapsedGroupsLoaded = true;
+      }
+
+      if (!this.data) return;
+
+      // Increment render version to cancel any in-flight stale renders
+      this.renderState.version++;
+      const currentVersion = this.renderState.version;
+      this.renderState.abortController?.abort();
+      this.renderState.abortController = new AbortController();
+
+      const allEntries = this.data.data;
+
+      const settings = this.readSettings();
+      this.lastRenderedSettings = settings;
+
+      applyViewContainerStyles(this.containerEl, settings);
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
+
+      const groupByProperty = hasGroupBy(this.config)
+        ? this.config.groupBy?.property
+        : undefined;
+      const sortMethod = getSortMethod(this.config);
+      const visibleProperties = this.config.getOrder();
+      const settingsHash =
+        JSON.stringify(settings) +
+        "\0\0" +
+        visibleProperties.join("\0") +
+        "\0\0" +
+        sortMethod +
+        "\0\0" +
+        (groupByProperty ?? "");
+      const collapsedHash = Array.from(this.collapsedGroups).sort().join("\0");
+      const renderHash =
+        allEntries
+          .map((e: BasesEntry) => `${e.file.path}:${e.file.stat.mtime}`)
+          .join("\0") +
+        "\0\0" +
+        settingsHash +
+        "\0\0" +
+        getStyleSettingsHash() +
+        "\0\0" +
+        collapsedHash +
+        "\0\0" +
+        String(this.sortState.isShuffled) +
+        "\0\0" +
+        this.sortState.order.join("\0");
+
+      if (
+        renderHash === this.renderState.lastRenderHash &&
+        this.listEl?.isConnected
+      ) {
+        this.scrollPreservation?.restoreAfterRender();
+        return;
+      }
+
+      const settingsChanged =
+        this.renderState.lastSettingsHash !== null &&
+        this.renderState.lastSettingsHash !== settingsHash;
+      if (settingsChanged) {
+        this.contentCache.images = {};
+        this.contentCache.hasImageAvailable = {};
+        this.displayedCount = BATCH_SIZE;
+      } else {
+        // Drop cached thumbnails for modified files only
+        for (const entry of allEntries) {
+          const lastMtime = this.renderState.lastMtimes.get(entry.file.path);
+          if (lastMtime !== undefined && lastMtime !== entry.file.stat.mtime) {
+            delete this.contentCache.images[entry.file.path];
+            delete this.contentCache.hasImageAvailable[entry.file.path];
+          }
+        }
+      }
+      this.renderState.lastMtimes.clear();
+      for (const entry of allEntries) {
+        this.renderState.lastMtimes.set(entry.file.path, entry.file.stat.mtime);
+      }
+      this.renderState.lastSettingsHash = settingsHash;
+      this.renderState.lastRenderHash = renderHash;
+
+      // Reset shuffle state if sort method changed
+      if (
+        this.sortState.lastMethod !== null &&
+        this.sortState.lastMethod !== sortMethod
+      ) {
+        this.sortState.isShuffled = false;
+        this.sortState.order = [];
+      }
+      this.sortState.lastMethod = sortMethod;
+
+      const groups: ListGroup[] = nestGroups(
+        processGroups(
+          this.data.groupedData,
+          this.sortState.isShuffled,
+          this.sortState.order,
+        ).map(({ group, entries }) => ({
+          group,
+          entries: this.pins.apply(entries),
+        })),
+        getSubgroupProperties(this.config, settings),
+        this.collapsedGroups,
+      );
+      const isGrouped = !!groupByProperty;
+
+      this.groups = groups;
+      this.position = { groupIndex: 0, offset: 0 };
+      await this.loadThumbnails(
+        this.collectEntries(this.displayedCount),
+        settings,
+      );
+
+      if (
+        this.renderState.version !== currentVersion ||
+        this.renderState.abortController?.signal.aborted
+      ) {
+        return;
+      }
+
+      // Preserve height during clear to prevent parent scroll reset
+      const currentHeight = this.containerEl.scrollHeight;
+      this.containerEl.setCssProps({
+        "--dynamic-views-preserve-height": `${currentHeight}px`,
+      });
+      this.containerEl.addClass("dynamic-views-height-preserved");
+
+      this.containerEl.empty();
+      this.groupSections.clear();
+      this.openGroupEl = null;
+      this.rendered = 0;
+
+      this.containerEl.toggleClass("is-grouped", isGrouped);
+      const listEl = this.containerEl.createDiv(
+        `dynamic-views-list${isGrouped ? " bases-cards-container" : ""}`,
+      );
+      this.listEl = listEl;
+
+      if (allEntries.length === 0) {
+        listEl.createDiv({
+          cls: "dynamic-views-list-empty",
+          text: "No notes to show",
+        });
+      }
+
+      // Totals footer follows the list (batches append inside the list)
+      if (settings.summaryFooter) {
+        renderSummaryFooter(
+          this.containerEl,
+          this.app,
+          this.config,
+          allEntries,
+          parseGroupSummaries(settings.groupSummaries),
+        );
+      }
+
+      this.renderNext(this.displayedCount, settings);
+      syncGroupHeadingHeight(listEl);
+      this.setupInfiniteScroll();
+
+      this.scrollPreservation?.restoreAfterRender();
+      this.containerEl.removeClass("dynamic-views-height-preserved");
+    })();
+  }
+
+  /** Resolve settings with property names normalized to syntax names */
+  private readSettings(): BasesResolvedSettings {
+    const settings = readBasesSettings(
+      this.config,
+      this.plugin.persistenceManager.getPluginSettings(),
+      "list",
+      this.lastRenderedSettings ?? undefined,
+    );
+    const reverseMap = buildDisplayToSyntaxMap(this.config, this.allProperties);
+    const displayNameMap = buildSyntaxToDisplayMap(
+      this.config,
+      this.allProperties,
+    );
+    normalizeSettingsPropertyNames(
+      this.app,
+      settings,
+      reverseMap,
+      displayNameMap,
+    );
+    return settings;
+  }
+
+  /**
+   * Load thumbnails for rows about to render
+   * Rows never show text previews, so only images are loaded (and only when
+   * thumbnails are on).
+   */
+  private async loadThumbnails(
+    entries: BasesEntry[],
+    settings: BasesResolvedSettings,
+  ): Promise<void> {
+    if (!settings.listThumbnails || entries.length === 0) return;
+    await loadContentForEntries(
+      entries,
+      { ...settings, textPreviewProperty: "", fallbackToContent: false },
+      this.app,
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+  }
+
+  /** The next `count` entries from the current position (skips collapsed) */
+  private collectEntries(count: number): BasesEntry[] {
+    return planGroupBatch(this.groups, this.position, count, (listGroup) =>
+      this.isCollapsed(listGroup),
+    ).slices.flatMap((slice) => slice.entries);
+  }
+
+  /**
+   * Render the next `count` rows, opening a section at each group
+   * Collapsed groups only get a header; a batch that ends mid-group continues
+   * in the same list on the next call.
+   */
+  private renderNext(count: number, settings: BasesResolvedSettings): void {
+    const listEl = this.listEl;
+    if (!listEl) return;
+
+    const { slices, position } = planGroupBatch(
+      this.groups,
+      this.position,
+      count,
+      (listGroup) => this.isCollapsed(listGroup),
+    );
+    for (const { group, entries, isComplete } of slices) {
+      if (!this.openGroupEl) {
+        this.openGroupEl = this.renderSection(listEl, group, settings);
+      }
+      this.renderRows(this.openGroupEl, entries, settings);
+      this.rendered += entries.length;
+      if (isComplete) this.openGroupEl = null;
+    }
+    this.position = position;
+  }
+
+  /** Section wrapper with group header; returns the list rows go into */
+  private renderSection(
+    listEl: HTMLElement,
+    listGroup: ListGroup,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    // Wrap header + list in a section so sticky scopes to the group's rows
+    const parentEl = getGroupSectionParent(
+      this.groupSections,
+      listEl,
+      listGroup.parentCollapseKey,
+    );
+    const sectionEl = parentEl.createDiv("dynamic-views-group-section");
+    this.groupSections.set(listGroup.collapseKey, sectionEl);
+    if (listGroup.depth > 0) {
+      sectionEl.addClass("is-subgroup");
+      sectionEl.style.setProperty(
+        "--dynamic-views-group-depth",
+        String(listGroup.depth),
+      );
+    }
+    const { collapseKey, hasSubgroups } = listGroup;
+    const headerEl = renderGroupHeader(
+      sectionEl,
+      listGroup.group,
+      this.config,
+      this.app,
+      listGroup.count,
+      this.isCollapsed(listGroup),
+      () => {
+        if (headerEl) {
+          this.toggleGroupCollapse(collapseKey, headerEl, hasSubgroups);
+        }
+      },
+      listGroup.property,
+    );
+    if (headerEl) {
+      renderGroupSummaries(
+        headerEl,
+        this.app,
+        this.config,
+        listGroup.allEntries,
+        parseGroupSummaries(settings.groupSummaries),
+      );
+    }
+
+    // Empty if collapsed or split into subgroups, kept for the header's
+    // sibling structure
+    const groupEl = sectionEl.createEl("ul", {
+      cls: `dynamic-views-group bases-cards-group list-view marker-${settings.listMarker}`,
+    });
+    setGroupKeyDataset(groupEl, listGroup.groupKey);
+    return groupEl;
+  }
+
+  private renderRows(
+    groupEl: HTMLElement,
+    entries: BasesEntry[],
+    settings: BasesResolvedSettings,
+  ): void {
+    if (entries.length === 0) return;
+    const cards = transformBasesEntries(
+      this.app,
+      entries,
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+    for (let i = 0; i < cards.length; i++) {
+      this.renderRow(groupEl, cards[i], entries[i], settings);
+    }
+  }
+
+  /** One row: thumbnail, title link, subtitle and inline properties */
+  private renderRow(
+    groupEl: HTMLElement,
+    card: CardData,
+    entry: BasesEntry,
+    settings: BasesResolvedSettings,
+  ): void {
+    const rowEl = groupEl.createEl("li", {
+      cls: "list-item dynamic-views-list-row",
+    });
+    rowEl.dataset.path = card.path;
+
+    // Placeholder keeps titles aligned when a note has no image
+    if (settings.listThumbnails) {
+      const thumbEl = rowEl.createSpan("dynamic-views-list-thumbnail");
+      const imageUrl = Array.isArray(card.imageUrl)
+        ? card.imageUrl[0]
+        : card.imageUrl;
+      if (imageUrl) {
+        thumbEl.createEl("img", {
+          attr: { src: imageUrl, alt: "", loading: "lazy", draggable: "false" },
+        });
+      }
+    }
+
+    if (this.pins.isPinned(card.path)) renderPinBadge(rowEl);
+
+    const linkEl = rowEl.createEl("a", {
+      cls: "internal-link list-link",
+      text: card.title || card.name,
+      attr: {
+        "data-href": card.path,
+        href: card.path,
+        draggable: "true",
+      },
+    });
+    linkEl.addEventListener("click", (e) => {
+      e.preventDefault();
+      const paneType = Keymap.isModEvent(e);
+      void this.app.workspace.openLinkText(card.path, "", paneType || false);
+    });
+    linkEl.addEventListener("mouseenter", (e) => {
+      this.app.workspace.trigger("hover-link", {
+        event: e,
+        source: "bases",
+        hoverParent: { hoverPopover: null },
+        targetEl: linkEl,
+        linktext: card.path,
+        sourcePath: card.path,
+      });
+    });
+    linkEl.addEventListener("contextmenu", (e) => {
+      showFileContextMenu(e, this.app, entry.file, card.path, this.pins);
+    });
+    linkEl.addEventListener("dragstart", (e) => {
+      const dragData = this.app.dragManager.dragFile(e, entry.file);
+      this.app.dragManager.onDragStart(e, dragData);
+    });
+
+    if (card.subtitle) {
+      rowEl.createSpan({
+        cls: "dynamic-views-list-subtitle",
+        text: card.subtitle,
+      });
+    }
+
+    // The title already shows its own property
+    const titleProperty = settings.titleProperty.split(",")[0].trim();
+    const properties = card.properties.filter(
+      (prop) =>
+        prop.value !== null && prop.value !== "" && prop.name !== titleProperty,
+    );
+    if (properties.length === 0) return;
+
+    const propertiesEl = rowEl.createSpan("list-properties");
+    for (const prop of properties) {
+      const propEl = propertiesEl.createSpan("dynamic-views-list-property");
+      propEl.dataset.property = prop.name;
+      if (settings.propertyLabels !== "hide") {
+        propEl.createSpan({
+          cls: "dynamic-views-list-property-label",
+          text: this.config.getDisplayName(prop.name as BasesPropertyId),
+        });
+      }
+      // Bases renders its own values (links, tags, dates) like its table cells
+      const valueEl = propEl.createSpan("list-text");
+      const value = entry.getValue(prop.name as BasesPropertyId);
+      if (value) {
+        value.renderTo(valueEl, this.app.renderContext);
+      } else {
+        valueEl.setText(String(prop.value));
+      }
+    }
+  }
+
+  /** Load and append the next batch of rows (infinite scroll) */
+  private async appendRows(): Promise<void> {
+    if (this.isLoading) return;
+    const entries = this.collectEntries(BATCH_SIZE);
+    if (entries.length === 0) return;
+    const currentVersion = this.renderState.version;
+    const settings = this.readSettings();
+
+    this.isLoading = true;
+    try {
+      await this.loadThumbnails(entries, settings);
+    } finally {
+      this.isLoading = false;
+    }
+
+    // Bail if a new render started during loading
+    if (
+      this.renderState.version !== currentVersion ||
+      !this.listEl?.isConnected
+    ) {
+      return;
+    }
+
+    this.renderNext(BATCH_SIZE, settings);
+    this.displayedCount = Math.max(this.displayedCount, this.rendered);
+    // A short batch may still leave the end in range
+    this.scrollEl.dispatchEvent(new Event("scroll"));
+  }
+
+  /** Append batches as the end of the list comes into range */
+  private setupInfiniteScroll(): void {
+    this.scrollAbortController?.abort();
+    this.scrollAbortController = new AbortController();
+    const { signal } = this.scrollAbortController;
+    if (this.scrollTimeoutId !== null) {
+      window.clearTimeout(this.scrollTimeoutId);
+      this.scrollTimeoutId = null;
+    }
+
+    const listEl = this.listEl;
+    if (!listEl) return;
+
+    const checkAndLoad = () => {
+      if (!listEl.isConnected) return;
+      if (this.position.groupIndex >= this.groups.length) return;
+      const nearEnd =
+        listEl.getBoundingClientRect().bottom <
+        this.scrollEl.getBoundingClientRect().bottom +
+          this.scrollEl.clientHeight * PANE_MULTIPLIER;
+      if (nearEnd) void this.appendRows();
+    };
+
+    const onScroll = () => {
+      if (this.scrollTimeoutId !== null) return;
+      checkAndLoad();
+      this.scrollTimeoutId = window.setTimeout(() => {
+        this.scrollTimeoutId = null;
+        checkAndLoad(); // Trailing call catches scroll position changes during throttle
+      }, SCROLL_THROTTLE_MS);
+    };
+
+    this.scrollEl.addEventListener("scroll", onScroll, {
+      passive: true,
+      signal,
+    });
+    checkAndLoad();
+  }
+
+  onunload(): void {
+    this.scrollPreservation?.cleanup();
+    if (this.trailingUpdate.timeoutId !== null) {
+      window.clearTimeout(this.trailingUpdate.timeoutId);
+    }
+    if (this.scrollTimeoutId !== null) {
+      window.clearTimeout(this.scrollTimeoutId);
+    }
+    this.scrollAbortController?.abort();
+    this.swipeAbortController?.abort();
+    this.renderState.abortController?.abort();
+  }
+
+  focus(): void {
+    this.containerEl.focus({ preventScroll: true });
+  }
+}
+
+/** Export options for registration */
+export const listViewOptions = getListViewOptions;
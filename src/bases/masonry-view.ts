@@ -3,13 +3,18 @@
  * Masonry layout view using Bases API
  */
 
-import { BasesView, BasesEntry, QueryController, TFile } from "obsidian";
+import {
+  BasesView,
+  BasesEntry,
+  BasesEntryGroup,
+  QueryController,
+  TFile,
+} from "obsidian";
 import { CardData } from "../shared/card-renderer";
 import { transformBasesEntries } from "../shared/data-transform";
 import {
   readBasesSettings,
   getMasonryViewOptions,
-  extractBasesTemplate,
 } from "../shared/settings-schema";
 import {
   getCardSpacing,
@@ -20,7 +25,11 @@ import {
   calculateMasonryLayout,
   calculateMasonryDimensions,
   calculateIncrementalMasonryLayout,
+  calculateJustifiedLayout,
+  calculateIncrementalJustifiedLayout,
+  applyJustifiedLayout,
   type MasonryLayoutResult,
+  type JustifiedLayoutResult,
 } from "../utils/masonry-layout";
 import {
   SharedCardRenderer,
@@ -28,7 +37,15 @@ import {
   syncResponsiveClasses,
   applyViewContainerStyles,
 } from "./shared-renderer";
-import { getCachedAspectRatio } from "../shared/image-loader";
+import {
+  CardVirtualizer,
+  VIRTUALIZED_CARD_CLASS,
+} from "./card-virtualizer";
+import { CardSelection } from "./card-selection";
+import {
+  getCachedAspectRatio,
+  DEFAULT_ASPECT_RATIO,
+} from "../shared/image-loader";
 import {
   PANE_MULTIPLIER,
   ROWS_PER_COLUMN,
@@ -43,16 +60,24 @@ import {
   getSortMethod,
   loadContentForEntries,
   processGroups,
+  nestGroups,
+  syncGroupHeadingHeight,
+  getGroupSectionParent,
+  getSubgroupProperties,
+  getCollapseKey,
   renderGroupHeader,
   hasGroupBy,
   serializeGroupKey,
   setGroupKeyDataset,
   getGroupKeyDataset,
-  UNDEFINED_GROUP_KEY_SENTINEL,
+  type NestedGroup,
   cleanupBaseFile,
-  clearOldTemplateToggles,
-  isCurrentTemplateView,
   shouldProcessDataUpdate,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
 } from "./utils";
 import {
   initializeContainerFocus,
@@ -72,6 +97,18 @@ import {
   buildSyntaxToDisplayMap,
   normalizeSettingsPropertyNames,
 } from "../utils/property";
+import {
+  parseGroupSummaries,
+  renderGroupSummaries,
+  renderSummaryFooter,
+  type GroupSummary,
+} from "./group-summaries";
+import {
+  moveInManualOrder,
+  setupManualReorder,
+  type DropPosition,
+} from "../shared/manual-order";
+import { renderMarkdownPreview } from "../shared/markdown-preview";
 import type DynamicViews from "../../main";
 import type {
   BasesResolvedSettings,
@@ -82,7 +119,6 @@ import type {
   SortState,
   FocusState,
 } from "../types";
-import { VIEW_DEFAULTS } from "../constants";
 import { showTipOnce } from "../utils/tips";
 
 // Extend Obsidian types
@@ -102,6 +138,8 @@ export class DynamicViewsMasonryView extends BasesView {
   private plugin: DynamicViews;
   private scrollPreservation: ScrollPreservation | null = null;
   private cardRenderer: SharedCardRenderer;
+  private virtualizer: CardVirtualizer;
+  private selection: CardSelection;
   private _resolvedFile: TFile | null | undefined = undefined;
   private _collapsedGroupsLoaded = false;
   private _previousCustomClasses: string[] = [];
@@ -121,6 +159,11 @@ export class DynamicViewsMasonryView extends BasesView {
   };
   // Track last rendered settings to detect stale config (see readBasesSettings)
   private lastRenderedSettings: BasesResolvedSettings | null = null;
+  // Parsed from settings.groupSummaries each render
+  private groupSummaries: GroupSummary[] = [];
+  // Group sections by collapse key, so subgroups (also in batches) nest in
+  // their parent's section and its heading stays stuck over them
+  private groupSections = new Map<string, HTMLElement>();
   private lastGroup: LastGroupState = { key: undefined, container: null };
   private scrollThrottle: ScrollThrottleState = {
     listener: null,
@@ -131,9 +174,19 @@ export class DynamicViewsMasonryView extends BasesView {
     order: [],
     lastMethod: null,
   };
-  private focusState: FocusState = { cardIndex: 0, hoveredEl: null };
+  private focusState: FocusState = {
+    cardIndex: 0,
+    hoveredEl: null,
+    selectedPaths: new Set(),
+    selectionAnchor: null,
+  };
   private focusCleanup: (() => void) | null = null;
-  private previousIsTemplate: boolean | undefined = undefined;
+  // Manual sort: file paths in drag-and-drop order (persisted in BasesUIState)
+  private manualOrder: string[] = [];
+  // Pinned card paths, rendered first in each group (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private reorderAbortController: AbortController | null = null;
+  private templateToggle: TemplateToggle;
 
   // Public accessors for sortState (used by randomize.ts)
   get isShuffled(): boolean {
@@ -171,6 +224,10 @@ export class DynamicViewsMasonryView extends BasesView {
   private resizeThrottleTimeout: number | null = null;
   private groupLayoutResults: Map<string | undefined, MasonryLayoutResult> =
     new Map();
+  private groupJustifiedResults: Map<
+    string | undefined,
+    JustifiedLayoutResult
+  > = new Map();
   private expectedIncrementalHeight: number | null = null;
   private totalEntries: number = 0;
   private displayedSoFar: number = 0;
@@ -187,32 +244,150 @@ export class DynamicViewsMasonryView extends BasesView {
   private collapsedGroups: Set<string> = new Set();
   private viewId: string | null = null;
 
-  /** Get the current file by resolving from the leaf's view state (cached).
-   *  controller.currentFile is a shared global that can return the wrong file. */
+  /** Get the current file by resolving from the leaf's view state (cached) */
   private get currentFile(): TFile | null {
-    if (this._resolvedFile !== undefined) return this._resolvedFile;
-    this._resolvedFile = null;
-    this.app.workspace.iterateAllLeaves((leaf) => {
-      if (leaf.view?.containerEl?.contains(this.scrollEl)) {
-        const path = (leaf.view.getState() as { file?: string })?.file;
-        if (path) {
-          const abstract = this.app.vault.getAbstractFileByPath(path);
-          this._resolvedFile = abstract instanceof TFile ? abstract : null;
-        }
-      }
-    });
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
     return this._resolvedFile;
   }
 
-  /** Get the collapse key for a group (sentinel for undefined keys) */
-  private getCollapseKey(groupKey: string | undefined): string {
-    return groupKey ?? UNDEFINED_GROUP_KEY_SENTINEL;
+  /** Get the collapse key for a group (nested under its parent group) */
+  private getCollapseKey(
+    groupKey: string | undefined,
+    parentCollapseKey?: string,
+  ): string {
+    return getCollapseKey(groupKey, parentCollapseKey);
+  }
+
+  /**
+   * processGroups in shuffled or manual order (a shuffle wins until reset),
+   * with pinned cards first in each group
+   * Notes missing from the manual order follow in Bases sort order.
+   */
+  private orderGroups(
+    groupedData: BasesEntryGroup[],
+  ): Array<{ group: BasesEntryGroup; entries: BasesEntry[] }> {
+    const manual =
+      !this.sortState.isShuffled && !!this.lastRenderedSettings?.manualOrder;
+    return processGroups(
+      groupedData,
+      this.sortState.isShuffled || manual,
+      manual ? this.manualOrder : this.sortState.order,
+    ).map(({ group, entries }) => ({
+      group,
+      entries: this.pins.apply(entries),
+    }));
+  }
+
+  /** Drop a card next to another and persist the new manual order */
+  private moveCard(
+    path: string,
+    targetPath: string,
+    position: DropPosition,
+  ): void {
+    if (!this.data) return;
+    // Save every current path so new notes keep their place and deleted
+    // ones drop out
+    const paths = processGroups(
+      this.data.groupedData,
+      true,
+      this.manualOrder,
+    ).flatMap(({ entries }) => entries.map((entry) => entry.file.path));
+    this.manualOrder = moveInManualOrder(paths, path, targetPath, position);
+    this.sortState.isShuffled = false;
+    this.sortState.order = [];
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      { manualOrder: this.manualOrder },
+    );
+    this.renderState.lastRenderHash = "";
+    this.onDataUpdated();
+  }
+
+  /** Groups and their subgroups in render order (see nestGroups) */
+  private getNestedGroups(
+    processedGroups: Array<{ group: BasesEntryGroup; entries: BasesEntry[] }>,
+    settings: BasesResolvedSettings,
+  ): NestedGroup[] {
+    return nestGroups(
+      processedGroups,
+      getSubgroupProperties(this.config, settings),
+      this.collapsedGroups,
+    );
   }
 
-  /** Toggle collapse state for a group and persist */
+  /**
+   * Key for a group's layout results and container dataset
+   * Subgroup values repeat across parents, so subgroups use their collapse key.
+   */
+  private getLayoutKey(nested: NestedGroup): string | undefined {
+    return nested.depth > 0 ? nested.collapseKey : nested.groupKey;
+  }
+
+  /** Section wrapper so sticky scopes to the group's content */
+  private renderGroupSection(
+    nested: NestedGroup,
+    isCollapsed: boolean,
+  ): HTMLElement {
+    const parentEl = getGroupSectionParent(
+      this.groupSections,
+      this.masonryContainer!,
+      nested.parentCollapseKey,
+    );
+    const sectionEl = parentEl.createDiv("dynamic-views-group-section");
+    this.groupSections.set(nested.collapseKey, sectionEl);
+    if (nested.depth > 0) {
+      sectionEl.addClass("is-subgroup");
+      sectionEl.style.setProperty(
+        "--dynamic-views-group-depth",
+        String(nested.depth),
+      );
+    }
+
+    const { collapseKey, hasSubgroups } = nested;
+    const headerEl = renderGroupHeader(
+      sectionEl,
+      nested.group,
+      this.config,
+      this.app,
+      nested.count,
+      isCollapsed,
+      () => {
+        if (headerEl) {
+          this.toggleGroupCollapse(collapseKey, headerEl, hasSubgroups);
+        }
+      },
+      nested.property,
+    );
+    if (headerEl) {
+      renderGroupSummaries(
+        headerEl,
+        this.app,
+        this.config,
+        nested.allEntries,
+        this.groupSummaries,
+      );
+    }
+
+    // Container for cards (empty if collapsed or split into subgroups, for
+    // DOM sibling structure)
+    const groupEl = sectionEl.createDiv(
+      "dynamic-views-group bases-cards-group masonry-container",
+    );
+    setGroupKeyDataset(groupEl, this.getLayoutKey(nested));
+    return groupEl;
+  }
+
+  /**
+   * Toggle collapse state for a group and persist
+   * Groups split into subgroups re-render, since their subgroup sections
+   * follow as siblings.
+   */
   private toggleGroupCollapse(
     collapseKey: string,
     headerEl: HTMLElement,
+    hasSubgroups = false,
   ): void {
     const wasCollapsed = this.collapsedGroups.has(collapseKey);
     if (wasCollapsed) {
@@ -231,6 +406,11 @@ export class DynamicViewsMasonryView extends BasesView {
       },
     );
 
+    if (hasSubgroups) {
+      this.onDataUpdated();
+      return;
+    }
+
     const groupEl = headerEl.nextElementSibling as HTMLElement | null;
     if (wasCollapsed) {
       // Expanding: surgically populate only this group (avoids full re-render flash)
@@ -263,13 +443,6 @@ export class DynamicViewsMasonryView extends BasesView {
     if (!this.data) return;
     const currentVersion = this.renderState.version;
 
-    // Find the matching group in data
-    const group = this.data.groupedData.find((g) => {
-      const gk = g.hasKey() ? serializeGroupKey(g.key) : undefined;
-      return this.getCollapseKey(gk) === collapseKey;
-    });
-    if (!group) return;
-
     const settings = readBasesSettings(
       this.config,
       this.plugin.persistenceManager.getPluginSettings(),
@@ -292,13 +465,13 @@ export class DynamicViewsMasonryView extends BasesView {
 
     const sortMethod = getSortMethod(this.config);
 
-    // processGroups for shuffle-stable ordering
-    const processed = processGroups(
-      [group],
-      this.sortState.isShuffled,
-      this.sortState.order,
-    );
-    const entries = processed[0]?.entries ?? [];
+    // Find the matching group or subgroup (processGroups for shuffle-stable
+    // ordering)
+    const nested = this.getNestedGroups(
+      this.orderGroups(this.data.groupedData),
+      settings,
+    ).find((g) => g.collapseKey === collapseKey);
+    const entries = nested?.entries ?? [];
     if (entries.length === 0) return;
 
     // Load content (cache-hit no-op for already-loaded entries)
@@ -503,66 +676,6 @@ export class DynamicViewsMasonryView extends BasesView {
     }
   }
 
-  /**
-   * Handle template toggle changes
-   * Called from onDataUpdated() since Obsidian calls that for config changes
-   */
-  private handleTemplateToggle(): void {
-    const isTemplate = this.config.get("isTemplate") === true;
-
-    // Only process if isTemplate actually changed
-    if (this.previousIsTemplate === isTemplate) {
-      return;
-    }
-    this.previousIsTemplate = isTemplate;
-
-    if (isTemplate) {
-      const existingTimestamp = this.config.get("templateSetAt") as
-        | number
-        | undefined;
-
-      if (existingTimestamp !== undefined) {
-        // View loaded with existing toggle — validate it's not stale
-        const isStale = !isCurrentTemplateView(
-          this.config,
-          "masonry",
-          this.plugin,
-        );
-        if (isStale) {
-          this.config.set("isTemplate", false);
-          this.previousIsTemplate = false;
-          return;
-        }
-        // Valid template — no action needed on load
-      } else {
-        // User just enabled toggle — set timestamp + clear other views
-        const timestamp = Date.now();
-        this.config.set("templateSetAt", timestamp);
-        clearOldTemplateToggles(this.app, MASONRY_VIEW_TYPE, this);
-
-        // Save settings template
-        const templateSettings = extractBasesTemplate(
-          this.config,
-          VIEW_DEFAULTS,
-        );
-        void this.plugin.persistenceManager.setSettingsTemplate("masonry", {
-          settings: templateSettings,
-          setAt: timestamp,
-        });
-      }
-    } else {
-      // Toggle turned OFF — clear template if this view was the template
-      const hadTimestamp = this.config.get("templateSetAt") !== undefined;
-      if (hadTimestamp) {
-        this.config.set("templateSetAt", undefined);
-        void this.plugin.persistenceManager.setSettingsTemplate(
-          "masonry",
-          null,
-        );
-      }
-    }
-  }
-
   constructor(controller: QueryController, scrollEl: HTMLElement) {
     super(controller);
     // Note: this.config is undefined in constructor (assigned later by QueryController.update())
@@ -583,10 +696,17 @@ export class DynamicViewsMasonryView extends BasesView {
       cls: "dynamic-views dynamic-views-bases-container",
     });
     // Access plugin from controller's app
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
-    this.plugin = (this.app as any).plugins.plugins[
-      "dynamic-views"
-    ] as DynamicViews;
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "masonry", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
     // Initialize shared card renderer
     this.cardRenderer = new SharedCardRenderer(
       this.app,
@@ -594,6 +714,36 @@ export class DynamicViewsMasonryView extends BasesView {
       this.updateLayoutRef,
     );
 
+    // Release off-screen cards in long views, re-render them on return
+    // Placeholders keep --masonry-* positions, so container height is unchanged
+    this.virtualizer = new CardVirtualizer({
+      scrollEl: this.scrollEl,
+      renderCard: (container, entry, index) =>
+        this.renderCachedCard(container, entry, index),
+      releaseCard: (cardEl) => this.cardRenderer.releaseCard(cardEl),
+      // Unpositioned cards have no layout to preserve yet
+      canRelease: (cardEl) => cardEl.classList.contains("masonry-positioned"),
+      onRestore: (cards, heightChanged) => {
+        syncResponsiveClasses(cards);
+        if (heightChanged) {
+          this.updateLayoutRef.current?.("virtual-restore");
+        }
+        if (this.masonryContainer) {
+          initializeScrollGradients(this.masonryContainer);
+          initializeTitleTruncation(this.masonryContainer);
+        }
+      },
+    });
+
+    // Shift/Mod-click multi-select with bulk actions
+    this.selection = new CardSelection({
+      app: this.app,
+      focusState: this.focusState,
+      getCardsContainer: () => this.masonryContainer,
+      getBarParent: () => this.containerEl,
+      getSourcePath: () => this.currentFile?.path ?? "",
+    });
+
     // Get plugin settings for feature flags
     const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
 
@@ -621,6 +771,7 @@ export class DynamicViewsMasonryView extends BasesView {
       (index) => {
         this.focusState.cardIndex = index;
       },
+      (cardEl) => this.selection.extendTo(cardEl, cardEl),
     );
     this.register(cleanupKeyboard);
 
@@ -685,7 +836,7 @@ export class DynamicViewsMasonryView extends BasesView {
 
   onDataUpdated(): void {
     // Handle template toggle changes (Obsidian calls onDataUpdated for config changes)
-    this.handleTemplateToggle();
+    this.templateToggle.sync();
 
     // CSS fast-path: apply CSS-only settings immediately (bypasses throttle)
     this.applyCssOnlySettings();
@@ -732,6 +883,8 @@ export class DynamicViewsMasonryView extends BasesView {
           this.viewId ?? undefined,
         );
         this.collapsedGroups = new Set(basesState.collapsedGroups ?? []);
+        this.manualOrder = basesState.manualOrder ?? [];
+        this.pins.load();
         this._collapsedGroupsLoaded = true;
       }
 
@@ -789,40 +942,17 @@ export class DynamicViewsMasonryView extends BasesView {
         reverseMap,
         displayNameMap,
       );
+      this.groupSummaries = parseGroupSummaries(settings.groupSummaries);
 
       // Apply per-view CSS classes and variables to container
       applyViewContainerStyles(this.containerEl, settings);
 
       // Apply custom CSS classes from settings (mimics cssclasses frontmatter)
-      const customClasses = settings.cssclasses
-        .split(",")
-        .map((cls) => cls.trim())
-        .filter(Boolean);
-
-      // Only update if classes changed (prevents unnecessary DOM mutations)
-      const classesChanged =
-        !this._previousCustomClasses ||
-        this._previousCustomClasses.length !== customClasses.length ||
-        !this._previousCustomClasses.every(
-          (cls, i) => cls === customClasses[i],
-        );
-
-      if (classesChanged) {
-        // Clear previous custom classes
-        if (this._previousCustomClasses) {
-          this._previousCustomClasses.forEach((cls: string) => {
-            this.scrollEl.removeClass(cls);
-          });
-        }
-
-        // Apply new custom classes
-        customClasses.forEach((cls) => {
-          this.scrollEl.addClass(cls);
-        });
-
-        // Store for next update
-        this._previousCustomClasses = customClasses;
-      }
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
 
       // Check if data or settings changed - skip re-render if not (prevents tab switch flash)
       // Use null byte delimiter (cannot appear in file paths) to avoid hash collisions
@@ -970,11 +1100,11 @@ export class DynamicViewsMasonryView extends BasesView {
       }
       this.sortState.lastMethod = sortMethod;
 
-      // Process groups and apply shuffle within groups if enabled
-      const processedGroups = processGroups(
-        groupedData,
-        this.sortState.isShuffled,
-        this.sortState.order,
+      // Process groups and apply shuffle within groups if enabled, then split
+      // them into subgroups
+      const processedGroups = this.getNestedGroups(
+        this.orderGroups(groupedData),
+        settings,
       );
 
       // Determine grouping state early — collapse state only applies when grouped
@@ -986,13 +1116,7 @@ export class DynamicViewsMasonryView extends BasesView {
 
       for (const processedGroup of processedGroups) {
         if (remainingCount <= 0) break;
-        const groupKey = processedGroup.group.hasKey()
-          ? serializeGroupKey(processedGroup.group.key)
-          : undefined;
-        if (
-          isGrouped &&
-          this.collapsedGroups.has(this.getCollapseKey(groupKey))
-        )
+        if (isGrouped && this.collapsedGroups.has(processedGroup.collapseKey))
           continue;
         const entriesToTake = Math.min(
           processedGroup.entries.length,
@@ -1029,15 +1153,18 @@ export class DynamicViewsMasonryView extends BasesView {
 
       // Clear and re-render
       this.containerEl.empty();
+      this.groupSections.clear();
 
       // Reset batch append state for full re-render
       this.previousDisplayedCount = 0;
       this.lastGroup.key = undefined;
       this.lastGroup.container = null;
       this.groupLayoutResults.clear();
+      this.groupJustifiedResults.clear();
 
       // Cleanup card renderer observers before re-rendering
       this.cardRenderer.cleanup();
+      this.virtualizer.reset();
 
       // Toggle is-grouped class
       this.containerEl.toggleClass("is-grouped", isGrouped);
@@ -1048,12 +1175,40 @@ export class DynamicViewsMasonryView extends BasesView {
       this.masonryContainer = this.containerEl.createDiv(
         `dynamic-views-masonry${isGrouped ? " bases-cards-container" : " masonry-container"}`,
       );
+      this.masonryContainer.toggleClass(
+        "masonry-justified",
+        settings.masonryLayout === "justified",
+      );
+
+      // Totals footer follows the masonry container (batches append inside)
+      if (settings.summaryFooter) {
+        renderSummaryFooter(
+          this.containerEl,
+          this.app,
+          this.config,
+          allEntries,
+          this.groupSummaries,
+        );
+      }
       this.containerRef.current = this.masonryContainer;
 
       // Initialize focus management on container (cleanup previous first)
       this.focusCleanup?.();
       this.focusCleanup = initializeContainerFocus(this.masonryContainer);
 
+      // Manual order: drag cards onto each other to reorder
+      this.reorderAbortController?.abort();
+      this.reorderAbortController = null;
+      if (settings.manualOrder) {
+        this.reorderAbortController = new AbortController();
+        setupManualReorder(
+          this.masonryContainer,
+          (path, targetPath, position) =>
+            this.moveCard(path, targetPath, position),
+          this.reorderAbortController.signal,
+        );
+      }
+
       // Setup masonry layout
       this.setupMasonryLayout(settings);
 
@@ -1069,39 +1224,17 @@ export class DynamicViewsMasonryView extends BasesView {
         let groupKey: string | undefined;
 
         if (isGrouped) {
-          groupKey = processedGroup.group.hasKey()
-            ? serializeGroupKey(processedGroup.group.key)
-            : undefined;
-          const collapseKey = this.getCollapseKey(groupKey);
-          const isCollapsed = this.collapsedGroups.has(collapseKey);
+          groupKey = this.getLayoutKey(processedGroup);
+          const isCollapsed = this.collapsedGroups.has(
+            processedGroup.collapseKey,
+          );
 
           // Budget check: stop rendering cards once limit reached,
           // but always render collapsed group headers (they cost 0 cards)
           if (displayedSoFar >= this.displayedCount && !isCollapsed) break;
 
-          // Wrap header + group in a section so sticky scopes to the group's content
-          const sectionEl = this.masonryContainer.createDiv(
-            "dynamic-views-group-section",
-          );
-
-          // Render group header (always visible, with chevron)
-          const headerEl = renderGroupHeader(
-            sectionEl,
-            processedGroup.group,
-            this.config,
-            this.app,
-            processedGroup.entries.length,
-            isCollapsed,
-            () => {
-              if (headerEl) this.toggleGroupCollapse(collapseKey, headerEl);
-            },
-          );
-
-          // Create group container for cards (empty if collapsed, for DOM sibling structure)
-          cardContainer = sectionEl.createDiv(
-            "dynamic-views-group bases-cards-group masonry-container",
-          );
-          setGroupKeyDataset(cardContainer, groupKey);
+          // Render group header (always visible, with chevron) + card container
+          cardContainer = this.renderGroupSection(processedGroup, isCollapsed);
 
           // Skip card rendering for collapsed groups
           if (isCollapsed) continue;
@@ -1161,6 +1294,7 @@ export class DynamicViewsMasonryView extends BasesView {
       if (this.updateLayoutRef.current) {
         this.updateLayoutRef.current("initial-render");
       }
+      syncGroupHeadingHeight(this.masonryContainer);
 
       // Sync responsive classes after layout sets widths (ResizeObservers are async)
       // Must run before gradient init which checks compact-mode state
@@ -1176,14 +1310,14 @@ export class DynamicViewsMasonryView extends BasesView {
         initializeScrollGradients(this.masonryContainer);
         initializeTitleTruncation(this.masonryContainer);
       }
+      this.selection.refresh(
+        new Set(allEntries.map((entry) => entry.file.path)),
+      );
 
       // Compute effective total (exclude collapsed groups)
       let effectiveTotal = 0;
       for (const pg of processedGroups) {
-        const gk = pg.group.hasKey()
-          ? serializeGroupKey(pg.group.key)
-          : undefined;
-        if (!isGrouped || !this.collapsedGroups.has(this.getCollapseKey(gk))) {
+        if (!isGrouped || !this.collapsedGroups.has(pg.collapseKey)) {
           effectiveTotal += pg.entries.length;
         }
       }
@@ -1275,6 +1409,33 @@ export class DynamicViewsMasonryView extends BasesView {
           return;
         }
 
+        // Justified rows: heights come from aspect ratios, no measuring needed
+        if (settings.masonryLayout === "justified") {
+          const containers = groups ?? [this.masonryContainer];
+          for (const containerEl of containers) {
+            const cards = groups
+              ? Array.from(containerEl.querySelectorAll<HTMLElement>(".card"))
+              : allCards;
+            if (cards.length === 0) continue;
+
+            const result = calculateJustifiedLayout({
+              aspectRatios: cards.map((card) =>
+                this.getJustifiedAspectRatio(card),
+              ),
+              containerWidth,
+              targetRowHeight: settings.cardSize,
+              gap,
+            });
+            applyJustifiedLayout(containerEl, cards, result);
+            this.groupJustifiedResults.set(
+              groups ? getGroupKeyDataset(containerEl) : undefined,
+              result,
+            );
+          }
+          this.lastLayoutWidth = containerWidth;
+          return;
+        }
+
         // Calculate dimensions
         const { cardWidth } = calculateMasonryDimensions({
           containerWidth,
@@ -1473,6 +1634,28 @@ export class DynamicViewsMasonryView extends BasesView {
     }
   }
 
+  /**
+   * Cover aspect ratio (height / width) for justified rows
+   * Falls back to the default ratio until the image has loaded once
+   */
+  private getJustifiedAspectRatio(card: HTMLElement): number {
+    // Placeholders keep the box they were laid out with
+    if (card.classList.contains(VIRTUALIZED_CARD_CLASS)) {
+      const width = parseFloat(card.style.getPropertyValue("--masonry-width"));
+      const height = parseFloat(
+        card.style.getPropertyValue("--masonry-justified-height"),
+      );
+      if (width > 0 && height > 0) return height / width;
+    }
+    const img = card.querySelector<HTMLImageElement>(
+      ".dynamic-views-image-embed img, .card-thumbnail img",
+    );
+    return (
+      (img?.src ? getCachedAspectRatio(img.src) : undefined) ??
+      DEFAULT_ASPECT_RATIO
+    );
+  }
+
   private renderCard(
     container: HTMLElement,
     card: CardData,
@@ -1480,20 +1663,71 @@ export class DynamicViewsMasonryView extends BasesView {
     index: number,
     settings: BasesResolvedSettings,
   ): HTMLElement {
-    return this.cardRenderer.renderCard(container, card, entry, settings, {
-      index,
-      focusableCardIndex: this.focusState.cardIndex,
-      containerRef: this.containerRef,
-      onFocusChange: (newIndex: number) => {
-        this.focusState.cardIndex = newIndex;
-      },
-      onHoverStart: (el: HTMLElement) => {
-        this.focusState.hoveredEl = el;
-      },
-      onHoverEnd: () => {
-        this.focusState.hoveredEl = null;
+    const cardEl = this.createCardEl(container, card, entry, index, settings);
+    this.virtualizer.track(cardEl, entry, index);
+    return cardEl;
+  }
+
+  /** Re-render a virtualized card from ContentCache */
+  private renderCachedCard(
+    container: HTMLElement,
+    entry: BasesEntry,
+    index: number,
+  ): HTMLElement {
+    // Fall back to fresh settings if no render has stored them yet
+    const settings =
+      this.lastRenderedSettings ??
+      readBasesSettings(
+        this.config,
+        this.plugin.persistenceManager.getPluginSettings(),
+        "masonry",
+      );
+    const [card] = transformBasesEntries(
+      this.app,
+      [entry],
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+    return this.createCardEl(container, card, entry, index, settings);
+  }
+
+  private createCardEl(
+    container: HTMLElement,
+    card: CardData,
+    entry: BasesEntry,
+    index: number,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    const cardEl = this.cardRenderer.renderCard(
+      container,
+      card,
+      entry,
+      settings,
+      {
+        index,
+        focusableCardIndex: this.focusState.cardIndex,
+        containerRef: this.containerRef,
+        onFocusChange: (newIndex: number) => {
+          this.focusState.cardIndex = newIndex;
+        },
+        onHoverStart: (el: HTMLElement) => {
+          this.focusState.hoveredEl = el;
+        },
+        onHoverEnd: () => {
+          this.focusState.hoveredEl = null;
+        },
+        selection: this.selection,
+        pins: this.pins,
       },
-    });
+    );
+    // Manual order: cards drag regardless of openFileAction
+    if (settings.manualOrder) cardEl.draggable = true;
+    return cardEl;
   }
 
   /** Update only changed cards in-place without full re-render */
@@ -1539,9 +1773,12 @@ export class DynamicViewsMasonryView extends BasesView {
       if (!cardEl) continue;
 
       // Update text preview
-      const previewEl = cardEl.querySelector(".card-text-preview");
-      if (previewEl) {
-        previewEl.textContent = this.contentCache.textPreviews[path] || "";
+      const previewEl = cardEl.querySelector<HTMLElement>(".card-text-preview");
+      const preview = this.contentCache.textPreviews[path] || "";
+      if (previewEl && settings.textPreviewStyle === "rendered") {
+        renderMarkdownPreview(previewEl, this.app, preview, path);
+      } else if (previewEl) {
+        previewEl.textContent = preview;
       }
     }
 
@@ -1581,11 +1818,10 @@ export class DynamicViewsMasonryView extends BasesView {
     const groupedData = this.data.groupedData;
     const sortMethod = getSortMethod(this.config);
 
-    // Process groups with shuffle logic
-    const processedGroups = processGroups(
-      groupedData,
-      this.sortState.isShuffled,
-      this.sortState.order,
+    // Process groups with shuffle logic, then split them into subgroups
+    const processedGroups = this.getNestedGroups(
+      this.orderGroups(groupedData),
+      settings,
     );
 
     // Capture state at start - these may change during async operations
@@ -1598,10 +1834,7 @@ export class DynamicViewsMasonryView extends BasesView {
     const isGrouped = hasGroupBy(this.config);
 
     for (const processedGroup of processedGroups) {
-      const groupKey = processedGroup.group.hasKey()
-        ? serializeGroupKey(processedGroup.group.key)
-        : undefined;
-      if (isGrouped && this.collapsedGroups.has(this.getCollapseKey(groupKey)))
+      if (isGrouped && this.collapsedGroups.has(processedGroup.collapseKey))
         continue;
 
       const groupStart = currentCount;
@@ -1656,17 +1889,20 @@ export class DynamicViewsMasonryView extends BasesView {
     for (const processedGroup of processedGroups) {
       if (displayedSoFar >= currCount) break;
 
-      const currentGroupKey = processedGroup.group.hasKey()
-        ? serializeGroupKey(processedGroup.group.key)
-        : undefined;
+      const currentGroupKey = this.getLayoutKey(processedGroup);
 
       // Skip collapsed groups entirely (only when grouped)
-      if (
-        isGrouped &&
-        this.collapsedGroups.has(this.getCollapseKey(currentGroupKey))
-      )
+      if (isGrouped && this.collapsedGroups.has(processedGroup.collapseKey))
         continue;
 
+      // Parent header of subgroups that start in this batch
+      if (processedGroup.hasSubgroups) {
+        if (displayedSoFar >= prevCount) {
+          this.renderGroupSection(processedGroup, false);
+        }
+        continue;
+      }
+
       const groupEntriesToDisplay = Math.min(
         processedGroup.entries.length,
         currCount - displayedSoFar,
@@ -1699,30 +1935,9 @@ export class DynamicViewsMasonryView extends BasesView {
         // Same group as last - append to existing container
         groupEl = this.lastGroup.container;
       } else {
-        // Wrap header + group in a section so sticky scopes to the group's content
-        const sectionEl = this.masonryContainer.createDiv(
-          "dynamic-views-group-section",
-        );
-
-        // Render group header
-        const collapseKey = this.getCollapseKey(currentGroupKey);
-        const headerEl = renderGroupHeader(
-          sectionEl,
-          processedGroup.group,
-          this.config,
-          this.app,
-          processedGroup.entries.length,
-          false, // not collapsed (we skipped collapsed groups above)
-          () => {
-            if (headerEl) this.toggleGroupCollapse(collapseKey, headerEl);
-          },
-        );
-
-        // New group - create container for cards
-        groupEl = sectionEl.createDiv(
-          "dynamic-views-group bases-cards-group masonry-container",
-        );
-        setGroupKeyDataset(groupEl, currentGroupKey);
+        // New group - render header (not collapsed, we skipped collapsed
+        // groups above) and container for cards
+        groupEl = this.renderGroupSection(processedGroup, false);
 
         // Update last group tracking
         this.lastGroup.key = currentGroupKey;
@@ -1781,6 +1996,28 @@ export class DynamicViewsMasonryView extends BasesView {
       targetContainer.classList.add("masonry-container");
     }
 
+    if (settings.masonryLayout === "justified") {
+      this.appendJustifiedBatch(
+        layoutKey,
+        targetContainer,
+        newCardsRendered,
+        groupsWithNewCards,
+        settings,
+      );
+      this.isLoading = false;
+      // Row heights are fixed, so the new height is known immediately
+      if (this.renderState.version === currentVersion) {
+        this.checkAndLoadMore(totalEntries, settings);
+        if (
+          this.displayedSoFar >= this.totalEntries &&
+          this.totalEntries > 0
+        ) {
+          this.showEndIndicator();
+        }
+      }
+      return;
+    }
+
     if (groupsWithNewCards > 1) {
       // Batch spanned multiple groups - trigger full recalc to position all
       this.updateLayoutRef.current?.("multi-group-fallback");
@@ -1973,6 +2210,57 @@ export class DynamicViewsMasonryView extends BasesView {
     this.isLoading = false;
   }
 
+  /**
+   * Position a newly appended batch in justified-rows mode
+   * Only the trailing row of the target container is re-flowed
+   */
+  private appendJustifiedBatch(
+    layoutKey: string | undefined,
+    targetContainer: HTMLElement | null,
+    newCardsRendered: number,
+    groupsWithNewCards: number,
+    settings: BasesResolvedSettings,
+  ): void {
+    if (newCardsRendered === 0 || !targetContainer) return;
+
+    const prevLayout = this.groupJustifiedResults.get(layoutKey);
+    if (groupsWithNewCards > 1 || !prevLayout) {
+      // Batch spanned multiple groups or started a new one - full recalc
+      this.updateLayoutRef.current?.("justified-fallback");
+      if (this.masonryContainer) {
+        initializeScrollGradients(this.masonryContainer);
+        initializeTitleTruncation(this.masonryContainer);
+      }
+      return;
+    }
+
+    const reflowCards = Array.from(
+      targetContainer.querySelectorAll<HTMLElement>(".card"),
+    ).slice(prevLayout.lastRowStart);
+
+    const result = calculateIncrementalJustifiedLayout({
+      previous: prevLayout,
+      aspectRatios: reflowCards.map((card) =>
+        this.getJustifiedAspectRatio(card),
+      ),
+      containerWidth: prevLayout.containerWidth,
+      targetRowHeight: settings.cardSize,
+      gap: getCardSpacing(this.containerEl),
+    });
+
+    applyJustifiedLayout(targetContainer, reflowCards, {
+      ...result,
+      positions: result.positions.slice(prevLayout.lastRowStart),
+    });
+
+    // Track expected height so ResizeObserver can skip this change
+    this.expectedIncrementalHeight = result.containerHeight;
+    this.groupJustifiedResults.set(layoutKey, result);
+
+    initializeScrollGradients(targetContainer);
+    initializeTitleTruncation(targetContainer);
+  }
+
   private setupInfiniteScroll(
     totalEntries: number,
     settings?: BasesResolvedSettings,
@@ -2138,6 +2426,9 @@ export class DynamicViewsMasonryView extends BasesView {
     // Clean up property measurement observer
     cleanupVisibilityObserver();
     this.focusCleanup?.();
+    this.reorderAbortController?.abort();
+    this.virtualizer.reset();
+    this.selection.destroy();
     this.cardRenderer.cleanup(true); // Force viewer cleanup on view destruction
   }
 
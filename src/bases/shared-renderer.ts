@@ -52,6 +52,10 @@ import {
   cleanupAllViewers,
 } from "../shared/image-viewer";
 import { getFileExtInfo, getFileTypeIcon } from "../utils/file-extension";
+import {
+  getCardImageUrl,
+  getThumbnailTargetSize,
+} from "../utils/thumbnail-cache";
 import type DynamicViews from "../../main";
 import type { BasesResolvedSettings } from "../types";
 import {
@@ -61,10 +65,22 @@ import {
   setupSwipeGestures,
 } from "../shared/slideshow";
 import { handleArrowNavigation, isArrowKey } from "../shared/keyboard-nav";
+import {
+  SELECTED_CARD_CLASS,
+  type CardSelectionHandler,
+} from "./card-selection";
+import { renderPinBadge, type CardPins } from "../shared/card-pins";
+import { renderMarkdownPreview } from "../shared/markdown-preview";
 import {
   CHECKBOX_MARKER_PREFIX,
+  INLINE_EDIT_CLICK_DELAY_MS,
   THUMBNAIL_STACK_MULTIPLIER,
 } from "../shared/constants";
+import {
+  EDITABLE_PROPERTY_CLASS,
+  getEditableWidget,
+  openInlinePropertyEditor,
+} from "../shared/property-editor";
 import {
   shouldUseNotebookNavigator,
   navigateToTagInNotebookNavigator,
@@ -387,12 +403,13 @@ export function syncResponsiveClasses(cards: HTMLElement[]): boolean {
 }
 
 export class SharedCardRenderer {
-  private propertyObservers: ResizeObserver[] = [];
+  private propertyObservers: Set<ResizeObserver> = new Set();
   private viewerCleanupFns: Map<HTMLElement, () => void> = new Map();
   private viewerClones: Map<HTMLElement, HTMLElement> = new Map();
-  private slideshowCleanups: (() => void)[] = [];
-  private cardScopes: Scope[] = [];
-  private cardAbortControllers: AbortController[] = [];
+  private slideshowCleanups: Set<() => void> = new Set();
+  private cardScopes: Set<Scope> = new Set();
+  private cardAbortControllers: Set<AbortController> = new Set();
+  private cardReleaseFns: Map<HTMLElement, (() => void)[]> = new Map();
   private activeScope: Scope | null = null;
 
   constructor(
@@ -406,11 +423,11 @@ export class SharedCardRenderer {
    */
   public cleanup(forceViewerCleanup = false): void {
     this.propertyObservers.forEach((obs) => obs.disconnect());
-    this.propertyObservers = [];
+    this.propertyObservers.clear();
 
     // Cleanup slideshow event listeners
     this.slideshowCleanups.forEach((cleanup) => cleanup());
-    this.slideshowCleanups = [];
+    this.slideshowCleanups.clear();
 
     // Pop any active scope to prevent scope leak on unmount
     if (this.activeScope) {
@@ -419,11 +436,12 @@ export class SharedCardRenderer {
     }
 
     // Clear scope references
-    this.cardScopes = [];
+    this.cardScopes.clear();
 
     // Abort all card event listeners
     this.cardAbortControllers.forEach((controller) => controller.abort());
-    this.cardAbortControllers = [];
+    this.cardAbortControllers.clear();
+    this.cardReleaseFns.clear();
 
     // Cleanup viewers only on view destruction (viewer persists across re-renders)
     if (forceViewerCleanup) {
@@ -431,6 +449,36 @@ export class SharedCardRenderer {
     }
   }
 
+  /**
+   * Release a single card's observers, scope, and event listeners
+   * Used by virtualization before a card is swapped out of the DOM
+   */
+  public releaseCard(cardEl: HTMLElement): void {
+    const releaseFns = this.cardReleaseFns.get(cardEl);
+    if (!releaseFns) return;
+    this.cardReleaseFns.delete(cardEl);
+    releaseFns.forEach((release) => release());
+  }
+
+  /** Register a per-card teardown for releaseCard() */
+  private trackCardRelease(cardEl: HTMLElement, release: () => void): void {
+    const releaseFns = this.cardReleaseFns.get(cardEl);
+    if (releaseFns) {
+      releaseFns.push(release);
+    } else {
+      this.cardReleaseFns.set(cardEl, [release]);
+    }
+  }
+
+  /** Track a ResizeObserver for both view cleanup and per-card release */
+  private addCardObserver(cardEl: HTMLElement, observer: ResizeObserver): void {
+    this.propertyObservers.add(observer);
+    this.trackCardRelease(cardEl, () => {
+      observer.disconnect();
+      this.propertyObservers.delete(observer);
+    });
+  }
+
   /**
    * Render text with link detection
    * Uses parseLink utility for comprehensive link detection
@@ -612,6 +660,8 @@ export class SharedCardRenderer {
       onFocusChange?: (index: number) => void;
       onHoverStart?: (el: HTMLElement) => void;
       onHoverEnd?: () => void;
+      selection?: CardSelectionHandler;
+      pins?: CardPins;
     },
   ): HTMLElement {
     // Create card element
@@ -650,9 +700,17 @@ export class SharedCardRenderer {
       } else if (format === "backdrop") {
         cardEl.classList.add(`card-cover-${settings.imageFit}`);
       }
+
+      if (settings.imageTint) {
+        cardEl.classList.add("image-tint");
+      }
     }
 
     cardEl.setAttribute("data-path", card.path);
+    const selection = keyboardNav?.selection;
+    if (selection?.isSelected(card.path)) {
+      cardEl.classList.add(SELECTED_CARD_CLASS);
+    }
 
     // Only make card draggable when openFileAction is 'card'
     if (settings.openFileAction === "card") {
@@ -666,7 +724,11 @@ export class SharedCardRenderer {
 
     // Create AbortController for event listener cleanup
     const abortController = new AbortController();
-    this.cardAbortControllers.push(abortController);
+    this.cardAbortControllers.add(abortController);
+    this.trackCardRelease(cardEl, () => {
+      abortController.abort();
+      this.cardAbortControllers.delete(abortController);
+    });
     const { signal } = abortController;
 
     // Keyboard navigation setup (roving tabindex pattern)
@@ -685,7 +747,14 @@ export class SharedCardRenderer {
         void this.app.workspace.openLinkText(card.path, "", "tab");
         return false;
       });
-      this.cardScopes.push(cardScope);
+      this.cardScopes.add(cardScope);
+      this.trackCardRelease(cardEl, () => {
+        this.cardScopes.delete(cardScope);
+        if (this.activeScope === cardScope) {
+          this.app.keymap.popScope(cardScope);
+          this.activeScope = null;
+        }
+      });
 
       // Update focus state and push scope when card receives focus
       cardEl.addEventListener(
@@ -742,16 +811,22 @@ export class SharedCardRenderer {
                 e,
                 cardEl,
                 container,
-                (_targetCard, targetIndex) => {
+                (targetCard, targetIndex) => {
                   container._keyboardNavActive = true;
                   if (keyboardNav.onFocusChange) {
                     keyboardNav.onFocusChange(targetIndex);
                   }
+                  // Shift+arrow extends the selection to the target card
+                  if (e.shiftKey) selection?.extendTo(cardEl, targetCard);
                 },
               );
               // Clear immediately after navigation completes (synchronous)
               container._intentionalFocus = false;
             }
+          } else if (e.key === "Escape" && selection && selection.size > 0) {
+            // First Escape clears the selection, keeping focus
+            e.preventDefault();
+            selection.clear();
           } else if (e.key === "Escape") {
             // Exit keyboard nav mode and unfocus card
             const container = keyboardNav.containerRef.current as
@@ -784,7 +859,31 @@ export class SharedCardRenderer {
       );
     }
 
+    // Shift/Mod-click selects instead of opening or following links
+    // Capture phase so it runs before title link and poster handlers
+    if (selection) {
+      cardEl.addEventListener(
+        "click",
+        (e) => {
+          if (selection.handleClick(e, cardEl)) {
+            e.preventDefault();
+            e.stopPropagation();
+          }
+        },
+        { signal, capture: true },
+      );
+    }
+
     // Handle card click to open file
+    let pendingOpenTimer: number | undefined;
+    cardEl.addEventListener(
+      "dblclick",
+      () => window.clearTimeout(pendingOpenTimer),
+      { signal },
+    );
+    signal.addEventListener("abort", () =>
+      window.clearTimeout(pendingOpenTimer),
+    );
     cardEl.addEventListener(
       "click",
       (e) => {
@@ -834,9 +933,25 @@ export class SharedCardRenderer {
             !(isImage && isZoomEnabled)
           ) {
             const paneType = Keymap.isModEvent(e);
-            const file = this.app.vault.getAbstractFileByPath(card.path);
-            if (file instanceof TFile) {
-              void this.app.workspace.getLeaf(paneType || false).openFile(file);
+            const openFile = () => {
+              const file = this.app.vault.getAbstractFileByPath(card.path);
+              if (file instanceof TFile) {
+                void this.app.workspace
+                  .getLeaf(paneType || false)
+                  .openFile(file);
+              }
+            };
+            // Editable properties: wait out a double-click (inline edit)
+            window.clearTimeout(pendingOpenTimer);
+            if (target.closest(`.${EDITABLE_PROPERTY_CLASS}`)) {
+              if (e.detail <= 1) {
+                pendingOpenTimer = window.setTimeout(
+                  openFile,
+                  INLINE_EDIT_CLICK_DELAY_MS,
+                );
+              }
+            } else {
+              openFile();
             }
           }
         }
@@ -880,9 +995,19 @@ export class SharedCardRenderer {
       );
     }
 
-    // Context menu handler for file
+    // Context menu handler for file (bulk menu when part of a selection)
     const handleContextMenu = (e: MouseEvent) => {
-      showFileContextMenu(e, this.app, entry.file, card.path);
+      if (selection && selection.size > 1 && selection.isSelected(card.path)) {
+        selection.showMenu(e);
+        return;
+      }
+      showFileContextMenu(
+        e,
+        this.app,
+        entry.file,
+        card.path,
+        keyboardNav?.pins,
+      );
     };
 
     // Attach context menu to card when openFileAction is 'card' or mobile poster
@@ -1098,14 +1223,15 @@ export class SharedCardRenderer {
         : [card.imageUrl]
       : [];
 
-    // Filter and deduplicate URLs
+    // Filter and deduplicate URLs, then swap oversized vault images for thumbnails
+    const thumbnailSize = getThumbnailTargetSize(format, settings.cardSize);
     const imageUrls = Array.from(
       new Set(
         rawUrls.filter(
           (url) => url && typeof url === "string" && url.trim().length > 0,
         ),
       ),
-    );
+    ).map((url) => getCardImageUrl(url, thumbnailSize));
     const hasImage = imageUrls.length > 0;
 
     // ALL COVERS: wrapped in card-cover-wrapper for flexbox positioning
@@ -1220,7 +1346,7 @@ export class SharedCardRenderer {
           // Observe the card element for size changes
           // Cleanup via this.propertyObservers.forEach(obs => obs.disconnect()) in cleanup()
           resizeObserver.observe(cardEl);
-          this.propertyObservers.push(resizeObserver);
+          this.addCardObserver(cardEl, resizeObserver);
         });
       }
     }
@@ -1267,10 +1393,19 @@ export class SharedCardRenderer {
 
       if (hasTextPreview) {
         const wrapper = contentContainer.createDiv("card-text-preview-wrapper");
-        wrapper.createDiv({
+        const previewEl = wrapper.createDiv({
           cls: "card-text-preview",
           text: card.textPreview,
         });
+        if (settings.textPreviewStyle === "rendered" && card.textPreview) {
+          renderMarkdownPreview(
+            previewEl,
+            this.app,
+            card.textPreview,
+            card.path,
+            signal,
+          );
+        }
       }
 
       // Thumbnail (all positions now inside card-content)
@@ -1357,7 +1492,9 @@ export class SharedCardRenderer {
     });
     // Cleanup via this.propertyObservers.forEach(obs => obs.disconnect()) in cleanup()
     cardObserver.observe(cardEl);
-    this.propertyObservers.push(cardObserver);
+    this.addCardObserver(cardEl, cardObserver);
+
+    if (keyboardNav?.pins?.isPinned(card.path)) renderPinBadge(cardEl);
 
     return cardEl;
   }
@@ -1377,7 +1514,8 @@ export class SharedCardRenderer {
     // Create AbortController for cleanup
     const controller = new AbortController();
     const { signal } = controller;
-    this.slideshowCleanups.push(() => controller.abort());
+    const slideshowCleanup = () => controller.abort();
+    this.slideshowCleanups.add(slideshowCleanup);
 
     // Create image embed with two stacked images
     const imageEmbedContainer = slideshowEl.createDiv(
@@ -1386,6 +1524,12 @@ export class SharedCardRenderer {
 
     // Add zoom handler
     const cardEl = slideshowEl.closest(".card") as HTMLElement;
+    if (cardEl) {
+      this.trackCardRelease(cardEl, () => {
+        slideshowCleanup();
+        this.slideshowCleanups.delete(slideshowCleanup);
+      });
+    }
     imageEmbedContainer.addEventListener(
       "click",
       (e) => {
@@ -2022,6 +2166,28 @@ export class SharedCardRenderer {
     // Content container (actual property value)
     const propertyContent = contentWrapper.createDiv("property-content");
 
+    // Double-click edits frontmatter values in place (empty values included)
+    const editableWidget = getEditableWidget(this.app, propertyName);
+    if (editableWidget) {
+      contentWrapper.addClass(EDITABLE_PROPERTY_CLASS);
+      contentWrapper.addEventListener(
+        "dblclick",
+        (e) => {
+          e.stopPropagation();
+          const file = this.app.vault.getAbstractFileByPath(card.path);
+          if (!(file instanceof TFile)) return;
+          openInlinePropertyEditor(
+            this.app,
+            propertyContent,
+            file,
+            propertyName,
+            editableWidget,
+          );
+        },
+        { signal },
+      );
+    }
+
     // If no value, show placeholder
     if (!stringValue) {
       const markerSpan = propertyContent.createSpan("empty-value-marker");
@@ -2373,8 +2539,8 @@ export class SharedCardRenderer {
   /**
    * Measures property fields for side-by-side layout (delegates to shared utility)
    */
-  private measurePropertyFieldsForCard(container: HTMLElement): void {
-    const observers = measurePropertyFields(container);
-    this.propertyObservers.push(...observers);
+  private measurePropertyFieldsForCard(cardEl: HTMLElement): void {
+    const observers = measurePropertyFields(cardEl);
+    observers.forEach((observer) => this.addCardObserver(cardEl, observer));
   }
 }
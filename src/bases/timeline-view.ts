@@ -0,0 +1,742 @@
+/**
+ * Bases Timeline View
+ * Orders cards along a horizontal or vertical time axis by a date property;
+ * the space between cards follows the time between notes
+ */
+
+import { BasesEntry, BasesView, QueryController, TFile } from "obsidian";
+import { CardData } from "../shared/card-renderer";
+import { transformBasesEntries } from "../shared/data-transform";
+import {
+  readBasesSettings,
+  getTimelineViewOptions,
+} from "../shared/settings-schema";
+import { clearStyleSettingsCache } from "../utils/style-settings";
+import { initializeScrollGradients } from "../shared/scroll-gradient";
+import {
+  SharedCardRenderer,
+  initializeTitleTruncation,
+  syncResponsiveClasses,
+  applyViewContainerStyles,
+} from "./shared-renderer";
+import { CardSelection } from "./card-selection";
+import {
+  BATCH_SIZE,
+  PANE_MULTIPLIER,
+  SCROLL_THROTTLE_MS,
+} from "../shared/constants";
+import {
+  setupBasesSwipeInterception,
+  setupStyleSettingsObserver,
+  getStyleSettingsHash,
+  getSortMethod,
+  loadContentForEntries,
+  processGroups,
+  cleanupBaseFile,
+  shouldProcessDataUpdate,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
+} from "./utils";
+import {
+  initializeContainerFocus,
+  setupHoverKeyboardNavigation,
+} from "../shared/keyboard-nav";
+import {
+  ScrollPreservation,
+  getLeafProps,
+} from "../shared/scroll-preservation";
+import {
+  buildDisplayToSyntaxMap,
+  buildSyntaxToDisplayMap,
+  getFirstBasesDatePropertyValue,
+  normalizeSettingsPropertyNames,
+} from "../utils/property";
+import { resolveCalendarTimestamp } from "../shared/calendar";
+import {
+  TIMELINE_ZOOM_LEVELS,
+  TimelineEntry,
+  TimelineSection,
+  TimelineZoom,
+  buildTimeline,
+  formatTimelineDate,
+} from "../shared/timeline";
+import type DynamicViews from "../../main";
+import type {
+  BasesResolvedSettings,
+  ContentCache,
+  RenderState,
+  SortState,
+  FocusState,
+} from "../types";
+
+export const TIMELINE_VIEW_TYPE = "dynamic-views-timeline";
+
+const ZOOM_LABELS: Record<TimelineZoom, string> = {
+  day: "Days",
+  week: "Weeks",
+  month: "Months",
+  year: "Years",
+};
+
+/** One entry in render order, with the section it belongs to */
+interface TimelineItem {
+  section: TimelineSection<BasesEntry>;
+  entry: TimelineEntry<BasesEntry>;
+}
+
+export class DynamicViewsTimelineView extends BasesView {
+  readonly type = TIMELINE_VIEW_TYPE;
+  private scrollEl: HTMLElement;
+  private leafId: string;
+  private containerEl: HTMLElement;
+  private plugin: DynamicViews;
+  private _resolvedFile: TFile | null | undefined = undefined;
+  private scrollPreservation: ScrollPreservation | null = null;
+  private cardRenderer: SharedCardRenderer;
+  private selection: CardSelection;
+  private _previousCustomClasses: string[] = [];
+
+  // Consolidated state objects (shared patterns with grid-view)
+  private contentCache: ContentCache = {
+    textPreviews: {},
+    images: {},
+    hasImageAvailable: {},
+  };
+  private renderState: RenderState = {
+    version: 0,
+    abortController: null,
+    lastRenderHash: "",
+    lastSettingsHash: null,
+    lastMtimes: new Map(),
+  };
+  // Track last rendered settings to detect stale config (see readBasesSettings)
+  private lastRenderedSettings: BasesResolvedSettings | null = null;
+  private sortState: SortState = {
+    isShuffled: false,
+    order: [],
+    lastMethod: null,
+  };
+  private focusState: FocusState = {
+    cardIndex: 0,
+    hoveredEl: null,
+    selectedPaths: new Set(),
+    selectionAnchor: null,
+  };
+  private focusCleanup: (() => void) | null = null;
+  // Pinned cards render first (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private templateToggle: TemplateToggle;
+
+  // Public accessors for sortState (used by randomize.ts)
+  get isShuffled(): boolean {
+    return this.sortState.isShuffled;
+  }
+  set isShuffled(value: boolean) {
+    this.sortState.isShuffled = value;
+  }
+  get shuffledOrder(): string[] {
+    return this.sortState.order;
+  }
+  set shuffledOrder(value: string[]) {
+    this.sortState.order = value;
+  }
+  get viewScrollEl(): HTMLElement {
+    return this.scrollEl;
+  }
+
+  // Timeline-specific state
+  private updateLayoutRef: { current: (() => void) | null } = { current: null };
+  private timelineRef: { current: HTMLElement | null } = { current: null };
+  private trackEl: HTMLElement | null = null;
+  private items: TimelineItem[] = [];
+  private rendered = 0;
+  // Entries to restore after a re-render (survives data updates, not settings)
+  private renderCount = BATCH_SIZE;
+  private lastSectionEl: { key: string; entriesEl: HTMLElement } | null = null;
+  private swipeAbortController: AbortController | null = null;
+  private scrollAbortController: AbortController | null = null;
+  private scrollTimeoutId: number | null = null;
+  private checkScroll: (() => void) | null = null;
+  private viewId: string | null = null;
+  private lastDataUpdateTime = { value: 0 };
+  private trailingUpdate: {
+    timeoutId: number | null;
+    callback: (() => void) | null;
+    isTrailing?: boolean;
+  } = {
+    timeoutId: null,
+    callback: null,
+  };
+
+  /** Get the current file by resolving from the leaf's view state (cached) */
+  private get currentFile(): TFile | null {
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
+    return this._resolvedFile;
+  }
+
+  constructor(controller: QueryController, scrollEl: HTMLElement) {
+    super(controller);
+
+    this.scrollEl = scrollEl;
+    // Find leaf by matching container (getLeaf() creates new leaf if pinned, activeLeaf is deprecated)
+    this.leafId = "";
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view?.containerEl?.contains(scrollEl)) {
+        this.leafId = getLeafProps(leaf).id ?? "";
+      }
+    });
+
+    this.containerEl = scrollEl.createDiv({
+      cls: "dynamic-views dynamic-views-bases-container",
+    });
+
+    // Access plugin from controller's app
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "timeline", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
+    this.cardRenderer = new SharedCardRenderer(
+      this.app,
+      this.plugin,
+      this.updateLayoutRef,
+    );
+
+    // Shift/Mod-click multi-select with bulk actions
+    this.selection = new CardSelection({
+      app: this.app,
+      focusState: this.focusState,
+      getCardsContainer: () => this.timelineRef.current,
+      getBarParent: () => this.containerEl,
+      getSourcePath: () => this.currentFile?.path ?? "",
+    });
+
+    const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
+
+    // Setup swipe interception on mobile if enabled
+    this.swipeAbortController = setupBasesSwipeInterception(
+      this.containerEl,
+      this.app,
+      pluginSettings,
+    );
+
+    // Watch for Dynamic Views Style Settings changes only
+    const disconnectObserver = setupStyleSettingsObserver(() =>
+      this.onDataUpdated(),
+    );
+    this.register(disconnectObserver);
+
+    // Setup hover-to-start keyboard navigation
+    const cleanupKeyboard = setupHoverKeyboardNavigation(
+      () => this.focusState.hoveredEl,
+      () => this.timelineRef.current,
+      (index) => {
+        this.focusState.cardIndex = index;
+      },
+      (cardEl) => this.selection.extendTo(cardEl, cardEl),
+    );
+    this.register(cleanupKeyboard);
+
+    if (this.leafId) {
+      this.scrollPreservation = new ScrollPreservation({
+        leafId: this.leafId,
+        scrollEl: this.scrollEl,
+        registerEvent: (e) => this.registerEvent(e),
+        register: (c) => this.register(c),
+        app: this.app,
+      });
+    }
+  }
+
+  onload(): void {
+    super.onload();
+  }
+
+  onDataUpdated(): void {
+    this.templateToggle.sync();
+
+    // Delay reading config - Obsidian may fire onDataUpdated before updating config.getOrder()
+    queueMicrotask(() => this.processDataUpdate());
+  }
+
+  /** Internal handler after config has settled */
+  private processDataUpdate(): void {
+    this.trailingUpdate.isTrailing = false;
+    this.trailingUpdate.callback = () => this.onDataUpdated();
+
+    if (
+      !shouldProcessDataUpdate(this.lastDataUpdateTime, this.trailingUpdate)
+    ) {
+      return;
+    }
+
+    void (async () => {
+      // Ensure all views in file have valid ids, get this view's id
+      const viewIds = await cleanupBaseFile(
+        this.app,
+        this.currentFile,
+        this.plugin,
+      );
+      const viewName = this.config?.name;
+      this.viewId = (viewName && viewIds?.get(viewName)) ?? null;
+      this.pins.load();
+
+      if (!this.data) return;
+
+      // Increment render version to cancel any in-flight stale renders
+      this.renderState.version++;
+      const currentVersion = this.renderState.version;
+      this.renderState.abortController?.abort();
+      this.renderState.abortController = new AbortController();
+
+      this.focusState.cardIndex = 0;
+
+      const allEntries = this.data.data;
+
+      const settings = this.readSettings();
+      this.lastRenderedSettings = settings;
+
+      applyViewContainerStyles(this.containerEl, settings);
+      this.containerEl.style.setProperty(
+        "--dynamic-views-timeline-card-width",
+        `${settings.cardSize}px`,
+      );
+      this.containerEl.style.setProperty(
+        "--dynamic-views-image-aspect-ratio",
+        String(settings.imageRatio),
+      );
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
+
+      const sortMethod = getSortMethod(this.config);
+      const visibleProperties = this.config.getOrder();
+      const settingsHash =
+        JSON.stringify(settings) +
+        "\0\0" +
+        visibleProperties.join("\0") +
+        "\0\0" +
+        sortMethod;
+      // Any mtime change can move a card along the axis
+      const renderHash =
+        allEntries
+          .map((e: BasesEntry) => `${e.file.path}:${e.file.stat.mtime}`)
+          .join("\0") +
+        "\0\0" +
+        settingsHash +
+        "\0\0" +
+        getStyleSettingsHash() +
+        "\0\0" +
+        String(this.sortState.isShuffled) +
+        "\0\0" +
+        this.sortState.order.join("\0");
+
+      if (
+        renderHash === this.renderState.lastRenderHash &&
+        this.timelineRef.current?.isConnected
+      ) {
+        this.scrollPreservation?.restoreAfterRender();
+        return;
+      }
+
+      const settingsChanged =
+        this.renderState.lastSettingsHash !== null &&
+        this.renderState.lastSettingsHash !== settingsHash;
+      if (settingsChanged) {
+        this.contentCache.textPreviews = {};
+        this.contentCache.images = {};
+        this.contentCache.hasImageAvailable = {};
+        this.renderCount = BATCH_SIZE;
+      } else {
+        // Drop cached content for modified files only
+        for (const entry of allEntries) {
+          const lastMtime = this.renderState.lastMtimes.get(entry.file.path);
+          if (lastMtime !== undefined && lastMtime !== entry.file.stat.mtime) {
+            delete this.contentCache.textPreviews[entry.file.path];
+            delete this.contentCache.images[entry.file.path];
+            delete this.contentCache.hasImageAvailable[entry.file.path];
+          }
+        }
+      }
+      this.renderState.lastMtimes.clear();
+      for (const entry of allEntries) {
+        this.renderState.lastMtimes.set(entry.file.path, entry.file.stat.mtime);
+      }
+      this.renderState.lastSettingsHash = settingsHash;
+      this.renderState.lastRenderHash = renderHash;
+
+      // Reset shuffle state if sort method changed
+      if (
+        this.sortState.lastMethod !== null &&
+        this.sortState.lastMethod !== sortMethod
+      ) {
+        this.sortState.isShuffled = false;
+        this.sortState.order = [];
+      }
+      this.sortState.lastMethod = sortMethod;
+
+      // The axis ignores Bases groups; sort order only breaks ties, and
+      // pinned cards come first among cards at the same time
+      const sortedEntries: BasesEntry[] = [];
+      for (const { entries } of processGroups(
+        this.data.groupedData,
+        this.sortState.isShuffled,
+        this.sortState.order,
+      )) {
+        sortedEntries.push(...entries);
+      }
+      // Without a date property, notes sit at their created time
+      const dateProperty = settings.timelineDateProperty;
+      const sections = buildTimeline(
+        this.pins.apply(sortedEntries),
+        (entry) =>
+          resolveCalendarTimestamp(
+            getFirstBasesDatePropertyValue(this.app, entry, dateProperty),
+            dateProperty ? "none" : "ctime",
+            entry.file.stat.ctime,
+            entry.file.stat.mtime,
+          ),
+        settings.timelineZoom,
+      );
+      const items: TimelineItem[] = [];
+      for (const section of sections) {
+        for (const entry of section.entries) items.push({ section, entry });
+      }
+
+      const count = Math.min(this.renderCount, items.length);
+      await loadContentForEntries(
+        items.slice(0, count).map((item) => item.entry.item),
+        settings,
+        this.app,
+        this.contentCache.textPreviews,
+        this.contentCache.images,
+        this.contentCache.hasImageAvailable,
+      );
+
+      if (
+        this.renderState.version !== currentVersion ||
+        this.renderState.abortController?.signal.aborted
+      ) {
+        return;
+      }
+
+      // Preserve height during clear to prevent parent scroll reset
+      const currentHeight = this.containerEl.scrollHeight;
+      this.containerEl.setCssProps({
+        "--dynamic-views-preserve-height": `${currentHeight}px`,
+      });
+      this.containerEl.addClass("dynamic-views-height-preserved");
+      const previousScrollLeft = this.trackEl?.scrollLeft ?? 0;
+
+      this.containerEl.empty();
+      this.cardRenderer.cleanup();
+      this.items = items;
+      this.rendered = 0;
+      this.lastSectionEl = null;
+
+      const orientation = settings.timelineOrientation;
+      const timelineEl = this.containerEl.createDiv(
+        `dynamic-views-timeline is-${orientation}`,
+      );
+      this.timelineRef.current = timelineEl;
+      this.focusCleanup?.();
+      this.focusCleanup = initializeContainerFocus(timelineEl);
+
+      this.renderHeader(
+        timelineEl,
+        settings.timelineZoom,
+        sortedEntries.length - items.length,
+      );
+
+      const trackEl = timelineEl.createDiv("dynamic-views-timeline-track");
+      this.trackEl = trackEl;
+      if (items.length === 0) {
+        trackEl.createDiv({
+          cls: "dynamic-views-timeline-empty",
+          text: dateProperty
+            ? "No notes have a date in this property"
+            : "No notes to show",
+        });
+      }
+
+      clearStyleSettingsCache();
+      this.renderItems(items.slice(0, count), settings);
+
+      syncResponsiveClasses(
+        Array.from(timelineEl.querySelectorAll<HTMLElement>(".card")),
+      );
+      initializeScrollGradients(timelineEl);
+      initializeTitleTruncation(timelineEl);
+      this.selection.refresh(
+        new Set(allEntries.map((entry) => entry.file.path)),
+      );
+
+      trackEl.scrollLeft = previousScrollLeft;
+      this.setupInfiniteScroll();
+
+      this.scrollPreservation?.restoreAfterRender();
+      this.containerEl.removeClass("dynamic-views-height-preserved");
+
+      // Clear skip-cover-fade after cached image load events have fired
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => {
+          this.scrollEl
+            .closest(".workspace-leaf-content")
+            ?.classList.remove("skip-cover-fade");
+        });
+      });
+    })();
+  }
+
+  /** Resolve settings with property names normalized to syntax names */
+  private readSettings(): BasesResolvedSettings {
+    const settings = readBasesSettings(
+      this.config,
+      this.plugin.persistenceManager.getPluginSettings(),
+      "timeline",
+      this.lastRenderedSettings ?? undefined,
+    );
+    const reverseMap = buildDisplayToSyntaxMap(this.config, this.allProperties);
+    const displayNameMap = buildSyntaxToDisplayMap(
+      this.config,
+      this.allProperties,
+    );
+    normalizeSettingsPropertyNames(
+      this.app,
+      settings,
+      reverseMap,
+      displayNameMap,
+    );
+    return settings;
+  }
+
+  /** Zoom switch and the count of notes left off the axis */
+  private renderHeader(
+    timelineEl: HTMLElement,
+    zoom: TimelineZoom,
+    undatedCount: number,
+  ): void {
+    const headerEl = timelineEl.createDiv("dynamic-views-timeline-header");
+    if (undatedCount > 0) {
+      headerEl.createDiv({
+        cls: "dynamic-views-timeline-undated",
+        text: `${undatedCount} ${undatedCount === 1 ? "note" : "notes"} without a date`,
+      });
+    }
+
+    const zoomEl = headerEl.createDiv("dynamic-views-timeline-zoom");
+    for (const option of TIMELINE_ZOOM_LEVELS) {
+      const optionEl = zoomEl.createEl("button", {
+        text: ZOOM_LABELS[option],
+      });
+      optionEl.toggleClass("is-active", option === zoom);
+      optionEl.addEventListener("click", () => {
+        if (option === zoom) return;
+        // Saved to the view config like any other setting
+        this.config.set("timelineZoom", option);
+        this.onDataUpdated();
+      });
+    }
+  }
+
+  /**
+   * Append entries to the track, opening a new section at each marker
+   * Continues the last section when a batch starts mid-month/year.
+   */
+  private renderItems(
+    items: TimelineItem[],
+    settings: BasesResolvedSettings,
+  ): void {
+    const trackEl = this.trackEl;
+    if (!trackEl) return;
+
+    const cards = transformBasesEntries(
+      this.app,
+      items.map((item) => item.entry.item),
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+
+    for (let i = 0; i < cards.length; i++) {
+      const { section, entry } = items[i];
+      if (this.lastSectionEl?.key !== section.key) {
+        const sectionEl = trackEl.createDiv("dynamic-views-timeline-section");
+        sectionEl.dataset.period = section.key;
+        sectionEl.createDiv({
+          cls: "dynamic-views-timeline-marker",
+          text: section.label,
+        });
+        this.lastSectionEl = {
+          key: section.key,
+          entriesEl: sectionEl.createDiv("dynamic-views-timeline-entries"),
+        };
+      }
+
+      const entryEl = this.lastSectionEl.entriesEl.createDiv(
+        "dynamic-views-timeline-entry",
+      );
+      entryEl.setCssProps({
+        "--dynamic-views-timeline-gap": `${entry.gap}px`,
+      });
+      entryEl.createDiv({
+        cls: "dynamic-views-timeline-date",
+        text: formatTimelineDate(entry.timestamp, settings.timelineZoom),
+      });
+      this.renderCard(entryEl, cards[i], entry.item, this.rendered, settings);
+      this.rendered++;
+    }
+  }
+
+  private renderCard(
+    container: HTMLElement,
+    card: CardData,
+    entry: BasesEntry,
+    index: number,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    return this.cardRenderer.renderCard(container, card, entry, settings, {
+      index,
+      focusableCardIndex: this.focusState.cardIndex,
+      containerRef: this.timelineRef,
+      onFocusChange: (newIndex: number) => {
+        this.focusState.cardIndex = newIndex;
+      },
+      onHoverStart: (el: HTMLElement) => {
+        this.focusState.hoveredEl = el;
+      },
+      onHoverEnd: () => {
+        this.focusState.hoveredEl = null;
+      },
+      selection: this.selection,
+      pins: this.pins,
+    });
+  }
+
+  /** Load and append the next batch of entries (infinite scroll) */
+  private async appendItems(): Promise<void> {
+    const start = this.rendered;
+    const newItems = this.items.slice(start, start + BATCH_SIZE);
+    if (newItems.length === 0) return;
+    const currentVersion = this.renderState.version;
+    const settings = this.readSettings();
+
+    await loadContentForEntries(
+      newItems.map((item) => item.entry.item),
+      settings,
+      this.app,
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+
+    // Bail if a new render started or another batch landed during loading
+    if (
+      this.renderState.version !== currentVersion ||
+      this.rendered !== start ||
+      !this.trackEl?.isConnected
+    ) {
+      return;
+    }
+
+    clearStyleSettingsCache();
+    this.renderItems(newItems, settings);
+    this.renderCount = this.rendered;
+
+    const newCards = Array.from(
+      this.trackEl.querySelectorAll<HTMLElement>(".card"),
+    ).slice(start);
+    syncResponsiveClasses(newCards);
+    initializeScrollGradients(this.trackEl);
+    initializeTitleTruncation(this.trackEl);
+    // A short batch may still leave the end in range
+    this.checkScroll?.();
+  }
+
+  /**
+   * Append batches as the end of the track comes into range
+   * Horizontal tracks scroll themselves; vertical ones scroll with the pane.
+   */
+  private setupInfiniteScroll(): void {
+    this.scrollAbortController?.abort();
+    this.scrollAbortController = new AbortController();
+    const { signal } = this.scrollAbortController;
+    if (this.scrollTimeoutId !== null) {
+      window.clearTimeout(this.scrollTimeoutId);
+      this.scrollTimeoutId = null;
+    }
+
+    const trackEl = this.trackEl;
+    if (!trackEl) return;
+    const isHorizontal =
+      this.lastRenderedSettings?.timelineOrientation !== "vertical";
+
+    const checkAndLoad = () => {
+      if (!trackEl.isConnected || this.rendered >= this.items.length) return;
+      const nearEnd = isHorizontal
+        ? trackEl.scrollWidth - trackEl.scrollLeft <
+          trackEl.clientWidth * PANE_MULTIPLIER
+        : trackEl.getBoundingClientRect().bottom <
+          this.scrollEl.getBoundingClientRect().bottom +
+            this.scrollEl.clientHeight * PANE_MULTIPLIER;
+      if (nearEnd) void this.appendItems();
+    };
+
+    this.checkScroll = checkAndLoad;
+
+    const onScroll = () => {
+      if (this.scrollTimeoutId !== null) return;
+      checkAndLoad();
+      this.scrollTimeoutId = window.setTimeout(() => {
+        this.scrollTimeoutId = null;
+        checkAndLoad(); // Trailing call catches scroll position changes during throttle
+      }, SCROLL_THROTTLE_MS);
+    };
+
+    (isHorizontal ? trackEl : this.scrollEl).addEventListener(
+      "scroll",
+      onScroll,
+      { passive: true, signal },
+    );
+    checkAndLoad();
+  }
+
+  onunload(): void {
+    this.scrollPreservation?.cleanup();
+    if (this.trailingUpdate.timeoutId !== null) {
+      window.clearTimeout(this.trailingUpdate.timeoutId);
+    }
+    if (this.scrollTimeoutId !== null) {
+      window.clearTimeout(this.scrollTimeoutId);
+    }
+    this.scrollAbortController?.abort();
+    this.swipeAbortController?.abort();
+    this.focusCleanup?.();
+    this.selection.destroy();
+    this.cardRenderer.cleanup(true); // Force viewer cleanup on view destruction
+  }
+
+  focus(): void {
+    this.containerEl.focus({ preventScroll: true });
+  }
+}
+
+/** Export options for registration */
+export const timelineViewOptions = getTimelineViewOptions;
@@ -0,0 +1,804 @@
+/**
+ * Bases Folder Tree View
+ * Nests result cards under their folders as an expandable tree; each folder
+ * gets a collapsible header with the count of files below it
+ */
+
+import {
+  BasesEntry,
+  BasesView,
+  QueryController,
+  TFile,
+  setIcon,
+} from "obsidian";
+import { CardData } from "../shared/card-renderer";
+import { transformBasesEntries } from "../shared/data-transform";
+import {
+  readBasesSettings,
+  getTreeViewOptions,
+} from "../shared/settings-schema";
+import {
+  buildFolderTree,
+  flattenFolderTree,
+  getFolderPaths,
+  type FolderTreeNode,
+} from "../shared/folder-tree";
+import { clearStyleSettingsCache } from "../utils/style-settings";
+import { initializeScrollGradients } from "../shared/scroll-gradient";
+import {
+  SharedCardRenderer,
+  initializeTitleTruncation,
+  syncResponsiveClasses,
+  applyViewContainerStyles,
+} from "./shared-renderer";
+import { CardSelection } from "./card-selection";
+import {
+  BATCH_SIZE,
+  PANE_MULTIPLIER,
+  SCROLL_THROTTLE_MS,
+} from "../shared/constants";
+import {
+  setupBasesSwipeInterception,
+  setupStyleSettingsObserver,
+  getStyleSettingsHash,
+  getSortMethod,
+  loadContentForEntries,
+  processGroups,
+  cleanupBaseFile,
+  shouldProcessDataUpdate,
+  TemplateToggle,
+  BasesCardPins,
+  applyCustomClasses,
+  getPluginInstance,
+  resolveLeafFile,
+} from "./utils";
+import {
+  initializeContainerFocus,
+  setupHoverKeyboardNavigation,
+} from "../shared/keyboard-nav";
+import {
+  ScrollPreservation,
+  getLeafProps,
+} from "../shared/scroll-preservation";
+import {
+  buildDisplayToSyntaxMap,
+  buildSyntaxToDisplayMap,
+  normalizeSettingsPropertyNames,
+} from "../utils/property";
+import type DynamicViews from "../../main";
+import type {
+  BasesResolvedSettings,
+  ContentCache,
+  RenderState,
+  SortState,
+  FocusState,
+} from "../types";
+
+export const TREE_VIEW_TYPE = "dynamic-views-tree";
+
+export class DynamicViewsTreeView extends BasesView {
+  readonly type = TREE_VIEW_TYPE;
+  private scrollEl: HTMLElement;
+  private leafId: string;
+  private containerEl: HTMLElement;
+  private plugin: DynamicViews;
+  private _resolvedFile: TFile | null | undefined = undefined;
+  private _collapsedFoldersLoaded = false;
+  private scrollPreservation: ScrollPreservation | null = null;
+  private cardRenderer: SharedCardRenderer;
+  private selection: CardSelection;
+  private _previousCustomClasses: string[] = [];
+
+  // Consolidated state objects (shared patterns with grid-view)
+  private contentCache: ContentCache = {
+    textPreviews: {},
+    images: {},
+    hasImageAvailable: {},
+  };
+  private renderState: RenderState = {
+    version: 0,
+    abortController: null,
+    lastRenderHash: "",
+    lastSettingsHash: null,
+    lastMtimes: new Map(),
+  };
+  // Track last rendered settings to detect stale config (see readBasesSettings)
+  private lastRenderedSettings: BasesResolvedSettings | null = null;
+  private sortState: SortState = {
+    isShuffled: false,
+    order: [],
+    lastMethod: null,
+  };
+  private focusState: FocusState = {
+    cardIndex: 0,
+    hoveredEl: null,
+    selectedPaths: new Set(),
+    selectionAnchor: null,
+  };
+  private focusCleanup: (() => void) | null = null;
+  // Pinned cards render first (persisted in BasesUIState)
+  private readonly pins: BasesCardPins;
+  private templateToggle: TemplateToggle;
+
+  // Public accessors for sortState (used by randomize.ts)
+  get isShuffled(): boolean {
+    return this.sortState.isShuffled;
+  }
+  set isShuffled(value: boolean) {
+    this.sortState.isShuffled = value;
+  }
+  get shuffledOrder(): string[] {
+    return this.sortState.order;
+  }
+  set shuffledOrder(value: string[]) {
+    this.sortState.order = value;
+  }
+  get viewScrollEl(): HTMLElement {
+    return this.scrollEl;
+  }
+
+  // Tree-specific state
+  private updateLayoutRef: { current: (() => void) | null } = { current: null };
+  private treeRef: { current: HTMLElement | null } = { current: null };
+  private folderTree: FolderTreeNode<BasesEntry> | null = null;
+  // Visible folders in display order (subfolders of collapsed ones left out)
+  private folders: FolderTreeNode<BasesEntry>[] = [];
+  // Next card to render: folder index and offset within that folder
+  private position = { folderIndex: 0, offset: 0 };
+  private openCardsEl: HTMLElement | null = null;
+  private rendered = 0;
+  // Cards to restore after a re-render (survives data updates, not settings)
+  private displayedCount = BATCH_SIZE;
+  private isLoading = false;
+  private collapsedFolders: Set<string> = new Set();
+  private viewId: string | null = null;
+  private swipeAbortController: AbortController | null = null;
+  private scrollAbortController: AbortController | null = null;
+  private scrollTimeoutId: number | null = null;
+  private lastDataUpdateTime = { value: 0 };
+  private trailingUpdate: {
+    timeoutId: number | null;
+    callback: (() => void) | null;
+    isTrailing?: boolean;
+  } = {
+    timeoutId: null,
+    callback: null,
+  };
+
+  /** Get the current file by resolving from the leaf's view state (cached) */
+  private get currentFile(): TFile | null {
+    if (this._resolvedFile === undefined) {
+      this._resolvedFile = resolveLeafFile(this.app, this.scrollEl);
+    }
+    return this._resolvedFile;
+  }
+
+  /** Persist collapse state (async — in-memory state is authoritative) */
+  private persistCollapsedFolders(): void {
+    void this.plugin.persistenceManager.setBasesState(
+      this.viewId ?? undefined,
+      {
+        collapsedFolders: Array.from(this.collapsedFolders),
+      },
+    );
+  }
+
+  /**
+   * Toggle collapse state for a folder and persist
+   * Collapsing changes which subfolders are listed, so the tree re-renders
+   * (scroll position is preserved).
+   */
+  private toggleFolderCollapse(path: string): void {
+    if (this.collapsedFolders.has(path)) {
+      this.collapsedFolders.delete(path);
+    } else {
+      this.collapsedFolders.add(path);
+    }
+    this.persistCollapsedFolders();
+    this.onDataUpdated();
+  }
+
+  /** Whether the results span any folders (fold/unfold commands) */
+  public get isGrouped(): boolean {
+    return (this.folderTree?.children.length ?? 0) > 0;
+  }
+
+  /** Fold all folders — called by command palette */
+  public foldAllGroups(): void {
+    if (!this.folderTree) return;
+    for (const path of getFolderPaths(this.folderTree)) {
+      this.collapsedFolders.add(path);
+    }
+    this.persistCollapsedFolders();
+    this.renderState.lastRenderHash = "";
+    this.onDataUpdated();
+  }
+
+  /** Unfold all folders — called by command palette */
+  public unfoldAllGroups(): void {
+    this.collapsedFolders.clear();
+    this.persistCollapsedFolders();
+    this.onDataUpdated();
+  }
+
+  constructor(controller: QueryController, scrollEl: HTMLElement) {
+    super(controller);
+
+    this.scrollEl = scrollEl;
+    // Find leaf by matching container (getLeaf() creates new leaf if pinned, activeLeaf is deprecated)
+    this.leafId = "";
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view?.containerEl?.contains(scrollEl)) {
+        this.leafId = getLeafProps(leaf).id ?? "";
+      }
+    });
+
+    this.containerEl = scrollEl.createDiv({
+      cls: "dynamic-views dynamic-views-bases-container",
+    });
+
+    // Access plugin from controller's app
+    this.plugin = getPluginInstance(this.app);
+    this.templateToggle = new TemplateToggle(this, "tree", this.plugin);
+    this.pins = new BasesCardPins(
+      this,
+      this.plugin,
+      () => this.viewId,
+      () => {
+        this.renderState.lastRenderHash = "";
+        this.onDataUpdated();
+      },
+    );
+    this.cardRenderer = new SharedCardRenderer(
+      this.app,
+      this.plugin,
+      this.updateLayoutRef,
+    );
+
+    // Shift/Mod-click multi-select with bulk actions
+    this.selection = new CardSelection({
+      app: this.app,
+      focusState: this.focusState,
+      getCardsContainer: () => this.treeRef.current,
+      getBarParent: () => this.containerEl,
+      getSourcePath: () => this.currentFile?.path ?? "",
+    });
+
+    const pluginSettings = this.plugin.persistenceManager.getPluginSettings();
+
+    // Setup swipe interception on mobile if enabled
+    this.swipeAbortController = setupBasesSwipeInterception(
+      this.containerEl,
+      this.app,
+      pluginSettings,
+    );
+
+    // Watch for Dynamic Views Style Settings changes only
+    const disconnectObserver = setupStyleSettingsObserver(() =>
+      this.onDataUpdated(),
+    );
+    this.register(disconnectObserver);
+
+    // Setup hover-to-start keyboard navigation
+    const cleanupKeyboard = setupHoverKeyboardNavigation(
+      () => this.focusState.hoveredEl,
+      () => this.treeRef.current,
+      (index) => {
+        this.focusState.cardIndex = index;
+      },
+      (cardEl) => this.selection.extendTo(cardEl, cardEl),
+    );
+    this.register(cleanupKeyboard);
+
+    if (this.leafId) {
+      this.scrollPreservation = new ScrollPreservation({
+        leafId: this.leafId,
+        scrollEl: this.scrollEl,
+        registerEvent: (e) => this.registerEvent(e),
+        register: (c) => this.register(c),
+        app: this.app,
+      });
+    }
+  }
+
+  onload(): void {
+    super.onload();
+  }
+
+  onDataUpdated(): void {
+    this.templateToggle.sync();
+
+    // Delay reading config - Obsidian may fire onDataUpdated before updating config.getOrder()
+    queueMicrotask(() => this.processDataUpdate());
+  }
+
+  /** Internal handler after config has settled */
+  private processDataUpdate(): void {
+    this.trailingUpdate.isTrailing = false;
+    this.trailingUpdate.callback = () => this.onDataUpdated();
+
+    if (
+      !shouldProcessDataUpdate(this.lastDataUpdateTime, this.trailingUpdate)
+    ) {
+      return;
+    }
+
+    void (async () => {
+      // Ensure all views in file have valid ids, get this view's id
+      const viewIds = await cleanupBaseFile(
+        this.app,
+        this.currentFile,
+        this.plugin,
+      );
+      const viewName = this.config?.name;
+      this.viewId = (viewName && viewIds?.get(viewName)) ?? null;
+
+      // Load collapsed folders only on first render; afterwards the in-memory
+      // Set is authoritative (same as collapsed groups in grid-view)
+      if (!this._collapsedFoldersLoaded) {
+        const basesState = this.plugin.persistenceManager.getBasesState(
+          this.viewId ?? undefined,
+        );
+        this.collapsedFolders = new Set(basesState.collapsedFolders ?? []);
+        this.pins.load();
+        this._collapsedFoldersLoaded = true;
+      }
+
+      if (!this.data) return;
+
+      // Increment render version to cancel any in-flight stale renders
+      this.renderState.version++;
+      const currentVersion = this.renderState.version;
+      this.renderState.abortController?.abort();
+      this.renderState.abortController = new AbortController();
+
+      this.focusState.cardIndex = 0;
+
+      const allEntries = this.data.data;
+
+      const settings = this.readSettings();
+      this.lastRenderedSettings = settings;
+
+      applyViewContainerStyles(this.containerEl, settings);
+      this.containerEl.style.setProperty(
+        "--dynamic-views-tree-card-width",
+        `${settings.cardSize}px`,
+      );
+      this.containerEl.style.setProperty(
+        "--dynamic-views-image-aspect-ratio",
+        String(settings.imageRatio),
+      );
+      this._previousCustomClasses = applyCustomClasses(
+        this.scrollEl,
+        settings.cssclasses,
+        this._previousCustomClasses,
+      );
+
+      const sortMethod = getSortMethod(this.config);
+      const visibleProperties = this.config.getOrder();
+      const settingsHash =
+        JSON.stringify(settings) +
+        "\0\0" +
+        visibleProperties.join("\0") +
+        "\0\0" +
+        sortMethod;
+      const renderHash =
+        allEntries
+          .map((e: BasesEntry) => `${e.file.path}:${e.file.stat.mtime}`)
+          .join("\0") +
+        "\0\0" +
+        settingsHash +
+        "\0\0" +
+        getStyleSettingsHash() +
+        "\0\0" +
+        Array.from(this.collapsedFolders).sort().join("\0") +
+        "\0\0" +
+        String(this.sortState.isShuffled) +
+        "\0\0" +
+        this.sortState.order.join("\0");
+
+      if (
+        renderHash === this.renderState.lastRenderHash &&
+        this.treeRef.current?.isConnected
+      ) {
+        this.scrollPreservation?.restoreAfterRender();
+        return;
+      }
+
+      const settingsChanged =
+        this.renderState.lastSettingsHash !== null &&
+        this.renderState.lastSettingsHash !== settingsHash;
+      if (settingsChanged) {
+        this.contentCache.textPreviews = {};
+        this.contentCache.images = {};
+        this.contentCache.hasImageAvailable = {};
+        this.displayedCount = BATCH_SIZE;
+      } else {
+        // Drop cached content for modified files only
+        for (const entry of allEntries) {
+          const lastMtime = this.renderState.lastMtimes.get(entry.file.path);
+          if (lastMtime !== undefined && lastMtime !== entry.file.stat.mtime) {
+            delete this.contentCache.textPreviews[entry.file.path];
+            delete this.contentCache.images[entry.file.path];
+            delete this.contentCache.hasImageAvailable[entry.file.path];
+          }
+        }
+      }
+      this.renderState.lastMtimes.clear();
+      for (const entry of allEntries) {
+        this.renderState.lastMtimes.set(entry.file.path, entry.file.stat.mtime);
+      }
+      this.renderState.lastSettingsHash = settingsHash;
+      this.renderState.lastRenderHash = renderHash;
+
+      // Reset shuffle state if sort method changed
+      if (
+        this.sortState.lastMethod !== null &&
+        this.sortState.lastMethod !== sortMethod
+      ) {
+        this.sortState.isShuffled = false;
+        this.sortState.order = [];
+      }
+      this.sortState.lastMethod = sortMethod;
+
+      // Folders replace Bases groups; entries keep their sorted (or shuffled)
+      // order within each folder, pinned cards first
+      const entries = this.pins.apply(
+        processGroups(
+          this.data.groupedData,
+          this.sortState.isShuffled,
+          this.sortState.order,
+        ).flatMap((processed) => processed.entries),
+      );
+      this.folderTree = buildFolderTree(entries, (entry) => entry.file.path);
+      this.folders = flattenFolderTree(this.folderTree, this.collapsedFolders);
+      this.position = { folderIndex: 0, offset: 0 };
+
+      await loadContentForEntries(
+        this.collectEntries(this.displayedCount),
+        settings,
+        this.app,
+        this.contentCache.textPreviews,
+        this.contentCache.images,
+        this.contentCache.hasImageAvailable,
+      );
+
+      if (
+        this.renderState.version !== currentVersion ||
+        this.renderState.abortController?.signal.aborted
+      ) {
+        return;
+      }
+
+      // Preserve height during clear to prevent parent scroll reset
+      const currentHeight = this.containerEl.scrollHeight;
+      this.containerEl.setCssProps({
+        "--dynamic-views-preserve-height": `${currentHeight}px`,
+      });
+      this.containerEl.addClass("dynamic-views-height-preserved");
+
+      this.containerEl.empty();
+      this.cardRenderer.cleanup();
+      this.focusCleanup?.();
+      this.openCardsEl = null;
+      this.rendered = 0;
+
+      const treeEl = this.containerEl.createDiv("dynamic-views-tree");
+      this.treeRef.current = treeEl;
+      this.focusCleanup = initializeContainerFocus(treeEl);
+
+      if (allEntries.length === 0) {
+        treeEl.createDiv({
+          cls: "dynamic-views-tree-empty",
+          text: "No notes to show",
+        });
+      }
+
+      clearStyleSettingsCache();
+      this.renderNext(this.displayedCount, settings);
+      this.finishBatch(treeEl);
+      this.selection.refresh(
+        new Set(allEntries.map((entry) => entry.file.path)),
+      );
+      this.setupInfiniteScroll();
+
+      this.scrollPreservation?.restoreAfterRender();
+      this.containerEl.removeClass("dynamic-views-height-preserved");
+
+      // Clear skip-cover-fade after cached image load events have fired
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => {
+          this.scrollEl
+            .closest(".workspace-leaf-content")
+            ?.classList.remove("skip-cover-fade");
+        });
+      });
+    })();
+  }
+
+  /** Resolve settings with property names normalized to syntax names */
+  private readSettings(): BasesResolvedSettings {
+    const settings = readBasesSettings(
+      this.config,
+      this.plugin.persistenceManager.getPluginSettings(),
+      "tree",
+      this.lastRenderedSettings ?? undefined,
+    );
+    const reverseMap = buildDisplayToSyntaxMap(this.config, this.allProperties);
+    const displayNameMap = buildSyntaxToDisplayMap(
+      this.config,
+      this.allProperties,
+    );
+    normalizeSettingsPropertyNames(
+      this.app,
+      settings,
+      reverseMap,
+      displayNameMap,
+    );
+    return settings;
+  }
+
+  /** Whether a folder's own cards are hidden */
+  private isCollapsed(folder: FolderTreeNode<BasesEntry>): boolean {
+    return folder.depth > 0 && this.collapsedFolders.has(folder.path);
+  }
+
+  /** The next `count` entries from the current position (skips collapsed) */
+  private collectEntries(count: number): BasesEntry[] {
+    const entries: BasesEntry[] = [];
+    let { folderIndex, offset } = this.position;
+    while (entries.length < count && folderIndex < this.folders.length) {
+      const folder = this.folders[folderIndex];
+      if (!this.isCollapsed(folder)) {
+        entries.push(
+          ...folder.items.slice(offset, offset + count - entries.length),
+        );
+      }
+      folderIndex++;
+      offset = 0;
+    }
+    return entries;
+  }
+
+  /**
+   * Render the next `count` cards, opening a section at each folder
+   * Headers cost no cards, so folders without direct files and collapsed
+   * folders render even past the budget; a batch that ends mid-folder
+   * continues in the same grid on the next call.
+   */
+  private renderNext(count: number, settings: BasesResolvedSettings): void {
+    const treeEl = this.treeRef.current;
+    if (!treeEl) return;
+
+    let remaining = count;
+    while (this.position.folderIndex < this.folders.length) {
+      const folder = this.folders[this.position.folderIndex];
+      const isCollapsed = this.isCollapsed(folder);
+      const hasCards = !isCollapsed && folder.items.length > 0;
+      if (remaining <= 0 && hasCards) break;
+
+      if (!this.openCardsEl) {
+        this.openCardsEl = this.renderFolder(treeEl, folder, isCollapsed);
+      }
+
+      const { offset } = this.position;
+      const entries = hasCards
+        ? folder.items.slice(offset, offset + remaining)
+        : [];
+      this.renderCards(this.openCardsEl, entries, settings);
+      remaining -= entries.length;
+
+      if (!hasCards || offset + entries.length >= folder.items.length) {
+        this.position = {
+          folderIndex: this.position.folderIndex + 1,
+          offset: 0,
+        };
+        this.openCardsEl = null;
+      } else {
+        this.position.offset = offset + entries.length;
+      }
+    }
+  }
+
+  /**
+   * Folder section: header (except at the vault root) and card grid
+   * Sections are flat siblings indented by depth, so infinite scroll can
+   * append to the tree in display order.
+   * @returns The grid cards go into
+   */
+  private renderFolder(
+    treeEl: HTMLElement,
+    folder: FolderTreeNode<BasesEntry>,
+    isCollapsed: boolean,
+  ): HTMLElement {
+    const sectionEl = treeEl.createDiv("dynamic-views-tree-folder");
+    sectionEl.dataset.folder = folder.path;
+    sectionEl.style.setProperty(
+      "--dynamic-views-tree-depth",
+      String(Math.max(folder.depth - 1, 0)),
+    );
+
+    if (folder.depth > 0) {
+      const headerEl = sectionEl.createDiv("dynamic-views-tree-heading");
+      headerEl.toggleClass("collapsed", isCollapsed);
+      headerEl.setAttribute("aria-expanded", String(!isCollapsed));
+      headerEl.addEventListener("click", () =>
+        this.toggleFolderCollapse(folder.path),
+      );
+
+      const chevronEl = headerEl.createDiv("dynamic-views-tree-chevron");
+      setIcon(chevronEl, "chevron-down");
+      const iconEl = headerEl.createDiv("dynamic-views-tree-icon");
+      setIcon(iconEl, isCollapsed ? "folder-closed" : "folder-open");
+      headerEl.createDiv({ cls: "dynamic-views-tree-name", text: folder.name });
+      headerEl.createDiv({
+        cls: "dynamic-views-tree-count",
+        text:
+          folder.count === 1
+            ? "1 result"
+            : `${folder.count.toLocaleString()} results`,
+      });
+    }
+
+    // Empty if collapsed or without direct files, kept for the DOM structure
+    return sectionEl.createDiv(
+      "dynamic-views-group bases-cards-group dynamic-views-tree-cards",
+    );
+  }
+
+  private renderCards(
+    cardsEl: HTMLElement,
+    entries: BasesEntry[],
+    settings: BasesResolvedSettings,
+  ): void {
+    if (entries.length === 0) return;
+    const cards = transformBasesEntries(
+      this.app,
+      entries,
+      settings,
+      getSortMethod(this.config),
+      false,
+      this.config.getOrder(),
+      this.contentCache.textPreviews,
+      this.contentCache.images,
+      this.contentCache.hasImageAvailable,
+    );
+    for (let i = 0; i < cards.length; i++) {
+      this.renderCard(cardsEl, cards[i], entries[i], this.rendered, settings);
+      this.rendered++;
+    }
+  }
+
+  private renderCard(
+    container: HTMLElement,
+    card: CardData,
+    entry: BasesEntry,
+    index: number,
+    settings: BasesResolvedSettings,
+  ): HTMLElement {
+    return this.cardRenderer.renderCard(container, card, entry, settings, {
+      index,
+      focusableCardIndex: this.focusState.cardIndex,
+      // Arrow keys move between folders too
+      containerRef: this.treeRef,
+      onFocusChange: (newIndex: number) => {
+        this.focusState.cardIndex = newIndex;
+      },
+      onHoverStart: (el: HTMLElement) => {
+        this.focusState.hoveredEl = el;
+      },
+      onHoverEnd: () => {
+        this.focusState.hoveredEl = null;
+      },
+      selection: this.selection,
+      pins: this.pins,
+    });
+  }
+
+  /** Post-render passes shared by the first render and appended batches */
+  private finishBatch(treeEl: HTMLElement): void {
+    syncResponsiveClasses(
+      Array.from(treeEl.querySelectorAll<HTMLElement>(".card")),
+    );
+    initializeScrollGradients(treeEl);
+    initializeTitleTruncation(treeEl);
+  }
+
+  /** Load and append the next batch of cards (infinite scroll) */
+  private async appendCards(): Promise<void> {
+    if (this.isLoading) return;
+    const entries = this.collectEntries(BATCH_SIZE);
+    if (entries.length === 0) return;
+    const currentVersion = this.renderState.version;
+    const settings = this.readSettings();
+
+    this.isLoading = true;
+    try {
+      await loadContentForEntries(
+        entries,
+        settings,
+        this.app,
+        this.contentCache.textPreviews,
+        this.contentCache.images,
+        this.contentCache.hasImageAvailable,
+      );
+    } finally {
+      this.isLoading = false;
+    }
+
+    // Bail if a new render started during loading
+    const treeEl = this.treeRef.current;
+    if (this.renderState.version !== currentVersion || !treeEl?.isConnected) {
+      return;
+    }
+
+    clearStyleSettingsCache();
+    this.renderNext(BATCH_SIZE, settings);
+    this.finishBatch(treeEl);
+    this.displayedCount = Math.max(this.displayedCount, this.rendered);
+    // A short batch may still leave the end in range
+    this.scrollEl.dispatchEvent(new Event("scroll"));
+  }
+
+  /** Append batches as the end of the tree comes into range */
+  private setupInfiniteScroll(): void {
+    this.scrollAbortController?.abort();
+    this.scrollAbortController = new AbortController();
+    const { signal } = this.scrollAbortController;
+    if (this.scrollTimeoutId !== null) {
+      window.clearTimeout(this.scrollTimeoutId);
+      this.scrollTimeoutId = null;
+    }
+
+    const treeEl = this.treeRef.current;
+    if (!treeEl) return;
+
+    const checkAndLoad = () => {
+      if (!treeEl.isConnected) return;
+      if (this.position.folderIndex >= this.folders.length) return;
+      const nearEnd =
+        treeEl.getBoundingClientRect().bottom <
+        this.scrollEl.getBoundingClientRect().bottom +
+          this.scrollEl.clientHeight * PANE_MULTIPLIER;
+      if (nearEnd) void this.appendCards();
+    };
+
+    const onScroll = () => {
+      if (this.scrollTimeoutId !== null) return;
+      checkAndLoad();
+      this.scrollTimeoutId = window.setTimeout(() => {
+        this.scrollTimeoutId = null;
+        checkAndLoad(); // Trailing call catches scroll position changes during throttle
+      }, SCROLL_THROTTLE_MS);
+    };
+
+    this.scrollEl.addEventListener("scroll", onScroll, {
+      passive: true,
+      signal,
+    });
+    checkAndLoad();
+  }
+
+  onunload(): void {
+    this.scrollPreservation?.cleanup();
+    if (this.trailingUpdate.timeoutId !== null) {
+      window.clearTimeout(this.trailingUpdate.timeoutId);
+    }
+    if (this.scrollTimeoutId !== null) {
+      window.clearTimeout(this.scrollTimeoutId);
+    }
+    this.scrollAbortController?.abort();
+    this.swipeAbortController?.abort();
+    this.renderState.abortController?.abort();
+    this.focusCleanup?.();
+    this.selection.destroy();
+    this.cardRenderer.cleanup(true); // Force viewer cleanup on view destruction
+  }
+
+  focus(): void {
+    this.containerEl.focus({ preventScroll: true });
+  }
+}
+
+/** Export options for registration */
+export const treeViewOptions = getTreeViewOptions;
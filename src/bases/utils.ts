@@ -1,10 +1,11 @@
 /**
- * Shared utilities for Bases views (grid-view and masonry-view)
+ * Shared utilities for Bases views
  * Eliminates code duplication between view implementations
  */
 
 import {
   BasesEntry,
+  BasesPropertyId,
   TFile,
   TFolder,
   Menu,
@@ -15,9 +16,11 @@ import {
   stringifyYaml,
 } from "obsidian";
 import { resolveTimestampProperty } from "../shared/data-transform";
+import { formatFrontmatterDate } from "../shared/calendar";
 import {
   getFirstBasesPropertyValue,
   getAllBasesImagePropertyValues,
+  stripNotePrefix,
 } from "../utils/property";
 import {
   loadTextPreviewsForEntries,
@@ -32,9 +35,17 @@ import {
 import type {
   PluginSettings,
   BasesResolvedSettings,
+  BasesViewType,
   ViewDefaults,
 } from "../types";
 import { BASES_DEFAULTS, VIEW_DEFAULTS } from "../constants";
+import { extractBasesTemplate } from "../shared/settings-schema";
+import {
+  applyPins,
+  renamePinnedPaths,
+  togglePinnedPath,
+  type CardPins,
+} from "../shared/card-pins";
 import type DynamicViews from "../../main";
 
 /** Bases config interface for get/set operations (used by template validation) */
@@ -54,7 +65,13 @@ const VALID_VIEW_VALUES: Partial<
   imageFit: ["crop", "contain"],
   propertyLabels: ["hide", "inline", "above"],
   rightPropertyPosition: ["left", "column", "right"],
+  masonryLayout: ["columns", "justified"],
   minimumColumns: ["one", "two"],
+  calendarDateFallback: ["ctime", "mtime", "none"],
+  calendarRange: ["month", "week"],
+  timelineOrientation: ["horizontal", "vertical"],
+  timelineZoom: ["day", "week", "month", "year"],
+  listMarker: ["bullet", "number", "none"],
 };
 
 /** Keys allowed in Dynamic Views .base view entries */
@@ -240,6 +257,24 @@ export const EMBEDDED_VIEW_SELECTOR =
 /** Sentinel value for undefined group keys in dataset storage */
 export const UNDEFINED_GROUP_KEY_SENTINEL = "__dynamic-views-undefined__";
 
+/** Joins parent and subgroup keys in nested collapse keys */
+export const NESTED_GROUP_KEY_SEPARATOR = "\u241E";
+
+/**
+ * Get the collapse key for a group (sentinel for undefined keys)
+ * Subgroups are keyed under their parent, so the same value collapses
+ * independently in each parent group.
+ */
+export function getCollapseKey(
+  groupKey: string | undefined,
+  parentCollapseKey?: string,
+): string {
+  const key = groupKey ?? UNDEFINED_GROUP_KEY_SENTINEL;
+  return parentCollapseKey === undefined
+    ? key
+    : `${parentCollapseKey}${NESTED_GROUP_KEY_SEPARATOR}${key}`;
+}
+
 /**
  * Write group key to element's dataset, using sentinel for undefined
  */
@@ -427,22 +462,251 @@ export function processGroups<T extends GroupData>(
   isShuffled: boolean,
   shuffledOrder: string[],
 ): Array<{ group: T; entries: BasesEntry[] }> {
+  // Index lookup once, not per comparison (manual orders can be long)
+  const indexes =
+    isShuffled && shuffledOrder.length > 0
+      ? new Map(shuffledOrder.map((path, index) => [path, index]))
+      : null;
   return groupedData.map((group) => {
     let groupEntries = [...group.entries];
-    if (isShuffled && shuffledOrder.length > 0) {
+    if (indexes) {
       groupEntries = groupEntries.sort((a, b) => {
-        const indexA = shuffledOrder.indexOf(a.file.path);
-        const indexB = shuffledOrder.indexOf(b.file.path);
-        // Missing entries (indexOf returns -1) sort to end
-        const adjustedA = indexA === -1 ? Infinity : indexA;
-        const adjustedB = indexB === -1 ? Infinity : indexB;
-        return adjustedA - adjustedB;
+        // Missing entries sort to end
+        const indexA = indexes.get(a.file.path) ?? Infinity;
+        const indexB = indexes.get(b.file.path) ?? Infinity;
+        return indexA - indexB;
       });
     }
     return { group, entries: groupEntries };
   });
 }
 
+/** A Bases group or subgroup, in render order */
+export interface NestedGroup {
+  group: { hasKey(): boolean; key?: unknown };
+  /** Property this level groups by (undefined for the Bases groupBy) */
+  property?: string;
+  /** 0 for Bases groups, 1 and 2 for secondary and tertiary subgroups */
+  depth: number;
+  groupKey: string | undefined;
+  collapseKey: string;
+  /** Collapse key of the enclosing group (subgroups only) */
+  parentCollapseKey?: string;
+  /** Entries shown under this header (empty when split into subgroups) */
+  entries: BasesEntry[];
+  /** Entries in this group and all its subgroups */
+  count: number;
+  /** The entries counted in `count` (group summaries) */
+  allEntries: BasesEntry[];
+  hasSubgroups: boolean;
+}
+
+/**
+ * Secondary and tertiary group-by properties from view settings
+ * Subgroups only apply under a Bases groupBy, and the tertiary level only
+ * under a secondary one.
+ */
+export function getSubgroupProperties(
+  config: unknown,
+  settings: Pick<ViewDefaults, "secondaryGroupBy" | "tertiaryGroupBy">,
+): string[] {
+  if (!hasGroupBy(config) || !config.groupBy?.property) return [];
+  const properties: string[] = [];
+  const { secondaryGroupBy, tertiaryGroupBy } = settings;
+  for (const property of [secondaryGroupBy, tertiaryGroupBy]) {
+    if (!property) break;
+    properties.push(property);
+  }
+  return properties;
+}
+
+/**
+ * Split entries by their value for a property
+ * Subgroups sort by value with "None" last; entries keep their order.
+ */
+export function splitIntoSubgroups(
+  entries: BasesEntry[],
+  property: string,
+): Array<{
+  group: { hasKey(): boolean; key?: unknown };
+  groupKey: string | undefined;
+  entries: BasesEntry[];
+}> {
+  const byKey = new Map<
+    string | undefined,
+    { key: unknown; entries: BasesEntry[] }
+  >();
+  for (const entry of entries) {
+    let value: unknown = null;
+    try {
+      value = entry.getValue(property as BasesPropertyId);
+    } catch {
+      // Obsidian's getValue can throw when entry's internal property data is null
+    }
+    const groupKey = serializeGroupKey(value) || undefined;
+    let subgroup = byKey.get(groupKey);
+    if (!subgroup) {
+      subgroup = {
+        key: groupKey === undefined ? undefined : value,
+        entries: [],
+      };
+      byKey.set(groupKey, subgroup);
+    }
+    subgroup.entries.push(entry);
+  }
+
+  return Array.from(byKey.entries())
+    .sort(([a], [b]) => {
+      if (a === undefined) return b === undefined ? 0 : 1;
+      if (b === undefined) return -1;
+      return a.localeCompare(b, undefined, {
+        numeric: true,
+        sensitivity: "base",
+      });
+    })
+    .map(([groupKey, { key, entries: subgroupEntries }]) => ({
+      group: { hasKey: () => groupKey !== undefined, key },
+      groupKey,
+      entries: subgroupEntries,
+    }));
+}
+
+/**
+ * Element a group's section goes into: its parent group's section, so the
+ * parent heading stays stuck over its subgroups, or the view's root
+ * Sections are kept by collapse key since subgroups also render in later
+ * batches.
+ */
+export function getGroupSectionParent(
+  sections: Map<string, HTMLElement>,
+  rootEl: HTMLElement,
+  parentCollapseKey: string | undefined,
+): HTMLElement {
+  return (parentCollapseKey && sections.get(parentCollapseKey)) || rootEl;
+}
+
+/**
+ * Expose the group heading height for stacked sticky subgroup headings
+ * Subgroup sections nest inside their parent's, so their headings stick
+ * below the parent heading instead of covering it.
+ */
+export function syncGroupHeadingHeight(containerEl: HTMLElement): void {
+  const headingEl = containerEl.querySelector<HTMLElement>(
+    ".dynamic-views-group-section > .bases-group-heading",
+  );
+  if (!headingEl) return;
+  containerEl.style.setProperty(
+    "--dynamic-views-group-heading-height",
+    `${headingEl.offsetHeight}px`,
+  );
+}
+
+/**
+ * Flatten groups and their subgroups into render order
+ * A group split into subgroups shows its header only; subgroups of collapsed
+ * groups are left out.
+ */
+export function nestGroups(
+  processedGroups: Array<{ group: GroupData; entries: BasesEntry[] }>,
+  subgroupProperties: string[],
+  collapsedGroups: ReadonlySet<string>,
+): NestedGroup[] {
+  const result: NestedGroup[] = [];
+  const visit = (
+    group: { hasKey(): boolean; key?: unknown },
+    groupKey: string | undefined,
+    entries: BasesEntry[],
+    depth: number,
+    parentCollapseKey?: string,
+    property?: string,
+  ) => {
+    const collapseKey = getCollapseKey(groupKey, parentCollapseKey);
+    const subgroupProperty = subgroupProperties[depth];
+    const hasSubgroups = !!subgroupProperty && entries.length > 0;
+    result.push({
+      group,
+      property,
+      depth,
+      groupKey,
+      collapseKey,
+      parentCollapseKey,
+      entries: hasSubgroups ? [] : entries,
+      count: entries.length,
+      allEntries: entries,
+      hasSubgroups,
+    });
+    if (!hasSubgroups || collapsedGroups.has(collapseKey)) return;
+    for (const subgroup of splitIntoSubgroups(entries, subgroupProperty)) {
+      visit(
+        subgroup.group,
+        subgroup.groupKey,
+        subgroup.entries,
+        depth + 1,
+        collapseKey,
+        subgroupProperty,
+      );
+    }
+  };
+  for (const { group, entries } of processedGroups) {
+    const groupKey = group.hasKey() ? serializeGroupKey(group.key) : undefined;
+    visit(group, groupKey, entries, 0);
+  }
+  return result;
+}
+
+/** Where batched rendering resumes: group index and offset within it */
+export interface GroupBatchPosition {
+  groupIndex: number;
+  offset: number;
+}
+
+/** A group's share of a render batch */
+export interface GroupBatchSlice<G> {
+  group: G;
+  /** Entries to render now (none for collapsed groups) */
+  entries: BasesEntry[];
+  isCollapsed: boolean;
+  /** Whether the group is fully rendered after this slice */
+  isComplete: boolean;
+}
+
+/**
+ * Take the next `count` entries across groups, starting at a position
+ * Collapsed groups cost no entries, so their headers are included even past
+ * the budget; a batch that ends mid-group resumes there on the next call.
+ */
+export function planGroupBatch<G extends { entries: BasesEntry[] }>(
+  groups: G[],
+  position: GroupBatchPosition,
+  count: number,
+  isCollapsed: (group: G) => boolean,
+): { slices: GroupBatchSlice<G>[]; position: GroupBatchPosition } {
+  const slices: GroupBatchSlice<G>[] = [];
+  let { groupIndex, offset } = position;
+  let remaining = count;
+  while (groupIndex < groups.length) {
+    const group = groups[groupIndex];
+    const collapsed = isCollapsed(group);
+    if (remaining <= 0 && !collapsed) break;
+
+    const entries = collapsed
+      ? []
+      : group.entries.slice(offset, offset + remaining);
+    const isComplete =
+      collapsed || offset + entries.length >= group.entries.length;
+    slices.push({ group, entries, isCollapsed: collapsed, isComplete });
+    remaining -= entries.length;
+
+    if (isComplete) {
+      groupIndex++;
+      offset = 0;
+    } else {
+      offset += entries.length;
+    }
+  }
+  return { slices, position: { groupIndex, offset } };
+}
+
 /**
  * Check if value is a tag array (array of Value objects with # prefixed data)
  * Bases proxy arrays have .data containing the actual array
@@ -627,6 +891,7 @@ function renderGroupValue(
 /**
  * Render group header with property name and value (or "None" for empty keys)
  * Header is rendered as sibling to card group (matching vanilla Bases structure)
+ * @param property - Subgroup property (defaults to the groupBy property)
  */
 export function renderGroupHeader(
   containerEl: HTMLElement,
@@ -636,9 +901,12 @@ export function renderGroupHeader(
   entryCount: number,
   collapsed: boolean,
   onToggleCollapse: () => void,
+  property?: string,
 ): HTMLElement | null {
   // Don't render header when not grouping
   if (!config.groupBy?.property) return null;
+  // Subgroups label their own property
+  const groupProperty = property ?? config.groupBy.property;
 
   const headerEl = containerEl.createDiv("bases-group-heading");
   if (collapsed) headerEl.addClass("collapsed");
@@ -656,7 +924,7 @@ export function renderGroupHeader(
   setIcon(chevronBtn, "chevron-down");
 
   const propertyEl = collapseRegion.createDiv("bases-group-property");
-  const propertyName = config.getDisplayName(config.groupBy.property);
+  const propertyName = config.getDisplayName(groupProperty);
   propertyEl.setText(propertyName);
 
   const valueEl = collapseRegion.createDiv("bases-group-value");
@@ -674,7 +942,7 @@ export function renderGroupHeader(
     return headerEl;
   }
 
-  renderGroupValue(valueEl, group.key, app, config.groupBy.property);
+  renderGroupValue(valueEl, group.key, app, groupProperty);
 
   // Render result count
   const countEl = headerEl.createDiv("bases-group-count");
@@ -686,6 +954,76 @@ export function renderGroupHeader(
   return headerEl;
 }
 
+/**
+ * Resolve the frontmatter key behind a group-by property
+ * Returns null for properties that can't be written (file.*, formula.*)
+ */
+export function getWritableGroupProperty(
+  property: string | undefined,
+): string | null {
+  if (!property) return null;
+  if (property.startsWith("file.") || property.startsWith("formula.")) {
+    return null;
+  }
+  const key = stripNotePrefix(property);
+  return key.length > 0 ? key : null;
+}
+
+/**
+ * Convert a Bases group key back to a value that can be written to frontmatter
+ * Returns null for empty keys ("None" group) — callers should delete the property
+ */
+export function groupKeyToFrontmatterValue(key: unknown): unknown {
+  if (key === undefined || key === null) return null;
+  if (
+    typeof key === "string" ||
+    typeof key === "number" ||
+    typeof key === "boolean"
+  ) {
+    return key === "" ? null : key;
+  }
+  if (typeof key !== "object") return null;
+
+  // Bases date Value objects ({date: Date, time: boolean})
+  if ("date" in key && (key as { date: unknown }).date instanceof Date) {
+    const { date, time } = key as { date: Date; time?: boolean };
+    return formatFrontmatterDate(date, time === true);
+  }
+
+  // Unwrap Value objects with .data
+  const data: unknown = "data" in key ? (key as { data: unknown }).data : key;
+  if (data === null || data === undefined) return null;
+  if (typeof data !== "object") return groupKeyToFrontmatterValue(data);
+  // Bases uses proxy arrays that fail Array.isArray
+  if (
+    !Array.isArray(data) &&
+    typeof (data as ArrayLike<unknown>).length !== "number"
+  ) {
+    return null;
+  }
+
+  // Lists (tags, multitext): unwrap each item, strip tag hashes
+  const arr = Array.isArray(data)
+    ? (data as unknown[])
+    : Array.from(data as ArrayLike<unknown>);
+  const items = arr
+    .map((item): unknown =>
+      item && typeof item === "object" && "data" in item
+        ? (item as { data: unknown }).data
+        : item,
+    )
+    .filter(
+      (item): item is string | number | boolean =>
+        typeof item === "string" ||
+        typeof item === "number" ||
+        typeof item === "boolean",
+    )
+    .map((item) =>
+      typeof item === "string" && item.startsWith("#") ? item.slice(1) : item,
+    );
+  return items.length > 0 ? items : null;
+}
+
 /**
  * Get sort method from Bases config
  * Returns a string that uniquely identifies the sort configuration
@@ -794,6 +1132,8 @@ export async function loadContentForEntries(
       settings.omitFirstLine,
       app,
       textPreviews,
+      settings.textPreviewStyle,
+      settings.textPreviewSection,
     );
   }
 
@@ -849,13 +1189,13 @@ interface BasesViewWrapper {
  * Check if a view is the current template by comparing timestamps
  * Used to validate template toggle state on view load
  * @param config - View's config object
- * @param viewType - "grid" or "masonry"
+ * @param viewType - Bases view type
  * @param plugin - Plugin instance for accessing persistence manager
  * @returns true if this view is the current template, false if stale
  */
 export function isCurrentTemplateView(
   config: BasesConfigInit,
-  viewType: "grid" | "masonry",
+  viewType: BasesViewType,
   plugin: DynamicViews,
 ): boolean {
   const savedTemplate = plugin.persistenceManager.getSettingsTemplate(viewType);
@@ -876,12 +1216,12 @@ export function isCurrentTemplateView(
  * Disable isTemplate toggle in all other views of the same type
  * Implements mutual exclusion - only one view of each type can be template
  * @param app - Obsidian App instance
- * @param viewType - Type identifier ("dynamic-views-grid" or "dynamic-views-masonry")
+ * @param viewType - Registered view id (e.g. "dynamic-views-grid")
  * @param currentView - The view that should remain enabled (optional - skip this one)
  */
 export function clearOldTemplateToggles(
   app: App,
-  viewType: "dynamic-views-grid" | "dynamic-views-masonry",
+  viewType: `dynamic-views-${BasesViewType}`,
   currentView?: BasesView,
 ): void {
   app.workspace.iterateAllLeaves((leaf) => {
@@ -913,6 +1253,177 @@ export function clearOldTemplateToggles(
   });
 }
 
+/**
+ * Tracks a view's "Use as template" toggle
+ * Enabling it saves the view's settings as the template for new views of its
+ * type and clears the toggle in other views; disabling clears the template.
+ */
+export class TemplateToggle {
+  private previousIsTemplate: boolean | undefined = undefined;
+
+  constructor(
+    private view: BasesView,
+    private viewType: BasesViewType,
+    private plugin: DynamicViews,
+  ) {}
+
+  /** Called from onDataUpdated() since Obsidian calls that for config changes */
+  sync(): void {
+    const config = this.view.config;
+    const isTemplate = config.get("isTemplate") === true;
+
+    // Only process if isTemplate actually changed
+    if (this.previousIsTemplate === isTemplate) {
+      return;
+    }
+    this.previousIsTemplate = isTemplate;
+
+    if (isTemplate) {
+      const existingTimestamp = config.get("templateSetAt") as
+        | number
+        | undefined;
+
+      if (existingTimestamp !== undefined) {
+        // View loaded with existing toggle — validate it's not stale
+        if (!isCurrentTemplateView(config, this.viewType, this.plugin)) {
+          config.set("isTemplate", false);
+          this.previousIsTemplate = false;
+        }
+        // Valid template — no action needed on load
+      } else {
+        // User just enabled toggle — set timestamp + clear other views
+        const timestamp = Date.now();
+        config.set("templateSetAt", timestamp);
+        clearOldTemplateToggles(
+          this.view.app,
+          `dynamic-views-${this.viewType}`,
+          this.view,
+        );
+
+        // Save settings template
+        void this.plugin.persistenceManager.setSettingsTemplate(this.viewType, {
+          settings: extractBasesTemplate(config, VIEW_DEFAULTS),
+          setAt: timestamp,
+        });
+      }
+    } else {
+      // Toggle turned OFF — clear template if this view was the template
+      const hadTimestamp = config.get("templateSetAt") !== undefined;
+      if (hadTimestamp) {
+        config.set("templateSetAt", undefined);
+        void this.plugin.persistenceManager.setSettingsTemplate(
+          this.viewType,
+          null,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Pinned cards of one Bases view (see shared/card-pins)
+ * Pins are read from BasesUIState on the first render; afterwards the
+ * in-memory list is authoritative and follows vault renames.
+ */
+export class BasesCardPins implements CardPins {
+  private paths: string[] = [];
+  private loaded = false;
+
+  constructor(
+    private view: BasesView,
+    private plugin: DynamicViews,
+    private getViewId: () => string | null,
+    private onChange: () => void,
+  ) {
+    // Persisted pins are renamed by the plugin
+    view.registerEvent(
+      view.app.vault.on("rename", (file, oldPath) => {
+        this.paths =
+          renamePinnedPaths(this.paths, oldPath, file.path) ?? this.paths;
+      }),
+    );
+  }
+
+  /** Read persisted pins (first call only) */
+  load(): void {
+    if (this.loaded) return;
+    this.paths =
+      this.plugin.persistenceManager.getBasesState(
+        this.getViewId() ?? undefined,
+      ).pinnedPaths ?? [];
+    this.loaded = true;
+  }
+
+  isPinned(path: string): boolean {
+    return this.paths.includes(path);
+  }
+
+  /** Pin or unpin a card, persist, and let the view re-render */
+  togglePin(path: string): void {
+    this.paths = togglePinnedPath(this.paths, path);
+    void this.plugin.persistenceManager.setBasesState(
+      this.getViewId() ?? undefined,
+      { pinnedPaths: this.paths },
+    );
+    this.onChange();
+  }
+
+  /** Move pinned entries to the front (stable for the rest) */
+  apply(entries: BasesEntry[]): BasesEntry[] {
+    return applyPins(entries, (entry) => entry.file.path, this.paths);
+  }
+}
+
+/**
+ * Get the plugin instance for a Bases view
+ * Obsidian constructs views with only a QueryController, so look it up by id.
+ */
+export function getPluginInstance(app: App): DynamicViews {
+  return app.plugins.plugins["dynamic-views"] as DynamicViews;
+}
+
+/**
+ * Resolve the file a view's leaf shows (the base file or embedding note)
+ * controller.currentFile is a shared global that can return the wrong file.
+ */
+export function resolveLeafFile(app: App, scrollEl: HTMLElement): TFile | null {
+  let file: TFile | null = null;
+  app.workspace.iterateAllLeaves((leaf) => {
+    if (leaf.view?.containerEl?.contains(scrollEl)) {
+      const path = (leaf.view.getState() as { file?: string })?.file;
+      if (path) {
+        const abstract = app.vault.getAbstractFileByPath(path);
+        file = abstract instanceof TFile ? abstract : null;
+      }
+    }
+  });
+  return file;
+}
+
+/**
+ * Apply custom CSS classes from settings (mimics cssclasses frontmatter)
+ * @param previous - Classes applied last time, removed if no longer listed
+ * @returns Classes now applied
+ */
+export function applyCustomClasses(
+  el: HTMLElement,
+  cssclasses: string,
+  previous: string[],
+): string[] {
+  const customClasses = cssclasses
+    .split(",")
+    .map((cls) => cls.trim())
+    .filter(Boolean);
+  const unchanged =
+    previous.length === customClasses.length &&
+    previous.every((cls, i) => cls === customClasses[i]);
+  if (unchanged) return previous;
+
+  previous.forEach((cls) => el.removeClass(cls));
+  customClasses.forEach((cls) => el.addClass(cls));
+  return customClasses;
+}
+
 /**
  * Throttle window for onDataUpdated calls (ms).
  * Obsidian fires duplicate calls with stale config ~150-200ms after the correct call.
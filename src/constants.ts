@@ -4,8 +4,32 @@ import type {
   DatacoreDefaults,
   BasesDefaults,
   ResolvedSettings,
+  DatacorePreset,
+  BasesViewType,
 } from "./types";
 
+/** Every Bases view type, in registration order */
+export const BASES_VIEW_TYPES: readonly BasesViewType[] = [
+  "grid",
+  "masonry",
+  "kanban",
+  "calendar",
+  "timeline",
+  "list",
+  "carousel",
+  "tree",
+];
+
+/** Bases view type of a registered view id ("dynamic-views-grid" → "grid") */
+export function getBasesViewType(
+  viewId: string | undefined,
+): BasesViewType | null {
+  const prefix = "dynamic-views-";
+  if (!viewId?.startsWith(prefix)) return null;
+  const type = viewId.slice(prefix.length);
+  return BASES_VIEW_TYPES.find((t) => t === type) ?? null;
+}
+
 export const PLUGIN_SETTINGS: PluginSettings = {
   omitFirstLine: "ifMatchesTitle",
   randomizeAction: "shuffle",
@@ -31,6 +55,8 @@ export const VIEW_DEFAULTS: ViewDefaults = {
   textPreviewProperty: "",
   fallbackToContent: true,
   textPreviewLines: 5,
+  textPreviewStyle: "plain",
+  textPreviewSection: "",
   // Image
   imageProperty: "",
   fallbackToEmbeds: "always",
@@ -39,6 +65,7 @@ export const VIEW_DEFAULTS: ViewDefaults = {
   imagePosition: "right",
   imageFit: "crop",
   imageRatio: 1.0,
+  imageTint: false,
   // Properties
   propertyLabels: "hide",
   pairProperties: false,
@@ -48,12 +75,31 @@ export const VIEW_DEFAULTS: ViewDefaults = {
   invertPropertyPosition: "",
   urlProperty: "url",
   // Other
+  masonryLayout: "columns",
   minimumColumns: 1 as const,
   cssclasses: "",
+  // Calendar
+  calendarDateProperty: "",
+  calendarDateFallback: "ctime",
+  calendarRange: "month",
+  // Timeline
+  timelineDateProperty: "",
+  timelineOrientation: "horizontal",
+  timelineZoom: "month",
+  // List
+  listMarker: "bullet",
+  listThumbnails: false,
+  // Grouping
+  secondaryGroupBy: "",
+  tertiaryGroupBy: "",
+  // Sorting
+  manualOrder: false,
+  // Summaries
+  groupSummaries: "",
+  summaryFooter: false,
 };
 
 export const DATACORE_DEFAULTS: DatacoreDefaults = {
-  listMarker: "bullet",
   queryHeight: 0,
   // PLACEHOLDER: pairProperties forces side-by-side for hard-coded tags+mtime
   // Will be revisited during Bases-style property rework
@@ -82,7 +128,7 @@ export function resolveSettings(
   };
 }
 
-/** Default Bases UI state (collapsedGroups only) */
+/** Default Bases UI state (other lists are only stored when set) */
 export const DEFAULT_BASES_STATE = {
   collapsedGroups: [] as string[],
 };
@@ -90,10 +136,16 @@ export const DEFAULT_BASES_STATE = {
 /** Default Datacore state (UI + settings) */
 export const DEFAULT_DATACORE_STATE = {
   sortMethod: "mtime-desc",
+  thenSortBy: [] as string[],
   viewMode: "grid",
   searchQuery: "",
   resultLimit: "",
   widthMode: "normal",
+  groupBy: "",
+  collapsedGroups: [] as string[],
+  manualOrder: [] as string[],
+  pinnedPaths: [] as string[],
+  presets: [] as DatacorePreset[],
   settings: undefined,
 };
 
@@ -0,0 +1,379 @@
+import type { ResolvedSettings } from "../types";
+import type { DatacoreAPI, DatacoreFile } from "./types";
+import { Notice, TFile, moment } from "obsidian";
+import type { App, PaneType } from "obsidian";
+import { Card, type CardData } from "../shared/card-renderer";
+import { getFirstDatacoreDatePropertyValue } from "../utils/property";
+import { extractTimestamp } from "../shared/render-utils";
+import {
+  bucketByDay,
+  getCalendarDays,
+  getCalendarTitle,
+  getDroppedDateValue,
+  getWeekdayLabels,
+  getWritableDateProperty,
+  resolveCalendarTimestamp,
+  shiftCalendarAnchor,
+  toDateKey,
+} from "../shared/calendar";
+import {
+  CALENDAR_MONTH_CARD_LIMIT,
+  CALENDAR_WEEK_CARD_LIMIT,
+} from "../shared/constants";
+import { setupClickOutside } from "../utils/dropdown-position";
+
+interface CalendarViewProps {
+  results: DatacoreFile[];
+  cardsByPath: Map<string, CardData>;
+  settings: ResolvedSettings;
+  sortMethod: string;
+  isShuffled: boolean;
+  focusableCardIndex: number;
+  hoveredCardRef: { current: HTMLElement | null };
+  containerRef: { current: HTMLElement | null };
+  updateLayoutRef: { current: (() => void) | null };
+  app: App;
+  dc: DatacoreAPI;
+  onCardClick?: (path: string, paneType: PaneType | boolean) => void;
+  onFocusChange?: (index: number) => void;
+  onSettingsChange: (settings: Partial<ResolvedSettings>) => void;
+}
+
+/** Rewrite a note's date property so it lands on the dropped day */
+async function moveFileToDay(
+  app: App,
+  file: DatacoreFile,
+  dateProperty: string,
+  day: Date,
+): Promise<void> {
+  const fmProp = getWritableDateProperty(
+    dateProperty,
+    (property) => getFirstDatacoreDatePropertyValue(file, property) !== null,
+  );
+  if (!fmProp) {
+    new Notice(
+      dateProperty
+        ? "Can't move cards: the date property is not a note property"
+        : "Set a date property to move cards between days",
+    );
+    return;
+  }
+
+  const target = app.vault.getAbstractFileByPath(file.$path);
+  if (!(target instanceof TFile)) return;
+
+  const value = getDroppedDateValue(
+    extractTimestamp(getFirstDatacoreDatePropertyValue(file, dateProperty)),
+    day,
+  );
+  try {
+    await app.fileManager.processFrontMatter(target, (frontmatter) => {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- processFrontMatter callback receives any
+      frontmatter[fmProp] = value;
+    });
+  } catch (error) {
+    console.error(`Failed to move ${file.$path}:`, error);
+    new Notice(`Failed to update ${target.basename}`);
+  }
+}
+
+export function CalendarView({
+  results,
+  cardsByPath,
+  settings,
+  sortMethod,
+  isShuffled,
+  focusableCardIndex,
+  hoveredCardRef,
+  containerRef,
+  updateLayoutRef,
+  app,
+  dc,
+  onCardClick,
+  onFocusChange,
+  onSettingsChange,
+}: CalendarViewProps): JSX.Element {
+  // Any day in the shown month/week — in memory only, reopening shows today
+  const [anchor, setAnchor] = dc.useState(new Date());
+  const [openDay, setOpenDay] = dc.useState<string | null>(null);
+  const [dropTarget, setDropTarget] = dc.useState<string | null>(null);
+  const dragRef = dc.useRef<{ path: string; sourceKey: string } | null>(null);
+  const popoverRef = dc.useRef<HTMLDivElement | null>(null);
+
+  const range = settings.calendarRange;
+  const weekStart = moment.localeData().firstDayOfWeek();
+
+  const filesByDay = dc.useMemo(
+    () =>
+      bucketByDay(results, (file) =>
+        resolveCalendarTimestamp(
+          getFirstDatacoreDatePropertyValue(
+            file,
+            settings.calendarDateProperty,
+          ),
+          settings.calendarDateFallback,
+          file.$ctime?.toMillis?.() || 0,
+          file.$mtime?.toMillis?.() || 0,
+        ),
+      ),
+    [results, settings.calendarDateProperty, settings.calendarDateFallback],
+  );
+  const filesByPath = dc.useMemo(
+    () => new Map(results.map((file) => [file.$path, file])),
+    [results],
+  );
+
+  dc.useEffect(() => {
+    if (openDay && popoverRef.current) {
+      return setupClickOutside(popoverRef.current, () => setOpenDay(null));
+    }
+  }, [openDay]);
+
+  const handleDrop = (e: DragEvent, day: Date) => {
+    const drag = dragRef.current;
+    setDropTarget(null);
+    if (!drag) return;
+    e.preventDefault();
+    setOpenDay(null);
+    const file = filesByPath.get(drag.path);
+    if (file) {
+      void moveFileToDay(app, file, settings.calendarDateProperty, day);
+    }
+  };
+
+  // Card indices run across days so keyboard focus order matches the DOM
+  let cardIndex = 0;
+  const renderCards = (files: DatacoreFile[]): JSX.Element[] =>
+    files
+      .map((file) => cardsByPath.get(file.$path))
+      .filter((card): card is CardData => card !== undefined)
+      .map((card) => (
+        <div
+          key={card.path}
+          className="dynamic-views-calendar-entry"
+          // Cards are always draggable between days, regardless of openFileAction
+          draggable={true}
+          data-path={card.path}
+        >
+          <Card
+            card={card}
+            index={cardIndex++}
+            settings={settings}
+            viewMode="grid"
+            sortMethod={sortMethod}
+            isShuffled={isShuffled}
+            focusableCardIndex={focusableCardIndex}
+            hoveredCardRef={hoveredCardRef}
+            containerRef={containerRef}
+            updateLayoutRef={updateLayoutRef}
+            app={app}
+            onCardClick={onCardClick}
+            onFocusChange={onFocusChange}
+          />
+        </div>
+      ));
+
+  const todayKey = toDateKey(new Date());
+  const limit =
+    range === "week" ? CALENDAR_WEEK_CARD_LIMIT : CALENDAR_MONTH_CARD_LIMIT;
+  const unit = range === "week" ? "week" : "month";
+
+  return (
+    <div
+      ref={(el: HTMLElement | null) => {
+        (containerRef as { current: HTMLElement | null }).current = el;
+      }}
+      className={`dynamic-views-calendar is-${range}`}
+    >
+      <div className="dynamic-views-calendar-header">
+        <div className="dynamic-views-calendar-nav">
+          <button
+            className="clickable-icon"
+            aria-label={`Previous ${unit}`}
+            onClick={() => setAnchor(shiftCalendarAnchor(anchor, range, -1))}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="m15 18-6-6 6-6" />
+            </svg>
+          </button>
+          <button
+            className="dynamic-views-calendar-today"
+            onClick={() => setAnchor(new Date())}
+          >
+            Today
+          </button>
+          <button
+            className="clickable-icon"
+            aria-label={`Next ${unit}`}
+            onClick={() => setAnchor(shiftCalendarAnchor(anchor, range, 1))}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="m9 18 6-6-6-6" />
+            </svg>
+          </button>
+        </div>
+        <div className="dynamic-views-calendar-title">
+          {getCalendarTitle(anchor, range, weekStart)}
+        </div>
+        <div className="dynamic-views-calendar-range">
+          {(["month", "week"] as const).map((option) => (
+            <button
+              key={option}
+              className={option === range ? "is-active" : ""}
+              onClick={() => onSettingsChange({ calendarRange: option })}
+            >
+              {option === "month" ? "Month" : "Week"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="dynamic-views-calendar-weekdays">
+        {getWeekdayLabels(weekStart).map((label) => (
+          <div key={label} className="dynamic-views-calendar-weekday">
+            {label}
+          </div>
+        ))}
+      </div>
+
+      <div
+        className="dynamic-views-calendar-grid"
+        onDragStart={(e: DragEvent) => {
+          const entryEl =
+            e.target instanceof Element
+              ? e.target.closest<HTMLElement>(".dynamic-views-calendar-entry")
+              : null;
+          const dayEl = entryEl?.closest<HTMLElement>(
+            ".dynamic-views-calendar-day",
+          );
+          const path = entryEl?.dataset.path;
+          if (!entryEl || !dayEl || !path) return;
+          dragRef.current = { path, sourceKey: dayEl.dataset.date ?? "" };
+          entryEl.classList.add("is-dragging");
+          // Cards without a drag handler (openFileAction: title) still need a payload
+          if (e.dataTransfer && !e.dataTransfer.types.length) {
+            e.dataTransfer.setData("text/plain", path);
+          }
+        }}
+        onDragEnd={(e: DragEvent) => {
+          dragRef.current = null;
+          setDropTarget(null);
+          (e.currentTarget as HTMLElement)
+            .querySelectorAll(".dynamic-views-calendar-entry.is-dragging")
+            .forEach((el) => el.classList.remove("is-dragging"));
+        }}
+      >
+        {getCalendarDays(anchor, range, weekStart).map((day) => {
+          const dateKey = toDateKey(day);
+          const files = filesByDay.get(dateKey) ?? [];
+          const classes = ["dynamic-views-calendar-day"];
+          if (dateKey === todayKey) classes.push("is-today");
+          if (range === "month" && day.getMonth() !== anchor.getMonth()) {
+            classes.push("is-outside-month");
+          }
+          if (dateKey === dropTarget) classes.push("is-drop-target");
+
+          return (
+            <div
+              key={dateKey}
+              className={classes.join(" ")}
+              data-date={dateKey}
+              onDragOver={(e: DragEvent) => {
+                const drag = dragRef.current;
+                if (!drag || drag.sourceKey === dateKey) return;
+                e.preventDefault();
+                if (e.dataTransfer) e.dataTransfer.dropEffect = "move";
+                if (dropTarget !== dateKey) setDropTarget(dateKey);
+              }}
+              onDragLeave={(e: DragEvent) => {
+                const dayEl = e.currentTarget as HTMLElement;
+                if (!dayEl.contains(e.relatedTarget as Node | null)) {
+                  setDropTarget((prev) => (prev === dateKey ? null : prev));
+                }
+              }}
+              onDrop={(e: DragEvent) => handleDrop(e, day)}
+            >
+              <div className="dynamic-views-calendar-day-number">
+                {day.getDate()}
+              </div>
+              <div className="dynamic-views-calendar-cards">
+                {renderCards(files.slice(0, limit))}
+              </div>
+              {files.length > limit && (
+                <button
+                  className="dynamic-views-calendar-more"
+                  aria-label={`Show ${files.length - limit} more notes`}
+                  onClick={(e: MouseEvent) => {
+                    e.stopPropagation();
+                    setOpenDay(dateKey);
+                  }}
+                >
+                  +{files.length - limit}
+                </button>
+              )}
+              {openDay === dateKey && (
+                <div
+                  ref={popoverRef}
+                  className="dynamic-views-calendar-popover"
+                >
+                  <div className="dynamic-views-calendar-popover-header">
+                    <span>
+                      {day.toLocaleDateString(undefined, {
+                        weekday: "long",
+                        month: "long",
+                        day: "numeric",
+                      })}
+                    </span>
+                    <button
+                      className="clickable-icon"
+                      aria-label="Close"
+                      onClick={() => setOpenDay(null)}
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="16"
+                        height="16"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      >
+                        <path d="M18 6 6 18" />
+                        <path d="m6 6 12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                  <div className="dynamic-views-calendar-cards">
+                    {renderCards(files.slice(limit))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
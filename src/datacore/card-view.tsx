@@ -1,5 +1,10 @@
 import type { ResolvedSettings } from "../types";
-import { CardRenderer, type CardData } from "../shared/card-renderer";
+import {
+  CardRenderer,
+  type CardData,
+  type CardGroup,
+} from "../shared/card-renderer";
+import type { CardPins } from "../shared/card-pins";
 import type { App, PaneType } from "obsidian";
 
 interface CardViewProps {
@@ -15,6 +20,11 @@ interface CardViewProps {
   app: App;
   onCardClick?: (path: string, paneType: PaneType | boolean) => void;
   onFocusChange?: (index: number) => void;
+  groups?: CardGroup[];
+  groupByLabel?: string;
+  onToggleGroup?: (key: string) => void;
+  pins?: CardPins;
+  searchTerms?: string[];
 }
 
 export function CardView({
@@ -30,6 +40,11 @@ export function CardView({
   app,
   onCardClick,
   onFocusChange,
+  groups,
+  groupByLabel,
+  onToggleGroup,
+  pins,
+  searchTerms,
 }: CardViewProps): JSX.Element {
   return (
     <CardRenderer
@@ -45,6 +60,11 @@ export function CardView({
       app={app}
       onCardClick={onCardClick}
       onFocusChange={onFocusChange}
+      groups={groups}
+      groupByLabel={groupByLabel}
+      onToggleGroup={onToggleGroup}
+      pins={pins}
+      searchTerms={searchTerms}
     />
   );
 }
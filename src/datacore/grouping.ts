@@ -0,0 +1,225 @@
+/**
+ * Group-by for Datacore views
+ * Groups already-sorted results by folder, tag, frontmatter property or a
+ * created/modified date bucket. Cards keep their sort order inside each group.
+ */
+
+import type { DatacoreFile } from "./types";
+
+/** Prefix for property group-by values ("property:status") */
+export const GROUP_BY_PROPERTY_PREFIX = "property:";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DatacoreGroup {
+  /** Stable key (persisted in collapsedGroups); "" for the None group */
+  key: string;
+  label: string;
+  files: DatacoreFile[];
+}
+
+/** Property name for a property group-by value, or null for built-ins */
+export function getGroupByProperty(groupBy: string): string | null {
+  if (!groupBy.startsWith(GROUP_BY_PROPERTY_PREFIX)) return null;
+  const property = groupBy.slice(GROUP_BY_PROPERTY_PREFIX.length).trim();
+  return property.length > 0 ? property : null;
+}
+
+/** Header label for the grouped field */
+export function getGroupByLabel(groupBy: string): string {
+  switch (groupBy) {
+    case "folder":
+      return "Folder";
+    case "tag":
+      return "Tag";
+    case "ctime":
+      return "Created time";
+    case "mtime":
+      return "Modified time";
+    default:
+      return getGroupByProperty(groupBy) ?? "";
+  }
+}
+
+/** Whether a group-by value groups results (unknown values don't) */
+export function isGroupingEnabled(groupBy: string): boolean {
+  return (
+    groupBy === "folder" ||
+    groupBy === "tag" ||
+    groupBy === "ctime" ||
+    groupBy === "mtime" ||
+    getGroupByProperty(groupBy) !== null
+  );
+}
+
+interface GroupEntry {
+  key: string;
+  label: string;
+  /** Higher ranks come first for date buckets */
+  rank: number;
+}
+
+function getFolderEntry(file: DatacoreFile): GroupEntry {
+  const slash = file.$path.lastIndexOf("/");
+  const folder = slash > 0 ? file.$path.slice(0, slash) : "/";
+  return { key: folder, label: folder, rank: 0 };
+}
+
+function getTagEntries(file: DatacoreFile): GroupEntry[] {
+  // Tags are case-insensitive in Obsidian
+  const seen = new Set<string>();
+  const entries: GroupEntry[] = [];
+  for (const tag of file.$tags ?? []) {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push({ key, label: tag, rank: 0 });
+  }
+  return entries;
+}
+
+function getPropertyEntries(
+  file: DatacoreFile,
+  property: string,
+  coerceString: (value: unknown) => string,
+): GroupEntry[] {
+  const value = file.value(property);
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  const seen = new Set<string>();
+  const entries: GroupEntry[] = [];
+  for (const item of values) {
+    if (item === null || item === undefined) continue;
+    const text = coerceString(item).trim();
+    if (!text || seen.has(text)) continue;
+    seen.add(text);
+    entries.push({ key: text, label: text, rank: 0 });
+  }
+  return entries;
+}
+
+/**
+ * Relative date bucket: Today, Yesterday, Previous 7/30 days, then months
+ * Rank is the bucket start so newer buckets sort first
+ */
+export function getDateBucket(
+  timestamp: number,
+  now: number,
+): { key: string; label: string; rank: number } {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const todayStart = today.getTime();
+
+  if (timestamp >= todayStart && timestamp < todayStart + DAY_MS) {
+    return { key: "today", label: "Today", rank: todayStart };
+  }
+  if (timestamp < todayStart) {
+    if (timestamp >= todayStart - DAY_MS) {
+      return {
+        key: "yesterday",
+        label: "Yesterday",
+        rank: todayStart - DAY_MS,
+      };
+    }
+    if (timestamp >= todayStart - 7 * DAY_MS) {
+      return {
+        key: "previous-7-days",
+        label: "Previous 7 days",
+        rank: todayStart - 7 * DAY_MS,
+      };
+    }
+    if (timestamp >= todayStart - 30 * DAY_MS) {
+      return {
+        key: "previous-30-days",
+        label: "Previous 30 days",
+        rank: todayStart - 30 * DAY_MS,
+      };
+    }
+  }
+
+  const date = new Date(timestamp);
+  const monthStart = new Date(date.getFullYear(), date.getMonth(), 1);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return {
+    key: `${date.getFullYear()}-${month}`,
+    label: monthStart.toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    }),
+    rank: monthStart.getTime(),
+  };
+}
+
+function getDateEntry(
+  file: DatacoreFile,
+  groupBy: "ctime" | "mtime",
+  now: number,
+): GroupEntry | null {
+  const date = groupBy === "ctime" ? file.$ctime : file.$mtime;
+  const timestamp = date?.toMillis?.() || 0;
+  if (!timestamp) return null;
+  return getDateBucket(timestamp, now);
+}
+
+/**
+ * Group sorted files by a group-by value
+ * Files with several tags or list values appear in each matching group.
+ * Files without a value go to a trailing "None" group.
+ * Date buckets are ordered newest first, other groups alphabetically.
+ *
+ * @param coerceString - Converts property values (links, dates) to text
+ */
+export function groupDatacoreFiles(
+  files: DatacoreFile[],
+  groupBy: string,
+  coerceString: (value: unknown) => string,
+  now = Date.now(),
+): DatacoreGroup[] {
+  const property = getGroupByProperty(groupBy);
+  const groups = new Map<string, DatacoreGroup & { rank: number }>();
+  const ungrouped: DatacoreFile[] = [];
+
+  for (const file of files) {
+    let entries: GroupEntry[];
+    if (groupBy === "folder") {
+      entries = [getFolderEntry(file)];
+    } else if (groupBy === "tag") {
+      entries = getTagEntries(file);
+    } else if (groupBy === "ctime" || groupBy === "mtime") {
+      const entry = getDateEntry(file, groupBy, now);
+      entries = entry ? [entry] : [];
+    } else if (property) {
+      entries = getPropertyEntries(file, property, coerceString);
+    } else {
+      entries = [];
+    }
+
+    if (entries.length === 0) {
+      ungrouped.push(file);
+      continue;
+    }
+    for (const entry of entries) {
+      let group = groups.get(entry.key);
+      if (!group) {
+        group = { ...entry, files: [] };
+        groups.set(entry.key, group);
+      }
+      group.files.push(file);
+    }
+  }
+
+  const isDate = groupBy === "ctime" || groupBy === "mtime";
+  const sorted = Array.from(groups.values()).sort((a, b) =>
+    isDate
+      ? b.rank - a.rank
+      : a.label.localeCompare(b.label, undefined, { numeric: true }),
+  );
+  const result: DatacoreGroup[] = sorted.map(({ key, label, files }) => ({
+    key,
+    label,
+    files,
+  }));
+  if (ungrouped.length > 0) {
+    result.push({ key: "", label: "None", files: ungrouped });
+  }
+  return result;
+}
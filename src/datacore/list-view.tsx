@@ -3,7 +3,11 @@ import { getFirstDatacorePropertyValue } from "../utils/property";
 import type { DatacoreAPI, DatacoreFile } from "./types";
 import type { App } from "obsidian";
 import { datacoreResultToCardData } from "../shared/data-transform";
-import type { CardData } from "../shared/card-renderer";
+import {
+  GroupHeading,
+  type CardData,
+  type CardGroup,
+} from "../shared/card-renderer";
 
 // Extend App type to include internal plugins
 declare module "obsidian" {
@@ -33,6 +37,10 @@ interface ListViewProps {
   app: App;
   dc: DatacoreAPI;
   onLinkClick?: (path: string, newLeaf: boolean) => void;
+  /** Render items in collapsible groups instead of `results` */
+  groups?: CardGroup<DatacoreFile>[];
+  groupByLabel?: string;
+  onToggleGroup?: (key: string) => void;
 }
 
 export function ListView({
@@ -43,7 +51,213 @@ export function ListView({
   app,
   dc,
   onLinkClick,
+  groups,
+  groupByLabel = "",
+  onToggleGroup,
 }: ListViewProps): JSX.Element {
+  const renderItem = (p: DatacoreFile): JSX.Element => {
+    // Get title from property (first available from comma-separated list) or fallback to filename
+    let rawTitle = getFirstDatacorePropertyValue(p, settings.titleProperty);
+    if (Array.isArray(rawTitle)) rawTitle = rawTitle[0];
+    const titleValue = dc.coerce.string(rawTitle || p.$name);
+
+    return (
+      <li key={p.$path} className="list-item">
+        <a
+          href={p.$path}
+          className="internal-link list-link"
+          onClick={(e: MouseEvent) => {
+            if (!e.metaKey && !e.ctrlKey && !e.shiftKey && p.$path) {
+              e.preventDefault();
+              if (onLinkClick) {
+                onLinkClick(p.$path, false);
+              } else {
+                void app.workspace.openLinkText(p.$path, "", false);
+              }
+            }
+          }}
+          onMouseEnter={(e: MouseEvent) => {
+            if (p.$path) {
+              app.workspace.trigger("hover-link", {
+                event: e,
+                source: "file-explorer",
+                hoverParent: { hoverPopover: null },
+                targetEl: e.currentTarget,
+                linktext: p.$path,
+                sourcePath: p.$path,
+              });
+            }
+          }}
+        >
+          {titleValue}
+        </a>
+        {/* Properties - inline display (list view doesn't use 2-set layout) */}
+        {(() => {
+          // Transform to get resolved properties
+          const card: CardData = datacoreResultToCardData(
+            app,
+            p,
+            dc,
+            settings,
+            "mtime-desc",
+            false,
+          );
+
+          // Check if any properties have content
+          const hasProperties =
+            card.property1 ||
+            card.property2 ||
+            card.property3 ||
+            card.property4;
+
+          if (!hasProperties) return null;
+
+          return (
+            <span className="list-properties">
+              {card.property1 === "tags" && p.$tags && p.$tags.length > 0 ? (
+                <>
+                  {p.$tags.map(
+                    (tag: string): JSX.Element => (
+                      <a
+                        key={tag}
+                        href="#"
+                        className="tag"
+                        tabIndex={-1}
+                        onClick={(e: MouseEvent) => {
+                          e.preventDefault();
+                          const searchPlugin =
+                            app.internalPlugins.plugins["global-search"];
+                          if (searchPlugin?.instance?.openGlobalSearch) {
+                            searchPlugin.instance.openGlobalSearch(
+                              "tag:" + tag,
+                            );
+                          }
+                        }}
+                      >
+                        {tag.replace(/^#/, "")}
+                      </a>
+                    ),
+                  )}
+                </>
+              ) : card.property1 ? (
+                <span className="list-text">{card.property1}</span>
+              ) : null}
+              {card.property2 === "tags" && p.$tags && p.$tags.length > 0 ? (
+                <>
+                  {p.$tags.map(
+                    (tag: string): JSX.Element => (
+                      <a
+                        key={tag}
+                        href="#"
+                        className="tag"
+                        tabIndex={-1}
+                        onClick={(e: MouseEvent) => {
+                          e.preventDefault();
+                          const searchPlugin =
+                            app.internalPlugins.plugins["global-search"];
+                          if (searchPlugin?.instance?.openGlobalSearch) {
+                            searchPlugin.instance.openGlobalSearch(
+                              "tag:" + tag,
+                            );
+                          }
+                        }}
+                      >
+                        {tag.replace(/^#/, "")}
+                      </a>
+                    ),
+                  )}
+                </>
+              ) : card.property2 ? (
+                <span className="list-text">{card.property2}</span>
+              ) : null}
+              {card.property3 === "tags" && p.$tags && p.$tags.length > 0 ? (
+                <>
+                  {p.$tags.map(
+                    (tag: string): JSX.Element => (
+                      <a
+                        key={tag}
+                        href="#"
+                        className="tag"
+                        tabIndex={-1}
+                        onClick={(e: MouseEvent) => {
+                          e.preventDefault();
+                          const searchPlugin =
+                            app.internalPlugins.plugins["global-search"];
+                          if (searchPlugin?.instance?.openGlobalSearch) {
+                            searchPlugin.instance.openGlobalSearch(
+                              "tag:" + tag,
+                            );
+                          }
+                        }}
+                      >
+                        {tag.replace(/^#/, "")}
+                      </a>
+                    ),
+                  )}
+                </>
+              ) : card.property3 ? (
+                <span className="list-text">{card.property3}</span>
+              ) : null}
+              {card.property4 === "tags" && p.$tags && p.$tags.length > 0 ? (
+                <>
+                  {p.$tags.map(
+                    (tag: string): JSX.Element => (
+                      <a
+                        key={tag}
+                        href="#"
+                        className="tag"
+                        tabIndex={-1}
+                        onClick={(e: MouseEvent) => {
+                          e.preventDefault();
+                          const searchPlugin =
+                            app.internalPlugins.plugins["global-search"];
+                          if (searchPlugin?.instance?.openGlobalSearch) {
+                            searchPlugin.instance.openGlobalSearch(
+                              "tag:" + tag,
+                            );
+                          }
+                        }}
+                      >
+                        {tag.replace(/^#/, "")}
+                      </a>
+                    ),
+                  )}
+                </>
+              ) : card.property4 ? (
+                <span className="list-text">{card.property4}</span>
+              ) : null}
+            </span>
+          );
+        })()}
+      </li>
+    );
+  };
+
+  if (groups) {
+    return (
+      <div ref={containerRef} className="list-view-groups">
+        {groups.map(
+          (group): JSX.Element => (
+            <div key={`group-${group.key}`} className="list-view-group">
+              <GroupHeading
+                label={group.label}
+                groupByLabel={groupByLabel}
+                count={group.count}
+                collapsed={group.collapsed}
+                onToggle={() => onToggleGroup?.(group.key)}
+              />
+              {group.collapsed ? null : (
+                <ul className={`list-view marker-${settings.listMarker}`}>
+                  {group.items.filter((p) => p.$path).map(renderItem)}
+                </ul>
+              )}
+            </div>
+          ),
+        )}
+      </div>
+    );
+  }
+
   return (
     <ul
       ref={containerRef}
@@ -52,194 +266,7 @@ export function ListView({
       {results
         .slice(0, displayedCount)
         .filter((p) => p.$path)
-        .map((p, index): JSX.Element => {
-          // Get title from property (first available from comma-separated list) or fallback to filename
-          let rawTitle = getFirstDatacorePropertyValue(
-            p,
-            settings.titleProperty,
-          );
-          if (Array.isArray(rawTitle)) rawTitle = rawTitle[0];
-          const titleValue = dc.coerce.string(rawTitle || p.$name);
-
-          return (
-            <li key={p.$path} className="list-item">
-              <a
-                href={p.$path}
-                className="internal-link list-link"
-                onClick={(e: MouseEvent) => {
-                  if (!e.metaKey && !e.ctrlKey && !e.shiftKey && p.$path) {
-                    e.preventDefault();
-                    if (onLinkClick) {
-                      onLinkClick(p.$path, false);
-                    } else {
-                      void app.workspace.openLinkText(p.$path, "", false);
-                    }
-                  }
-                }}
-                onMouseEnter={(e: MouseEvent) => {
-                  if (p.$path) {
-                    app.workspace.trigger("hover-link", {
-                      event: e,
-                      source: "file-explorer",
-                      hoverParent: { hoverPopover: null },
-                      targetEl: e.currentTarget,
-                      linktext: p.$path,
-                      sourcePath: p.$path,
-                    });
-                  }
-                }}
-              >
-                {titleValue}
-              </a>
-              {/* Properties - inline display (list view doesn't use 2-set layout) */}
-              {(() => {
-                // Transform to get resolved properties
-                const card: CardData = datacoreResultToCardData(
-                  app,
-                  p,
-                  dc,
-                  settings,
-                  "mtime-desc",
-                  false,
-                );
-
-                // Check if any properties have content
-                const hasProperties =
-                  card.property1 ||
-                  card.property2 ||
-                  card.property3 ||
-                  card.property4;
-
-                if (!hasProperties) return null;
-
-                return (
-                  <span className="list-properties">
-                    {card.property1 === "tags" &&
-                    p.$tags &&
-                    p.$tags.length > 0 ? (
-                      <>
-                        {p.$tags.map(
-                          (tag: string): JSX.Element => (
-                            <a
-                              key={tag}
-                              href="#"
-                              className="tag"
-                              tabIndex={-1}
-                              onClick={(e: MouseEvent) => {
-                                e.preventDefault();
-                                const searchPlugin =
-                                  app.internalPlugins.plugins["global-search"];
-                                if (searchPlugin?.instance?.openGlobalSearch) {
-                                  searchPlugin.instance.openGlobalSearch(
-                                    "tag:" + tag,
-                                  );
-                                }
-                              }}
-                            >
-                              {tag.replace(/^#/, "")}
-                            </a>
-                          ),
-                        )}
-                      </>
-                    ) : card.property1 ? (
-                      <span className="list-text">{card.property1}</span>
-                    ) : null}
-                    {card.property2 === "tags" &&
-                    p.$tags &&
-                    p.$tags.length > 0 ? (
-                      <>
-                        {p.$tags.map(
-                          (tag: string): JSX.Element => (
-                            <a
-                              key={tag}
-                              href="#"
-                              className="tag"
-                              tabIndex={-1}
-                              onClick={(e: MouseEvent) => {
-                                e.preventDefault();
-                                const searchPlugin =
-                                  app.internalPlugins.plugins["global-search"];
-                                if (searchPlugin?.instance?.openGlobalSearch) {
-                                  searchPlugin.instance.openGlobalSearch(
-                                    "tag:" + tag,
-                                  );
-                                }
-                              }}
-                            >
-                              {tag.replace(/^#/, "")}
-                            </a>
-                          ),
-                        )}
-                      </>
-                    ) : card.property2 ? (
-                      <span className="list-text">{card.property2}</span>
-                    ) : null}
-                    {card.property3 === "tags" &&
-                    p.$tags &&
-                    p.$tags.length > 0 ? (
-                      <>
-                        {p.$tags.map(
-                          (tag: string): JSX.Element => (
-                            <a
-                              key={tag}
-                              href="#"
-                              className="tag"
-                              tabIndex={-1}
-                              onClick={(e: MouseEvent) => {
-                                e.preventDefault();
-                                const searchPlugin =
-                                  app.internalPlugins.plugins["global-search"];
-                                if (searchPlugin?.instance?.openGlobalSearch) {
-                                  searchPlugin.instance.openGlobalSearch(
-                                    "tag:" + tag,
-                                  );
-                                }
-                              }}
-                            >
-                              {tag.replace(/^#/, "")}
-                            </a>
-                          ),
-                        )}
-                      </>
-                    ) : card.property3 ? (
-                      <span className="list-text">{card.property3}</span>
-                    ) : null}
-                    {card.property4 === "tags" &&
-                    p.$tags &&
-                    p.$tags.length > 0 ? (
-                      <>
-                        {p.$tags.map(
-                          (tag: string): JSX.Element => (
-                            <a
-                              key={tag}
-                              href="#"
-                              className="tag"
-                              tabIndex={-1}
-                              onClick={(e: MouseEvent) => {
-                                e.preventDefault();
-                                const searchPlugin =
-                                  app.internalPlugins.plugins["global-search"];
-                                if (searchPlugin?.instance?.openGlobalSearch) {
-                                  searchPlugin.instance.openGlobalSearch(
-                                    "tag:" + tag,
-                                  );
-                                }
-                              }}
-                            >
-                              {tag.replace(/^#/, "")}
-                            </a>
-                          ),
-                        )}
-                      </>
-                    ) : card.property4 ? (
-                      <span className="list-text">{card.property4}</span>
-                    ) : null}
-                  </span>
-                );
-              })()}
-            </li>
-          );
-        })}
+        .map(renderItem)}
     </ul>
   );
 }
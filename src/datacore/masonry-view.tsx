@@ -1,6 +1,7 @@
 import { CardView } from "./card-view";
 import type { ResolvedSettings } from "../types";
-import type { CardData } from "../shared/card-renderer";
+import type { CardData, CardGroup } from "../shared/card-renderer";
+import type { CardPins } from "../shared/card-pins";
 import type { App } from "obsidian";
 
 interface MasonryViewProps {
@@ -15,6 +16,11 @@ interface MasonryViewProps {
   app: App;
   onCardClick?: (path: string, newLeaf: boolean) => void;
   onFocusChange?: (index: number) => void;
+  groups?: CardGroup[];
+  groupByLabel?: string;
+  onToggleGroup?: (key: string) => void;
+  pins?: CardPins;
+  searchTerms?: string[];
 }
 
 /**
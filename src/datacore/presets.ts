@@ -0,0 +1,65 @@
+/**
+ * Saved presets for Datacore views
+ * A preset is a named search, sort, result limit and view mode, stored per
+ * query in DatacoreState so one query can serve several "tabs".
+ */
+
+import type { DatacorePreset, DatacoreState } from "../types";
+
+/** Longest preset name kept */
+const MAX_PRESET_NAME_LENGTH = 60;
+
+/** Query state a preset captures and restores */
+export type PresetFields = Omit<DatacorePreset, "name">;
+
+/** Capture the current state under a name */
+export function createPreset(
+  name: string,
+  state: Pick<DatacoreState, keyof PresetFields>,
+): DatacorePreset {
+  return {
+    name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH),
+    searchQuery: state.searchQuery,
+    sortMethod: state.sortMethod,
+    thenSortBy: [...state.thenSortBy],
+    resultLimit: state.resultLimit,
+    viewMode: state.viewMode,
+  };
+}
+
+/** Add a preset, replacing one with the same name (case-insensitive) */
+export function savePreset(
+  presets: DatacorePreset[],
+  preset: DatacorePreset,
+): DatacorePreset[] {
+  const key = preset.name.toLowerCase();
+  const index = presets.findIndex((p) => p.name.toLowerCase() === key);
+  if (index === -1) return [...presets, preset];
+  return presets.map((p, i) => (i === index ? preset : p));
+}
+
+/** Remove the preset with this name (case-insensitive, like savePreset) */
+export function deletePreset(
+  presets: DatacorePreset[],
+  name: string,
+): DatacorePreset[] {
+  const key = name.toLowerCase();
+  return presets.filter((p) => p.name.toLowerCase() !== key);
+}
+
+/** First preset matching the current state, or null */
+export function findActivePreset(
+  presets: DatacorePreset[],
+  state: Pick<DatacoreState, keyof PresetFields>,
+): DatacorePreset | null {
+  return (
+    presets.find(
+      (p) =>
+        p.searchQuery === state.searchQuery &&
+        p.sortMethod === state.sortMethod &&
+        p.thenSortBy.join("\n") === state.thenSortBy.join("\n") &&
+        p.resultLimit === state.resultLimit &&
+        p.viewMode === state.viewMode,
+    ) ?? null
+  );
+}
@@ -0,0 +1,516 @@
+/**
+ * Toolbar search for Datacore views
+ * Queries are words and "quoted phrases" (matching names and note bodies),
+ * #tags, field:value filters on paths, folders, names and properties, and
+ * comparisons (rating:>3, due:<2025-01-01, mtime:>7d). Dates and ages both
+ * compare as points in time: ">" is later, so mtime:>7d is "changed within the
+ * last 7 days" and mtime:<2mo "not changed for 2 months". Terms are ANDed;
+ * "a OR b" matches either; a leading "-" negates a term.
+ * Body matches carry a snippet of plain text around the first match, shown in
+ * place of the card's text preview.
+ */
+
+import type { TFile } from "obsidian";
+import type { DatacoreFile } from "./types";
+import { stripMarkdownSyntax } from "../utils/text-preview";
+
+/** Fields matched on the file itself; other field names are properties */
+export const SEARCH_FIELDS = ["path", "folder", "name", "ctime", "mtime"];
+
+/** Completions offered for the word being typed */
+const MAX_SEARCH_SUGGESTIONS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Age units for comparisons like mtime:>7d
+ * Months are "mo" so "m" can't be mistaken for minutes.
+ */
+const AGE_UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+  mo: 30 * DAY_MS,
+  y: 365 * DAY_MS,
+};
+
+/** Comparison examples offered once a time field is typed */
+const TIME_SUGGESTIONS = [
+  { value: ">7d", label: "Within the last 7 days" },
+  { value: "<2mo", label: "More than 2 months (mo) ago" },
+  { value: ">=2025-01-01", label: "On or after 2025-01-01" },
+  { value: "<2025-01-01", label: "Before 2025-01-01" },
+];
+
+export type SearchComparison = "<" | "<=" | ">" | ">=" | "=";
+
+/** Right side of a comparison; dates span [start, end): a day or an instant */
+type SearchOperand =
+  | { kind: "number"; value: number }
+  | { kind: "date"; start: number; end: number }
+  /** Time before now, compared as the instant now - ms */
+  | { kind: "age"; ms: number };
+
+export type SearchTerm = { negated: boolean } & (
+  | { type: "text"; value: string }
+  | { type: "tag"; value: string }
+  | { type: "field"; field: string; value: string }
+  | {
+      type: "compare";
+      field: string;
+      op: SearchComparison;
+      operand: SearchOperand;
+    }
+);
+
+export interface SearchQuery {
+  /** Every clause must match; a clause matches when any of its terms does */
+  clauses: SearchTerm[][];
+  /** Positive words and phrases, also searched in note bodies */
+  textTerms: string[];
+  /** Problems with the query; the terms at fault are left out */
+  errors: string[];
+}
+
+/** Split a query on whitespace outside quotes (quotes are kept) */
+function tokenizeSearchQuery(query: string, errors: string[]): string[] {
+  const tokens: string[] = [];
+  let token = "";
+  let inQuote = false;
+  for (const char of query) {
+    if (char === '"') inQuote = !inQuote;
+    if (!inQuote && /\s/.test(char)) {
+      if (token) tokens.push(token);
+      token = "";
+    } else {
+      token += char;
+    }
+  }
+  if (token) tokens.push(token);
+  if (inQuote) errors.push("Missing closing quote");
+  return tokens;
+}
+
+/** Parse "2025-01-31" as that local day, or a date-time as an instant */
+function parseDateText(text: string): { start: number; end: number } | null {
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (day) {
+    const start = new Date(
+      Number(day[1]),
+      Number(day[2]) - 1,
+      Number(day[3]),
+    ).getTime();
+    return { start, end: start + DAY_MS };
+  }
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(text)) {
+    const start = Date.parse(text);
+    return isNaN(start) ? null : { start, end: start + 1 };
+  }
+  return null;
+}
+
+function parseOperand(text: string): SearchOperand | null {
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return { kind: "number", value: Number(text) };
+  }
+  const age = /^(\d+)(h|d|w|mo|y)$/.exec(text);
+  if (age) {
+    return { kind: "age", ms: Number(age[1]) * AGE_UNIT_MS[age[2]] };
+  }
+  const date = parseDateText(text);
+  return date ? { kind: "date", ...date } : null;
+}
+
+/** Parse one token; errors are reported and the term is dropped */
+function parseSearchTerm(token: string, errors: string[]): SearchTerm | null {
+  const negated = token.length > 1 && token.startsWith("-");
+  const body = negated ? token.slice(1) : token;
+  const unquote = (text: string) => text.replace(/"/g, "");
+
+  if (body.startsWith('"')) {
+    const value = unquote(body).trim().toLowerCase();
+    return value ? { type: "text", value, negated } : null;
+  }
+  if (body.startsWith("#")) {
+    return { type: "tag", value: unquote(body).toLowerCase(), negated };
+  }
+
+  const fieldMatch = /^([\w.-]+):(.*)$/.exec(body);
+  if (!fieldMatch) {
+    return { type: "text", value: unquote(body).toLowerCase(), negated };
+  }
+  const name = fieldMatch[1];
+  const builtIn = SEARCH_FIELDS.includes(name.toLowerCase());
+  const field = builtIn ? name.toLowerCase() : name;
+  const isTimeField = field === "ctime" || field === "mtime";
+  const opMatch = /^(<=|>=|<|>|=)(.*)$/.exec(fieldMatch[2]);
+
+  if (!opMatch) {
+    if (isTimeField) {
+      errors.push(`"${token}": ${field} needs a comparison, like ${field}:>7d`);
+      return null;
+    }
+    const value = unquote(fieldMatch[2]).trim().toLowerCase();
+    return { type: "field", field, value, negated };
+  }
+
+  const op = opMatch[1] as SearchComparison;
+  const operandText = unquote(opMatch[2]).trim();
+  if (/^\d+m$/.test(operandText)) {
+    errors.push(`"${token}": months are written mo, like ${operandText}o`);
+    return null;
+  }
+  const operand = parseOperand(operandText);
+  if (!operand) {
+    errors.push(
+      `"${token}": expected a number, date (2025-01-31) or age (7d) after ${op}`,
+    );
+    return null;
+  }
+  if (operand.kind === "age" && op === "=") {
+    errors.push(`"${token}": ages like 7d compare with < or >`);
+    return null;
+  }
+  if (isTimeField && operand.kind === "number") {
+    errors.push(`"${token}": ${field} compares with a date or an age`);
+    return null;
+  }
+  return { type: "compare", field, op, operand, negated };
+}
+
+/** Parse a toolbar search query */
+export function parseSearchQuery(query: string): SearchQuery {
+  const errors: string[] = [];
+  const clauses: SearchTerm[][] = [];
+  let pendingOr = false;
+
+  for (const token of tokenizeSearchQuery(query.trim(), errors)) {
+    if (token === "OR") {
+      if (clauses.length === 0 || pendingOr) {
+        errors.push("OR needs a term on each side");
+      }
+      pendingOr = clauses.length > 0;
+      continue;
+    }
+    const term = parseSearchTerm(token, errors);
+    if (term && pendingOr) {
+      clauses[clauses.length - 1].push(term);
+    } else if (term) {
+      clauses.push([term]);
+    }
+    pendingOr = false;
+  }
+  if (pendingOr) errors.push("OR needs a term on each side");
+
+  const textTerms = clauses.flatMap((clause) =>
+    clause.flatMap((term) =>
+      term.type === "text" && !term.negated ? [term.value] : [],
+    ),
+  );
+  return { clauses, textTerms: [...new Set(textTerms)], errors };
+}
+
+/** Timestamp of a property value (Datacore dates, Dates, date text) */
+function toTimestamp(value: unknown): number | null {
+  if (value instanceof Date) return value.getTime();
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "toMillis" in value &&
+    typeof value.toMillis === "function"
+  ) {
+    return (value as { toMillis(): number }).toMillis();
+  }
+  if (typeof value === "string") return parseDateText(value)?.start ?? null;
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+    return Number(value);
+  }
+  return null;
+}
+
+function compareNumbers(a: number, op: SearchComparison, b: number): boolean {
+  switch (op) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    default:
+      return a === b;
+  }
+}
+
+/** Compare a property or file value with an operand */
+function compareValue(
+  value: unknown,
+  op: SearchComparison,
+  operand: SearchOperand,
+  now: number,
+): boolean {
+  if (operand.kind === "number") {
+    const number = toNumber(value);
+    return number !== null && compareNumbers(number, op, operand.value);
+  }
+  const timestamp = toTimestamp(value);
+  if (timestamp === null) return false;
+  if (operand.kind === "age") {
+    // mtime:>7d - modified after the instant 7 days ago
+    return compareNumbers(timestamp, op, now - operand.ms);
+  }
+  switch (op) {
+    case "<":
+      return timestamp < operand.start;
+    case "<=":
+      return timestamp < operand.end;
+    case ">":
+      return timestamp >= operand.end;
+    case ">=":
+      return timestamp >= operand.start;
+    default:
+      return timestamp >= operand.start && timestamp < operand.end;
+  }
+}
+
+function getFolder(file: DatacoreFile): string {
+  const slash = file.$path.lastIndexOf("/");
+  return slash > 0 ? file.$path.slice(0, slash) : "";
+}
+
+/** Values of a property, lists flattened and empty values dropped */
+function getPropertyValues(file: DatacoreFile, property: string): unknown[] {
+  const value = file.value(property);
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  return values.filter((item) => item !== null && item !== undefined);
+}
+
+function matchesTerm(
+  file: DatacoreFile,
+  term: SearchTerm,
+  coerceString: (value: unknown) => string,
+  bodyMatch: BodyMatch | undefined,
+  now: number,
+): boolean {
+  switch (term.type) {
+    case "text":
+      // Negated words only exclude by name (bodies are searched for
+      // positive words)
+      return (
+        (file.$name || "").toLowerCase().includes(term.value) ||
+        (!term.negated && !!bodyMatch?.terms.includes(term.value))
+      );
+    case "tag":
+      return (file.$tags || []).some((tag) => tag.toLowerCase() === term.value);
+    case "field": {
+      if (term.field === "path") {
+        return file.$path.toLowerCase().includes(term.value);
+      }
+      if (term.field === "name") {
+        return (file.$name || "").toLowerCase().includes(term.value);
+      }
+      if (term.field === "folder") {
+        const folder = getFolder(file).toLowerCase();
+        const target = term.value.replace(/^\/+|\/+$/g, "");
+        return folder === target || folder.startsWith(`${target}/`);
+      }
+      // Property - "status:" matches notes with any status
+      return getPropertyValues(file, term.field).some((value) => {
+        const text = coerceString(value).trim().toLowerCase();
+        return term.value ? text.includes(term.value) : text !== "";
+      });
+    }
+    case "compare": {
+      const values =
+        term.field === "ctime"
+          ? [file.$ctime]
+          : term.field === "mtime"
+            ? [file.$mtime]
+            : getPropertyValues(file, term.field);
+      return values.some((value) =>
+        compareValue(value, term.op, term.operand, now),
+      );
+    }
+  }
+}
+
+/**
+ * Whether a file matches a parsed query
+ * @param bodyMatch - Result of searching the note body for query.textTerms
+ */
+export function matchesSearchQuery(
+  file: DatacoreFile,
+  query: SearchQuery,
+  coerceString: (value: unknown) => string,
+  bodyMatch?: BodyMatch,
+  now = Date.now(),
+): boolean {
+  return query.clauses.every((clause) =>
+    clause.some(
+      (term) =>
+        matchesTerm(file, term, coerceString, bodyMatch, now) !== term.negated,
+    ),
+  );
+}
+
+/** A completion for the search input's datalist */
+export interface SearchSuggestion {
+  /** Whole query with the completion applied */
+  value: string;
+  /** What the completion means, for syntax examples */
+  label?: string;
+}
+
+/**
+ * Completions for the word being typed
+ * Field and property names complete to "field:"; ctime: and mtime: then offer
+ * comparison examples showing how dates and ages read.
+ */
+export function getSearchSuggestions(
+  query: string,
+  propertyNames: string[],
+): SearchSuggestion[] {
+  if ((query.match(/"/g) ?? []).length % 2 === 1) return [];
+  const time = /(?:^|\s)-?(ctime|mtime):([<>=]*)$/i.exec(query);
+  if (time) {
+    const head = query.slice(0, query.length - time[2].length);
+    return TIME_SUGGESTIONS.filter(
+      ({ value }) => value.startsWith(time[2]) && value !== time[2],
+    ).map(({ value, label }) => ({ value: `${head}${value}`, label }));
+  }
+  const match = /(?:^|\s)-?([^\s":#]*)$/.exec(query);
+  if (!match) return [];
+  const partial = match[1].toLowerCase();
+  const head = query.slice(0, query.length - match[1].length);
+  const seen = new Set<string>();
+  const suggestions: SearchSuggestion[] = [];
+  for (const name of [...SEARCH_FIELDS, ...propertyNames]) {
+    const key = name.toLowerCase();
+    if (seen.has(key) || !/^[^\s":#]+$/.test(name)) continue;
+    seen.add(key);
+    if (key.startsWith(partial) && key !== partial) {
+      suggestions.push({ value: `${head}${name}:` });
+    }
+    if (suggestions.length >= MAX_SEARCH_SUGGESTIONS) break;
+  }
+  return suggestions;
+}
+
+/** Snippet context kept before the first match */
+const SNIPPET_CONTEXT_BEFORE = 60;
+/** Snippet length before the trailing ellipsis */
+const SNIPPET_LENGTH = 240;
+
+export interface BodyMatch {
+  /** Search terms found in the body */
+  terms: string[];
+  /** Plain text around the first match */
+  snippet: string;
+}
+
+/**
+ * Cut a snippet around a match, on word boundaries
+ * @param text - Plain text with collapsed whitespace
+ * @param index - Start of the match in text
+ */
+export function getMatchSnippet(text: string, index: number): string {
+  let start = Math.max(0, index - SNIPPET_CONTEXT_BEFORE);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < index) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > index) end = space;
+  }
+  return (
+    (start > 0 ? "…" : "") +
+    text.slice(start, end).trim() +
+    (end < text.length ? "…" : "")
+  );
+}
+
+/**
+ * Search a note's body for lowercase terms
+ * @returns Terms found and a snippet around the first match, or null when the
+ *   body contains none of the terms
+ */
+export function searchNoteBody(
+  content: string,
+  terms: string[],
+): BodyMatch | null {
+  if (terms.length === 0) return null;
+  const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---/, "");
+  // Cheap raw check first; most notes match no term
+  const rawBody = body.toLowerCase();
+  if (!terms.some((term) => rawBody.includes(term))) return null;
+
+  // Terms must appear in the text itself, not only in link targets or markup
+  const text = stripMarkdownSyntax(body)
+    .split(/\s+/)
+    .filter((word) => word)
+    .join(" ");
+  const lowerText = text.toLowerCase();
+  const found = terms
+    .map((term) => ({ term, index: lowerText.indexOf(term) }))
+    .filter((match) => match.index !== -1);
+  if (found.length === 0) return null;
+
+  const firstIndex = Math.min(...found.map((match) => match.index));
+  return {
+    terms: found.map((match) => match.term),
+    snippet: getMatchSnippet(text, firstIndex),
+  };
+}
+
+/** Body search results of one query, kept per note with the mtime read */
+export interface BodySearchCache {
+  /** Search terms, newline-joined */
+  key: string;
+  entries: Map<string, { mtime: number; match: BodyMatch | null }>;
+}
+
+/**
+ * Search note bodies, reading only notes changed since the last run
+ * Vault changes re-run the search; unchanged notes keep their earlier result.
+ * @param cache - Result of the previous run (ignored when the terms differ)
+ * @returns Matches by path, and the cache for the next run
+ */
+export async function searchNoteBodies(
+  files: TFile[],
+  terms: string[],
+  read: (file: TFile) => Promise<string>,
+  cache: BodySearchCache | null,
+): Promise<{ matches: Map<string, BodyMatch>; cache: BodySearchCache }> {
+  const key = terms.join("\n");
+  const previous = cache?.key === key ? cache.entries : null;
+  const entries: BodySearchCache["entries"] = new Map();
+  const matches = new Map<string, BodyMatch>();
+  await Promise.all(
+    files.map(async (file) => {
+      let entry = previous?.get(file.path);
+      if (!entry || entry.mtime !== file.stat.mtime) {
+        try {
+          const content = await read(file);
+          entry = {
+            mtime: file.stat.mtime,
+            match: searchNoteBody(content, terms),
+          };
+        } catch {
+          // Unreadable notes are only searched by name
+          return;
+        }
+      }
+      entries.set(file.path, entry);
+      if (entry.match) matches.set(file.path, entry.match);
+    }),
+  );
+  return { matches, cache: { key, entries } };
+}
@@ -45,6 +45,8 @@ export function Settings({
     textPreview: false,
     image: false,
     properties: false,
+    calendar: false,
+    timeline: false,
     more: false,
   });
 
@@ -55,7 +57,7 @@ export function Settings({
     }));
   };
 
-  // Datacore has one template shared across all view modes (grid/masonry/list)
+  // Datacore has one template shared across all view modes (grid/masonry/list/calendar/timeline)
   const templateType = "datacore" as const;
 
   // Template toggle state - check if template exists
@@ -81,12 +83,21 @@ export function Settings({
         imagePosition: settings.imagePosition,
         imageFit: settings.imageFit,
         imageRatio: settings.imageRatio,
+        imageTint: settings.imageTint,
         queryHeight: settings.queryHeight,
         listMarker: settings.listMarker,
         cardSize: settings.cardSize,
         cssclasses: settings.cssclasses,
         minimumColumns: settings.minimumColumns,
         textPreviewLines: settings.textPreviewLines,
+        textPreviewStyle: settings.textPreviewStyle,
+        textPreviewSection: settings.textPreviewSection,
+        calendarDateProperty: settings.calendarDateProperty,
+        calendarDateFallback: settings.calendarDateFallback,
+        calendarRange: settings.calendarRange,
+        timelineDateProperty: settings.timelineDateProperty,
+        timelineOrientation: settings.timelineOrientation,
+        timelineZoom: settings.timelineZoom,
       };
 
       const timestamp = Date.now();
@@ -269,6 +280,12 @@ export function Settings({
             "Use note content if property missing or empty",
             "fallbackToContent",
           )}
+          {settings.fallbackToContent &&
+            renderTextInput(
+              "Preview section",
+              "textPreviewSection",
+              "#Heading, ^block-id or [!callout]",
+            )}
           {(settings.textPreviewProperty || settings.fallbackToContent) && (
             <div className="setting-item">
               <div className="setting-item-info">
@@ -297,6 +314,26 @@ export function Settings({
               </div>
             </div>
           )}
+          {(settings.textPreviewProperty || settings.fallbackToContent) && (
+            <div className="setting-item setting-item-dropdown">
+              <div className="setting-item-info">
+                <label>Preview style</label>
+              </div>
+              <select
+                value={settings.textPreviewStyle}
+                onChange={(e: unknown) => {
+                  const evt = e as Event & { target: HTMLSelectElement };
+                  onSettingsChange({
+                    textPreviewStyle: evt.target.value as "plain" | "rendered",
+                  });
+                }}
+                className="dropdown"
+              >
+                <option value="plain">Plain text</option>
+                <option value="rendered">Rendered markdown</option>
+              </select>
+            </div>
+          )}
         </div>
       </div>
 
@@ -469,6 +506,7 @@ export function Settings({
                   </div>
                 </div>
               )}
+              {renderToggle("Tint from image color", "imageTint")}
             </>
           )}
         </div>
@@ -510,6 +548,122 @@ export function Settings({
         </div>
       </div>
 
+      {/* Calendar Section */}
+      {viewMode === "calendar" && (
+        <div className="settings-section">
+          {renderSectionHeader("calendar", "Calendar")}
+          <div
+            className={`settings-section-content ${expandedSections.calendar ? "" : "collapsed"}`}
+          >
+            {renderTextInput(
+              "Date property",
+              "calendarDateProperty",
+              "Comma-separated if multiple",
+            )}
+            <div className="setting-item setting-item-dropdown">
+              <div className="setting-item-info">
+                <label>Show notes without a date on</label>
+              </div>
+              <select
+                value={settings.calendarDateFallback}
+                onChange={(e: unknown) => {
+                  const evt = e as Event & { target: HTMLSelectElement };
+                  onSettingsChange({
+                    calendarDateFallback: evt.target.value as
+                      | "ctime"
+                      | "mtime"
+                      | "none",
+                  });
+                }}
+                className="dropdown"
+              >
+                <option value="ctime">Created time</option>
+                <option value="mtime">Modified time</option>
+                <option value="none">Hide them</option>
+              </select>
+            </div>
+            <div className="setting-item setting-item-dropdown">
+              <div className="setting-item-info">
+                <label>Range</label>
+              </div>
+              <select
+                value={settings.calendarRange}
+                onChange={(e: unknown) => {
+                  const evt = e as Event & { target: HTMLSelectElement };
+                  onSettingsChange({
+                    calendarRange: evt.target.value as "month" | "week",
+                  });
+                }}
+                className="dropdown"
+              >
+                <option value="month">Month</option>
+                <option value="week">Week</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Timeline Section */}
+      {viewMode === "timeline" && (
+        <div className="settings-section">
+          {renderSectionHeader("timeline", "Timeline")}
+          <div
+            className={`settings-section-content ${expandedSections.timeline ? "" : "collapsed"}`}
+          >
+            {renderTextInput(
+              "Date property",
+              "timelineDateProperty",
+              "Created time if empty",
+            )}
+            <div className="setting-item setting-item-dropdown">
+              <div className="setting-item-info">
+                <label>Orientation</label>
+              </div>
+              <select
+                value={settings.timelineOrientation}
+                onChange={(e: unknown) => {
+                  const evt = e as Event & { target: HTMLSelectElement };
+                  onSettingsChange({
+                    timelineOrientation: evt.target.value as
+                      | "horizontal"
+                      | "vertical",
+                  });
+                }}
+                className="dropdown"
+              >
+                <option value="horizontal">Horizontal</option>
+                <option value="vertical">Vertical</option>
+              </select>
+            </div>
+            <div className="setting-item setting-item-dropdown">
+              <div className="setting-item-info">
+                <label>Zoom</label>
+              </div>
+              <select
+                value={settings.timelineZoom}
+                onChange={(e: unknown) => {
+                  const evt = e as Event & { target: HTMLSelectElement };
+                  onSettingsChange({
+                    timelineZoom: evt.target.value as
+                      | "day"
+                      | "week"
+                      | "month"
+                      | "year",
+                  });
+                }}
+                className="dropdown"
+              >
+                <option value="day">Days</option>
+                <option value="week">Weeks</option>
+                <option value="month">Months</option>
+                <option value="year">Years</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Other Section */}
       <div className="settings-section">
         {renderSectionHeader("more", "Other")}
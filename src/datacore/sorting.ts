@@ -0,0 +1,194 @@
+/**
+ * Sorting for Datacore views
+ * Sort keys are "<field>-<asc|desc>" strings: field is "name", "mtime",
+ * "ctime" or "property:<name>". The first key is DatacoreState.sortMethod,
+ * ties fall through to the keys in DatacoreState.thenSortBy.
+ */
+
+import type { DatacoreFile } from "./types";
+
+/** Prefix for property sort fields ("property:rating-desc") */
+export const SORT_BY_PROPERTY_PREFIX = "property:";
+
+/** Secondary + tertiary keys */
+export const MAX_THEN_SORT_KEYS = 2;
+
+export interface SortKey {
+  /** "name", "mtime", "ctime" or "property:<name>" */
+  field: string;
+  descending: boolean;
+}
+
+interface SortValue {
+  /** Orders mixed-type values: booleans, numbers, dates, then text */
+  rank: number;
+  value: number | string;
+}
+
+/** Property name for a sort field, or null for built-ins */
+export function getSortProperty(field: string): string | null {
+  if (!field.startsWith(SORT_BY_PROPERTY_PREFIX)) return null;
+  const property = field.slice(SORT_BY_PROPERTY_PREFIX.length).trim();
+  return property.length > 0 ? property : null;
+}
+
+/**
+ * Sort field for a typed name: "file.name", "file.mtime" and "file.ctime"
+ * map to the built-ins, anything else is a property
+ */
+export function getSortField(name: string): string {
+  switch (name.trim()) {
+    case "file.name":
+      return "name";
+    case "file.mtime":
+      return "mtime";
+    case "file.ctime":
+      return "ctime";
+    default:
+      return `${SORT_BY_PROPERTY_PREFIX}${name.trim()}`;
+  }
+}
+
+/** Parse a sort key string, or null if it isn't a valid key */
+export function parseSortKey(method: string): SortKey | null {
+  // Property names may contain dashes, the direction is always last
+  const dash = method.lastIndexOf("-");
+  if (dash <= 0) return null;
+  const field = method.slice(0, dash);
+  const direction = method.slice(dash + 1);
+  if (direction !== "asc" && direction !== "desc") return null;
+  if (
+    field !== "name" &&
+    field !== "mtime" &&
+    field !== "ctime" &&
+    !getSortProperty(field)
+  ) {
+    return null;
+  }
+  return { field, descending: direction === "desc" };
+}
+
+/** Same key with the opposite direction */
+export function toggleSortDirection(method: string): string {
+  const key = parseSortKey(method);
+  if (!key) return method;
+  return `${key.field}-${key.descending ? "asc" : "desc"}`;
+}
+
+/** Menu label for a sort key, e.g. "File name (A to Z)" */
+export function getSortKeyLabel(method: string): string {
+  const key = parseSortKey(method);
+  if (!key) return method;
+  switch (key.field) {
+    case "name":
+      return `File name (${key.descending ? "Z to A" : "A to Z"})`;
+    case "mtime":
+      return `Modified time (${key.descending ? "new to old" : "old to new"})`;
+    case "ctime":
+      return `Created time (${key.descending ? "new to old" : "old to new"})`;
+    default:
+      return `${getSortProperty(key.field)} (${key.descending ? "descending" : "ascending"})`;
+  }
+}
+
+/**
+ * Convert a property value to a comparable value
+ * Lists sort by their first item. Returns null for empty values.
+ */
+function toSortValue(
+  raw: unknown,
+  coerceString: (value: unknown) => string,
+): SortValue | null {
+  const value: unknown = Array.isArray(raw)
+    ? (raw as unknown[]).find(
+        (item) => item !== null && item !== undefined && item !== "",
+      )
+    : raw;
+  if (value === null || value === undefined) return null;
+  if (typeof value === "boolean") return { rank: 0, value: value ? 1 : 0 };
+  if (typeof value === "number") {
+    return Number.isNaN(value) ? null : { rank: 1, value };
+  }
+  if (value instanceof Date) return { rank: 2, value: value.getTime() };
+  // Datacore dates are Luxon DateTimes
+  const date = value as { toMillis?: () => number };
+  if (typeof date.toMillis === "function") {
+    return { rank: 2, value: date.toMillis() };
+  }
+  const text = coerceString(value).trim();
+  return text ? { rank: 3, value: text } : null;
+}
+
+function getSortValue(
+  file: DatacoreFile,
+  field: string,
+  coerceString: (value: unknown) => string,
+): SortValue | null {
+  switch (field) {
+    case "name":
+      return { rank: 3, value: file.$name || "" };
+    case "mtime":
+      return { rank: 2, value: file.$mtime?.toMillis?.() || 0 };
+    case "ctime":
+      return { rank: 2, value: file.$ctime?.toMillis?.() || 0 };
+    default: {
+      const property = getSortProperty(field);
+      return property ? toSortValue(file.value(property), coerceString) : null;
+    }
+  }
+}
+
+/** Ascending comparison; text uses natural order ("Item 2" before "Item 10") */
+function compareSortValues(a: SortValue, b: SortValue): number {
+  if (a.rank !== b.rank) return a.rank - b.rank;
+  if (typeof a.value === "string" && typeof b.value === "string") {
+    return a.value.localeCompare(b.value, undefined, {
+      numeric: true,
+      sensitivity: "base",
+    });
+  }
+  return Number(a.value) - Number(b.value);
+}
+
+/**
+ * Sort files by one or more sort keys
+ * Files without a value for a key sort after those with one, in either
+ * direction. Invalid keys are ignored; with no valid keys, sorts by mtime-desc.
+ *
+ * @param coerceString - Converts property values (links, etc.) to text
+ */
+export function sortDatacoreFiles(
+  files: DatacoreFile[],
+  methods: string[],
+  coerceString: (value: unknown) => string,
+): DatacoreFile[] {
+  const keys = methods
+    .map(parseSortKey)
+    .filter((key): key is SortKey => key !== null);
+  if (keys.length === 0) keys.push({ field: "mtime", descending: true });
+
+  // Extract values once per file rather than once per comparison
+  const values = new Map<DatacoreFile, (SortValue | null)[]>();
+  for (const file of files) {
+    values.set(
+      file,
+      keys.map((key) => getSortValue(file, key.field, coerceString)),
+    );
+  }
+
+  return files.sort((a, b) => {
+    const aValues = values.get(a) ?? [];
+    const bValues = values.get(b) ?? [];
+    for (let i = 0; i < keys.length; i++) {
+      const aValue = aValues[i];
+      const bValue = bValues[i];
+      if (!aValue || !bValue) {
+        if (aValue !== bValue) return aValue ? -1 : 1;
+        continue;
+      }
+      const result = compareSortValues(aValue, bValue);
+      if (result !== 0) return keys[i].descending ? -result : result;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,200 @@
+import type { ResolvedSettings } from "../types";
+import type { DatacoreAPI, DatacoreFile } from "./types";
+import type { App, PaneType } from "obsidian";
+import { Card, type CardData } from "../shared/card-renderer";
+import { getFirstDatacoreDatePropertyValue } from "../utils/property";
+import { resolveCalendarTimestamp } from "../shared/calendar";
+import {
+  TIMELINE_ZOOM_LEVELS,
+  buildTimeline,
+  formatTimelineDate,
+  type TimelineZoom,
+} from "../shared/timeline";
+import { PANE_MULTIPLIER } from "../shared/constants";
+
+interface TimelineViewProps {
+  /** Dated results oldest first, as many as are loaded */
+  results: DatacoreFile[];
+  cardsByPath: Map<string, CardData>;
+  undatedCount: number;
+  hasMore: boolean;
+  settings: ResolvedSettings;
+  sortMethod: string;
+  isShuffled: boolean;
+  focusableCardIndex: number;
+  hoveredCardRef: { current: HTMLElement | null };
+  containerRef: { current: HTMLElement | null };
+  updateLayoutRef: { current: (() => void) | null };
+  app: App;
+  dc: DatacoreAPI;
+  onCardClick?: (path: string, paneType: PaneType | boolean) => void;
+  onFocusChange?: (index: number) => void;
+  onSettingsChange: (settings: Partial<ResolvedSettings>) => void;
+  /** Load the next batch (horizontal tracks don't scroll the pane) */
+  onLoadMore: () => void;
+}
+
+const ZOOM_LABELS: Record<TimelineZoom, string> = {
+  day: "Days",
+  week: "Weeks",
+  month: "Months",
+  year: "Years",
+};
+
+/**
+ * Time placing a file on the axis
+ * Without a date property, files sit at their created time.
+ */
+export function getTimelineTimestamp(
+  file: DatacoreFile,
+  dateProperty: string,
+): number | null {
+  return resolveCalendarTimestamp(
+    getFirstDatacoreDatePropertyValue(file, dateProperty),
+    dateProperty ? "none" : "ctime",
+    file.$ctime?.toMillis?.() || 0,
+    file.$mtime?.toMillis?.() || 0,
+  );
+}
+
+export function TimelineView({
+  results,
+  cardsByPath,
+  undatedCount,
+  hasMore,
+  settings,
+  sortMethod,
+  isShuffled,
+  focusableCardIndex,
+  hoveredCardRef,
+  containerRef,
+  updateLayoutRef,
+  app,
+  dc,
+  onCardClick,
+  onFocusChange,
+  onSettingsChange,
+  onLoadMore,
+}: TimelineViewProps): JSX.Element {
+  const trackRef = dc.useRef<HTMLDivElement | null>(null);
+  const zoom = settings.timelineZoom;
+  const isHorizontal = settings.timelineOrientation === "horizontal";
+
+  const sections = dc.useMemo(
+    () =>
+      buildTimeline(
+        results,
+        (file) => getTimelineTimestamp(file, settings.timelineDateProperty),
+        zoom,
+      ),
+    [results, settings.timelineDateProperty, zoom],
+  );
+
+  const checkLoadMore = () => {
+    const trackEl = trackRef.current;
+    if (!isHorizontal || !hasMore || !trackEl) return;
+    if (
+      trackEl.scrollWidth - trackEl.scrollLeft <
+      trackEl.clientWidth * PANE_MULTIPLIER
+    ) {
+      onLoadMore();
+    }
+  };
+
+  // Keep loading until the track overflows (vertical uses the pane's scroll)
+  dc.useEffect(() => {
+    checkLoadMore();
+  }, [results.length, hasMore, isHorizontal]);
+
+  // Card indices run across sections so keyboard focus order matches the DOM
+  let cardIndex = 0;
+
+  return (
+    <div
+      ref={(el: HTMLElement | null) => {
+        (containerRef as { current: HTMLElement | null }).current = el;
+      }}
+      className={`dynamic-views-timeline is-${settings.timelineOrientation}`}
+      style={{
+        "--dynamic-views-timeline-card-width": `${settings.cardSize}px`,
+      }}
+    >
+      <div className="dynamic-views-timeline-header">
+        {undatedCount > 0 && (
+          <div className="dynamic-views-timeline-undated">
+            {undatedCount} {undatedCount === 1 ? "note" : "notes"} without a
+            date
+          </div>
+        )}
+        <div className="dynamic-views-timeline-zoom">
+          {TIMELINE_ZOOM_LEVELS.map((option) => (
+            <button
+              key={option}
+              className={option === zoom ? "is-active" : ""}
+              onClick={() => onSettingsChange({ timelineZoom: option })}
+            >
+              {ZOOM_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        ref={trackRef}
+        className="dynamic-views-timeline-track"
+        onScroll={checkLoadMore}
+      >
+        {sections.length === 0 && (
+          <div className="dynamic-views-timeline-empty">
+            {settings.timelineDateProperty
+              ? "No notes have a date in this property"
+              : "No notes to show"}
+          </div>
+        )}
+        {sections.map((section) => (
+          <div
+            key={section.key}
+            className="dynamic-views-timeline-section"
+            data-period={section.key}
+          >
+            <div className="dynamic-views-timeline-marker">{section.label}</div>
+            <div className="dynamic-views-timeline-entries">
+              {section.entries.map((entry) => {
+                const card = cardsByPath.get(entry.item.$path);
+                if (!card) return null;
+                return (
+                  <div
+                    key={card.path}
+                    className="dynamic-views-timeline-entry"
+                    style={{
+                      "--dynamic-views-timeline-gap": `${entry.gap}px`,
+                    }}
+                  >
+                    <div className="dynamic-views-timeline-date">
+                      {formatTimelineDate(entry.timestamp, zoom)}
+                    </div>
+                    <Card
+                      card={card}
+                      index={cardIndex++}
+                      settings={settings}
+                      viewMode="grid"
+                      sortMethod={sortMethod}
+                      isShuffled={isShuffled}
+                      focusableCardIndex={focusableCardIndex}
+                      hoveredCardRef={hoveredCardRef}
+                      containerRef={containerRef}
+                      updateLayoutRef={updateLayoutRef}
+                      app={app}
+                      onCardClick={onCardClick}
+                      onFocusChange={onFocusChange}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,26 @@
-import { ViewMode, ResolvedSettings, WidthMode } from "../types";
+import {
+  ViewMode,
+  ResolvedSettings,
+  WidthMode,
+  DatacorePreset,
+} from "../types";
 import { Settings as SettingsPanel } from "./settings";
 import type { DatacoreAPI, RefObject } from "./types";
 import type { App, TFile } from "obsidian";
 import type DynamicViews from "../../main";
 import { setupClickOutside } from "../utils/dropdown-position";
+import { GROUP_BY_PROPERTY_PREFIX, getGroupByProperty } from "./grouping";
+import { MANUAL_SORT_METHOD } from "../shared/manual-order";
+import { getAllVaultProperties } from "../utils/property";
+import { getSearchSuggestions } from "./search";
+import {
+  MAX_THEN_SORT_KEYS,
+  getSortField,
+  getSortKeyLabel,
+  getSortProperty,
+  parseSortKey,
+  toggleSortDirection,
+} from "./sorting";
 
 interface ResultsDropdownMenuProps {
   menuRef?: RefObject<HTMLDivElement | null>;
@@ -142,19 +159,498 @@ function ResultsDropdownMenu({
   );
 }
 
+interface SortKeysSectionProps {
+  dc: DatacoreAPI;
+  app: App;
+  sortMethod: string;
+  thenSortBy: string[];
+  onSetSortMethod: (method: string) => void;
+  onSetThenSortBy: (keys: string[]) => void;
+}
+
+/** Property sort and secondary/tertiary keys, below the built-in sorts */
+function SortKeysSection({
+  dc,
+  app,
+  sortMethod,
+  thenSortBy,
+  onSetSortMethod,
+  onSetThenSortBy,
+}: SortKeysSectionProps): JSX.Element {
+  const primaryProperty = getSortProperty(
+    parseSortKey(sortMethod)?.field ?? "",
+  );
+  const [propertyDraft, setPropertyDraft] = dc.useState(primaryProperty ?? "");
+  const [thenDraft, setThenDraft] = dc.useState("");
+  // Unique per menu so several queries in one note don't share a datalist
+  const listIdRef = dc.useRef(
+    `dynamic-views-sort-properties-${Math.random().toString(36).slice(2)}`,
+  );
+  const propertyNames = dc.useMemo(
+    () =>
+      Object.keys(app.metadataCache.getAllPropertyInfos?.() ?? {}).sort(
+        (a, b) => a.localeCompare(b),
+      ),
+    [app],
+  );
+
+  const renderSortIcon = (): JSX.Element => (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width="16"
+      height="16"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="m3 16 4 4 4-4" />
+      <path d="M7 20V4" />
+      <path d="m21 8-4-4-4 4" />
+      <path d="M17 4v16" />
+    </svg>
+  );
+
+  // Menu clicks stay inside the menu, rows can re-render before the
+  // click-outside listener runs
+  const stopClick = (e: unknown) => {
+    (e as MouseEvent).stopPropagation();
+  };
+
+  const toggleThenKey = (index: number) => {
+    onSetThenSortBy(
+      thenSortBy.map((key, i) =>
+        i === index ? toggleSortDirection(key) : key,
+      ),
+    );
+  };
+
+  const removeThenKey = (index: number) => {
+    onSetThenSortBy(thenSortBy.filter((_, i) => i !== index));
+  };
+
+  return (
+    <>
+      {primaryProperty ? (
+        <div
+          className="sort-option active"
+          onClick={() => onSetSortMethod(toggleSortDirection(sortMethod))}
+          onKeyDown={(e: unknown) => {
+            const evt = e as KeyboardEvent;
+            if (evt.key === "Enter" || evt.key === " ") {
+              evt.preventDefault();
+              onSetSortMethod(toggleSortDirection(sortMethod));
+            }
+          }}
+          tabIndex={0}
+          role="menuitem"
+          aria-label="Reverse sort direction"
+        >
+          {renderSortIcon()}
+          <span>{getSortKeyLabel(sortMethod)}</span>
+        </div>
+      ) : null}
+      <div className="sort-keys-label" onClick={stopClick}>
+        Sort by property
+      </div>
+      <input
+        type="text"
+        className="sort-keys-input"
+        placeholder="Property name, then Enter"
+        list={listIdRef.current}
+        value={propertyDraft}
+        onClick={stopClick}
+        onChange={(e: unknown) => {
+          const evt = e as InputEvent & { target: HTMLInputElement };
+          setPropertyDraft(evt.target.value);
+        }}
+        onKeyDown={(e: unknown) => {
+          const evt = e as KeyboardEvent;
+          if (evt.key !== "Enter" || !propertyDraft.trim()) return;
+          evt.preventDefault();
+          onSetSortMethod(`${getSortField(propertyDraft)}-asc`);
+        }}
+      />
+      <div className="sort-keys-label" onClick={stopClick}>
+        Then by
+      </div>
+      {thenSortBy.map((key, index) => (
+        <div
+          key={key}
+          className="sort-option then-sort-option"
+          onClick={(e: unknown) => {
+            stopClick(e);
+            toggleThenKey(index);
+          }}
+          onKeyDown={(e: unknown) => {
+            const evt = e as KeyboardEvent;
+            if (evt.key === "Enter" || evt.key === " ") {
+              evt.preventDefault();
+              toggleThenKey(index);
+            }
+          }}
+          tabIndex={0}
+          role="menuitem"
+        >
+          {renderSortIcon()}
+          <span>{getSortKeyLabel(key)}</span>
+          <svg
+            className="then-sort-remove"
+            aria-label="Remove sort key"
+            role="button"
+            tabIndex={0}
+            onClick={(e: unknown) => {
+              stopClick(e);
+              removeThenKey(index);
+            }}
+            onKeyDown={(e: unknown) => {
+              const evt = e as KeyboardEvent;
+              if (evt.key === "Enter" || evt.key === " ") {
+                evt.preventDefault();
+                evt.stopPropagation();
+                removeThenKey(index);
+              }
+            }}
+            xmlns="http://www.w3.org/2000/svg"
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M18 6 6 18" />
+            <path d="m6 6 12 12" />
+          </svg>
+        </div>
+      ))}
+      {thenSortBy.length < MAX_THEN_SORT_KEYS ? (
+        <input
+          type="text"
+          className="sort-keys-input"
+          placeholder="Add a tiebreaker sort"
+          list={listIdRef.current}
+          value={thenDraft}
+          onClick={stopClick}
+          onChange={(e: unknown) => {
+            const evt = e as InputEvent & { target: HTMLInputElement };
+            setThenDraft(evt.target.value);
+          }}
+          onKeyDown={(e: unknown) => {
+            const evt = e as KeyboardEvent;
+            if (evt.key !== "Enter" || !thenDraft.trim()) return;
+            evt.preventDefault();
+            const key = `${getSortField(thenDraft)}-asc`;
+            if (!thenSortBy.includes(key)) {
+              onSetThenSortBy([...thenSortBy, key]);
+            }
+            setThenDraft("");
+          }}
+        />
+      ) : null}
+      <datalist id={listIdRef.current}>
+        {["file.name", "file.mtime", "file.ctime", ...propertyNames].map(
+          (name) => (
+            <option key={name} value={name} />
+          ),
+        )}
+      </datalist>
+    </>
+  );
+}
+
+interface GroupDropdownMenuProps {
+  dc: DatacoreAPI;
+  app: App;
+  menuRef?: RefObject<HTMLDivElement | null>;
+  groupBy: string;
+  onSetGroupBy: (groupBy: string) => void;
+}
+
+function GroupDropdownMenu({
+  dc,
+  app,
+  menuRef,
+  groupBy,
+  onSetGroupBy,
+}: GroupDropdownMenuProps): JSX.Element {
+  const [propertyDraft, setPropertyDraft] = dc.useState(
+    getGroupByProperty(groupBy) ?? "",
+  );
+  // Unique per menu so several queries in one note don't share a datalist
+  const listIdRef = dc.useRef(
+    `dynamic-views-group-properties-${Math.random().toString(36).slice(2)}`,
+  );
+  const propertyNames = dc.useMemo(
+    () =>
+      Object.keys(app.metadataCache.getAllPropertyInfos?.() ?? {}).sort(
+        (a, b) => a.localeCompare(b),
+      ),
+    [app],
+  );
+
+  const renderOption = (
+    value: string,
+    label: string,
+    icon: JSX.Element,
+  ): JSX.Element => (
+    <div
+      key={value || "none"}
+      className={`sort-option${groupBy === value ? " active" : ""}`}
+      onClick={() => onSetGroupBy(value)}
+      onKeyDown={(e: unknown) => {
+        const evt = e as KeyboardEvent;
+        if (evt.key === "Enter" || evt.key === " ") {
+          evt.preventDefault();
+          onSetGroupBy(value);
+        }
+      }}
+      tabIndex={0}
+      role="menuitem"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width="16"
+        height="16"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        {icon}
+      </svg>
+      <span>{label}</span>
+    </div>
+  );
+
+  return (
+    <div
+      ref={menuRef as RefObject<HTMLDivElement>}
+      className="sort-dropdown-menu group-dropdown-menu"
+    >
+      {renderOption(
+        "",
+        "None",
+        <>
+          <path d="M18 6 6 18" />
+          <path d="m6 6 12 12" />
+        </>,
+      )}
+      {renderOption(
+        "folder",
+        "Folder",
+        <path d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z" />,
+      )}
+      {renderOption(
+        "tag",
+        "Tag",
+        <>
+          <path d="M12.586 2.586A2 2 0 0 0 11.172 2H4a2 2 0 0 0-2 2v7.172a2 2 0 0 0 .586 1.414l8.704 8.704a2.426 2.426 0 0 0 3.42 0l6.58-6.58a2.426 2.426 0 0 0 0-3.42z" />
+          <circle cx="7.5" cy="7.5" r=".5" fill="currentColor" />
+        </>,
+      )}
+      {renderOption(
+        "ctime",
+        "Created time",
+        <>
+          <path d="M8 2v4" />
+          <path d="M16 2v4" />
+          <rect width="18" height="18" x="3" y="4" rx="2" />
+          <path d="M3 10h18" />
+        </>,
+      )}
+      {renderOption(
+        "mtime",
+        "Modified time",
+        <>
+          <circle cx="12" cy="12" r="10" />
+          <path d="M12 6v6l4 2" />
+        </>,
+      )}
+      <div
+        className="group-property-label"
+        onClick={(e: unknown) => {
+          const evt = e as MouseEvent;
+          evt.stopPropagation();
+        }}
+      >
+        Group by property
+      </div>
+      <input
+        type="text"
+        className={`group-property-input${getGroupByProperty(groupBy) ? " active" : ""}`}
+        placeholder="Property name, then Enter"
+        list={listIdRef.current}
+        value={propertyDraft}
+        onClick={(e: unknown) => {
+          const evt = e as MouseEvent;
+          evt.stopPropagation();
+        }}
+        onChange={(e: unknown) => {
+          const evt = e as InputEvent & { target: HTMLInputElement };
+          setPropertyDraft(evt.target.value);
+        }}
+        onKeyDown={(e: unknown) => {
+          const evt = e as KeyboardEvent;
+          if (evt.key !== "Enter") return;
+          evt.preventDefault();
+          const property = propertyDraft.trim();
+          onSetGroupBy(
+            property ? `${GROUP_BY_PROPERTY_PREFIX}${property}` : "",
+          );
+        }}
+      />
+      <datalist id={listIdRef.current}>
+        {propertyNames.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
+
+interface PresetDropdownMenuProps {
+  dc: DatacoreAPI;
+  menuRef?: RefObject<HTMLDivElement | null>;
+  presets: DatacorePreset[];
+  activePreset: DatacorePreset | null;
+  onApplyPreset: (preset: DatacorePreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+function PresetDropdownMenu({
+  dc,
+  menuRef,
+  presets,
+  activePreset,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+}: PresetDropdownMenuProps): JSX.Element {
+  const [nameDraft, setNameDraft] = dc.useState("");
+  const stopClick = (e: unknown) => (e as MouseEvent).stopPropagation();
+
+  return (
+    <div
+      ref={menuRef as RefObject<HTMLDivElement>}
+      className="sort-dropdown-menu preset-dropdown-menu"
+    >
+      {presets.length === 0 ? (
+        <div className="preset-empty" onClick={stopClick}>
+          No saved presets
+        </div>
+      ) : null}
+      {presets.map((preset) => (
+        <div
+          key={preset.name}
+          className={`sort-option${preset === activePreset ? " active" : ""}`}
+          onClick={() => onApplyPreset(preset)}
+          onKeyDown={(e: unknown) => {
+            const evt = e as KeyboardEvent;
+            if (evt.key === "Enter" || evt.key === " ") {
+              evt.preventDefault();
+              onApplyPreset(preset);
+            }
+          }}
+          tabIndex={0}
+          role="menuitem"
+        >
+          <span>{preset.name}</span>
+          <svg
+            className="then-sort-remove"
+            aria-label="Delete preset"
+            role="button"
+            tabIndex={0}
+            onClick={(e: unknown) => {
+              stopClick(e);
+              onDeletePreset(preset.name);
+            }}
+            onKeyDown={(e: unknown) => {
+              const evt = e as KeyboardEvent;
+              if (evt.key === "Enter" || evt.key === " ") {
+                evt.preventDefault();
+                evt.stopPropagation();
+                onDeletePreset(preset.name);
+              }
+            }}
+            xmlns="http://www.w3.org/2000/svg"
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M18 6 6 18" />
+            <path d="m6 6 12 12" />
+          </svg>
+        </div>
+      ))}
+      <div className="group-property-label" onClick={stopClick}>
+        Save current as preset
+      </div>
+      <input
+        type="text"
+        className="group-property-input"
+        placeholder="Preset name, then Enter"
+        value={nameDraft}
+        onClick={stopClick}
+        onChange={(e: unknown) => {
+          const evt = e as InputEvent & { target: HTMLInputElement };
+          setNameDraft(evt.target.value);
+        }}
+        onKeyDown={(e: unknown) => {
+          const evt = e as KeyboardEvent;
+          if (evt.key !== "Enter" || !nameDraft.trim()) return;
+          evt.preventDefault();
+          onSavePreset(nameDraft);
+          setNameDraft("");
+        }}
+      />
+    </div>
+  );
+}
+
 interface SearchInputProps {
+  dc: DatacoreAPI;
+  app: App;
   searchQuery: string;
+  searchError?: string;
   onSearchChange: (query: string) => void;
   onSearchFocus: () => void;
   onClearSearch: () => void;
 }
 
 function SearchInput({
+  dc,
+  app,
   searchQuery,
+  searchError,
   onSearchChange,
   onSearchFocus,
   onClearSearch,
 }: SearchInputProps): JSX.Element {
+  // Unique per input so several queries in one note don't share a datalist
+  const listIdRef = dc.useRef(
+    `dynamic-views-search-fields-${Math.random().toString(36).slice(2)}`,
+  );
+  // Built-in file.* names are search fields (path:, mtime:...) here
+  const propertyNames = dc.useMemo(
+    () =>
+      getAllVaultProperties(app).filter((name) => !name.startsWith("file.")),
+    [app],
+  );
+  const suggestions = getSearchSuggestions(searchQuery, propertyNames);
+
   return (
     <div className="search-input-container">
       <svg
@@ -174,13 +670,29 @@ function SearchInput({
         type="text"
         placeholder="Filter..."
         value={searchQuery}
+        list={listIdRef.current}
+        aria-invalid={searchError ? "true" : undefined}
         onChange={(e: unknown) => {
           const evt = e as InputEvent & { target: HTMLInputElement };
           onSearchChange(evt.target.value);
         }}
         onFocus={onSearchFocus}
-        className="search-input desktop-search"
+        className={`search-input desktop-search${searchError ? " is-invalid" : ""}`}
       />
+      <datalist id={listIdRef.current}>
+        {suggestions.map((suggestion) => (
+          <option
+            key={suggestion.value}
+            value={suggestion.value}
+            label={suggestion.label}
+          />
+        ))}
+      </datalist>
+      {searchError ? (
+        <div className="search-input-error" role="alert">
+          {searchError}
+        </div>
+      ) : null}
       {searchQuery ? (
         <svg
           className="search-input-clear-button"
@@ -235,6 +747,8 @@ interface ToolbarProps {
   onSetViewGrid: () => void;
   onSetViewMasonry: () => void;
   onSetViewList: () => void;
+  onSetViewCalendar: () => void;
+  onSetViewTimeline: () => void;
 
   // Sort
   sortMethod: string;
@@ -247,9 +761,30 @@ interface ToolbarProps {
   onSetSortMtimeAsc: () => void;
   onSetSortCtimeDesc: () => void;
   onSetSortCtimeAsc: () => void;
+  onSetSortMethod: (method: string) => void;
+  thenSortBy: string[];
+  onSetThenSortBy: (keys: string[]) => void;
+
+  // Group
+  groupBy: string;
+  showGroupDropdown: boolean;
+  onToggleGroupDropdown: () => void;
+  onSetGroupBy: (groupBy: string) => void;
+
+  // Presets
+  presets: DatacorePreset[];
+  /** Preset matching the current search, sort, limit and view, if any */
+  activePreset: DatacorePreset | null;
+  showPresetDropdown: boolean;
+  onTogglePresetDropdown: () => void;
+  onApplyPreset: (preset: DatacorePreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
 
   // Search
   searchQuery: string;
+  /** First problem in the search query, shown under the input */
+  searchError?: string;
   onSearchChange: (query: string) => void;
   onSearchFocus: () => void;
   onClearSearch: () => void;
@@ -305,6 +840,8 @@ export function Toolbar({
   onSetViewGrid,
   onSetViewMasonry,
   onSetViewList,
+  onSetViewCalendar,
+  onSetViewTimeline,
   sortMethod,
   isShuffled,
   showSortDropdown,
@@ -315,7 +852,22 @@ export function Toolbar({
   onSetSortMtimeAsc,
   onSetSortCtimeDesc,
   onSetSortCtimeAsc,
+  onSetSortMethod,
+  thenSortBy,
+  onSetThenSortBy,
+  groupBy,
+  showGroupDropdown,
+  onToggleGroupDropdown,
+  onSetGroupBy,
+  presets,
+  activePreset,
+  showPresetDropdown,
+  onTogglePresetDropdown,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
   searchQuery,
+  searchError,
   onSearchChange,
   onSearchFocus,
   onClearSearch,
@@ -350,6 +902,8 @@ export function Toolbar({
   // Refs for dropdown menus and click-outside handling
   const viewMenuRef = dc.useRef<HTMLDivElement | null>(null);
   const sortMenuRef = dc.useRef<HTMLDivElement | null>(null);
+  const groupMenuRef = dc.useRef<HTMLDivElement | null>(null);
+  const presetMenuRef = dc.useRef<HTMLDivElement | null>(null);
   const limitMenuRef = dc.useRef<HTMLDivElement | null>(null);
   const queryMenuRef = dc.useRef<HTMLDivElement | null>(null);
   const settingsButtonRef = dc.useRef<HTMLButtonElement | null>(null);
@@ -368,6 +922,18 @@ export function Toolbar({
     }
   }, [showSortDropdown, onToggleSortDropdown]);
 
+  dc.useEffect(() => {
+    if (showGroupDropdown && groupMenuRef.current) {
+      return setupClickOutside(groupMenuRef.current, onToggleGroupDropdown);
+    }
+  }, [showGroupDropdown, onToggleGroupDropdown]);
+
+  dc.useEffect(() => {
+    if (showPresetDropdown && presetMenuRef.current) {
+      return setupClickOutside(presetMenuRef.current, onTogglePresetDropdown);
+    }
+  }, [showPresetDropdown, onTogglePresetDropdown]);
+
   dc.useEffect(() => {
     if (showLimitDropdown && limitMenuRef.current) {
       return setupClickOutside(limitMenuRef.current, onToggleLimitDropdown);
@@ -433,6 +999,20 @@ export function Toolbar({
                     <path d="M3 12h18" />
                     <rect x="3" y="3" width="18" height="18" rx="2" />
                   </>
+                ) : viewMode === "calendar" ? (
+                  <>
+                    <path d="M8 2v4" />
+                    <path d="M16 2v4" />
+                    <rect width="18" height="18" x="3" y="4" rx="2" />
+                    <path d="M3 10h18" />
+                  </>
+                ) : viewMode === "timeline" ? (
+                  <>
+                    <path d="M3 3v16a2 2 0 0 0 2 2h16" />
+                    <path d="M7 6h12" />
+                    <path d="M7 11h8" />
+                    <path d="M7 16h3" />
+                  </>
                 ) : (
                   <>
                     <rect width="18" height="18" x="3" y="3" rx="2" />
@@ -551,6 +1131,68 @@ export function Toolbar({
                   </svg>
                   <span>List</span>
                 </div>
+                <div
+                  className={`view-option${viewMode === "calendar" ? " active" : ""}`}
+                  onClick={onSetViewCalendar}
+                  onKeyDown={(e: unknown) => {
+                    const evt = e as KeyboardEvent;
+                    if (evt.key === "Enter" || evt.key === " ") {
+                      evt.preventDefault();
+                      onSetViewCalendar();
+                    }
+                  }}
+                  tabIndex={0}
+                  role="menuitem"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M8 2v4" />
+                    <path d="M16 2v4" />
+                    <rect width="18" height="18" x="3" y="4" rx="2" />
+                    <path d="M3 10h18" />
+                  </svg>
+                  <span>Calendar</span>
+                </div>
+                <div
+                  className={`view-option${viewMode === "timeline" ? " active" : ""}`}
+                  onClick={onSetViewTimeline}
+                  onKeyDown={(e: unknown) => {
+                    const evt = e as KeyboardEvent;
+                    if (evt.key === "Enter" || evt.key === " ") {
+                      evt.preventDefault();
+                      onSetViewTimeline();
+                    }
+                  }}
+                  tabIndex={0}
+                  role="menuitem"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M3 3v16a2 2 0 0 0 2 2h16" />
+                    <path d="M7 6h12" />
+                    <path d="M7 11h8" />
+                    <path d="M7 16h3" />
+                  </svg>
+                  <span>Timeline</span>
+                </div>
               </div>
             ) : null}
           </div>
@@ -691,7 +1333,43 @@ export function Toolbar({
                       <path d="M12 18 8 14" />
                       <path d="M12 18 16 14" />
                     </svg>
-                  ) : null}
+                  ) : sortMethod === MANUAL_SORT_METHOD ? (
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <circle cx="9" cy="12" r="1" />
+                      <circle cx="9" cy="5" r="1" />
+                      <circle cx="9" cy="19" r="1" />
+                      <circle cx="15" cy="12" r="1" />
+                      <circle cx="15" cy="5" r="1" />
+                      <circle cx="15" cy="19" r="1" />
+                    </svg>
+                  ) : (
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <path d="m3 16 4 4 4-4" />
+                      <path d="M7 20V4" />
+                      <path d="m21 8-4-4-4 4" />
+                      <path d="M17 4v16" />
+                    </svg>
+                  )}
                 </>
               )}
               <svg
@@ -903,15 +1581,168 @@ export function Toolbar({
                   </svg>
                   <span>Created time (old to new)</span>
                 </div>
+                <div
+                  className={`sort-option${sortMethod === MANUAL_SORT_METHOD ? " active" : ""}`}
+                  onClick={() => onSetSortMethod(MANUAL_SORT_METHOD)}
+                  onKeyDown={(e: unknown) => {
+                    const evt = e as KeyboardEvent;
+                    if (evt.key === "Enter" || evt.key === " ") {
+                      evt.preventDefault();
+                      onSetSortMethod(MANUAL_SORT_METHOD);
+                    }
+                  }}
+                  tabIndex={0}
+                  role="menuitem"
+                  aria-label="Drag cards to reorder"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <circle cx="9" cy="12" r="1" />
+                    <circle cx="9" cy="5" r="1" />
+                    <circle cx="9" cy="19" r="1" />
+                    <circle cx="15" cy="12" r="1" />
+                    <circle cx="15" cy="5" r="1" />
+                    <circle cx="15" cy="19" r="1" />
+                  </svg>
+                  <span>Manual order</span>
+                </div>
+                <SortKeysSection
+                  dc={dc}
+                  app={app}
+                  sortMethod={sortMethod}
+                  thenSortBy={thenSortBy}
+                  onSetSortMethod={onSetSortMethod}
+                  onSetThenSortBy={onSetThenSortBy}
+                />
               </div>
             ) : null}
           </div>
+
+          {/* Group Dropdown */}
+          <div className="group-dropdown-wrapper">
+            <button
+              className={`group-dropdown-btn${groupBy ? " is-grouped" : ""}`}
+              onClick={onToggleGroupDropdown}
+              aria-label="Group results"
+              tabIndex={0}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M3 7V5c0-1.1.9-2 2-2h2" />
+                <path d="M17 3h2c1.1 0 2 .9 2 2v2" />
+                <path d="M21 17v2c0 1.1-.9 2-2 2h-2" />
+                <path d="M7 21H5c-1.1 0-2-.9-2-2v-2" />
+                <rect width="7" height="5" x="7" y="7" rx="1" />
+                <rect width="7" height="5" x="10" y="12" rx="1" />
+              </svg>
+              <svg
+                className="chevron"
+                xmlns="http://www.w3.org/2000/svg"
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="m6 9 6 6 6-6" />
+              </svg>
+            </button>
+            {showGroupDropdown ? (
+              <GroupDropdownMenu
+                dc={dc}
+                app={app}
+                menuRef={groupMenuRef}
+                groupBy={groupBy}
+                onSetGroupBy={onSetGroupBy}
+              />
+            ) : null}
+          </div>
+
+          {/* Preset Dropdown */}
+          <div className="preset-dropdown-wrapper">
+            <button
+              className={`preset-dropdown-btn${activePreset ? " is-active" : ""}`}
+              onClick={onTogglePresetDropdown}
+              aria-label={
+                activePreset ? `Preset: ${activePreset.name}` : "Presets"
+              }
+              tabIndex={0}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z" />
+              </svg>
+              {activePreset ? (
+                <span className="preset-dropdown-label">
+                  {activePreset.name}
+                </span>
+              ) : null}
+              <svg
+                className="chevron"
+                xmlns="http://www.w3.org/2000/svg"
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="m6 9 6 6 6-6" />
+              </svg>
+            </button>
+            {showPresetDropdown ? (
+              <PresetDropdownMenu
+                dc={dc}
+                menuRef={presetMenuRef}
+                presets={presets}
+                activePreset={activePreset}
+                onApplyPreset={onApplyPreset}
+                onSavePreset={onSavePreset}
+                onDeletePreset={onDeletePreset}
+              />
+            ) : null}
+          </div>
         </div>
 
         {/* Search Controls */}
         <div className="search-controls">
           <SearchInput
+            dc={dc}
+            app={app}
             searchQuery={searchQuery}
+            searchError={searchError}
             onSearchChange={onSearchChange}
             onSearchFocus={onSearchFocus}
             onClearSearch={onClearSearch}
@@ -1257,7 +2088,10 @@ export function Toolbar({
       {/* Compact Layout - Search + Results + Create Note (shown only at narrow widths) */}
       <div className="search-controls-compact">
         <SearchInput
+          dc={dc}
+          app={app}
           searchQuery={searchQuery}
+          searchError={searchError}
           onSearchChange={onSearchChange}
           onSearchFocus={onSearchFocus}
           onClearSearch={onClearSearch}
@@ -24,6 +24,13 @@ declare module "obsidian" {
     plugins: {
       plugins: Record<string, Plugin | undefined>;
     };
+    /** Vault property type registry (undocumented API) */
+    metadataTypeManager?: {
+      /** Widget assigned to a property (Obsidian 1.9+) */
+      getAssignedWidget?(property: string): string | null;
+      /** Type assigned to a property (before Obsidian 1.9) */
+      getAssignedType?(property: string): string | null;
+    };
   }
   interface MetadataCache {
     /** Get all known property types across the vault (undocumented API) */
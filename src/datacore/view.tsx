@@ -4,6 +4,7 @@ import type DynamicViews from "../../main";
 import {
   ResolvedSettings,
   DatacoreState,
+  DatacorePreset,
   ViewMode,
   WidthMode,
   ViewDefaults,
@@ -32,6 +33,9 @@ import {
 import { remeasurePropertyFields } from "../shared/property-measure";
 import { MasonryView } from "./masonry-view";
 import { ListView } from "./list-view";
+import { CalendarView } from "./calendar-view";
+import { TimelineView, getTimelineTimestamp } from "./timeline-view";
+import { orderByTime } from "../shared/timeline";
 import { Toolbar } from "./toolbar";
 import { getCurrentFile, getAvailablePath } from "../utils/file";
 import {
@@ -64,7 +68,38 @@ import {
   resolveTimestampProperty,
   datacoreResultToCardData,
 } from "../shared/data-transform";
-import type { CardData } from "../shared/card-renderer";
+import type { CardData, CardGroup } from "../shared/card-renderer";
+import {
+  getGroupByLabel,
+  groupDatacoreFiles,
+  isGroupingEnabled,
+} from "./grouping";
+import { MAX_THEN_SORT_KEYS, sortDatacoreFiles } from "./sorting";
+import {
+  MANUAL_SORT_METHOD,
+  applyManualOrder,
+  moveInManualOrder,
+  setupManualReorder,
+} from "../shared/manual-order";
+import {
+  applyPins,
+  renamePinnedPaths,
+  togglePinnedPath,
+  type CardPins,
+} from "../shared/card-pins";
+import {
+  matchesSearchQuery,
+  parseSearchQuery,
+  searchNoteBodies,
+  type BodyMatch,
+  type BodySearchCache,
+} from "./search";
+import {
+  createPreset,
+  deletePreset,
+  findActivePreset,
+  savePreset,
+} from "./presets";
 import { setupSwipeInterception } from "../bases/swipe-interceptor";
 import { setupHoverKeyboardNavigation } from "../shared/keyboard-nav";
 import { initializeScrollGradients } from "../shared/scroll-gradient";
@@ -80,6 +115,9 @@ const THUMBNAIL_SIZE_MAP: Record<string, string> = {
   expanded: "94.5px",
 };
 
+/** Delay before searching note bodies, so typing doesn't read every note */
+const BODY_SEARCH_DEBOUNCE_MS = 300;
+
 /** Shared width parameters computed from section CSS variables and dimensions. */
 function calculateWidthParams(section: Element): {
   fileLineWidth: number;
@@ -169,6 +207,15 @@ export function View({
   const [sortMethod, setSortMethod] = dc.useState(
     getPersistedValue("sortMethod", "mtime-desc"),
   );
+  const [thenSortBy, setThenSortBy] = dc.useState<string[]>(
+    getPersistedValue("thenSortBy", []),
+  );
+  const [manualOrder, setManualOrder] = dc.useState<string[]>(
+    getPersistedValue("manualOrder", []),
+  );
+  const [pinnedPaths, setPinnedPaths] = dc.useState<string[]>(
+    getPersistedValue("pinnedPaths", []),
+  );
   const [searchQuery, setSearchQuery] = dc.useState(
     getPersistedValue("searchQuery", ""),
   );
@@ -181,6 +228,13 @@ export function View({
   const [resultLimit, setResultLimit] = dc.useState(
     getPersistedValue("resultLimit", ""),
   );
+  const [groupBy, setGroupBy] = dc.useState(getPersistedValue("groupBy", ""));
+  const [collapsedGroups, setCollapsedGroups] = dc.useState<string[]>(
+    getPersistedValue("collapsedGroups", []),
+  );
+  const [presets, setPresets] = dc.useState<DatacorePreset[]>(
+    getPersistedValue("presets", []),
+  );
 
   // Query state - extract query from between DQL markers if present
   const cleanQuery = (USER_QUERY || "")
@@ -200,6 +254,8 @@ export function View({
   const [showSettings, setShowSettings] = dc.useState(false);
   const [showSortDropdown, setShowSortDropdown] = dc.useState(false);
   const [showViewDropdown, setShowViewDropdown] = dc.useState(false);
+  const [showGroupDropdown, setShowGroupDropdown] = dc.useState(false);
+  const [showPresetDropdown, setShowPresetDropdown] = dc.useState(false);
   const [queryError, setQueryError] = dc.useState<string | null>(null);
   const [displayedCount, setDisplayedCount] = dc.useState(
     app.isMobile ? BATCH_SIZE * 0.5 : BATCH_SIZE,
@@ -260,11 +316,42 @@ export function View({
       const state = persistenceManager.getDatacoreState(QUERY_ID);
       // Always set from persistence - React will bail out if values are the same
       if (state.sortMethod !== undefined) setSortMethod(state.sortMethod);
+      if (state.thenSortBy !== undefined) {
+        const persisted = state.thenSortBy;
+        setThenSortBy((prev) =>
+          prev.join("\n") === persisted.join("\n") ? prev : persisted,
+        );
+      }
+      if (state.manualOrder !== undefined) {
+        const persisted = state.manualOrder;
+        setManualOrder((prev) =>
+          prev.join("\n") === persisted.join("\n") ? prev : persisted,
+        );
+      }
+      if (state.pinnedPaths !== undefined) {
+        const persisted = state.pinnedPaths;
+        setPinnedPaths((prev) =>
+          prev.join("\n") === persisted.join("\n") ? prev : persisted,
+        );
+      }
       if (state.viewMode !== undefined) setViewMode(state.viewMode as ViewMode);
       if (state.widthMode !== undefined)
         setWidthMode(state.widthMode as WidthMode);
       if (state.searchQuery !== undefined) setSearchQuery(state.searchQuery);
       if (state.resultLimit !== undefined) setResultLimit(state.resultLimit);
+      if (state.groupBy !== undefined) setGroupBy(state.groupBy);
+      if (state.collapsedGroups !== undefined) {
+        const persisted = state.collapsedGroups;
+        setCollapsedGroups((prev) =>
+          prev.join("\n") === persisted.join("\n") ? prev : persisted,
+        );
+      }
+      if (state.presets !== undefined) {
+        const persisted = state.presets;
+        setPresets((prev) =>
+          JSON.stringify(prev) === JSON.stringify(persisted) ? prev : persisted,
+        );
+      }
     };
 
     app.workspace.on("layout-change", handleLayoutChange);
@@ -283,6 +370,52 @@ export function View({
     }
   }, [sortMethod, QUERY_ID, persistenceManager]);
 
+  dc.useEffect(() => {
+    if (QUERY_ID && persistenceManager) {
+      const persisted = persistenceManager.getDatacoreState(QUERY_ID);
+      if (persisted.thenSortBy.join("\n") !== thenSortBy.join("\n")) {
+        void persistenceManager.setDatacoreState(QUERY_ID, { thenSortBy });
+      }
+    }
+  }, [thenSortBy, QUERY_ID, persistenceManager]);
+
+  dc.useEffect(() => {
+    if (QUERY_ID && persistenceManager) {
+      const persisted = persistenceManager.getDatacoreState(QUERY_ID);
+      if (persisted.manualOrder.join("\n") !== manualOrder.join("\n")) {
+        void persistenceManager.setDatacoreState(QUERY_ID, { manualOrder });
+      }
+    }
+  }, [manualOrder, QUERY_ID, persistenceManager]);
+
+  dc.useEffect(() => {
+    if (QUERY_ID && persistenceManager) {
+      const persisted = persistenceManager.getDatacoreState(QUERY_ID);
+      if (persisted.pinnedPaths.join("\n") !== pinnedPaths.join("\n")) {
+        void persistenceManager.setDatacoreState(QUERY_ID, { pinnedPaths });
+      }
+    }
+  }, [pinnedPaths, QUERY_ID, persistenceManager]);
+
+  // Pins follow renamed notes (persisted pins are renamed by the plugin)
+  dc.useEffect(() => {
+    const ref = app.vault.on("rename", (file, oldPath) => {
+      setPinnedPaths(
+        (prev) => renamePinnedPaths(prev, oldPath, file.path) ?? prev,
+      );
+    });
+    return () => app.vault.offref(ref);
+  }, [app.vault]);
+
+  const pins = dc.useMemo<CardPins>(
+    () => ({
+      isPinned: (path) => pinnedPaths.includes(path),
+      togglePin: (path) =>
+        setPinnedPaths((prev) => togglePinnedPath(prev, path)),
+    }),
+    [pinnedPaths],
+  );
+
   dc.useEffect(() => {
     if (QUERY_ID && persistenceManager) {
       const persisted = persistenceManager.getDatacoreState(QUERY_ID);
@@ -442,6 +575,35 @@ export function View({
     }
   }, [resultLimit, QUERY_ID, persistenceManager]);
 
+  dc.useEffect(() => {
+    if (QUERY_ID && persistenceManager) {
+      const persisted = persistenceManager.getDatacoreState(QUERY_ID);
+      if (persisted.groupBy !== groupBy) {
+        void persistenceManager.setDatacoreState(QUERY_ID, { groupBy });
+      }
+    }
+  }, [groupBy, QUERY_ID, persistenceManager]);
+
+  dc.useEffect(() => {
+    if (QUERY_ID && persistenceManager) {
+      const persisted = persistenceManager.getDatacoreState(QUERY_ID);
+      if (
+        persisted.collapsedGroups.join("\n") !== collapsedGroups.join("\n")
+      ) {
+        void persistenceManager.setDatacoreState(QUERY_ID, { collapsedGroups });
+      }
+    }
+  }, [collapsedGroups, QUERY_ID, persistenceManager]);
+
+  dc.useEffect(() => {
+    if (QUERY_ID && persistenceManager) {
+      const persisted = persistenceManager.getDatacoreState(QUERY_ID);
+      if (JSON.stringify(persisted.presets) !== JSON.stringify(presets)) {
+        void persistenceManager.setDatacoreState(QUERY_ID, { presets });
+      }
+    }
+  }, [presets, QUERY_ID, persistenceManager]);
+
   // Persist settings changes (debounced)
   // Only saves fields that differ from resolved defaults (ViewDefaults + DatacoreDefaults)
   dc.useEffect(() => {
@@ -577,23 +739,52 @@ export function View({
 
   const pages = stablePages;
 
-  // Parse search terms
-  const parsedSearchTerms = dc.useMemo(() => {
-    if (!searchQuery?.trim()) return null;
-
-    const terms = searchQuery.toLowerCase().trim().split(/\s+/);
-    const positiveTerms = terms.filter((t) => !t.startsWith("-"));
-    const negativeTerms = terms
-      .filter((t) => t.startsWith("-"))
-      .map((t) => t.slice(1));
-
-    return {
-      posTagTerms: positiveTerms.filter((t) => t.startsWith("#")),
-      posNameTerms: positiveTerms.filter((t) => !t.startsWith("#")),
-      negTagTerms: negativeTerms.filter((t) => t.startsWith("#")),
-      negNameTerms: negativeTerms.filter((t) => !t.startsWith("#")),
+  // Parse the toolbar search query (syntax in ./search)
+  const parsedSearch = dc.useMemo(
+    () => (searchQuery?.trim() ? parseSearchQuery(searchQuery) : null),
+    [searchQuery],
+  );
+
+  // Body search - positive words and phrases also match note content. Notes
+  // are read after a pause in typing, so body matches join the others late.
+  // Vault changes only re-read the notes whose mtime changed.
+  const [bodySearch, setBodySearch] = dc.useState<
+    { key: string; matches: Map<string, BodyMatch> } | null
+  >(null);
+  const bodySearchCacheRef = dc.useRef<BodySearchCache | null>(null);
+  const bodySearchKey = parsedSearch?.textTerms.join("\n") ?? "";
+  dc.useEffect(() => {
+    if (!bodySearchKey) {
+      bodySearchCacheRef.current = null;
+      setBodySearch(null);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      void (async () => {
+        const files = pages.flatMap((p) => {
+          const file = app.vault.getAbstractFileByPath(p.$path);
+          return file instanceof TFile && file.extension === "md" ? [file] : [];
+        });
+        const { matches, cache } = await searchNoteBodies(
+          files,
+          bodySearchKey.split("\n"),
+          (file) => app.vault.cachedRead(file),
+          bodySearchCacheRef.current,
+        );
+        if (cancelled) return;
+        bodySearchCacheRef.current = cache;
+        setBodySearch({ key: bodySearchKey, matches });
+      })();
+    }, BODY_SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
     };
-  }, [searchQuery]);
+  }, [bodySearchKey, pages, app]);
+  // Matches of an earlier query are ignored until the new search finishes
+  const bodyMatches =
+    bodySearch && bodySearch.key === bodySearchKey ? bodySearch.matches : null;
 
   // Apply sorting and filtering
   const { sorted, totalCount } = dc.useMemo(() => {
@@ -605,30 +796,17 @@ export function View({
       : pagesArray;
 
     // Filter by search query
-    if (parsedSearchTerms) {
-      const { posTagTerms, posNameTerms, negTagTerms, negNameTerms } =
-        parsedSearchTerms;
-
-      filtered = filtered.filter((p) => {
-        const fileName = (p.$name || "").toLowerCase();
-        const fileTags = (p.$tags || []).map((t: string) => t.toLowerCase());
-
-        const posNameMatch = posNameTerms.every((term) =>
-          fileName.includes(term),
-        );
-        const posTagMatch = posTagTerms.every((term) =>
-          fileTags.some((fileTag: string) => fileTag === term),
-        );
-
-        const negNameMatch = negNameTerms.some((term) =>
-          fileName.includes(term),
-        );
-        const negTagMatch = negTagTerms.some((term) =>
-          fileTags.some((fileTag: string) => fileTag === term),
-        );
-
-        return posNameMatch && posTagMatch && !negNameMatch && !negTagMatch;
-      });
+    if (parsedSearch) {
+      const now = Date.now();
+      filtered = filtered.filter((p) =>
+        matchesSearchQuery(
+          p,
+          parsedSearch,
+          (value) => dc.coerce.string(value),
+          bodyMatches?.get(p.$path),
+          now,
+        ),
+      );
     }
 
     // Sort the filtered results
@@ -640,43 +818,17 @@ export function View({
         return indexA - indexB;
       });
     } else {
-      switch (sortMethod) {
-        case "name-asc":
-          sorted = filtered.sort((a, b) =>
-            (a.$name || "").localeCompare(b.$name || ""),
-          );
-          break;
-        case "name-desc":
-          sorted = filtered.sort((a, b) =>
-            (b.$name || "").localeCompare(a.$name || ""),
-          );
-          break;
-        case "mtime-asc":
-          sorted = filtered.sort(
-            (a, b) => (a.$mtime?.toMillis() || 0) - (b.$mtime?.toMillis() || 0),
-          );
-          break;
-        case "mtime-desc":
-          sorted = filtered.sort(
-            (a, b) => (b.$mtime?.toMillis() || 0) - (a.$mtime?.toMillis() || 0),
-          );
-          break;
-        case "ctime-asc":
-          sorted = filtered.sort(
-            (a, b) => (a.$ctime?.toMillis() || 0) - (b.$ctime?.toMillis() || 0),
-          );
-          break;
-        case "ctime-desc":
-          sorted = filtered.sort(
-            (a, b) => (b.$ctime?.toMillis() || 0) - (a.$ctime?.toMillis() || 0),
-          );
-          break;
-        default:
-          sorted = filtered.sort(
-            (a, b) => (b.$mtime?.toMillis() || 0) - (a.$mtime?.toMillis() || 0),
-          );
+      sorted = sortDatacoreFiles(filtered, [sortMethod, ...thenSortBy], (v) =>
+        dc.coerce.string(v),
+      );
+      // Manual order: notes not yet placed keep the then-sort order, at the end
+      if (sortMethod === MANUAL_SORT_METHOD) {
+        sorted = applyManualOrder(sorted, (file) => file.$path, manualOrder);
       }
     }
+    // Pinned notes first, whatever the sort or shuffle (grouping keeps them
+    // first in their group)
+    sorted = applyPins(sorted, (file) => file.$path, pinnedPaths);
 
     const totalCount = sorted.length;
     const limit = parseInt(resultLimit);
@@ -688,13 +840,78 @@ export function View({
   }, [
     pages,
     sortMethod,
-    parsedSearchTerms,
+    thenSortBy,
+    manualOrder,
+    pinnedPaths,
+    parsedSearch,
+    bodyMatches,
     isShuffled,
     shuffledOrder,
     resultLimit,
     currentFilePath,
+    dc,
+  ]);
+
+  // Group sorted results (null when not grouping)
+  const groupedResults = dc.useMemo(() => {
+    if (!isGroupingEnabled(groupBy)) return null;
+    return groupDatacoreFiles(sorted, groupBy, (value) =>
+      dc.coerce.string(value),
+    );
+  }, [sorted, groupBy, dc]);
+
+  // Results in render order - grouped results skip collapsed groups and repeat
+  // files that belong to several groups, so infinite scroll counts what renders.
+  // Timeline renders dated results oldest first, whatever the sort.
+  const displayOrder = dc.useMemo(() => {
+    if (viewMode === "timeline") {
+      return orderByTime(sorted, (file) =>
+        getTimelineTimestamp(file, settings.timelineDateProperty),
+      ).map(({ item }) => item);
+    }
+    if (!groupedResults) return sorted;
+    const files: DatacoreFile[] = [];
+    for (const group of groupedResults) {
+      if (!collapsedGroups.includes(group.key)) files.push(...group.files);
+    }
+    return files;
+  }, [
+    sorted,
+    groupedResults,
+    collapsedGroups,
+    viewMode,
+    settings.timelineDateProperty,
   ]);
 
+  // Manual order - drag cards onto each other to reorder (grid and masonry)
+  const isManualReorder =
+    sortMethod === MANUAL_SORT_METHOD &&
+    !isShuffled &&
+    (viewMode === "grid" || viewMode === "masonry");
+  dc.useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isManualReorder) return;
+    const controller = new AbortController();
+    setupManualReorder(
+      container,
+      (path, targetPath, position) => {
+        // Move within every note of the query in manual order, before search,
+        // pins and the result limit: hidden notes keep their place, pins
+        // aren't saved on top, and notes no longer in the query are pruned
+        const paths = applyManualOrder(
+          sortDatacoreFiles([...pages], [sortMethod, ...thenSortBy], (v) =>
+            dc.coerce.string(v),
+          ),
+          (file) => file.$path,
+          manualOrder,
+        ).map((file) => file.$path);
+        setManualOrder(moveInManualOrder(paths, path, targetPath, position));
+      },
+      controller.signal,
+    );
+    return () => controller.abort();
+  }, [isManualReorder, pages, sortMethod, thenSortBy, manualOrder, dc]);
+
   // State to store file text previews and images
   const [textPreviews, setTextPreviews] = dc.useState<Record<string, string>>(
     {},
@@ -712,6 +929,9 @@ export function View({
 
   // Track current content loading effect to prevent race conditions
   const currentContentLoadRef = dc.useRef<string | null>(null);
+  // Style and section the cached text previews were loaded with
+  const textPreviewVariant = `${settings.textPreviewStyle}|${settings.textPreviewSection}`;
+  const textPreviewVariantRef = dc.useRef(textPreviewVariant);
 
   // Clear cache when settings change (they affect card transformation)
   const prevSettingsRef = dc.useRef(settings);
@@ -751,6 +971,17 @@ export function View({
   // Transform sorted results to CardData with caching
   const allCards = dc.useMemo(() => {
     const cache = cardDataCache.current;
+    // Body search matches show their snippet in place of the text preview
+    const showSnippets =
+      !!settings.textPreviewProperty || settings.fallbackToContent;
+    const withSnippet = (card: CardData): CardData => {
+      const snippet = showSnippets
+        ? bodyMatches?.get(card.path)?.snippet
+        : undefined;
+      return snippet
+        ? { ...card, textPreview: snippet, isSearchSnippet: true }
+        : card;
+    };
     return sorted.map((file) => {
       const path = file.$path || "";
       const mtime = file.$mtime?.toMillis?.() || 0;
@@ -761,11 +992,11 @@ export function View({
       const cached = cache?.get(cacheKey);
       if (cached) {
         // Return new object instead of mutating cached object
-        return {
+        return withSnippet({
           ...cached,
           textPreview: textPreviews[path],
           imageUrl: images[path],
-        };
+        });
       }
 
       // Transform and cache
@@ -780,7 +1011,7 @@ export function View({
         images[path],
       );
       cache?.set(cacheKey, cardData);
-      return cardData;
+      return withSnippet(cardData);
     });
   }, [
     sorted,
@@ -789,6 +1020,7 @@ export function View({
     isShuffled,
     textPreviews,
     images,
+    bodyMatches,
     hasImageAvailable,
     app,
     dc,
@@ -825,20 +1057,24 @@ export function View({
 
       // Get current result paths for cache preservation
       const currentPaths = new Set(
-        sorted.slice(0, displayedCount).map((p) => p.$path),
+        displayOrder.slice(0, displayedCount).map((p) => p.$path),
       );
 
       // Prepare entries for text preview loading
       if (settings.textPreviewProperty || settings.fallbackToContent) {
-        // Copy existing cached entries that are still in results
-        for (const path of currentPaths) {
+        // Copy existing cached entries that are still in results (unless
+        // they were loaded in another preview style or section)
+        const sameVariant =
+          textPreviewVariantRef.current === textPreviewVariant;
+        textPreviewVariantRef.current = textPreviewVariant;
+        for (const path of sameVariant ? currentPaths : []) {
           const cached = textPreviews[path];
           if (cached !== undefined) {
             newTextPreviews[path] = cached;
           }
         }
 
-        const textPreviewEntries = sorted
+        const textPreviewEntries = displayOrder
           .slice(0, displayedCount)
           .filter((p) => !(p.$path in newTextPreviews)) // Skip already cached
           .map((p) => {
@@ -916,6 +1152,8 @@ export function View({
           settings.omitFirstLine,
           app,
           newTextPreviews,
+          settings.textPreviewStyle,
+          settings.textPreviewSection,
         );
       }
 
@@ -938,7 +1176,7 @@ export function View({
           }
         }
 
-        const imageEntries = sorted
+        const imageEntries = displayOrder
           .slice(0, displayedCount)
           .filter((p) => !(p.$path in newHasImageAvailable)) // Skip already checked
           .map((p) => {
@@ -993,7 +1231,7 @@ export function View({
 
     void loadTextPreviews();
   }, [
-    sorted,
+    displayOrder,
     displayedCount,
     settings.imageFormat,
     settings.imagePosition,
@@ -1002,6 +1240,8 @@ export function View({
     settings.imageProperty,
     settings.fallbackToContent,
     settings.omitFirstLine,
+    settings.textPreviewStyle,
+    settings.textPreviewSection,
     settings.fallbackToEmbeds,
     app,
     dc,
@@ -1022,6 +1262,12 @@ export function View({
         });
         container.classList.remove("masonry-container");
         container.style.removeProperty("--masonry-height");
+        container
+          .querySelectorAll<HTMLElement>(".masonry-container")
+          .forEach((groupEl) => {
+            groupEl.classList.remove("masonry-container");
+            groupEl.style.removeProperty("--masonry-height");
+          });
       }
       updateLayoutRef.current = null;
       // Clear incremental cache when leaving masonry mode
@@ -1084,6 +1330,35 @@ export function View({
           THUMBNAIL_SIZE_MAP[settings.thumbnailSize] ?? "80px",
         );
 
+        // Grouped: each group is its own masonry container (same columns)
+        const groupEls = Array.from(
+          container.querySelectorAll<HTMLElement>(".dynamic-views-group"),
+        );
+        if (groupEls.length > 0) {
+          container.classList.remove("masonry-container");
+          container.style.removeProperty("--masonry-height");
+          for (const groupEl of groupEls) {
+            const groupCards = Array.from(
+              groupEl.querySelectorAll<HTMLElement>(".card"),
+            );
+            if (groupCards.length === 0) continue;
+            const result = calculateMasonryLayout({
+              cards: groupCards,
+              containerWidth,
+              cardSize,
+              minColumns,
+              gap,
+            });
+            applyMasonryLayout(groupEl, groupCards, result);
+            columnCountRef.current = result.columns;
+          }
+          // Incremental layout tracks a single container only
+          lastLayoutResultRef.current = null;
+          prevMasonryCountRef.current = 0;
+          lastLayoutWidthRef.current = containerWidth;
+          return;
+        }
+
         const lastResult = lastLayoutResultRef.current;
         const prevCount = prevMasonryCountRef.current ?? 0;
 
@@ -1268,6 +1543,9 @@ export function View({
     _styleRevision,
     sorted.length,
     propertySettingsKey,
+    groupBy,
+    collapsedGroups,
+    displayedCount,
     dc,
   ]);
 
@@ -1396,8 +1674,8 @@ export function View({
   }, [displayedCount, dc]);
 
   dc.useEffect(() => {
-    sortedLengthRef.current = sorted.length;
-  }, [sorted.length, dc]);
+    sortedLengthRef.current = displayOrder.length;
+  }, [displayOrder.length, dc]);
 
   // Apply results container styles
   dc.useEffect(() => {
@@ -1615,6 +1893,8 @@ export function View({
     if (!showSettings) {
       setShowViewDropdown(false);
       setShowSortDropdown(false);
+      setShowGroupDropdown(false);
+      setShowPresetDropdown(false);
       setShowLimitDropdown(false);
       setShowQueryEditor(false);
     }
@@ -1625,6 +1905,8 @@ export function View({
     // Close all other dropdowns
     if (!showViewDropdown) {
       setShowSortDropdown(false);
+      setShowGroupDropdown(false);
+      setShowPresetDropdown(false);
       setShowLimitDropdown(false);
       setShowQueryEditor(false);
       setShowSettings(false);
@@ -1636,18 +1918,47 @@ export function View({
     // Close all other dropdowns
     if (!showSortDropdown) {
       setShowViewDropdown(false);
+      setShowGroupDropdown(false);
+      setShowPresetDropdown(false);
       setShowLimitDropdown(false);
       setShowQueryEditor(false);
       setShowSettings(false);
     }
   }, [showSortDropdown]);
 
+  const handleToggleGroupDropdown = dc.useCallback(() => {
+    setShowGroupDropdown(!showGroupDropdown);
+    // Close all other dropdowns
+    if (!showGroupDropdown) {
+      setShowViewDropdown(false);
+      setShowSortDropdown(false);
+      setShowLimitDropdown(false);
+      setShowQueryEditor(false);
+      setShowSettings(false);
+    }
+  }, [showGroupDropdown]);
+
+  const handleTogglePresetDropdown = dc.useCallback(() => {
+    setShowPresetDropdown(!showPresetDropdown);
+    // Close all other dropdowns
+    if (!showPresetDropdown) {
+      setShowViewDropdown(false);
+      setShowSortDropdown(false);
+      setShowGroupDropdown(false);
+      setShowLimitDropdown(false);
+      setShowQueryEditor(false);
+      setShowSettings(false);
+    }
+  }, [showPresetDropdown]);
+
   const handleToggleLimitDropdown = dc.useCallback(() => {
     setShowLimitDropdown(!showLimitDropdown);
     // Close all other dropdowns
     if (!showLimitDropdown) {
       setShowViewDropdown(false);
       setShowSortDropdown(false);
+      setShowGroupDropdown(false);
+      setShowPresetDropdown(false);
       setShowQueryEditor(false);
       setShowSettings(false);
     }
@@ -1667,6 +1978,68 @@ export function View({
     hasBatchAppendedRef.current = false;
   }, []);
 
+  const handleSetThenSortBy = dc.useCallback((keys: string[]) => {
+    setThenSortBy(keys.slice(0, MAX_THEN_SORT_KEYS));
+    setIsShuffled(false);
+    hasBatchAppendedRef.current = false;
+  }, []);
+
+  const handleSetGroupBy = dc.useCallback((value: string) => {
+    setGroupBy(value);
+    // Group keys are specific to the grouped field
+    setCollapsedGroups([]);
+    setShowGroupDropdown(false);
+    hasBatchAppendedRef.current = false;
+  }, []);
+
+  const activePreset = findActivePreset(presets, {
+    searchQuery,
+    sortMethod,
+    thenSortBy,
+    resultLimit,
+    viewMode,
+  });
+
+  const handleApplyPreset = dc.useCallback(
+    (preset: DatacorePreset) => {
+      setSearchQuery(preset.searchQuery);
+      setSortMethod(preset.sortMethod);
+      setThenSortBy(preset.thenSortBy.slice(0, MAX_THEN_SORT_KEYS));
+      setResultLimit(preset.resultLimit);
+      setViewMode(preset.viewMode as ViewMode);
+      setShowPresetDropdown(false);
+      setIsShuffled(false);
+      setDisplayedCount(app.isMobile ? BATCH_SIZE * 0.5 : BATCH_SIZE);
+      hasBatchAppendedRef.current = false;
+    },
+    [app.isMobile],
+  );
+
+  const handleSavePreset = dc.useCallback(
+    (name: string) => {
+      const preset = createPreset(name, {
+        searchQuery,
+        sortMethod,
+        thenSortBy,
+        resultLimit,
+        viewMode,
+      });
+      if (!preset.name) return;
+      setPresets((prev) => savePreset(prev, preset));
+    },
+    [searchQuery, sortMethod, thenSortBy, resultLimit, viewMode],
+  );
+
+  const handleDeletePreset = dc.useCallback((name: string) => {
+    setPresets((prev) => deletePreset(prev, name));
+  }, []);
+
+  const handleToggleGroup = dc.useCallback((key: string) => {
+    setCollapsedGroups((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key],
+    );
+  }, []);
+
   const handleSearchChange = dc.useCallback(
     (query: string) => {
       setSearchQuery(query);
@@ -1679,6 +2052,8 @@ export function View({
   const handleSearchFocus = dc.useCallback(() => {
     setShowViewDropdown(false);
     setShowSortDropdown(false);
+    setShowGroupDropdown(false);
+    setShowPresetDropdown(false);
     setShowLimitDropdown(false);
   }, []);
 
@@ -1692,7 +2067,8 @@ export function View({
     if (!container) return;
 
     // For masonry: directly reorder DOM and reposition
-    if (viewMode === "masonry") {
+    // (grouped masonry re-renders instead so cards stay in their groups)
+    if (viewMode === "masonry" && !groupedResults) {
       const cards = Array.from(
         container.querySelectorAll<HTMLElement>(".card"),
       );
@@ -1728,7 +2104,7 @@ export function View({
     setIsShuffled(true);
     setShowSortDropdown(false);
     hasBatchAppendedRef.current = false;
-  }, [sorted, viewMode]);
+  }, [sorted, viewMode, groupedResults]);
 
   const handleOpenRandom = dc.useCallback(
     (event: MouseEvent) => {
@@ -1750,6 +2126,8 @@ export function View({
     if (!showQueryEditor) {
       setShowViewDropdown(false);
       setShowSortDropdown(false);
+      setShowGroupDropdown(false);
+      setShowPresetDropdown(false);
       setShowLimitDropdown(false);
       setShowSettings(false);
     }
@@ -1930,11 +2308,37 @@ export function View({
     [handleCopyToClipboard],
   );
 
+  const cardsByPath = dc.useMemo(
+    () => new Map(allCards.map((card) => [card.path, card])),
+    [allCards],
+  );
+
   // Render appropriate view component
   const renderView = (): JSX.Element => {
     // Slice allCards to displayedCount for rendering
     const cards = allCards.slice(0, Math.min(displayedCount, allCards.length));
 
+    // Grouped: fill expanded groups in order until displayedCount items render
+    let remaining = displayedCount;
+    const fileGroups = groupedResults?.map((group): CardGroup<DatacoreFile> => {
+      const collapsed = collapsedGroups.includes(group.key);
+      const items = collapsed
+        ? []
+        : group.files.slice(0, Math.max(0, remaining));
+      remaining -= items.length;
+      return {
+        key: group.key,
+        label: group.label,
+        count: group.files.length,
+        items,
+        collapsed,
+      };
+    });
+    const groupProps = {
+      groupByLabel: getGroupByLabel(groupBy),
+      onToggleGroup: handleToggleGroup,
+    };
+
     const commonProps = {
       cards,
       settings,
@@ -1947,8 +2351,61 @@ export function View({
       app,
       onCardClick: handleCardClick,
       onFocusChange: setFocusableCardIndex,
+      pins,
+      searchTerms: parsedSearch?.textTerms,
     };
 
+    if (viewMode === "calendar") {
+      // Every result lands on its day, so paging and groups don't apply
+      return (
+        <CalendarView
+          results={sorted}
+          cardsByPath={cardsByPath}
+          settings={settings}
+          sortMethod={sortMethod}
+          isShuffled={isShuffled}
+          focusableCardIndex={focusableCardIndex}
+          hoveredCardRef={hoveredCardRef}
+          containerRef={containerRef}
+          updateLayoutRef={updateLayoutRef}
+          app={app}
+          dc={dc}
+          onCardClick={handleCardClick}
+          onFocusChange={setFocusableCardIndex}
+          onSettingsChange={handleSettingsChange}
+        />
+      );
+    }
+
+    if (viewMode === "timeline") {
+      // Time orders the axis, so groups don't apply
+      return (
+        <TimelineView
+          results={displayOrder.slice(0, displayedCount)}
+          cardsByPath={cardsByPath}
+          undatedCount={sorted.length - displayOrder.length}
+          hasMore={displayedCount < displayOrder.length}
+          settings={settings}
+          sortMethod={sortMethod}
+          isShuffled={isShuffled}
+          focusableCardIndex={focusableCardIndex}
+          hoveredCardRef={hoveredCardRef}
+          containerRef={containerRef}
+          updateLayoutRef={updateLayoutRef}
+          app={app}
+          dc={dc}
+          onCardClick={handleCardClick}
+          onFocusChange={setFocusableCardIndex}
+          onSettingsChange={handleSettingsChange}
+          onLoadMore={() =>
+            setDisplayedCount((count) =>
+              Math.min(count + BATCH_SIZE, displayOrder.length),
+            )
+          }
+        />
+      );
+    }
+
     if (viewMode === "list") {
       // ListView has different props - needs raw DatacoreFile for tag handlers
       return (
@@ -1960,12 +2417,31 @@ export function View({
           app={app}
           dc={dc}
           onLinkClick={handleCardClick}
+          groups={fileGroups}
+          {...groupProps}
         />
       );
-    } else if (viewMode === "masonry") {
-      return <MasonryView {...commonProps} />;
+    }
+
+    const cardGroups = fileGroups?.map((group): CardGroup => ({
+      ...group,
+      items: group.items
+        .map((file) => cardsByPath.get(file.$path))
+        .filter((card): card is CardData => card !== undefined),
+    }));
+    if (viewMode === "masonry") {
+      return (
+        <MasonryView {...commonProps} groups={cardGroups} {...groupProps} />
+      );
     } else {
-      return <CardView {...commonProps} viewMode="grid" />;
+      return (
+        <CardView
+          {...commonProps}
+          viewMode="grid"
+          groups={cardGroups}
+          {...groupProps}
+        />
+      );
     }
   };
 
@@ -1986,6 +2462,8 @@ export function View({
           onSetViewGrid={() => handleSetViewMode("grid")}
           onSetViewMasonry={() => handleSetViewMode("masonry")}
           onSetViewList={() => handleSetViewMode("list")}
+          onSetViewCalendar={() => handleSetViewMode("calendar")}
+          onSetViewTimeline={() => handleSetViewMode("timeline")}
           sortMethod={sortMethod}
           isShuffled={isShuffled}
           showSortDropdown={showSortDropdown}
@@ -1996,7 +2474,22 @@ export function View({
           onSetSortMtimeAsc={() => handleSetSortMethod("mtime-asc")}
           onSetSortCtimeDesc={() => handleSetSortMethod("ctime-desc")}
           onSetSortCtimeAsc={() => handleSetSortMethod("ctime-asc")}
+          onSetSortMethod={handleSetSortMethod}
+          thenSortBy={thenSortBy}
+          onSetThenSortBy={handleSetThenSortBy}
+          groupBy={groupBy}
+          showGroupDropdown={showGroupDropdown}
+          onToggleGroupDropdown={handleToggleGroupDropdown}
+          onSetGroupBy={handleSetGroupBy}
+          presets={presets}
+          activePreset={activePreset}
+          showPresetDropdown={showPresetDropdown}
+          onTogglePresetDropdown={handleTogglePresetDropdown}
+          onApplyPreset={handleApplyPreset}
+          onSavePreset={handleSavePreset}
+          onDeletePreset={handleDeletePreset}
           searchQuery={searchQuery}
+          searchError={parsedSearch?.errors[0]}
           onSearchChange={handleSearchChange}
           onSearchFocus={handleSearchFocus}
           onClearSearch={handleClearSearch}
@@ -2037,8 +2530,8 @@ export function View({
         className={`results-container${settings.queryHeight > 0 && !isScrolledToBottom ? " with-fade" : ""}`}
       >
         {renderView()}
-        {displayedCount >= sorted.length &&
-          sorted.length > 0 &&
+        {displayedCount >= displayOrder.length &&
+          displayOrder.length > 0 &&
           hasBatchAppendedRef.current && (
             <div className="dynamic-views-end-indicator" />
           )}
@@ -5,11 +5,14 @@ import type {
   ViewDefaults,
   BasesUIState,
   DatacoreState,
+  DatacorePreset,
   SettingsTemplate,
+  TemplateViewType,
   Flags,
 } from "./types";
 import {
   BASES_DEFAULTS,
+  BASES_VIEW_TYPES,
   PLUGIN_SETTINGS,
   VIEW_DEFAULTS,
   DATACORE_DEFAULTS,
@@ -17,6 +20,7 @@ import {
   DEFAULT_DATACORE_STATE,
 } from "./constants";
 import { sanitizeObject, sanitizeString } from "./utils/sanitize";
+import { renamePinnedPaths } from "./shared/card-pins";
 
 /** Valid enum values for ViewDefaults fields — shared with cleanupBaseFile in utils.ts */
 const VALID_VIEW_VALUES: Partial<
@@ -29,7 +33,13 @@ const VALID_VIEW_VALUES: Partial<
   imageFit: ["crop", "contain"],
   propertyLabels: ["hide", "inline", "above"],
   rightPropertyPosition: ["left", "column", "right"],
+  masonryLayout: ["columns", "justified"],
   minimumColumns: ["one", "two"],
+  calendarDateFallback: ["ctime", "mtime", "none"],
+  calendarRange: ["month", "week"],
+  timelineOrientation: ["horizontal", "vertical"],
+  timelineZoom: ["day", "week", "month", "year"],
+  listMarker: ["bullet", "number", "none"],
 };
 
 const VIEW_DEFAULTS_KEYS = new Set(Object.keys(VIEW_DEFAULTS));
@@ -37,13 +47,13 @@ const DATACORE_DEFAULTS_KEYS = new Set(Object.keys(DATACORE_DEFAULTS));
 
 /**
  * Strip stale keys and invalid enum values from a template's settings.
- * Grid/masonry templates: only ViewDefaults keys allowed.
+ * Bases view templates: only ViewDefaults keys allowed.
  * Datacore templates: ViewDefaults + DatacoreDefaults keys allowed.
  * Returns true if any changes were made.
  */
 function cleanupTemplateSettings(
   settings: Record<string, unknown>,
-  viewType: "grid" | "masonry" | "datacore",
+  viewType: TemplateViewType,
 ): boolean {
   let changed = false;
   const allowDatacore = viewType === "datacore";
@@ -131,7 +141,8 @@ export class PersistenceManager {
 
     // Clean up stale keys/values in templates
     let templatesDirty = false;
-    for (const viewType of ["grid", "masonry", "datacore"] as const) {
+    const viewTypes: TemplateViewType[] = [...BASES_VIEW_TYPES, "datacore"];
+    for (const viewType of viewTypes) {
       const template = this.data.templates[viewType];
       if (!template?.settings) continue;
       if (
@@ -203,7 +214,8 @@ export class PersistenceManager {
   }
 
   // ============================================================================
-  // Bases State (collapsedGroups only, keyed by view ID)
+  // Bases State (collapsed groups/folders, manual order and pins, keyed by
+  // view ID)
   // ============================================================================
 
   getBasesState(viewId?: string): BasesUIState {
@@ -218,16 +230,40 @@ export class PersistenceManager {
   ): Promise<void> {
     if (!viewId) return;
 
-    // Sanitize collapsedGroups array
-    const collapsedGroups = (state.collapsedGroups ?? [])
-      .map((item) => (typeof item === "string" ? sanitizeString(item) : item))
-      .filter((s): s is string => s !== null);
+    // Fields left out keep their stored value
+    const existing = this.data.basesStates[viewId];
+    const sanitizeList = (items: string[]) =>
+      items
+        .map((item) => (typeof item === "string" ? sanitizeString(item) : item))
+        .filter((s): s is string => s !== null);
+    const collapsedGroups = sanitizeList(
+      state.collapsedGroups ?? existing?.collapsedGroups ?? [],
+    );
+    const collapsedFolders = sanitizeList(
+      state.collapsedFolders ?? existing?.collapsedFolders ?? [],
+    );
+    const manualOrder = sanitizeList(
+      state.manualOrder ?? existing?.manualOrder ?? [],
+    );
+    const pinnedPaths = sanitizeList(
+      state.pinnedPaths ?? existing?.pinnedPaths ?? [],
+    );
 
     // Sparse: delete entry if empty, otherwise store
-    if (collapsedGroups.length === 0) {
+    if (
+      collapsedGroups.length === 0 &&
+      collapsedFolders.length === 0 &&
+      manualOrder.length === 0 &&
+      pinnedPaths.length === 0
+    ) {
       delete this.data.basesStates[viewId];
     } else {
-      this.data.basesStates[viewId] = { collapsedGroups };
+      this.data.basesStates[viewId] = {
+        collapsedGroups,
+        ...(collapsedFolders.length > 0 && { collapsedFolders }),
+        ...(manualOrder.length > 0 && { manualOrder }),
+        ...(pinnedPaths.length > 0 && { pinnedPaths }),
+      };
     }
     await this.save();
   }
@@ -245,6 +281,27 @@ export class PersistenceManager {
     await this.save();
   }
 
+  /**
+   * Follow a vault rename in every view's pinned cards (Bases and Datacore),
+   * so pins survive renames even in views that aren't open.
+   */
+  async renamePinnedPaths(oldPath: string, newPath: string): Promise<void> {
+    let changed = false;
+    const states: Array<{ pinnedPaths?: string[] }> = [
+      ...Object.values(this.data.basesStates),
+      ...Object.values(this.data.datacoreStates),
+    ];
+    for (const state of states) {
+      if (!state.pinnedPaths) continue;
+      const renamed = renamePinnedPaths(state.pinnedPaths, oldPath, newPath);
+      if (renamed) {
+        state.pinnedPaths = renamed;
+        changed = true;
+      }
+    }
+    if (changed) await this.save();
+  }
+
   // ============================================================================
   // Datacore State (UI + settings, keyed by queryId only)
   // ============================================================================
@@ -286,6 +343,19 @@ export class PersistenceManager {
         );
       } else if (typeof v === "string") {
         (sanitized as Record<string, string>)[stateKey] = sanitizeString(v);
+      } else if (k === "presets" && Array.isArray(v)) {
+        sanitized.presets = (v as DatacorePreset[]).map((preset) => ({
+          name: sanitizeString(preset.name),
+          searchQuery: sanitizeString(preset.searchQuery.slice(0, 500)),
+          sortMethod: sanitizeString(preset.sortMethod),
+          thenSortBy: preset.thenSortBy.map((key) => sanitizeString(key)),
+          resultLimit: sanitizeString(preset.resultLimit),
+          viewMode: sanitizeString(preset.viewMode),
+        }));
+      } else if (Array.isArray(v)) {
+        (sanitized as Record<string, string[]>)[stateKey] = v
+          .filter((item): item is string => typeof item === "string")
+          .map((item) => sanitizeString(item));
       } else if (k === "settings" && typeof v === "object" && v !== null) {
         (sanitized as Record<string, unknown>)[stateKey] = sanitizeObject(
           v as Record<string, unknown>,
@@ -300,6 +370,7 @@ export class PersistenceManager {
     // Sparse: only keep fields that differ from defaults
     const sparse: Partial<DatacoreState> = {};
     for (const [k, v] of Object.entries(merged)) {
+      if (Array.isArray(v) && v.length === 0) continue;
       if (v !== DEFAULT_DATACORE_STATE[k as keyof DatacoreState]) {
         (sparse as Record<string, unknown>)[k] = v;
       }
@@ -315,13 +386,13 @@ export class PersistenceManager {
   }
 
   getSettingsTemplate(
-    viewType: "grid" | "masonry" | "datacore",
+    viewType: TemplateViewType,
   ): SettingsTemplate | undefined {
     return this.data.templates[viewType];
   }
 
   async setSettingsTemplate(
-    viewType: "grid" | "masonry" | "datacore",
+    viewType: TemplateViewType,
     template: SettingsTemplate | null,
   ): Promise<void> {
     if (template) {
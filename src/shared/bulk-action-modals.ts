@@ -0,0 +1,126 @@
+/**
+ * Small input modals used by bulk card actions
+ */
+
+import {
+  App,
+  ButtonComponent,
+  FuzzySuggestModal,
+  Modal,
+  Setting,
+  TFolder,
+} from "obsidian";
+
+export interface PromptField {
+  name: string;
+  placeholder?: string;
+}
+
+/** Collects one or more text values, submitted with Enter or the button */
+export class BulkPromptModal extends Modal {
+  private values: string[];
+
+  constructor(
+    app: App,
+    private heading: string,
+    private fields: PromptField[],
+    private submitText: string,
+    private onSubmit: (values: string[]) => void,
+  ) {
+    super(app);
+    this.values = fields.map(() => "");
+  }
+
+  onOpen(): void {
+    this.setTitle(this.heading);
+    this.fields.forEach((field, index) => {
+      new Setting(this.contentEl).setName(field.name).addText((text) => {
+        text.setPlaceholder(field.placeholder ?? "").onChange((value) => {
+          this.values[index] = value;
+        });
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            this.submit();
+          }
+        });
+        if (index === 0) {
+          window.setTimeout(() => text.inputEl.focus(), 0);
+        }
+      });
+    });
+    new Setting(this.contentEl).addButton((button) =>
+      button
+        .setButtonText(this.submitText)
+        .setCta()
+        .onClick(() => this.submit()),
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private submit(): void {
+    // First field is the required one (property name / tag)
+    if (!this.values[0]?.trim()) return;
+    this.close();
+    this.onSubmit(this.values);
+  }
+}
+
+/** Fuzzy folder picker for "Move to folder" */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  constructor(
+    app: App,
+    private onChoose: (folder: TFolder) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a folder");
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllFolders(true);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? "/" : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
+
+/** Yes/no confirmation for destructive actions */
+export class ConfirmModal extends Modal {
+  constructor(
+    app: App,
+    private heading: string,
+    private message: string,
+    private confirmText: string,
+    private onConfirm: () => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.setTitle(this.heading);
+    this.contentEl.createEl("p", { text: this.message });
+    const buttons = this.contentEl.createDiv("modal-button-container");
+    new ButtonComponent(buttons)
+      .setButtonText(this.confirmText)
+      .setWarning()
+      .onClick(() => {
+        this.close();
+        this.onConfirm();
+      });
+    new ButtonComponent(buttons)
+      .setButtonText("Cancel")
+      .onClick(() => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
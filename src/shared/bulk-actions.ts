@@ -0,0 +1,233 @@
+/**
+ * Bulk file actions for multi-selected cards
+ * Each action runs over every selected file and reports one summary Notice
+ */
+
+import { App, Notice, TFile, normalizePath } from "obsidian";
+
+/** Strip surrounding whitespace and leading '#' from tag input */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "");
+}
+
+/** Read frontmatter tags as a string list (accepts YAML list or string) */
+function readFrontmatterTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value
+      .filter((tag) => tag !== null && tag !== undefined)
+      .map((tag) => normalizeTag(String(tag)))
+      .filter(Boolean);
+  }
+  if (typeof value === "string") {
+    return value.split(/[,\s]+/).map(normalizeTag).filter(Boolean);
+  }
+  return [];
+}
+
+/** Add a tag to frontmatter `tags`, normalizing to a list (no duplicates) */
+export function addTagToFrontmatter(
+  frontmatter: Record<string, unknown>,
+  tag: string,
+): void {
+  const normalized = normalizeTag(tag);
+  if (!normalized) return;
+  const tags = readFrontmatterTags(frontmatter.tags);
+  const lower = normalized.toLowerCase();
+  if (!tags.some((t) => t.toLowerCase() === lower)) {
+    tags.push(normalized);
+  }
+  frontmatter.tags = tags;
+}
+
+/** Remove a tag (case-insensitive) from frontmatter; drops `tags` when empty */
+export function removeTagFromFrontmatter(
+  frontmatter: Record<string, unknown>,
+  tag: string,
+): void {
+  if (!("tags" in frontmatter)) return;
+  const lower = normalizeTag(tag).toLowerCase();
+  const tags = readFrontmatterTags(frontmatter.tags).filter(
+    (t) => t.toLowerCase() !== lower,
+  );
+  if (tags.length > 0) {
+    frontmatter.tags = tags;
+  } else {
+    delete frontmatter.tags;
+  }
+}
+
+/**
+ * Parse property input into a frontmatter value
+ * Booleans and numbers are typed; empty input clears the value (null)
+ */
+export function parsePropertyValue(raw: string): unknown {
+  const trimmed = raw.trim();
+  if (trimmed === "") return null;
+  if (trimmed === "true") return true;
+  if (trimmed === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  return trimmed;
+}
+
+/** "1 file" / "3 files" */
+export function formatFileCount(count: number): string {
+  return `${count} ${count === 1 ? "file" : "files"}`;
+}
+
+/**
+ * Run an action over each file, continuing past failures
+ * @returns Number of files that failed
+ */
+async function runOnFiles(
+  files: TFile[],
+  action: (file: TFile) => Promise<void>,
+): Promise<number> {
+  let failed = 0;
+  for (const file of files) {
+    try {
+      await action(file);
+    } catch (error) {
+      failed++;
+      console.error(`Bulk action failed for ${file.path}:`, error);
+    }
+  }
+  return failed;
+}
+
+/** Show a summary Notice like "Updated 4 files" or "Updated 3 of 4 files" */
+function notifyResult(verb: string, total: number, failed: number): void {
+  new Notice(
+    failed === 0
+      ? `${verb} ${formatFileCount(total)}`
+      : `${verb} ${total - failed} of ${formatFileCount(total)} (${failed} failed)`,
+  );
+}
+
+/** Set (or clear, with null) a frontmatter property on every file */
+export async function setPropertyOnFiles(
+  app: App,
+  files: TFile[],
+  key: string,
+  value: unknown,
+): Promise<void> {
+  const failed = await runOnFiles(files, (file) =>
+    app.fileManager.processFrontMatter(
+      file,
+      (frontmatter: Record<string, unknown>) => {
+        frontmatter[key] = value;
+      },
+    ),
+  );
+  notifyResult("Updated", files.length, failed);
+}
+
+/** Remove a frontmatter property from every file */
+export async function removePropertyFromFiles(
+  app: App,
+  files: TFile[],
+  key: string,
+): Promise<void> {
+  const failed = await runOnFiles(files, (file) =>
+    app.fileManager.processFrontMatter(
+      file,
+      (frontmatter: Record<string, unknown>) => {
+        delete frontmatter[key];
+      },
+    ),
+  );
+  notifyResult("Updated", files.length, failed);
+}
+
+/** Add a tag to every file's frontmatter */
+export async function addTagToFiles(
+  app: App,
+  files: TFile[],
+  tag: string,
+): Promise<void> {
+  const failed = await runOnFiles(files, (file) =>
+    app.fileManager.processFrontMatter(
+      file,
+      (frontmatter: Record<string, unknown>) => {
+        addTagToFrontmatter(frontmatter, tag);
+      },
+    ),
+  );
+  notifyResult("Tagged", files.length, failed);
+}
+
+/** Remove a tag from every file's frontmatter */
+export async function removeTagFromFiles(
+  app: App,
+  files: TFile[],
+  tag: string,
+): Promise<void> {
+  const failed = await runOnFiles(files, (file) =>
+    app.fileManager.processFrontMatter(
+      file,
+      (frontmatter: Record<string, unknown>) => {
+        removeTagFromFrontmatter(frontmatter, tag);
+      },
+    ),
+  );
+  notifyResult("Untagged", files.length, failed);
+}
+
+/** Move every file into a folder (links are updated by Obsidian) */
+export async function moveFilesToFolder(
+  app: App,
+  files: TFile[],
+  folderPath: string,
+): Promise<void> {
+  const failed = await runOnFiles(files, async (file) => {
+    const target = normalizePath(
+      folderPath === "/" || folderPath === ""
+        ? file.name
+        : `${folderPath}/${file.name}`,
+    );
+    if (target === file.path) return;
+    await app.fileManager.renameFile(file, target);
+  });
+  notifyResult("Moved", files.length, failed);
+}
+
+/** Move every file to trash (respects the user's deletion setting) */
+export async function trashFiles(app: App, files: TFile[]): Promise<void> {
+  const failed = await runOnFiles(files, (file) =>
+    app.fileManager.trashFile(file),
+  );
+  notifyResult("Deleted", files.length, failed);
+}
+
+/** Open every file in its own new tab (only failures are reported) */
+export async function openFilesInTabs(
+  app: App,
+  files: TFile[],
+): Promise<void> {
+  const failed = await runOnFiles(files, (file) =>
+    app.workspace.getLeaf("tab").openFile(file),
+  );
+  if (failed > 0) notifyResult("Opened", files.length, failed);
+}
+
+/** Build one wikilink per line, using the shortest unambiguous linktext */
+export function formatFilesAsWikilinks(
+  app: App,
+  files: TFile[],
+  sourcePath: string,
+): string {
+  return files
+    .map((file) => `[[${app.metadataCache.fileToLinktext(file, sourcePath)}]]`)
+    .join("\n");
+}
+
+/** Copy wikilinks to every file to the clipboard */
+export async function copyFilesAsWikilinks(
+  app: App,
+  files: TFile[],
+  sourcePath: string,
+): Promise<void> {
+  await navigator.clipboard.writeText(
+    formatFilesAsWikilinks(app, files, sourcePath),
+  );
+  new Notice(`Copied links to ${formatFileCount(files.length)}`);
+}
@@ -0,0 +1,223 @@
+/**
+ * Calendar layout helpers
+ * Pure date math shared by the Bases and Datacore calendar views. Days are
+ * keyed by local "YYYY-MM-DD" strings so cards land on the vault's calendar
+ * day, not the UTC one.
+ */
+
+import { extractTimestamp } from "./render-utils";
+import { stripNotePrefix } from "../utils/property";
+
+export type CalendarRange = "month" | "week";
+
+/** Where undated notes go: their created or modified day, or nowhere */
+export type CalendarDateFallback = "ctime" | "mtime" | "none";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Format a date as YYYY-MM-DD (local time), with THH:mm when time is set */
+export function formatFrontmatterDate(date: Date, withTime: boolean): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return withTime
+    ? `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+    : day;
+}
+
+/** Local day key for a date ("2025-06-15") */
+export function toDateKey(date: Date): string {
+  return formatFrontmatterDate(date, false);
+}
+
+/** Parse a day key back to local midnight, or null if malformed */
+export function parseDateKey(key: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+  );
+  return toDateKey(date) === key ? date : null;
+}
+
+/** Days between the week start and a date's weekday */
+function getWeekOffset(date: Date, weekStart: number): number {
+  return (date.getDay() - weekStart + 7) % 7;
+}
+
+/**
+ * Days shown for a range: the full weeks covering the anchor's month, or the
+ * anchor's week
+ * @param weekStart - First weekday, 0 (Sunday) to 6 (Saturday)
+ */
+export function getCalendarDays(
+  anchor: Date,
+  range: CalendarRange,
+  weekStart: number,
+): Date[] {
+  const year = anchor.getFullYear();
+  const month = anchor.getMonth();
+  let start: Date;
+  let count: number;
+  if (range === "week") {
+    start = new Date(
+      year,
+      month,
+      anchor.getDate() - getWeekOffset(anchor, weekStart),
+    );
+    count = 7;
+  } else {
+    const first = new Date(year, month, 1);
+    const offset = getWeekOffset(first, weekStart);
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    start = new Date(year, month, 1 - offset);
+    count = Math.ceil((offset + daysInMonth) / 7) * 7;
+  }
+
+  // Build each day from its components so DST shifts never skip a day
+  const days: Date[] = [];
+  for (let i = 0; i < count; i++) {
+    days.push(
+      new Date(start.getFullYear(), start.getMonth(), start.getDate() + i),
+    );
+  }
+  return days;
+}
+
+/** Move the anchor by whole months or weeks */
+export function shiftCalendarAnchor(
+  anchor: Date,
+  range: CalendarRange,
+  delta: number,
+): Date {
+  return range === "week"
+    ? new Date(
+        anchor.getFullYear(),
+        anchor.getMonth(),
+        anchor.getDate() + delta * 7,
+      )
+    : new Date(anchor.getFullYear(), anchor.getMonth() + delta, 1);
+}
+
+/** Header title: "June 2025", or the week's first and last day */
+export function getCalendarTitle(
+  anchor: Date,
+  range: CalendarRange,
+  weekStart: number,
+): string {
+  if (range === "month") {
+    return anchor.toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    });
+  }
+  const days = getCalendarDays(anchor, "week", weekStart);
+  const first = days[0];
+  const last = days[days.length - 1];
+  const start = first.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: first.getFullYear() === last.getFullYear() ? undefined : "numeric",
+  });
+  const end = last.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return `${start} – ${end}`;
+}
+
+/** Short weekday names starting from the week start ("Mon", "Tue", ...) */
+export function getWeekdayLabels(weekStart: number): string[] {
+  const labels: string[] = [];
+  for (let i = 0; i < 7; i++) {
+    // 2024-01-07 was a Sunday
+    const day = new Date(2024, 0, 7 + ((weekStart + i) % 7));
+    labels.push(day.toLocaleDateString(undefined, { weekday: "short" }));
+  }
+  return labels;
+}
+
+/**
+ * Timestamp placing a note on the calendar
+ * Uses the date property value when it holds a date, else the fallback time.
+ * @param dateValue - From getFirstBasesDatePropertyValue or
+ *   getFirstDatacoreDatePropertyValue
+ */
+export function resolveCalendarTimestamp(
+  dateValue: unknown,
+  fallback: CalendarDateFallback,
+  ctime: number,
+  mtime: number,
+): number | null {
+  const resolved = extractTimestamp(dateValue);
+  if (resolved) return resolved.timestamp;
+  if (fallback === "ctime") return ctime || null;
+  if (fallback === "mtime") return mtime || null;
+  return null;
+}
+
+/** Group items by local day key, keeping their order within each day */
+export function bucketByDay<T>(
+  items: T[],
+  getTimestamp: (item: T) => number | null,
+): Map<string, T[]> {
+  const buckets = new Map<string, T[]>();
+  for (const item of items) {
+    const timestamp = getTimestamp(item);
+    if (timestamp === null || !Number.isFinite(timestamp)) continue;
+    const key = toDateKey(new Date(timestamp));
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      buckets.set(key, [item]);
+    }
+  }
+  return buckets;
+}
+
+/**
+ * Frontmatter key a drop should rewrite
+ * Prefers the property that currently dates the note, else the first one
+ * that can be written. file.* and formula.* properties are never writable.
+ * @param hasDate - Whether the note has a date in the given property
+ */
+export function getWritableDateProperty(
+  propertyString: string,
+  hasDate: (property: string) => boolean,
+): string | null {
+  const writable = propertyString
+    .split(",")
+    .map((p) => p.trim())
+    .filter(
+      (p) => p && !p.startsWith("file.") && !p.startsWith("formula."),
+    );
+  const property = writable.find(hasDate) ?? writable[0];
+  if (!property) return null;
+  const key = stripNotePrefix(property);
+  return key.length > 0 ? key : null;
+}
+
+/**
+ * Frontmatter value for a note dropped on a day
+ * Datetime values keep their time of day; everything else becomes a date.
+ * @param current - extractTimestamp() of the note's current date value
+ */
+export function getDroppedDateValue(
+  current: { timestamp: number; isDateOnly: boolean } | null,
+  day: Date,
+): string {
+  if (!current || current.isDateOnly) return toDateKey(day);
+  const time = new Date(current.timestamp);
+  return formatFrontmatterDate(
+    new Date(
+      day.getFullYear(),
+      day.getMonth(),
+      day.getDate(),
+      time.getHours(),
+      time.getMinutes(),
+    ),
+    true,
+  );
+}
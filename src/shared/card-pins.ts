@@ -0,0 +1,78 @@
+/**
+ * Pinned cards
+ * Pins are file paths persisted per view (BasesUIState for Bases,
+ * DatacoreState for Datacore). Pinned cards render first in the view, or in
+ * their group, in pin order, whatever the sort, manual order or shuffle.
+ */
+
+import { setIcon } from "obsidian";
+
+/** Pin state and toggle for the cards of one view */
+export interface CardPins {
+  isPinned(path: string): boolean;
+  togglePin(path: string): void;
+}
+
+/** Move pinned items to the front in pin order (stable for the rest) */
+export function applyPins<T>(
+  items: T[],
+  getPath: (item: T) => string,
+  pinnedPaths: string[],
+): T[] {
+  if (pinnedPaths.length === 0) return items;
+  const indexes = new Map(pinnedPaths.map((path, index) => [path, index]));
+  const pinned: T[] = [];
+  const rest: T[] = [];
+  for (const item of items) {
+    (indexes.has(getPath(item)) ? pinned : rest).push(item);
+  }
+  if (pinned.length === 0) return items;
+  pinned.sort(
+    (a, b) => (indexes.get(getPath(a)) ?? 0) - (indexes.get(getPath(b)) ?? 0),
+  );
+  return [...pinned, ...rest];
+}
+
+/** Pin a path (appended, so earlier pins stay on top) or unpin it */
+export function togglePinnedPath(
+  pinnedPaths: string[],
+  path: string,
+): string[] {
+  return pinnedPaths.includes(path)
+    ? pinnedPaths.filter((p) => p !== path)
+    : [...pinnedPaths, path];
+}
+
+/**
+ * Follow a vault rename (a file, or a folder and everything inside it)
+ * @returns The updated pins, or null when no pin was affected
+ */
+export function renamePinnedPaths(
+  pinnedPaths: string[],
+  oldPath: string,
+  newPath: string,
+): string[] | null {
+  let changed = false;
+  const renamed = pinnedPaths.map((path) => {
+    if (path === oldPath) {
+      changed = true;
+      return newPath;
+    }
+    if (path.startsWith(`${oldPath}/`)) {
+      changed = true;
+      return newPath + path.slice(oldPath.length);
+    }
+    return path;
+  });
+  return changed ? renamed : null;
+}
+
+/** Mark a card as pinned with a corner pin badge */
+export function renderPinBadge(cardEl: HTMLElement): void {
+  cardEl.addClass("is-pinned");
+  const badgeEl = cardEl.createDiv({
+    cls: "card-pin-badge",
+    attr: { "aria-label": "Pinned" },
+  });
+  setIcon(badgeEl, "pin");
+}
@@ -31,6 +31,10 @@ import {
   getFileTypeIcon,
   stripExtFromTitle,
 } from "../utils/file-extension";
+import {
+  getCardImageUrl,
+  getThumbnailTargetSize,
+} from "../utils/thumbnail-cache";
 import {
   handleJsxImageRef,
   handleJsxImageLoad,
@@ -39,6 +43,10 @@ import {
   DEFAULT_ASPECT_RATIO,
 } from "./image-loader";
 import { handleImageViewerClick, cleanupAllViewers } from "./image-viewer";
+import { MANUAL_SORT_METHOD } from "./manual-order";
+import type { CardPins } from "./card-pins";
+import { renderMarkdownPreview } from "./markdown-preview";
+import { highlightSearchTerms } from "./search-highlight";
 import {
   createSlideshowNavigator,
   setupHoverZoomEligibility,
@@ -55,7 +63,15 @@ import {
   setupElementScrollGradient,
 } from "./scroll-gradient";
 import { handleArrowNavigation, isArrowKey } from "./keyboard-nav";
-import { CHECKBOX_MARKER_PREFIX } from "./constants";
+import {
+  CHECKBOX_MARKER_PREFIX,
+  INLINE_EDIT_CLICK_DELAY_MS,
+} from "./constants";
+import {
+  EDITABLE_PROPERTY_CLASS,
+  getEditableWidget,
+  openInlinePropertyEditor,
+} from "./property-editor";
 
 import {
   isTagProperty,
@@ -124,8 +140,13 @@ function createFileDragHandler(app: App, path: string) {
 /**
  * Set up title truncation with extension preservation.
  * Truncates title text while keeping extension visible at end.
+ * @param onTruncate - Called after the title text is replaced
  */
-function setupTitleTruncation(titleEl: HTMLElement, signal: AbortSignal): void {
+function setupTitleTruncation(
+  titleEl: HTMLElement,
+  signal: AbortSignal,
+  onTruncate?: () => void,
+): void {
   const textEl = titleEl.querySelector<HTMLElement>(".card-title-text");
   const extEl = titleEl.querySelector<HTMLElement>(".card-title-ext-suffix");
 
@@ -162,7 +183,10 @@ function setupTitleTruncation(titleEl: HTMLElement, signal: AbortSignal): void {
     }
 
     // Check if truncation needed
-    if (titleEl.scrollHeight <= maxHeight) return;
+    if (titleEl.scrollHeight <= maxHeight) {
+      if (currentText !== fullText) onTruncate?.();
+      return;
+    }
 
     // Binary search for max text that fits with ellipsis + extension
     let low = 1;
@@ -187,6 +211,7 @@ function setupTitleTruncation(titleEl: HTMLElement, signal: AbortSignal): void {
       low--;
       textEl.textContent = fullText.slice(0, low).trimEnd() + ellipsis;
     }
+    onTruncate?.();
   };
 
   // Only truncate in Extension mode (when extension suffix is visible)
@@ -485,6 +510,9 @@ const containerCleanupMap = new WeakMap<HTMLElement, () => void>();
 // Module-level WeakMap to track previous cssclasses for each container (prevents unnecessary DOM mutations)
 const containerCssClassesMap = new WeakMap<HTMLElement, string[]>();
 
+// Card opens delayed by a click on an editable property (survive re-renders)
+const pendingCardOpens = new WeakMap<HTMLElement, number>();
+
 /**
  * Cleanup ResizeObserver for a card when it's removed
  */
@@ -581,6 +609,8 @@ export interface CardData {
   mtime: number; // milliseconds
   folderPath: string;
   textPreview?: string;
+  /** Datacore-only: textPreview is a search match snippet (plain text) */
+  isSearchSnippet?: boolean;
   subtitle?: string;
   imageUrl?: string | string[];
   urlValue?: string | null;
@@ -621,6 +651,72 @@ export interface CardData {
   propertyName14?: string;
 }
 
+/** Items under one collapsible group heading (Datacore group-by) */
+export interface CardGroup<T = CardData> {
+  key: string;
+  label: string;
+  /** Total items in the group (items may be truncated by infinite scroll) */
+  count: number;
+  items: T[];
+  collapsed: boolean;
+}
+
+interface GroupHeadingProps {
+  label: string;
+  groupByLabel: string;
+  count: number;
+  collapsed: boolean;
+  onToggle: () => void;
+}
+
+/** Collapsible group heading - same markup as Bases renderGroupHeader */
+export function GroupHeading({
+  label,
+  groupByLabel,
+  count,
+  collapsed,
+  onToggle,
+}: GroupHeadingProps): JSX.Element {
+  return (
+    <div className={`bases-group-heading${collapsed ? " collapsed" : ""}`}>
+      <div
+        className="bases-group-collapse-region"
+        onClick={onToggle}
+        onKeyDown={(e: KeyboardEvent) => {
+          if (e.key === "Enter" || e.key === " ") {
+            e.preventDefault();
+            onToggle();
+          }
+        }}
+        tabIndex={0}
+        role="button"
+        aria-expanded={!collapsed}
+      >
+        <div className="bases-group-collapse-btn">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="m6 9 6 6 6-6" />
+          </svg>
+        </div>
+        <div className="bases-group-property">{groupByLabel}</div>
+        <div className="bases-group-value">{label}</div>
+      </div>
+      <div className="bases-group-count">
+        {count === 1 ? "1 result" : `${count.toLocaleString()} results`}
+      </div>
+    </div>
+  );
+}
+
 export interface CardRendererProps {
   cards: CardData[];
   settings: ResolvedSettings;
@@ -634,6 +730,14 @@ export interface CardRendererProps {
   app: App;
   onCardClick?: (path: string, paneType: PaneType | boolean) => void;
   onFocusChange?: (index: number) => void;
+  /** Render cards in collapsible groups instead of `cards` */
+  groups?: CardGroup[];
+  groupByLabel?: string;
+  onToggleGroup?: (key: string) => void;
+  /** Pinned cards get a badge and a "Pin card" context menu toggle */
+  pins?: CardPins;
+  /** Lowercase toolbar search terms, highlighted in titles and previews */
+  searchTerms?: string[];
 }
 
 /** Parse comma-separated property names into a Set for O(1) lookup */
@@ -1011,13 +1115,40 @@ function renderProperty(
       </span>
     ) : null;
 
+  // Double-click edits frontmatter values in place (empty values included)
+  const editableWidget = getEditableWidget(app, propertyName);
+  const wrapperClassName = editableWidget
+    ? `property-content-wrapper ${EDITABLE_PROPERTY_CLASS}`
+    : "property-content-wrapper";
+  const handleEditDblClick = editableWidget
+    ? (e: MouseEvent) => {
+        e.stopPropagation();
+        const contentEl = (
+          e.currentTarget as HTMLElement
+        ).querySelector<HTMLElement>(".property-content");
+        const file = app.vault.getAbstractFileByPath(card.path);
+        if (!contentEl || !(file instanceof TFile)) return;
+        openInlinePropertyEditor(
+          app,
+          contentEl,
+          file,
+          propertyName,
+          editableWidget,
+        );
+      }
+    : undefined;
+
   // If no value, show placeholder
   if (!resolvedValue) {
     return (
       <>
         {labelAbove}
         {labelInline}
-        <div className="property-content-wrapper" tabIndex={-1}>
+        <div
+          className={wrapperClassName}
+          tabIndex={-1}
+          onDblClick={handleEditDblClick}
+        >
           <div className="property-content">
             <span className="empty-value-marker">{getEmptyValueMarker()}</span>
           </div>
@@ -1039,7 +1170,11 @@ function renderProperty(
           <>
             {labelAbove}
             {labelInline}
-            <div className="property-content-wrapper" tabIndex={-1}>
+            <div
+              className={wrapperClassName}
+              tabIndex={-1}
+              onDblClick={handleEditDblClick}
+            >
               <div className="property-content">
                 <span className="list-wrapper">
                   {arrayData.items.map(
@@ -1097,7 +1232,11 @@ function renderProperty(
           <>
             {labelAbove}
             {labelInline}
-            <div className="property-content-wrapper" tabIndex={-1}>
+            <div
+              className={wrapperClassName}
+              tabIndex={-1}
+              onDblClick={handleEditDblClick}
+            >
               <div className="property-content">
                 <input
                   className="metadata-input-checkbox"
@@ -1131,7 +1270,11 @@ function renderProperty(
       <>
         {labelAbove}
         {labelInline}
-        <div className="property-content-wrapper" tabIndex={-1}>
+        <div
+          className={wrapperClassName}
+          tabIndex={-1}
+          onDblClick={handleEditDblClick}
+        >
           <div className="property-content">
             <span>
               {showTimestampIcon() && settings.propertyLabels === "hide" && (
@@ -1175,7 +1318,11 @@ function renderProperty(
       <>
         {labelAbove}
         {labelInline}
-        <div className="property-content-wrapper" tabIndex={-1}>
+        <div
+          className={wrapperClassName}
+          tabIndex={-1}
+          onDblClick={handleEditDblClick}
+        >
           <div className="property-content">
             {renderTagsList(card.yamlTags, app, showTagHashPrefix())}
           </div>
@@ -1191,7 +1338,11 @@ function renderProperty(
       <>
         {labelAbove}
         {labelInline}
-        <div className="property-content-wrapper" tabIndex={-1}>
+        <div
+          className={wrapperClassName}
+          tabIndex={-1}
+          onDblClick={handleEditDblClick}
+        >
           <div className="property-content">
             {renderTagsList(card.tags, app, showTagHashPrefix())}
           </div>
@@ -1211,7 +1362,11 @@ function renderProperty(
       <>
         {labelAbove}
         {labelInline}
-        <div className="property-content-wrapper" tabIndex={-1}>
+        <div
+          className={wrapperClassName}
+          tabIndex={-1}
+          onDblClick={handleEditDblClick}
+        >
           <div className="property-content">
             <div className="path-wrapper">
               {segments.map((segment: string, idx: number) => {
@@ -1239,7 +1394,11 @@ function renderProperty(
       <>
         {labelAbove}
         {labelInline}
-        <div className="property-content-wrapper" tabIndex={-1}>
+        <div
+          className={wrapperClassName}
+          tabIndex={-1}
+          onDblClick={handleEditDblClick}
+        >
           <div className="property-content">
             <div className="path-wrapper">
               {folders.map((folder: string, idx: number) => {
@@ -1263,7 +1422,11 @@ function renderProperty(
     <>
       {labelAbove}
       {labelInline}
-      <div className="property-content-wrapper" tabIndex={-1}>
+      <div
+        className={wrapperClassName}
+        tabIndex={-1}
+        onDblClick={handleEditDblClick}
+      >
         <div className="property-content">
           <span>{renderTextWithLinks(resolvedValue, app)}</span>
         </div>
@@ -1285,7 +1448,36 @@ export function CardRenderer({
   app,
   onCardClick,
   onFocusChange,
+  groups,
+  groupByLabel = "",
+  onToggleGroup,
+  pins,
+  searchTerms,
 }: CardRendererProps): unknown {
+  const renderCard = (card: CardData, index: number): JSX.Element => (
+    <Card
+      key={card.path}
+      card={card}
+      index={index}
+      settings={settings}
+      viewMode={viewMode}
+      sortMethod={sortMethod}
+      isShuffled={isShuffled}
+      focusableCardIndex={focusableCardIndex}
+      hoveredCardRef={hoveredCardRef}
+      containerRef={containerRef}
+      updateLayoutRef={updateLayoutRef}
+      app={app}
+      onCardClick={onCardClick}
+      onFocusChange={onFocusChange}
+      pins={pins}
+      searchTerms={searchTerms}
+    />
+  );
+
+  // Card indices run across groups so keyboard focus order matches the DOM
+  let groupOffset = 0;
+
   return (
     <div
       ref={(el: HTMLElement | null) => {
@@ -1509,31 +1701,36 @@ export function CardRenderer({
         viewMode === "masonry" ? "dynamic-views-masonry" : "dynamic-views-grid"
       }
     >
-      {cards.map(
-        (card, index): JSX.Element => (
-          <Card
-            key={card.path}
-            card={card}
-            index={index}
-            settings={settings}
-            viewMode={viewMode}
-            sortMethod={sortMethod}
-            isShuffled={isShuffled}
-            focusableCardIndex={focusableCardIndex}
-            hoveredCardRef={hoveredCardRef}
-            containerRef={containerRef}
-            updateLayoutRef={updateLayoutRef}
-            app={app}
-            onCardClick={onCardClick}
-            onFocusChange={onFocusChange}
-          />
-        ),
-      )}
+      {groups
+        ? groups.map((group): JSX.Element => {
+            const offset = groupOffset;
+            groupOffset += group.items.length;
+            return (
+              <div
+                key={`group-${group.key}`}
+                className="dynamic-views-group-section"
+              >
+                <GroupHeading
+                  label={group.label}
+                  groupByLabel={groupByLabel}
+                  count={group.count}
+                  collapsed={group.collapsed}
+                  onToggle={() => onToggleGroup?.(group.key)}
+                />
+                <div className="dynamic-views-group">
+                  {group.items.map((card, index) =>
+                    renderCard(card, offset + index),
+                  )}
+                </div>
+              </div>
+            );
+          })
+        : cards.map(renderCard)}
     </div>
   );
 }
 
-interface CardProps {
+export interface CardProps {
   key?: string; // React/Preact key for element reconciliation
   card: CardData;
   index: number;
@@ -1548,9 +1745,12 @@ interface CardProps {
   app: App;
   onCardClick?: (path: string, paneType: PaneType | boolean) => void;
   onFocusChange?: (index: number) => void;
+  pins?: CardPins;
+  searchTerms?: string[];
 }
 
-function Card({
+/** One card; CardRenderer lays these out, calendar days render it directly */
+export function Card({
   card,
   index,
   settings,
@@ -1564,11 +1764,15 @@ function Card({
   app,
   onCardClick,
   onFocusChange,
+  pins,
+  searchTerms,
 }: CardProps): unknown {
   // Determine which timestamp to show
   const useCreatedTime = sortMethod.startsWith("ctime") && !isShuffled;
   // Determine time icon (calendar for ctime, clock for mtime)
   const timeIcon = useCreatedTime ? "calendar" : "clock";
+  // Manual order: every card can be dragged onto another to reorder
+  const isManualOrder = sortMethod === MANUAL_SORT_METHOD && !isShuffled;
 
   // Compute title display (only strip extension for file.fullname)
   const normalizedTitleProperty = normalizePropertyName(
@@ -1585,19 +1789,25 @@ function Card({
   const extInfo = getFileExtInfo(card.path, isFullname);
   const extNoDot = extInfo?.ext.slice(1) || "";
 
-  // Handle images
+  // Handle images (oversized vault images are swapped for thumbnails)
   const isArray = Array.isArray(card.imageUrl);
   const scrubbingDisabled = isThumbnailScrubbingDisabled();
-  const imageArray: string[] = isArray
-    ? (card.imageUrl as (string | string[])[])
-        .flat()
-        .filter(
-          (url): url is string => typeof url === "string" && url.length > 0,
-        )
-        .slice(0, scrubbingDisabled ? 1 : 10)
-    : card.imageUrl
-      ? [card.imageUrl as string]
-      : [];
+  const thumbnailSize = getThumbnailTargetSize(
+    settings.imageFormat,
+    settings.cardSize,
+  );
+  const imageArray: string[] = (
+    isArray
+      ? (card.imageUrl as (string | string[])[])
+          .flat()
+          .filter(
+            (url): url is string => typeof url === "string" && url.length > 0,
+          )
+          .slice(0, scrubbingDisabled ? 1 : 10)
+      : card.imageUrl
+        ? [card.imageUrl as string]
+        : []
+  ).map((url) => getCardImageUrl(url, thumbnailSize));
   // Enable scrubbing only on desktop with multiple images and setting enabled
   const enableScrubbing =
     !app.isMobile && isArray && imageArray.length > 1 && !scrubbingDisabled;
@@ -1622,6 +1832,13 @@ function Card({
     cardClasses.push("image-format-backdrop");
     cardClasses.push(`card-cover-${settings.imageFit}`);
   }
+  if (settings.imageTint) {
+    cardClasses.push("image-tint");
+  }
+  const isPinned = pins?.isPinned(card.path) ?? false;
+  if (isPinned) {
+    cardClasses.push("is-pinned");
+  }
 
   // Drag handler for card-level drag (reuses shared utility)
   const handleDrag = createFileDragHandler(app, card.path);
@@ -1646,11 +1863,14 @@ function Card({
         tabIndex={-1}
         ref={(el: HTMLElement | null) => {
           if (!el) return;
+          const highlight = () =>
+            highlightSearchTerms(el, searchTerms, scrollController.signal);
           if (isTitleScrollMode) {
             setupElementScrollGradient(el, scrollController.signal);
           } else {
-            setupTitleTruncation(el, scrollController.signal);
+            setupTitleTruncation(el, scrollController.signal, highlight);
           }
+          highlight();
         }}
       >
         {renderFileTypeIcon(card.path)}
@@ -1672,7 +1892,7 @@ function Card({
               e.preventDefault();
               const file = app.vault.getAbstractFileByPath(card.path);
               if (file instanceof TFile) {
-                showFileContextMenu(e, app, file, card.path);
+                showFileContextMenu(e, app, file, card.path, pins);
               }
             }}
             onMouseOver={(e: MouseEvent) => {
@@ -1716,6 +1936,7 @@ function Card({
           if (isSubtitleScrollMode) {
             setupElementScrollGradient(el, scrollController.signal);
           }
+          highlightSearchTerms(el, searchTerms, scrollController.signal);
           const subtitleWrapper = el.querySelector(
             ".property-content-wrapper",
           ) as HTMLElement;
@@ -1900,7 +2121,7 @@ function Card({
         responsiveObserver.observe(cardEl);
         cardResponsiveObservers.set(card.path, responsiveObserver);
       }}
-      draggable={settings.openFileAction === "card"}
+      draggable={settings.openFileAction === "card" || isManualOrder}
       onDragStart={settings.openFileAction === "card" ? handleDrag : undefined}
       tabIndex={index === focusableCardIndex ? 0 : -1}
       onClick={(e: MouseEvent) => {
@@ -1953,10 +2174,29 @@ function Card({
             !(isImage && isZoomEnabled)
           ) {
             const paneType = Keymap.isModEvent(e);
-            if (onCardClick) {
-              onCardClick(card.path, paneType || false);
+            const openFile = () => {
+              if (onCardClick) {
+                onCardClick(card.path, paneType || false);
+              } else {
+                void app.workspace.openLinkText(
+                  card.path,
+                  "",
+                  paneType || false,
+                );
+              }
+            };
+            // Editable properties: wait out a double-click (inline edit)
+            const cardEl = e.currentTarget as HTMLElement;
+            window.clearTimeout(pendingCardOpens.get(cardEl));
+            if (target.closest(`.${EDITABLE_PROPERTY_CLASS}`)) {
+              if (e.detail <= 1) {
+                pendingCardOpens.set(
+                  cardEl,
+                  window.setTimeout(openFile, INLINE_EDIT_CLICK_DELAY_MS),
+                );
+              }
             } else {
-              void app.workspace.openLinkText(card.path, "", paneType || false);
+              openFile();
             }
           }
         }
@@ -2031,7 +2271,7 @@ function Card({
         if (settings.openFileAction === "card" || format === "poster") {
           const file = app.vault.getAbstractFileByPath(card.path);
           if (file instanceof TFile) {
-            showFileContextMenu(e, app, file, card.path);
+            showFileContextMenu(e, app, file, card.path, pins);
           }
         }
       }}
@@ -2176,7 +2416,39 @@ function Card({
         <div className="card-content">
           {card.textPreview && (
             <div className="card-text-preview-wrapper">
-              <div className="card-text-preview">{card.textPreview}</div>
+              {card.isSearchSnippet ? (
+                <div
+                  className="card-text-preview is-search-snippet"
+                  ref={(el: HTMLElement | null) => {
+                    if (el) {
+                      highlightSearchTerms(
+                        el,
+                        searchTerms,
+                        scrollController.signal,
+                      );
+                    }
+                  }}
+                >
+                  {card.textPreview}
+                </div>
+              ) : settings.textPreviewStyle === "rendered" ? (
+                <div
+                  className="card-text-preview"
+                  ref={(el: HTMLElement | null) => {
+                    if (el && card.textPreview) {
+                      renderMarkdownPreview(
+                        el,
+                        app,
+                        card.textPreview,
+                        card.path,
+                        scrollController.signal,
+                      );
+                    }
+                  }}
+                />
+              ) : (
+                <div className="card-text-preview">{card.textPreview}</div>
+              )}
             </div>
           )}
           {/* Thumbnail (all positions now inside card-content) */}
@@ -2534,6 +2806,15 @@ function Card({
           </>
         );
       })()}
+      {isPinned && (
+        <div
+          className="card-pin-badge"
+          aria-label="Pinned"
+          ref={(el: HTMLElement | null) => {
+            if (el) setIcon(el, "pin");
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -11,6 +11,12 @@ export const SCROLL_TOLERANCE = 1;
 /** Pane height multiplier for infinite scroll trigger threshold */
 export const PANE_MULTIPLIER = 3;
 
+/** Pane height multiplier for the virtualization window (must exceed PANE_MULTIPLIER) */
+export const VIRTUAL_WINDOW_PANES = 5;
+
+/** Card count below which views keep every card mounted */
+export const VIRTUALIZE_MIN_CARDS = 300;
+
 /** Scroll event throttle in milliseconds */
 export const SCROLL_THROTTLE_MS = 100;
 
@@ -20,6 +26,24 @@ export const ROWS_PER_COLUMN = 10;
 /** Maximum batch size cap */
 export const MAX_BATCH_SIZE = 70;
 
+/** Cards rendered per kanban column batch (each column scrolls independently) */
+export const KANBAN_COLUMN_BATCH_SIZE = 20;
+
+/** Cards rendered per carousel row batch (each row scrolls independently) */
+export const CAROUSEL_ROW_BATCH_SIZE = 20;
+
+/** Cards per calendar day before the "+N" overflow button (month range) */
+export const CALENDAR_MONTH_CARD_LIMIT = 3;
+
+/** Cards per calendar day before the "+N" overflow button (week range) */
+export const CALENDAR_WEEK_CARD_LIMIT = 12;
+
+/** Timeline spacing in pixels per zoom unit of elapsed time (a day, week...) */
+export const TIMELINE_UNIT_SIZE = 48;
+
+/** Largest space between two timeline entries in pixels */
+export const TIMELINE_MAX_GAP = 480;
+
 /** Throttle interval for resize layout updates in milliseconds */
 export const RESIZE_THROTTLE_MS = 100;
 
@@ -35,6 +59,9 @@ export const SWIPE_DETECT_THRESHOLD = 10;
 /** Delay in ms after gesture ends before allowing click events */
 export const GESTURE_TIMEOUT_MS = 50;
 
+/** Delay before a card click on an editable property opens the file (waits for double-click) */
+export const INLINE_EDIT_CLICK_DELAY_MS = 250;
+
 /** JSON prefix for checkbox property markers */
 export const CHECKBOX_MARKER_PREFIX = '{"type":"checkbox"';
 
@@ -6,6 +6,10 @@ import {
 } from "../utils/image";
 import { loadFilePreview } from "../utils/text-preview";
 import { getSlideshowMaxImages } from "../utils/style-settings";
+import {
+  getPersistedTextPreview,
+  setPersistedTextPreview,
+} from "../utils/persistent-cache";
 
 // Track in-flight loads - Map to Promises so concurrent requests can await
 const inFlightTextPreviews = new Map<string, Promise<string>>();
@@ -216,6 +220,9 @@ export async function loadImagesForEntries(
  * @param textPreviewCache - Cache object to store loaded text previews
  * @param fileName - Optional file name for title comparison (Datacore only)
  * @param titleString - Optional title string for first line comparison (Datacore only)
+ * @param textPreviewStyle - "rendered" loads markdown instead of plain text
+ * @param textPreviewSection - Heading, block or callout to preview instead of
+ *   the note's opening lines
  */
 export async function loadTextPreviewForEntry(
   path: string,
@@ -227,6 +234,8 @@ export async function loadTextPreviewForEntry(
   textPreviewCache: Record<string, string>,
   fileName?: string,
   titleString?: string,
+  textPreviewStyle: "plain" | "rendered" = "plain",
+  textPreviewSection = "",
 ): Promise<void> {
   // Skip if already in caller's cache (uses path, not composite key, because each
   // caller passes their own cache objects - this prevents re-loading within a batch)
@@ -240,6 +249,8 @@ export async function loadTextPreviewForEntry(
   // - omitFirstLine: affects whether first line is stripped from preview
   // - hasPreview: whether textPreviewData is provided (affects output source)
   // - fileName/titleString: included when omitFirstLine="ifMatchesTitle" (affects first-line comparison)
+  // - textPreviewStyle: rendered previews hold markdown (plain keys unchanged)
+  // - textPreviewSection: targeted section (keys without one unchanged)
   const hasPreview =
     textPreviewData != null &&
     (typeof textPreviewData === "string" ||
@@ -251,28 +262,51 @@ export async function loadTextPreviewForEntry(
     omitFirstLine === "ifMatchesTitle"
       ? `|${fileName ?? ""}|${titleString ?? ""}`
       : "";
-  const cacheKey = `${path}|${fallbackToContent}|${omitFirstLine}|${hasPreview}${titleKey}`;
+  const styleKey = textPreviewStyle === "rendered" ? "|rendered" : "";
+  const sectionKey = textPreviewSection ? `|${textPreviewSection}` : "";
+  const cacheKey = `${path}|${fallbackToContent}|${omitFirstLine}|${hasPreview}${titleKey}${styleKey}${sectionKey}`;
   const existing = inFlightTextPreviews.get(cacheKey);
   if (existing) {
     textPreviewCache[path] = await existing;
     return;
   }
 
+  // Content-based previews persist across restarts (keyed by path + mtime)
+  // Property-based previews are cheap and depend on which property is set
+  const persistVariant =
+    hasPreview === "0" && file.extension === "md"
+      ? `${fallbackToContent}|${omitFirstLine}${titleKey}${styleKey}${sectionKey}`
+      : null;
+  if (persistVariant !== null) {
+    const persisted = getPersistedTextPreview(file, persistVariant);
+    if (persisted !== undefined) {
+      textPreviewCache[path] = persisted;
+      return;
+    }
+  }
+
   // Create and store the loading promise
   const loadPromise = (async (): Promise<string> => {
     try {
       if (file.extension === "md") {
-        return await loadFilePreview(
+        const preview = await loadFilePreview(
           file,
           app,
           textPreviewData,
           {
             fallbackToContent,
             omitFirstLine,
+            textPreviewStyle,
+            textPreviewSection,
           },
           fileName,
           titleString,
         );
+        // Failed reads throw and aren't persisted
+        if (persistVariant !== null) {
+          setPersistedTextPreview(file, persistVariant, preview);
+        }
+        return preview;
       } else {
         return "";
       }
@@ -299,6 +333,9 @@ export async function loadTextPreviewForEntry(
  * @param omitFirstLine - When to omit first line from preview
  * @param app - Obsidian app instance
  * @param textPreviewCache - Cache object to store loaded text previews
+ * @param textPreviewStyle - "rendered" loads markdown instead of plain text
+ * @param textPreviewSection - Heading, block or callout to preview instead of
+ *   the note's opening lines
  */
 export async function loadTextPreviewsForEntries(
   entries: TextPreviewEntry[],
@@ -306,6 +343,8 @@ export async function loadTextPreviewsForEntries(
   omitFirstLine: "always" | "ifMatchesTitle" | "never",
   app: App,
   textPreviewCache: Record<string, string>,
+  textPreviewStyle: "plain" | "rendered" = "plain",
+  textPreviewSection = "",
 ): Promise<void> {
   await Promise.all(
     entries.map(async (entry) => {
@@ -319,6 +358,8 @@ export async function loadTextPreviewsForEntries(
         textPreviewCache,
         entry.fileName,
         entry.titleString,
+        textPreviewStyle,
+        textPreviewSection,
       );
     }),
   );
@@ -4,6 +4,24 @@
  */
 
 import { App, Menu, Notice, Platform, TFile, setIcon } from "obsidian";
+import {
+  addTagToFiles,
+  copyFilesAsWikilinks,
+  formatFileCount,
+  moveFilesToFolder,
+  openFilesInTabs,
+  parsePropertyValue,
+  removePropertyFromFiles,
+  removeTagFromFiles,
+  setPropertyOnFiles,
+  trashFiles,
+} from "./bulk-actions";
+import {
+  BulkPromptModal,
+  ConfirmModal,
+  FolderSuggestModal,
+} from "./bulk-action-modals";
+import type { CardPins } from "./card-pins";
 
 /**
  * Show context menu for external links (URLs)
@@ -101,12 +119,15 @@ function getFilename(path: string): string {
 /**
  * Show a file context menu at the mouse event location
  * Matches vanilla Obsidian file explorer menu structure
+ *
+ * @param pins - Adds "Pin card"/"Unpin card" (grouped with plugin items)
  */
 export function showFileContextMenu(
   e: MouseEvent,
   app: App,
   file: TFile,
   path: string,
+  pins?: CardPins,
 ): void {
   e.stopPropagation();
   e.preventDefault();
@@ -114,6 +135,16 @@ export function showFileContextMenu(
   const menu = new Menu();
   const isMobile = Platform.isMobile;
 
+  if (pins) {
+    const isPinned = pins.isPinned(path);
+    menu.addItem((item) =>
+      item
+        .setTitle(isPinned ? "Unpin card" : "Pin card")
+        .setIcon(isPinned ? "pin-off" : "pin")
+        .onClick(() => pins.togglePin(path)),
+    );
+  }
+
   // Build menu based on platform
   if (isMobile) {
     // Mobile: Match vanilla Obsidian mobile menu
@@ -547,3 +578,159 @@ export function showFileContextMenu(
     }
   });
 }
+
+/**
+ * Show a bulk-action menu for multiple selected files
+ * Shown instead of the single-file menu when right-clicking a selection
+ *
+ * @param sourcePath - Path used to resolve shortest wikilinks (the base file)
+ * @param onComplete - Called after an action that should end the selection
+ */
+export function showBulkFileContextMenu(
+  e: MouseEvent,
+  app: App,
+  files: TFile[],
+  sourcePath: string,
+  onComplete?: () => void,
+): void {
+  e.stopPropagation();
+  e.preventDefault();
+
+  const menu = new Menu();
+  const count = formatFileCount(files.length);
+
+  // Run an action, then end the selection (only once the action finished)
+  const run = (action: () => Promise<void>) => {
+    action()
+      .catch(() => {
+        new Notice("Bulk action failed");
+      })
+      .finally(() => onComplete?.());
+  };
+
+  menu.addItem((item) =>
+    item
+      .setTitle(`Open ${count} in new tabs`)
+      .setIcon("lucide-file-plus")
+      .onClick(() => run(() => openFilesInTabs(app, files))),
+  );
+
+  menu.addItem((item) =>
+    item
+      .setTitle("Copy as wikilinks")
+      .setIcon("lucide-link")
+      .onClick(() => {
+        copyFilesAsWikilinks(app, files, sourcePath).catch(() => {
+          new Notice("Failed to copy links");
+        });
+      }),
+  );
+
+  menu.addSeparator();
+
+  menu.addItem((item) =>
+    item
+      .setTitle("Set property...")
+      .setIcon("lucide-list-plus")
+      .onClick(() => {
+        new BulkPromptModal(
+          app,
+          `Set property on ${count}`,
+          [
+            { name: "Property", placeholder: "status" },
+            { name: "Value", placeholder: "Leave empty to clear" },
+          ],
+          "Set",
+          ([key, value]) =>
+            run(() =>
+              setPropertyOnFiles(
+                app,
+                files,
+                key.trim(),
+                parsePropertyValue(value),
+              ),
+            ),
+        ).open();
+      }),
+  );
+
+  menu.addItem((item) =>
+    item
+      .setTitle("Remove property...")
+      .setIcon("lucide-list-minus")
+      .onClick(() => {
+        new BulkPromptModal(
+          app,
+          `Remove property from ${count}`,
+          [{ name: "Property", placeholder: "status" }],
+          "Remove",
+          ([key]) =>
+            run(() => removePropertyFromFiles(app, files, key.trim())),
+        ).open();
+      }),
+  );
+
+  menu.addItem((item) =>
+    item
+      .setTitle("Add tag...")
+      .setIcon("lucide-tag")
+      .onClick(() => {
+        new BulkPromptModal(
+          app,
+          `Add tag to ${count}`,
+          [{ name: "Tag", placeholder: "#project" }],
+          "Add",
+          ([tag]) => run(() => addTagToFiles(app, files, tag)),
+        ).open();
+      }),
+  );
+
+  menu.addItem((item) =>
+    item
+      .setTitle("Remove tag...")
+      .setIcon("lucide-tags")
+      .onClick(() => {
+        new BulkPromptModal(
+          app,
+          `Remove tag from ${count}`,
+          [{ name: "Tag", placeholder: "#project" }],
+          "Remove",
+          ([tag]) => run(() => removeTagFromFiles(app, files, tag)),
+        ).open();
+      }),
+  );
+
+  menu.addItem((item) =>
+    item
+      .setTitle(`Move ${count} to...`)
+      .setIcon("lucide-folder-input")
+      .onClick(() => {
+        new FolderSuggestModal(app, (folder) =>
+          run(() => moveFilesToFolder(app, files, folder.path)),
+        ).open();
+      }),
+  );
+
+  // Let other plugins add multi-file items (matches file explorer)
+  app.workspace.trigger("files-menu", menu, files, "file-explorer");
+
+  menu.addSeparator();
+
+  menu.addItem((item) =>
+    item
+      .setTitle(`Delete ${count}`)
+      .setIcon("lucide-trash-2")
+      .setWarning(true)
+      .onClick(() => {
+        new ConfirmModal(
+          app,
+          `Delete ${count}?`,
+          `${files.map((file) => file.basename).join(", ")} will be moved to trash.`,
+          "Delete",
+          () => run(() => trashFiles(app, files)),
+        ).open();
+      }),
+  );
+
+  menu.showAtMouseEvent(e);
+}
@@ -0,0 +1,110 @@
+/**
+ * Folder tree helpers
+ * Nest items under their folder path for the Bases folder tree view.
+ * Subfolders sort by name; items keep their input (sort) order.
+ */
+
+export interface FolderTreeNode<T> {
+  /** Vault path of the folder ("" for the vault root) */
+  path: string;
+  name: string;
+  /** 0 for the vault root, 1 for top-level folders */
+  depth: number;
+  /** Items directly in this folder */
+  items: T[];
+  children: FolderTreeNode<T>[];
+  /** Items in this folder and all its subfolders */
+  count: number;
+}
+
+/** Folder containing a path ("" at the vault root) */
+export function getParentFolderPath(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index === -1 ? "" : path.slice(0, index);
+}
+
+const compareNames = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+/**
+ * Nest items under the folders of their paths
+ * Only folders holding items (directly or below) appear in the tree.
+ */
+export function buildFolderTree<T>(
+  items: T[],
+  getPath: (item: T) => string,
+): FolderTreeNode<T> {
+  const root: FolderTreeNode<T> = {
+    path: "",
+    name: "",
+    depth: 0,
+    items: [],
+    children: [],
+    count: 0,
+  };
+  const nodes = new Map<string, FolderTreeNode<T>>([["", root]]);
+
+  const getNode = (folderPath: string): FolderTreeNode<T> => {
+    const existing = nodes.get(folderPath);
+    if (existing) return existing;
+    const parent = getNode(getParentFolderPath(folderPath));
+    const node: FolderTreeNode<T> = {
+      path: folderPath,
+      name: folderPath.slice(folderPath.lastIndexOf("/") + 1),
+      depth: parent.depth + 1,
+      items: [],
+      children: [],
+      count: 0,
+    };
+    parent.children.push(node);
+    nodes.set(folderPath, node);
+    return node;
+  };
+
+  for (const item of items) {
+    const folderPath = getParentFolderPath(getPath(item));
+    getNode(folderPath).items.push(item);
+    // Count the item in its folder and every ancestor up to the root
+    let path = folderPath;
+    for (;;) {
+      nodes.get(path)!.count++;
+      if (path === "") break;
+      path = getParentFolderPath(path);
+    }
+  }
+
+  for (const node of nodes.values()) {
+    node.children.sort((a, b) => compareNames(a.name, b.name));
+  }
+  return root;
+}
+
+/**
+ * Folders in display order (depth-first), root first
+ * Subfolders of collapsed folders are left out; the collapsed folder itself
+ * stays so its header can expand it again.
+ */
+export function flattenFolderTree<T>(
+  root: FolderTreeNode<T>,
+  collapsedFolders: ReadonlySet<string>,
+): FolderTreeNode<T>[] {
+  const result: FolderTreeNode<T>[] = [];
+  const visit = (node: FolderTreeNode<T>) => {
+    result.push(node);
+    if (node !== root && collapsedFolders.has(node.path)) return;
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return result;
+}
+
+/** Paths of every folder below the root (fold all) */
+export function getFolderPaths<T>(root: FolderTreeNode<T>): string[] {
+  const paths: string[] = [];
+  const visit = (node: FolderTreeNode<T>) => {
+    if (node !== root) paths.push(node.path);
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return paths;
+}
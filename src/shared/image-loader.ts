@@ -1,9 +1,28 @@
 import type { RefObject } from "../datacore/types";
+import { extractAverageColor, getColorTheme } from "../utils/image-color";
+import {
+  getStoredImageColor,
+  storeImageColor,
+} from "../utils/thumbnail-cache";
+
+interface ImageMetadata {
+  aspectRatio?: number;
+  /** Average color as "rgb(r, g, b)", for placeholders and tinting */
+  color?: string;
+}
 
-// Cache aspect ratio by image URL to avoid layout flash on re-render
-// Unbounded cache growth is intentional and harmless - entries are small (~20 bytes each)
+// Cache aspect ratio and color by image URL to avoid layout flash on re-render
+// Unbounded cache growth is intentional and harmless - entries are small (~50 bytes each)
 // and bounded by user's vault image count; eviction would cause re-measurement flash
-const imageMetadataCache = new Map<string, { aspectRatio?: number }>();
+const imageMetadataCache = new Map<string, ImageMetadata>();
+
+/** Cards waiting on an idle color measurement, by image URL */
+const pendingColorCards = new Map<string, HTMLElement[]>();
+
+const scheduleIdleCallback: (callback: () => void) => void =
+  typeof requestIdleCallback !== "undefined"
+    ? (callback) => requestIdleCallback(callback, { timeout: 1000 })
+    : (callback) => setTimeout(callback, 16); // Fallback: next frame
 
 // Default aspect ratio for failed images to prevent layout issues
 export const DEFAULT_ASPECT_RATIO = 0.75; // 4:3 landscape
@@ -16,6 +35,74 @@ export function getCachedAspectRatio(imgSrc: string): number | undefined {
   return imageMetadataCache.get(imgSrc)?.aspectRatio;
 }
 
+/**
+ * Expose an image's color on its card
+ * Drives the loading placeholder and the optional card/backdrop tint
+ */
+function applyImageColor(cardEl: HTMLElement, color: string): void {
+  cardEl.style.setProperty("--dynamic-views-image-color", color);
+  const theme = getColorTheme(color);
+  cardEl.classList.add("has-image-color");
+  cardEl.classList.toggle("image-color-light", theme === "light");
+  cardEl.classList.toggle("image-color-dark", theme === "dark");
+}
+
+/**
+ * Average color of a loaded image
+ * Returns undefined when the canvas is tainted (cross-origin external images)
+ */
+function measureImageColor(imgEl: HTMLImageElement): string | undefined {
+  try {
+    return extractAverageColor(imgEl);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Known color of an image: measured this session, or persisted for vault
+ * images (by an earlier load or the thumbnail pipeline)
+ */
+function getKnownImageColor(imgSrc: string): string | undefined {
+  const cached = imageMetadataCache.get(imgSrc);
+  if (cached?.color !== undefined) return cached.color;
+  const stored = getStoredImageColor(imgSrc);
+  if (stored !== undefined) {
+    imageMetadataCache.set(imgSrc, { ...cached, color: stored });
+  }
+  return stored;
+}
+
+/**
+ * Measure an image's color when the browser is idle, off the load handler
+ * Cards loading the same image meanwhile share the one measurement.
+ */
+function scheduleColorMeasurement(
+  imgEl: HTMLImageElement,
+  cardEl: HTMLElement,
+): void {
+  const src = imgEl.src;
+  const waiting = pendingColorCards.get(src);
+  if (waiting) {
+    waiting.push(cardEl);
+    return;
+  }
+  pendingColorCards.set(src, [cardEl]);
+  scheduleIdleCallback(() => {
+    const cards = pendingColorCards.get(src) ?? [];
+    pendingColorCards.delete(src);
+    // Slideshow moved on to another image - its next load measures again
+    if (imgEl.src !== src) return;
+    const color = measureImageColor(imgEl);
+    if (color === undefined) return;
+    imageMetadataCache.set(src, { ...imageMetadataCache.get(src), color });
+    storeImageColor(src, color);
+    for (const card of cards) {
+      if (card.isConnected) applyImageColor(card, color);
+    }
+  });
+}
+
 /**
  * Invalidate cache entries for a modified file (#17)
  * Call when vault file is modified to prevent stale aspect ratio
@@ -43,24 +130,23 @@ export function invalidateCacheForFile(filePath: string): void {
 }
 
 /**
- * Apply cached aspect ratio to card immediately
+ * Apply cached aspect ratio and color to card immediately
  * Called before image loads to prevent layout flash on re-render
  */
 export function applyCachedImageMetadata(
   imgSrc: string,
   cardEl: HTMLElement,
 ): void {
-  const cached = imageMetadataCache.get(imgSrc);
-  if (!cached) return;
-
   // Guard against unmounted elements
   if (!cardEl.isConnected) return;
 
-  if (cached.aspectRatio !== undefined) {
-    cardEl.style.setProperty(
-      "--actual-aspect-ratio",
-      cached.aspectRatio.toString(),
-    );
+  const aspectRatio = imageMetadataCache.get(imgSrc)?.aspectRatio;
+  if (aspectRatio !== undefined) {
+    cardEl.style.setProperty("--actual-aspect-ratio", aspectRatio.toString());
+  }
+  const color = getKnownImageColor(imgSrc);
+  if (color !== undefined) {
+    applyImageColor(cardEl, color);
   }
   // Don't add cover-ready here - wait for actual image load to trigger fade-in
 }
@@ -89,9 +175,15 @@ export function handleImageLoad(
       ? imgEl.naturalHeight / imgEl.naturalWidth
       : undefined;
 
-  // Cache for future re-renders
+  // Cache for future re-renders (color is measured once per image, when idle)
   if (imgEl.src && aspectRatio !== undefined) {
-    imageMetadataCache.set(imgEl.src, { aspectRatio });
+    const color = getKnownImageColor(imgEl.src);
+    imageMetadataCache.set(imgEl.src, { aspectRatio, color });
+    if (color !== undefined) {
+      applyImageColor(cardEl, color);
+    } else {
+      scheduleColorMeasurement(imgEl, cardEl);
+    }
     // Lock aspect ratio to first successful image (for slideshow contain mode)
     cardEl.dataset.aspectRatioSet = "1";
   }
@@ -11,6 +11,7 @@ import {
   getZoomSensitivityMobile,
 } from "../utils/style-settings";
 import { showTipOnce } from "../utils/tips";
+import { getOriginalImageUrl } from "../utils/thumbnail-cache";
 
 /** Long-press detection threshold in ms */
 const LONG_PRESS_THRESHOLD = 500;
@@ -581,6 +582,12 @@ function openImageViewer(
     return;
   }
 
+  // Cards may show a downsized thumbnail; the viewer shows the original
+  const originalSrc = getOriginalImageUrl(imgEl.src);
+  if (originalSrc !== imgEl.src) {
+    imgEl.src = originalSrc;
+  }
+
   // Remove non-current slideshow image from clone (prevents duplicate display)
   const nextImg = cloneEl.querySelector<HTMLImageElement>(
     "img.slideshow-img-next",
@@ -221,12 +221,15 @@ export function initializeContainerFocus(container: HTMLElement): () => void {
  * 4. Otherwise, do nothing (let arrow keys scroll the page, etc.)
  *
  * Uses capture phase to intercept before individual card handlers.
+ * @param selectCard - Optional; called when Shift+arrow starts on a hovered
+ *   card, so the card becomes the anchor of a keyboard range selection
  * @returns Cleanup function to remove event listener
  */
 export function setupHoverKeyboardNavigation(
   getHoveredCard: () => HTMLElement | null,
   getContainerRef: () => HTMLElement | null,
   setFocusableIndex: (index: number) => void,
+  selectCard?: (cardEl: HTMLElement) => void,
 ): () => void {
   const handleKeydown = (e: KeyboardEvent) => {
     if (!isArrowKey(e.key)) return;
@@ -237,7 +240,7 @@ export function setupHoverKeyboardNavigation(
 
     // Check the DOM-focused card's container for visible focus state
     const focusedCardContainer = activeEl?.closest(
-      ".dynamic-views-masonry, .dynamic-views-grid",
+      ".dynamic-views-masonry, .dynamic-views-grid, .dynamic-views-kanban, .dynamic-views-carousel-track, .dynamic-views-tree",
     ) as (HTMLElement & { _keyboardNavActive?: boolean }) | null;
     const isVisiblyFocused =
       focusedCardContainer?._keyboardNavActive && isCardFocused;
@@ -266,6 +269,7 @@ export function setupHoverKeyboardNavigation(
       }
 
       hoveredCard.focus();
+      if (e.shiftKey) selectCard?.(hoveredCard);
 
       if (container?.isConnected) {
         const allCards = container.querySelectorAll(".card");
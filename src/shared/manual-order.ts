@@ -0,0 +1,156 @@
+/**
+ * Manual (drag-and-drop) ordering
+ * Orders are lists of file paths, persisted per view (BasesUIState for Bases,
+ * DatacoreState for Datacore). Notes missing from the order go at the end in
+ * their current order; deleted notes are pruned whenever the order is saved.
+ */
+
+/** Datacore sortMethod for the persisted manual order */
+export const MANUAL_SORT_METHOD = "manual";
+
+export type DropPosition = "before" | "after";
+
+/** Sort items by their position in a manual order (stable for the rest) */
+export function applyManualOrder<T>(
+  items: T[],
+  getPath: (item: T) => string,
+  order: string[],
+): T[] {
+  if (order.length === 0) return [...items];
+  const indexes = new Map(order.map((path, index) => [path, index]));
+  return items
+    .map((item, index) => ({
+      item,
+      rank: indexes.get(getPath(item)) ?? order.length + index,
+    }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ item }) => item);
+}
+
+/**
+ * Move a path next to a target path
+ * @param paths - Every path in the view, in its current (manual) order, so
+ *   the saved order also prunes deleted notes and appends new ones
+ */
+export function moveInManualOrder(
+  paths: string[],
+  path: string,
+  targetPath: string,
+  position: DropPosition,
+): string[] {
+  if (path === targetPath) return paths;
+  const result = paths.filter((p) => p !== path);
+  const targetIndex = result.indexOf(targetPath);
+  if (targetIndex === -1) return paths;
+  const index = position === "before" ? targetIndex : targetIndex + 1;
+  result.splice(index, 0, path);
+  return result;
+}
+
+/** Single-column layouts (narrow panes) drop above/below, not left/right */
+function isVerticalDrop(cardEl: HTMLElement): boolean {
+  const width = cardEl.getBoundingClientRect().width;
+  return width >= (cardEl.parentElement?.clientWidth ?? 0) / 2;
+}
+
+/** Drop before or after a card, by the pointer's side of its center */
+function getDropPosition(cardEl: HTMLElement, e: DragEvent): DropPosition {
+  const rect = cardEl.getBoundingClientRect();
+  return isVerticalDrop(cardEl)
+    ? e.clientY < rect.top + rect.height / 2
+      ? "before"
+      : "after"
+    : e.clientX < rect.left + rect.width / 2
+      ? "before"
+      : "after";
+}
+
+/**
+ * Reorder cards by dragging them onto other cards
+ * Cards need `draggable` and a `data-path`; callers persist the new order in
+ * onReorder and re-render.
+ */
+export function setupManualReorder(
+  containerEl: HTMLElement,
+  onReorder: (path: string, targetPath: string, position: DropPosition) => void,
+  signal: AbortSignal,
+): void {
+  let draggedPath: string | null = null;
+
+  const getCardEl = (target: EventTarget | null): HTMLElement | null =>
+    target instanceof Element
+      ? target.closest<HTMLElement>(".card[data-path]")
+      : null;
+
+  const clearDropTargets = () => {
+    containerEl
+      .querySelectorAll(".card.is-drop-before, .card.is-drop-after")
+      .forEach((el) =>
+        el.removeClasses([
+          "is-drop-before",
+          "is-drop-after",
+          "is-drop-vertical",
+        ]),
+      );
+  };
+
+  containerEl.addEventListener(
+    "dragstart",
+    (e) => {
+      const cardEl = getCardEl(e.target);
+      const path = cardEl?.dataset.path;
+      if (!cardEl || !path) return;
+      draggedPath = path;
+      cardEl.addClass("is-dragging");
+      // Cards without a drag handler (openFileAction: title) still need a payload
+      if (e.dataTransfer && !e.dataTransfer.types.length) {
+        e.dataTransfer.setData("text/plain", path);
+      }
+    },
+    { signal },
+  );
+
+  containerEl.addEventListener(
+    "dragover",
+    (e) => {
+      if (!draggedPath) return;
+      const cardEl = getCardEl(e.target);
+      if (!cardEl || cardEl.dataset.path === draggedPath) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = "move";
+      const position = getDropPosition(cardEl, e);
+      if (!cardEl.hasClass(`is-drop-${position}`)) {
+        clearDropTargets();
+        cardEl.addClass(`is-drop-${position}`);
+        cardEl.toggleClass("is-drop-vertical", isVerticalDrop(cardEl));
+      }
+    },
+    { signal },
+  );
+
+  containerEl.addEventListener(
+    "drop",
+    (e) => {
+      const path = draggedPath;
+      const cardEl = getCardEl(e.target);
+      const targetPath = cardEl?.dataset.path;
+      clearDropTargets();
+      if (!path || !cardEl || !targetPath || targetPath === path) return;
+      e.preventDefault();
+      onReorder(path, targetPath, getDropPosition(cardEl, e));
+    },
+    { signal },
+  );
+
+  containerEl.addEventListener(
+    "dragend",
+    () => {
+      draggedPath = null;
+      clearDropTargets();
+      containerEl
+        .querySelectorAll(".card.is-dragging")
+        .forEach((el) => el.removeClass("is-dragging"));
+    },
+    { signal },
+  );
+}
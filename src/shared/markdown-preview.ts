@@ -0,0 +1,153 @@
+/**
+ * Rendered-markdown text previews
+ * Renders a card's preview markdown with Obsidian's MarkdownRenderer once the
+ * card nears the viewport. The result is clamped and non-interactive except
+ * for links, which open like links in the editor.
+ */
+
+import { App, Component, Keymap, MarkdownRenderer } from "obsidian";
+import { stripMarkdownSyntax } from "../utils/text-preview";
+
+/** Previews waiting to render, by preview element */
+const pendingRenders = new Map<Element, () => void>();
+/** Renderer lifecycle of each preview element (unloaded on re-render) */
+const previewComponents = new WeakMap<Element, Component>();
+/** Markdown each preview element shows, to skip repeated identical calls */
+const previewSources = new WeakMap<Element, string>();
+let renderObserver: IntersectionObserver | null = null;
+
+function getRenderObserver(): IntersectionObserver {
+  if (!renderObserver) {
+    renderObserver = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) continue;
+          const render = pendingRenders.get(entry.target);
+          pendingRenders.delete(entry.target);
+          renderObserver?.unobserve(entry.target);
+          render?.();
+        }
+      },
+      { rootMargin: "300px" }, // Render a little before scrolling into view
+    );
+  }
+  return renderObserver;
+}
+
+/** Open internal links and keep link clicks from opening the card */
+function handlePreviewClick(app: App, sourcePath: string, e: MouseEvent) {
+  const linkEl = (e.target as HTMLElement | null)?.closest("a");
+  if (!linkEl) return;
+  e.stopPropagation();
+  if (!linkEl.hasClass("internal-link")) return; // External: browser default
+  e.preventDefault();
+  const href = linkEl.dataset.href ?? linkEl.getAttribute("href");
+  if (href) {
+    void app.workspace.openLinkText(
+      href,
+      sourcePath,
+      Keymap.isModEvent(e) || false,
+    );
+  }
+}
+
+/** Page preview on hover over internal links */
+function handlePreviewHover(app: App, sourcePath: string, e: MouseEvent) {
+  const linkEl = (e.target as HTMLElement | null)?.closest("a.internal-link");
+  if (!(linkEl instanceof HTMLElement)) return;
+  app.workspace.trigger("hover-link", {
+    event: e,
+    source: "preview",
+    hoverParent: { hoverPopover: null },
+    targetEl: linkEl,
+    linktext: linkEl.dataset.href ?? linkEl.getAttribute("href") ?? "",
+    sourcePath,
+  });
+}
+
+/** Cancel a preview's pending render and unload its renderer */
+function disposePreview(previewEl: Element): void {
+  pendingRenders.delete(previewEl);
+  renderObserver?.unobserve(previewEl);
+  previewComponents.get(previewEl)?.unload();
+  previewSources.delete(previewEl);
+}
+
+/**
+ * Show markdown in a preview element, rendered once it nears the viewport
+ * Until then the element holds the markdown as plain text, so clamping and
+ * card heights stay close to the rendered result. Calling it again on the
+ * same element with new markdown (in-place content updates) replaces the
+ * previous render; the same markdown again (Datacore re-renders) is a no-op.
+ * @param signal - Once aborted, the preview is disposed when its element has
+ *   left the DOM. Datacore cards pass a new signal on every re-render and
+ *   abort the old one, so a still-attached element keeps its render.
+ */
+export function renderMarkdownPreview(
+  previewEl: HTMLElement,
+  app: App,
+  markdown: string,
+  sourcePath: string,
+  signal?: AbortSignal,
+): void {
+  if (signal?.aborted) return;
+  signal?.addEventListener(
+    "abort",
+    () => {
+      // Unmounting removes the element after the abort, so check next frame
+      requestAnimationFrame(() => {
+        if (!previewEl.isConnected) disposePreview(previewEl);
+      });
+    },
+    { once: true },
+  );
+  if (previewSources.get(previewEl) === markdown) return;
+  previewSources.set(previewEl, markdown);
+  const previous = previewComponents.get(previewEl);
+  previous?.unload();
+  previewEl.addClass("is-rendered-markdown");
+  previewEl.setText(stripMarkdownSyntax(markdown));
+
+  const component = new Component();
+  previewComponents.set(previewEl, component);
+  const render = () => {
+    if (previewComponents.get(previewEl) !== component) return;
+    component.load();
+    previewEl.empty();
+    void MarkdownRenderer.render(
+      app,
+      markdown,
+      previewEl,
+      sourcePath,
+      component,
+    )
+      .then(() => {
+        // Checkboxes and other inputs are display-only in card previews
+        previewEl
+          .querySelectorAll<HTMLInputElement>("input")
+          .forEach((input) => (input.disabled = true));
+      })
+      .catch((error) => {
+        console.error(`Failed to render preview of ${sourcePath}:`, error);
+      });
+  };
+
+  pendingRenders.set(previewEl, render);
+  getRenderObserver().observe(previewEl);
+  if (previous) return; // Listeners are already in place
+
+  // Owned by the element, so they go with it (not with one render's signal)
+  previewEl.addEventListener("click", (e) =>
+    handlePreviewClick(app, sourcePath, e),
+  );
+  previewEl.addEventListener("mouseover", (e) =>
+    handlePreviewHover(app, sourcePath, e),
+  );
+}
+
+/** Drop pending renders and the shared observer (plugin unload) */
+export function cleanupMarkdownPreviews(): void {
+  renderObserver?.disconnect();
+  renderObserver = null;
+  pendingRenders.clear();
+}
@@ -0,0 +1,207 @@
+/**
+ * Inline editing of frontmatter properties on cards
+ * Double-click a text, number, date or list property to swap its value for an
+ * input; Enter (or blur) commits through processFrontMatter, Escape cancels
+ */
+
+import { App, TFile } from "obsidian";
+import { getPropertyWidget, stripNotePrefix } from "../utils/property";
+import { isFileProperty, isFormulaProperty } from "./property-helpers";
+import { normalizeTag } from "./bulk-actions";
+
+/** Property widgets that can be edited inline */
+export type EditableWidget =
+  | "text"
+  | "number"
+  | "date"
+  | "datetime"
+  | "multitext"
+  | "aliases"
+  | "tags";
+
+const EDITABLE_WIDGETS = new Set<string>([
+  "text",
+  "number",
+  "date",
+  "datetime",
+  "multitext",
+  "aliases",
+  "tags",
+]);
+
+/** Marks a property field that opens an editor on double-click */
+export const EDITABLE_PROPERTY_CLASS = "property-editable";
+
+/** Separator between items when a list is edited as text */
+const LIST_SEPARATOR = ", ";
+
+function isListWidget(widget: EditableWidget): boolean {
+  return widget === "multitext" || widget === "aliases" || widget === "tags";
+}
+
+/**
+ * Get the inline editor type for a property
+ * @returns Widget type, or null for computed/file properties and other types
+ */
+export function getEditableWidget(
+  app: App,
+  propertyName: string,
+): EditableWidget | null {
+  if (
+    !propertyName ||
+    isFileProperty(propertyName) ||
+    isFormulaProperty(propertyName)
+  ) {
+    return null;
+  }
+  const widget = getPropertyWidget(app, propertyName);
+  return widget && EDITABLE_WIDGETS.has(widget)
+    ? (widget as EditableWidget)
+    : null;
+}
+
+/** Stringify a scalar frontmatter value (objects as JSON) */
+function stringifyValue(value: unknown): string {
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+/** Convert a raw frontmatter value to the editor's input text */
+export function formatEditorValue(
+  widget: EditableWidget,
+  raw: unknown,
+): string {
+  if (raw === null || raw === undefined) return "";
+  const items: unknown[] = Array.isArray(raw) ? raw : [raw];
+  const text = items
+    .filter((item) => item !== null && item !== undefined)
+    .map(stringifyValue)
+    .join(LIST_SEPARATOR);
+  // Native date inputs only accept ISO date / local datetime strings
+  if (widget === "date") return text.slice(0, 10);
+  if (widget === "datetime") return text.replace(" ", "T").slice(0, 16);
+  return text;
+}
+
+/**
+ * Convert editor input back to a frontmatter value
+ * Empty input clears the value (null)
+ * @returns Parsed value, or undefined when the input is invalid
+ */
+export function parseEditorValue(
+  widget: EditableWidget,
+  input: string,
+): unknown {
+  const trimmed = input.trim();
+  if (isListWidget(widget)) {
+    const items = trimmed
+      .split(",")
+      .map((item) => (widget === "tags" ? normalizeTag(item) : item.trim()))
+      .filter(Boolean);
+    return items.length > 0 ? items : null;
+  }
+  if (trimmed === "") return null;
+  if (widget === "number") {
+    const value = Number(trimmed);
+    return Number.isFinite(value) ? value : undefined;
+  }
+  return trimmed;
+}
+
+/**
+ * Read a committed editor input
+ * Number inputs report unparseable text as an empty value, so check validity
+ * first - otherwise a typo would clear the property.
+ * @returns Parsed value, or undefined when the input is invalid
+ */
+export function readEditorInput(
+  widget: EditableWidget,
+  input: HTMLInputElement,
+): unknown {
+  if (input.validity.badInput) return undefined;
+  return parseEditorValue(widget, input.value);
+}
+
+function getInputType(widget: EditableWidget): string {
+  if (widget === "number") return "number";
+  if (widget === "date") return "date";
+  if (widget === "datetime") return "datetime-local";
+  return "text";
+}
+
+/**
+ * Replace a property's rendered value with an input until committed/cancelled
+ * The card re-renders from the view's data update after a successful write
+ * @param contentEl - Element whose children display the value
+ */
+export function openInlinePropertyEditor(
+  app: App,
+  contentEl: HTMLElement,
+  file: TFile,
+  propertyName: string,
+  widget: EditableWidget,
+): void {
+  if (contentEl.classList.contains("is-editing")) return;
+
+  const fmProp = stripNotePrefix(propertyName);
+  const raw: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.[
+    fmProp
+  ];
+  const initialText = formatEditorValue(widget, raw);
+
+  const originalChildren = Array.from(contentEl.childNodes);
+  const input = document.createElement("input");
+  input.className = "property-inline-editor";
+  input.type = getInputType(widget);
+  input.value = initialText;
+  if (widget === "number") input.step = "any";
+  if (isListWidget(widget)) input.placeholder = "Comma-separated";
+
+  // Text selection and dragging conflict in draggable cards
+  const cardEl = contentEl.closest<HTMLElement>(".card");
+  const wasDraggable = cardEl?.getAttribute("draggable");
+  cardEl?.removeAttribute("draggable");
+
+  contentEl.addClass("is-editing");
+  contentEl.replaceChildren(input);
+  input.focus();
+  input.select();
+
+  let finished = false;
+  const finish = (commit: boolean) => {
+    if (finished) return;
+    finished = true;
+
+    const value = commit ? readEditorInput(widget, input) : undefined;
+    contentEl.removeClass("is-editing");
+    contentEl.replaceChildren(...originalChildren);
+    if (wasDraggable !== null && wasDraggable !== undefined) {
+      cardEl?.setAttribute("draggable", wasDraggable);
+    }
+
+    if (value === undefined || input.value === initialText) return;
+    void app.fileManager
+      .processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+        frontmatter[fmProp] = value;
+      })
+      .catch((error) => {
+        console.error(`Failed to update ${fmProp} in ${file.path}:`, error);
+      });
+  };
+
+  input.addEventListener("keydown", (e) => {
+    // Keep card navigation (Enter opens, arrows move) out of the editor
+    e.stopPropagation();
+    if (e.key === "Enter" || e.key === "Escape") {
+      e.preventDefault();
+      finish(e.key === "Enter");
+      // Return focus to the card so keyboard navigation continues
+      cardEl?.focus({ preventScroll: true });
+    }
+  });
+  input.addEventListener("blur", () => finish(true));
+  // Clicks inside the editor must not open the file or start a selection
+  for (const type of ["click", "dblclick", "mousedown"]) {
+    input.addEventListener(type, (e) => e.stopPropagation());
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Search-term highlighting in cards
+ * Uses the CSS Custom Highlight API, so card text nodes (owned by the
+ * renderer, and rewritten by title truncation) are never split or wrapped.
+ */
+
+/** Name of the registered highlight (styled in styles.css) */
+const SEARCH_HIGHLIGHT = "dynamic-views-search-match";
+
+/** Ranges highlighted in each element, replaced when it's highlighted again */
+const elementRanges = new WeakMap<Element, Range[]>();
+
+function getSearchHighlight(): Highlight | null {
+  if (typeof CSS === "undefined" || !("highlights" in CSS)) return null;
+  let highlight = CSS.highlights.get(SEARCH_HIGHLIGHT);
+  if (!highlight) {
+    highlight = new Highlight();
+    CSS.highlights.set(SEARCH_HIGHLIGHT, highlight);
+  }
+  return highlight;
+}
+
+/**
+ * Highlight lowercase search terms in an element's text
+ * Call again after the element's text changes.
+ * @param signal - Aborting removes the highlights
+ */
+export function highlightSearchTerms(
+  el: HTMLElement,
+  terms: string[] | undefined,
+  signal: AbortSignal,
+): void {
+  const highlight = getSearchHighlight();
+  if (!highlight || signal.aborted) return;
+  for (const range of elementRanges.get(el) ?? []) {
+    highlight.delete(range);
+  }
+  const ranges: Range[] = [];
+  elementRanges.set(el, ranges);
+  if (!terms?.length) return;
+
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = (node.textContent ?? "").toLowerCase();
+    for (const term of terms) {
+      for (
+        let index = text.indexOf(term);
+        index !== -1;
+        index = text.indexOf(term, index + term.length)
+      ) {
+        const range = document.createRange();
+        range.setStart(node, index);
+        range.setEnd(node, index + term.length);
+        highlight.add(range);
+        ranges.push(range);
+      }
+    }
+  }
+
+  signal.addEventListener("abort", () => {
+    for (const range of ranges) highlight.delete(range);
+  });
+}
+
+/** Remove every search highlight (plugin unload) */
+export function cleanupSearchHighlights(): void {
+  if (typeof CSS !== "undefined" && "highlights" in CSS) {
+    CSS.highlights.delete(SEARCH_HIGHLIGHT);
+  }
+}
@@ -8,6 +8,7 @@ import type {
   PluginSettings,
   ViewDefaults,
   BasesResolvedSettings,
+  BasesViewType,
 } from "../types";
 import { VIEW_DEFAULTS, BASES_DEFAULTS } from "../constants";
 
@@ -25,10 +26,10 @@ interface BasesConfig {
  * what new views show in the settings GUI. When a template exists, its values
  * replace the static defaults so new views immediately reflect template settings.
  *
- * @param viewType - "grid" or "masonry" to look up the correct settings template
+ * @param viewType - Bases view type, to look up the correct settings template
  */
 export function getBasesViewOptions(
-  viewType?: "grid" | "masonry",
+  viewType?: BasesViewType,
 ): ViewOption[] {
   // Merge settings template into defaults (if template exists)
   // For new views: config is empty → controls show these defaults = template values
@@ -68,6 +69,8 @@ export function getBasesViewOptions(
       max: 800,
       step: 10,
       default: d.cardSize,
+      // Calendar cards fill their day cell and list rows span the pane
+      shouldHide: () => viewType === "calendar" || viewType === "list",
     },
     {
       type: "group",
@@ -88,7 +91,9 @@ export function getBasesViewOptions(
           max: 5,
           step: 1,
           default: d.titleLines,
+          // List rows keep titles to one line
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             !(config.get("titleProperty") ?? d.titleProperty),
         },
         {
@@ -103,6 +108,7 @@ export function getBasesViewOptions(
     {
       type: "group",
       displayName: "Text preview",
+      shouldHide: () => viewType === "list",
       items: [
         {
           type: "text",
@@ -117,6 +123,15 @@ export function getBasesViewOptions(
           key: "fallbackToContent",
           default: d.fallbackToContent,
         },
+        {
+          type: "text",
+          displayName: "Preview section",
+          key: "textPreviewSection",
+          placeholder: "#Heading, ^block-id or [!callout]",
+          default: d.textPreviewSection,
+          shouldHide: (config: BasesConfig) =>
+            (config.get("fallbackToContent") ?? d.fallbackToContent) === false,
+        },
         {
           type: "slider",
           displayName: "Lines",
@@ -129,11 +144,28 @@ export function getBasesViewOptions(
             !(config.get("textPreviewProperty") ?? d.textPreviewProperty) &&
             (config.get("fallbackToContent") ?? d.fallbackToContent) === false,
         },
+        {
+          type: "dropdown",
+          displayName: "Preview style",
+          key: "textPreviewStyle",
+          options: {
+            plain: "Plain text",
+            rendered: "Rendered markdown",
+          },
+          default: d.textPreviewStyle,
+          shouldHide: (config: BasesConfig) =>
+            !(config.get("textPreviewProperty") ?? d.textPreviewProperty) &&
+            (config.get("fallbackToContent") ?? d.fallbackToContent) === false,
+        },
       ],
     },
     {
       type: "group",
       displayName: "Image",
+      // List rows only show images as optional thumbnails
+      shouldHide: (config: BasesConfig) =>
+        viewType === "list" &&
+        (config.get("listThumbnails") ?? d.listThumbnails) === false,
       items: [
         {
           type: "text",
@@ -165,8 +197,10 @@ export function getBasesViewOptions(
           },
           default: d.imageFormat,
           shouldHide: (config: BasesConfig) =>
-            !(config.get("imageProperty") || d.imageProperty) &&
-            (config.get("fallbackToEmbeds") ?? d.fallbackToEmbeds) === "never",
+            viewType === "list" ||
+            (!(config.get("imageProperty") || d.imageProperty) &&
+              (config.get("fallbackToEmbeds") ?? d.fallbackToEmbeds) ===
+                "never"),
         },
         {
           type: "dropdown",
@@ -179,6 +213,7 @@ export function getBasesViewOptions(
           },
           default: d.thumbnailSize,
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             (config.get("imageFormat") ?? d.imageFormat) !== "thumbnail" ||
             (!(config.get("imageProperty") || d.imageProperty) &&
               (config.get("fallbackToEmbeds") ?? d.fallbackToEmbeds) ===
@@ -196,6 +231,7 @@ export function getBasesViewOptions(
           },
           default: d.imagePosition,
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             (config.get("imageFormat") ?? d.imageFormat) === "poster" ||
             (config.get("imageFormat") ?? d.imageFormat) === "backdrop" ||
             (!(config.get("imageProperty") || d.imageProperty) &&
@@ -212,6 +248,7 @@ export function getBasesViewOptions(
           },
           default: d.imageFit,
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             (config.get("imageFormat") ?? d.imageFormat) === "backdrop" ||
             (!(config.get("imageProperty") || d.imageProperty) &&
               (config.get("fallbackToEmbeds") ?? d.fallbackToEmbeds) ===
@@ -226,11 +263,23 @@ export function getBasesViewOptions(
           step: 0.05,
           default: d.imageRatio,
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             (config.get("imageFormat") ?? d.imageFormat) === "backdrop" ||
             (!(config.get("imageProperty") || d.imageProperty) &&
               (config.get("fallbackToEmbeds") ?? d.fallbackToEmbeds) ===
                 "never"),
         },
+        {
+          type: "toggle",
+          displayName: "Tint from image color",
+          key: "imageTint",
+          default: d.imageTint,
+          shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
+            (!(config.get("imageProperty") || d.imageProperty) &&
+              (config.get("fallbackToEmbeds") ?? d.fallbackToEmbeds) ===
+                "never"),
+        },
       ],
     },
     {
@@ -255,6 +304,7 @@ export function getBasesViewOptions(
           key: "urlProperty",
           placeholder: "Comma-separated if multiple",
           default: d.urlProperty,
+          shouldHide: () => viewType === "list",
         },
         {
           type: "toggle",
@@ -262,6 +312,7 @@ export function getBasesViewOptions(
           key: "showPropertiesAbove",
           default: d.showPropertiesAbove,
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             config.getOrder().length === 0 ||
             (!(config.get("textPreviewProperty") ?? d.textPreviewProperty) &&
               (config.get("fallbackToContent") ?? d.fallbackToContent) ===
@@ -274,6 +325,7 @@ export function getBasesViewOptions(
           placeholder: "Comma-separated if multiple",
           default: d.invertPropertyPosition,
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             config.getOrder().length <= 1 ||
             (!(config.get("textPreviewProperty") ?? d.textPreviewProperty) &&
               (config.get("fallbackToContent") ?? d.fallbackToContent) ===
@@ -284,7 +336,9 @@ export function getBasesViewOptions(
           displayName: "Pair properties",
           key: "pairProperties",
           default: d.pairProperties,
-          shouldHide: (config: BasesConfig) => config.getOrder().length <= 1,
+          // List rows run properties inline, so there is nothing to pair
+          shouldHide: (config: BasesConfig) =>
+            viewType === "list" || config.getOrder().length <= 1,
         },
         {
           type: "dropdown",
@@ -297,6 +351,7 @@ export function getBasesViewOptions(
           },
           default: d.rightPropertyPosition,
           shouldHide: (config: BasesConfig) =>
+            viewType === "list" ||
             config.getOrder().length <= 1 ||
             (config.get("pairProperties") ?? d.pairProperties) === false,
         },
@@ -306,7 +361,172 @@ export function getBasesViewOptions(
           key: "invertPropertyPairing",
           placeholder: "Comma-separated if multiple",
           default: d.invertPropertyPairing,
-          shouldHide: (config: BasesConfig) => config.getOrder().length <= 1,
+          shouldHide: (config: BasesConfig) =>
+            viewType === "list" || config.getOrder().length <= 1,
+        },
+      ],
+    },
+    {
+      type: "group",
+      displayName: "Calendar",
+      shouldHide: () => viewType !== "calendar",
+      items: [
+        {
+          type: "text",
+          displayName: "Date property",
+          key: "calendarDateProperty",
+          placeholder: "Comma-separated if multiple",
+          default: d.calendarDateProperty,
+        },
+        {
+          type: "dropdown",
+          displayName: "Show notes without a date on",
+          key: "calendarDateFallback",
+          options: {
+            ctime: "Created time",
+            mtime: "Modified time",
+            none: "Hide them",
+          },
+          default: d.calendarDateFallback,
+        },
+        {
+          type: "dropdown",
+          displayName: "Range",
+          key: "calendarRange",
+          options: {
+            month: "Month",
+            week: "Week",
+          },
+          default: d.calendarRange,
+        },
+      ],
+    },
+    {
+      type: "group",
+      displayName: "Timeline",
+      shouldHide: () => viewType !== "timeline",
+      items: [
+        {
+          type: "text",
+          displayName: "Date property",
+          key: "timelineDateProperty",
+          placeholder: "Created time if empty",
+          default: d.timelineDateProperty,
+        },
+        {
+          type: "dropdown",
+          displayName: "Orientation",
+          key: "timelineOrientation",
+          options: {
+            horizontal: "Horizontal",
+            vertical: "Vertical",
+          },
+          default: d.timelineOrientation,
+        },
+        {
+          type: "dropdown",
+          displayName: "Zoom",
+          key: "timelineZoom",
+          options: {
+            day: "Days",
+            week: "Weeks",
+            month: "Months",
+            year: "Years",
+          },
+          default: d.timelineZoom,
+        },
+      ],
+    },
+    {
+      type: "group",
+      displayName: "Sort",
+      // Card views reorder by dragging cards
+      shouldHide: () =>
+        viewType !== undefined && viewType !== "grid" && viewType !== "masonry",
+      items: [
+        {
+          type: "toggle",
+          displayName: "Manual order",
+          key: "manualOrder",
+          default: d.manualOrder,
+        },
+      ],
+    },
+    {
+      type: "group",
+      displayName: "Subgroups",
+      // Only views with stacked group headers nest groups
+      shouldHide: () =>
+        viewType !== undefined &&
+        viewType !== "grid" &&
+        viewType !== "masonry" &&
+        viewType !== "list",
+      items: [
+        {
+          type: "text",
+          displayName: "Then group by",
+          key: "secondaryGroupBy",
+          placeholder: "Property within each group",
+          default: d.secondaryGroupBy,
+        },
+        {
+          type: "text",
+          displayName: "Then group by (third level)",
+          key: "tertiaryGroupBy",
+          placeholder: "Property within each subgroup",
+          default: d.tertiaryGroupBy,
+          shouldHide: (config: BasesConfig) =>
+            !(config.get("secondaryGroupBy") ?? d.secondaryGroupBy),
+        },
+      ],
+    },
+    {
+      type: "group",
+      displayName: "Summaries",
+      // Views with group headers or a results feed
+      shouldHide: () =>
+        viewType === "calendar" ||
+        viewType === "timeline" ||
+        viewType === "tree",
+      items: [
+        {
+          type: "text",
+          displayName: "Group summaries",
+          key: "groupSummaries",
+          placeholder: "sum: cost, latest: due",
+          default: d.groupSummaries,
+        },
+        {
+          type: "toggle",
+          displayName: "Show totals footer",
+          key: "summaryFooter",
+          default: d.summaryFooter,
+          // Only single-feed views have an end to put the footer at
+          shouldHide: () => viewType === "kanban" || viewType === "carousel",
+        },
+      ],
+    },
+    {
+      type: "group",
+      displayName: "List",
+      shouldHide: () => viewType !== "list",
+      items: [
+        {
+          type: "dropdown",
+          displayName: "Marker",
+          key: "listMarker",
+          options: {
+            bullet: "Bullet",
+            number: "Number",
+            none: "None",
+          },
+          default: d.listMarker,
+        },
+        {
+          type: "toggle",
+          displayName: "Show thumbnails",
+          key: "listThumbnails",
+          default: d.listThumbnails,
         },
       ],
     },
@@ -314,6 +534,17 @@ export function getBasesViewOptions(
       type: "group",
       displayName: "Other",
       items: [
+        {
+          type: "dropdown",
+          displayName: "Layout",
+          key: "masonryLayout",
+          options: {
+            columns: "Columns",
+            justified: "Justified rows",
+          },
+          default: d.masonryLayout,
+          shouldHide: () => viewType !== "masonry",
+        },
         {
           type: "dropdown",
           displayName: "Minimum columns",
@@ -323,6 +554,20 @@ export function getBasesViewOptions(
             two: "Two",
           },
           default: viewType === "masonry" ? "two" : "one",
+          // Kanban columns come from groups, calendar columns are weekdays,
+          // timeline cards follow the time axis, list rows span the pane,
+          // carousel rows scroll sideways, tree folders fill cards by card
+          // size, justified rows card size
+          shouldHide: (config: BasesConfig) =>
+            viewType === "kanban" ||
+            viewType === "calendar" ||
+            viewType === "timeline" ||
+            viewType === "list" ||
+            viewType === "carousel" ||
+            viewType === "tree" ||
+            (viewType === "masonry" &&
+              (config.get("masonryLayout") ?? d.masonryLayout) ===
+                "justified"),
         },
         {
           type: "text",
@@ -352,6 +597,48 @@ export function getMasonryViewOptions(): ViewOption[] {
   return getBasesViewOptions("masonry");
 }
 
+/**
+ * Options for kanban view (card size sets column width)
+ */
+export function getKanbanViewOptions(): ViewOption[] {
+  return getBasesViewOptions("kanban");
+}
+
+/**
+ * Options for calendar view (date property, fallback and range)
+ */
+export function getCalendarViewOptions(): ViewOption[] {
+  return getBasesViewOptions("calendar");
+}
+
+/**
+ * Options for timeline view (date property, orientation and zoom)
+ */
+export function getTimelineViewOptions(): ViewOption[] {
+  return getBasesViewOptions("timeline");
+}
+
+/**
+ * Options for list view (marker and thumbnails)
+ */
+export function getListViewOptions(): ViewOption[] {
+  return getBasesViewOptions("list");
+}
+
+/**
+ * Options for carousel view (card size sets card width)
+ */
+export function getCarouselViewOptions(): ViewOption[] {
+  return getBasesViewOptions("carousel");
+}
+
+/**
+ * Options for folder tree view (card size sets the folder grid's card width)
+ */
+export function getTreeViewOptions(): ViewOption[] {
+  return getBasesViewOptions("tree");
+}
+
 /**
  * Read settings from Bases config
  * Maps Bases config values to BasesResolvedSettings by merging:
@@ -364,7 +651,7 @@ export function getMasonryViewOptions(): ViewOption[] {
 export function readBasesSettings(
   config: BasesConfig,
   pluginSettings: PluginSettings,
-  viewType?: "grid" | "masonry",
+  viewType?: BasesViewType,
   previousSettings?: Partial<BasesResolvedSettings>,
 ): BasesResolvedSettings {
   const defaults = { ...VIEW_DEFAULTS, ...BASES_DEFAULTS };
@@ -406,6 +693,12 @@ export function readBasesSettings(
     ),
     fallbackToContent: getBool("fallbackToContent", defaults.fallbackToContent),
     textPreviewLines: getNumber("textPreviewLines", defaults.textPreviewLines),
+    textPreviewStyle:
+      config.get("textPreviewStyle") === "rendered" ? "rendered" : "plain",
+    textPreviewSection: getString(
+      "textPreviewSection",
+      defaults.textPreviewSection,
+    ),
     imageProperty: getString("imageProperty", defaults.imageProperty),
     fallbackToEmbeds: (() => {
       const value = config.get("fallbackToEmbeds");
@@ -453,6 +746,7 @@ export function readBasesSettings(
         : defaults.imageFit;
     })(),
     imageRatio: getNumber("imageRatio", defaults.imageRatio),
+    imageTint: getBool("imageTint", defaults.imageTint),
     propertyLabels: (() => {
       const value = config.get("propertyLabels");
       if (value === "hide" || value === "inline" || value === "above") {
@@ -484,6 +778,12 @@ export function readBasesSettings(
       defaults.invertPropertyPosition,
     ),
     urlProperty: getString("urlProperty", defaults.urlProperty),
+    masonryLayout: (() => {
+      const value = config.get("masonryLayout");
+      return value === "columns" || value === "justified"
+        ? value
+        : defaults.masonryLayout;
+    })(),
     minimumColumns: (() => {
       const value = config.get("minimumColumns");
       if (value === "one") return 1;
@@ -492,6 +792,56 @@ export function readBasesSettings(
       return fallback;
     })(),
     cssclasses: getString("cssclasses", defaults.cssclasses),
+    calendarDateProperty: getString(
+      "calendarDateProperty",
+      defaults.calendarDateProperty,
+    ),
+    calendarDateFallback: (() => {
+      const value = config.get("calendarDateFallback");
+      return value === "ctime" || value === "mtime" || value === "none"
+        ? value
+        : defaults.calendarDateFallback;
+    })(),
+    calendarRange: (() => {
+      const value = config.get("calendarRange");
+      return value === "month" || value === "week"
+        ? value
+        : defaults.calendarRange;
+    })(),
+    timelineDateProperty: getString(
+      "timelineDateProperty",
+      defaults.timelineDateProperty,
+    ),
+    timelineOrientation: (() => {
+      const value = config.get("timelineOrientation");
+      return value === "horizontal" || value === "vertical"
+        ? value
+        : defaults.timelineOrientation;
+    })(),
+    timelineZoom: (() => {
+      const value = config.get("timelineZoom");
+      return value === "day" ||
+        value === "week" ||
+        value === "month" ||
+        value === "year"
+        ? value
+        : defaults.timelineZoom;
+    })(),
+    listMarker: (() => {
+      const value = config.get("listMarker");
+      return value === "bullet" || value === "number" || value === "none"
+        ? value
+        : defaults.listMarker;
+    })(),
+    listThumbnails: getBool("listThumbnails", defaults.listThumbnails),
+    secondaryGroupBy: getString(
+      "secondaryGroupBy",
+      defaults.secondaryGroupBy,
+    ),
+    tertiaryGroupBy: getString("tertiaryGroupBy", defaults.tertiaryGroupBy),
+    groupSummaries: getString("groupSummaries", defaults.groupSummaries),
+    summaryFooter: getBool("summaryFooter", defaults.summaryFooter),
+    manualOrder: getBool("manualOrder", defaults.manualOrder),
   };
 
   // Merge: pluginSettings + config-derived ViewDefaults
@@ -546,6 +896,12 @@ export function extractBasesTemplate(
     ),
     fallbackToContent: getBool("fallbackToContent", defaults.fallbackToContent),
     textPreviewLines: getNumber("textPreviewLines", defaults.textPreviewLines),
+    textPreviewStyle:
+      config.get("textPreviewStyle") === "rendered" ? "rendered" : "plain",
+    textPreviewSection: getString(
+      "textPreviewSection",
+      defaults.textPreviewSection,
+    ),
     imageProperty: getString("imageProperty", defaults.imageProperty),
     fallbackToEmbeds: (() => {
       const value = config.get("fallbackToEmbeds");
@@ -586,6 +942,7 @@ export function extractBasesTemplate(
         : defaults.imageFit;
     })(),
     imageRatio: getNumber("imageRatio", defaults.imageRatio),
+    imageTint: getBool("imageTint", defaults.imageTint),
     propertyLabels: (() => {
       const value = config.get("propertyLabels");
       return value === "hide" || value === "inline" || value === "above"
@@ -612,6 +969,12 @@ export function extractBasesTemplate(
       defaults.invertPropertyPosition,
     ),
     urlProperty: getString("urlProperty", defaults.urlProperty),
+    masonryLayout: (() => {
+      const value = config.get("masonryLayout");
+      return value === "columns" || value === "justified"
+        ? value
+        : defaults.masonryLayout;
+    })(),
     minimumColumns: (() => {
       const value = config.get("minimumColumns");
       if (value === "one") return 1;
@@ -619,6 +982,56 @@ export function extractBasesTemplate(
       return defaults.minimumColumns;
     })(),
     cssclasses: getString("cssclasses", defaults.cssclasses),
+    calendarDateProperty: getString(
+      "calendarDateProperty",
+      defaults.calendarDateProperty,
+    ),
+    calendarDateFallback: (() => {
+      const value = config.get("calendarDateFallback");
+      return value === "ctime" || value === "mtime" || value === "none"
+        ? value
+        : defaults.calendarDateFallback;
+    })(),
+    calendarRange: (() => {
+      const value = config.get("calendarRange");
+      return value === "month" || value === "week"
+        ? value
+        : defaults.calendarRange;
+    })(),
+    timelineDateProperty: getString(
+      "timelineDateProperty",
+      defaults.timelineDateProperty,
+    ),
+    timelineOrientation: (() => {
+      const value = config.get("timelineOrientation");
+      return value === "horizontal" || value === "vertical"
+        ? value
+        : defaults.timelineOrientation;
+    })(),
+    timelineZoom: (() => {
+      const value = config.get("timelineZoom");
+      return value === "day" ||
+        value === "week" ||
+        value === "month" ||
+        value === "year"
+        ? value
+        : defaults.timelineZoom;
+    })(),
+    listMarker: (() => {
+      const value = config.get("listMarker");
+      return value === "bullet" || value === "number" || value === "none"
+        ? value
+        : defaults.listMarker;
+    })(),
+    listThumbnails: getBool("listThumbnails", defaults.listThumbnails),
+    secondaryGroupBy: getString(
+      "secondaryGroupBy",
+      defaults.secondaryGroupBy,
+    ),
+    tertiaryGroupBy: getString("tertiaryGroupBy", defaults.tertiaryGroupBy),
+    groupSummaries: getString("groupSummaries", defaults.groupSummaries),
+    summaryFooter: getBool("summaryFooter", defaults.summaryFooter),
+    manualOrder: getBool("manualOrder", defaults.manualOrder),
   };
 
   // Filter to only non-default values (sparse)
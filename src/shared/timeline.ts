@@ -0,0 +1,129 @@
+/**
+ * Timeline layout helpers
+ * Pure ordering and spacing shared by the Bases and Datacore timeline views.
+ * Entries run oldest to newest; the space before each one grows with the time
+ * since the previous entry, and sections start at each month or year.
+ */
+
+import { TIMELINE_MAX_GAP, TIMELINE_UNIT_SIZE } from "./constants";
+
+export type TimelineZoom = "day" | "week" | "month" | "year";
+
+export type TimelineOrientation = "horizontal" | "vertical";
+
+export const TIMELINE_ZOOM_LEVELS: TimelineZoom[] = [
+  "day",
+  "week",
+  "month",
+  "year",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Length of one zoom unit (months and years use their average length) */
+const ZOOM_UNIT_MS: Record<TimelineZoom, number> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30.436875 * DAY_MS,
+  year: 365.2425 * DAY_MS,
+};
+
+export interface TimelineEntry<T> {
+  item: T;
+  timestamp: number;
+  /** Pixels before this entry, from the time since the previous one */
+  gap: number;
+}
+
+/** Entries sharing a sticky marker (a month, or a year when zoomed out) */
+export interface TimelineSection<T> {
+  /** "2025-06" for months, "2025" for years */
+  key: string;
+  label: string;
+  entries: TimelineEntry<T>[];
+}
+
+/**
+ * Space before an entry
+ * One zoom unit of elapsed time is TIMELINE_UNIT_SIZE pixels, capped at
+ * TIMELINE_MAX_GAP so long quiet stretches stay scrollable.
+ */
+export function getTimelineGap(elapsed: number, zoom: TimelineZoom): number {
+  if (!(elapsed > 0)) return 0;
+  return Math.min(
+    Math.round((elapsed / ZOOM_UNIT_MS[zoom]) * TIMELINE_UNIT_SIZE),
+    TIMELINE_MAX_GAP,
+  );
+}
+
+/** Marker for a timestamp: its month at day/week zoom, else its year */
+export function getTimelineMarker(
+  timestamp: number,
+  zoom: TimelineZoom,
+): { key: string; label: string } {
+  const date = new Date(timestamp);
+  const year = String(date.getFullYear());
+  if (zoom === "month" || zoom === "year") return { key: year, label: year };
+  return {
+    key: `${year}-${String(date.getMonth() + 1).padStart(2, "0")}`,
+    label: date.toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    }),
+  };
+}
+
+/** Date shown on an entry ("Jun 3", plus the year when zoomed to years) */
+export function formatTimelineDate(
+  timestamp: number,
+  zoom: TimelineZoom,
+): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: zoom === "year" ? "numeric" : undefined,
+  });
+}
+
+/**
+ * Items oldest first, with their timestamps
+ * Items without a timestamp are left out; items at the same time keep their
+ * input order.
+ */
+export function orderByTime<T>(
+  items: T[],
+  getTimestamp: (item: T) => number | null,
+): { item: T; timestamp: number }[] {
+  const dated: { item: T; timestamp: number }[] = [];
+  for (const item of items) {
+    const timestamp = getTimestamp(item);
+    if (timestamp === null || !Number.isFinite(timestamp)) continue;
+    dated.push({ item, timestamp });
+  }
+  return dated.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Order items by time and split them into marker sections */
+export function buildTimeline<T>(
+  items: T[],
+  getTimestamp: (item: T) => number | null,
+  zoom: TimelineZoom,
+): TimelineSection<T>[] {
+  const sections: TimelineSection<T>[] = [];
+  let previous: number | null = null;
+  for (const { item, timestamp } of orderByTime(items, getTimestamp)) {
+    const marker = getTimelineMarker(timestamp, zoom);
+    let section = sections[sections.length - 1];
+    if (!section || section.key !== marker.key) {
+      section = { ...marker, entries: [] };
+      sections.push(section);
+    }
+    section.entries.push({
+      item,
+      timestamp,
+      gap: previous === null ? 0 : getTimelineGap(timestamp - previous, zoom),
+    });
+    previous = timestamp;
+  }
+  return sections;
+}
@@ -31,6 +31,10 @@ export interface ViewDefaults {
   textPreviewProperty: string;
   fallbackToContent: boolean;
   textPreviewLines: number;
+  /** "rendered" shows the opening section as markdown, not stripped text */
+  textPreviewStyle: "plain" | "rendered";
+  /** Part of the note to preview: "#Heading", "^block-id" or "[!type]" */
+  textPreviewSection: string;
   // Image
   imageProperty: string;
   fallbackToEmbeds: "always" | "if-unavailable" | "never";
@@ -39,6 +43,7 @@ export interface ViewDefaults {
   imagePosition: "left" | "right" | "top" | "bottom";
   imageFit: "crop" | "contain";
   imageRatio: number;
+  imageTint: boolean;
   // Properties
   propertyLabels: "hide" | "inline" | "above";
   pairProperties: boolean;
@@ -48,13 +53,33 @@ export interface ViewDefaults {
   invertPropertyPosition: string;
   urlProperty: string;
   // Other
+  masonryLayout: "columns" | "justified";
   minimumColumns: 1 | 2;
   cssclasses: string;
+  // Calendar
+  calendarDateProperty: string;
+  calendarDateFallback: "ctime" | "mtime" | "none";
+  calendarRange: "month" | "week";
+  // Timeline
+  timelineDateProperty: string;
+  timelineOrientation: "horizontal" | "vertical";
+  timelineZoom: "day" | "week" | "month" | "year";
+  // List
+  listMarker: "bullet" | "number" | "none";
+  listThumbnails: boolean;
+  // Grouping (Bases subgroups under groupBy)
+  secondaryGroupBy: string;
+  tertiaryGroupBy: string;
+  // Sorting (Bases manual order, overrides the Bases sort)
+  manualOrder: boolean;
+  // Summaries (Bases group headers and totals footer)
+  /** Comma-separated "function: property" pairs, e.g. "sum: cost" */
+  groupSummaries: string;
+  summaryFooter: boolean;
 }
 
 /** Datacore-only defaults */
 export interface DatacoreDefaults {
-  listMarker: string;
   queryHeight: number;
   /** PLACEHOLDER: Forces pairing for hard-coded tags+mtime until rework */
   pairProperties: boolean;
@@ -82,16 +107,43 @@ export type BasesResolvedSettings = PluginSettings &
 /** Bases-only UI state (persisted per .base file by ctime) */
 export interface BasesUIState {
   collapsedGroups: string[];
+  /** Folder tree view: collapsed folder paths */
+  collapsedFolders?: string[];
+  /** Manual sort: file paths in drag-and-drop order */
+  manualOrder?: string[];
+  /** Pinned card paths, rendered first in pin order */
+  pinnedPaths?: string[];
+}
+
+/** Named search, sort, result limit and view mode of a Datacore query */
+export interface DatacorePreset {
+  name: string;
+  searchQuery: string;
+  sortMethod: string;
+  thenSortBy: string[];
+  resultLimit: string;
+  viewMode: string;
 }
 
 /** Datacore-only state: UI + view settings (persisted per query by ctime:queryId) */
 export interface DatacoreState {
   // UI state
   sortMethod: string;
+  /** Secondary and tertiary sort keys, same format as sortMethod */
+  thenSortBy: string[];
   viewMode: string;
   searchQuery: string;
   resultLimit: string;
   widthMode: string;
+  /** "" (none), "folder", "tag", "ctime", "mtime" or "property:<name>" */
+  groupBy: string;
+  collapsedGroups: string[];
+  /** File paths in drag-and-drop order (sortMethod "manual") */
+  manualOrder: string[];
+  /** Pinned card paths, rendered first in pin order */
+  pinnedPaths: string[];
+  /** Saved presets, switched from the toolbar */
+  presets: DatacorePreset[];
   // View settings (previously in viewSettings)
   settings?: Partial<ViewDefaults & DatacoreDefaults>;
 }
@@ -111,15 +163,34 @@ export interface Flags {
   tipPosterFormat: boolean;
 }
 
+/** Bases views registered by the plugin (as `dynamic-views-<type>`) */
+export type BasesViewType =
+  | "grid"
+  | "masonry"
+  | "kanban"
+  | "calendar"
+  | "timeline"
+  | "list"
+  | "carousel"
+  | "tree";
+
+/** Views that can save a settings template */
+export type TemplateViewType = BasesViewType | "datacore";
+
 export interface PluginData {
   pluginSettings: Partial<PluginSettings>;
-  templates: Partial<Record<"grid" | "masonry" | "datacore", SettingsTemplate>>;
-  basesStates: Record<string, BasesUIState>; // Bases only: { collapsedGroups }
+  templates: Partial<Record<TemplateViewType, SettingsTemplate>>;
+  basesStates: Record<string, BasesUIState>; // Bases only: { collapsedGroups, collapsedFolders }
   datacoreStates: Record<string, DatacoreState>; // Datacore only: UI + settings
   flags: Partial<Flags>;
 }
 
-export type ViewMode = "grid" | "masonry" | "list";
+export type ViewMode =
+  | "grid"
+  | "masonry"
+  | "list"
+  | "calendar"
+  | "timeline";
 export type WidthMode = "normal" | "wide" | "max";
 
 // ============================================================================
@@ -161,8 +232,12 @@ export interface SortState {
   lastMethod: string | null;
 }
 
-/** Keyboard focus state */
+/** Keyboard focus and multi-select state */
 export interface FocusState {
   cardIndex: number;
   hoveredEl: HTMLElement | null;
+  /** Paths of multi-selected cards */
+  selectedPaths: Set<string>;
+  /** Path range selection extends from (last clicked/toggled card) */
+  selectionAnchor: string | null;
 }
@@ -1,3 +1,6 @@
+/** Images are scaled to this square before averaging - enough for a tint */
+const COLOR_SAMPLE_SIZE = 50;
+
 /**
  * Extract the average color from an image element
  * @param img - HTMLImageElement to analyze
@@ -11,22 +14,40 @@ export function extractAverageColor(img: HTMLImageElement): string {
     return "rgb(128, 128, 128)"; // Fallback gray
   }
 
-  // Use small canvas for performance - 50x50 is enough for average color
-  const targetSize = 50;
-  canvas.width = targetSize;
-  canvas.height = targetSize;
+  // Use small canvas for performance
+  canvas.width = COLOR_SAMPLE_SIZE;
+  canvas.height = COLOR_SAMPLE_SIZE;
 
   // Draw image scaled down
-  ctx.drawImage(img, 0, 0, targetSize, targetSize);
+  ctx.drawImage(img, 0, 0, COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE);
+
+  return averagePixelColor(
+    ctx.getImageData(0, 0, COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE).data,
+  );
+}
 
-  // Get pixel data
-  const imageData = ctx.getImageData(0, 0, targetSize, targetSize);
-  const data = imageData.data;
+/**
+ * Average color of a decoded image, off the DOM (thumbnail generation)
+ * @returns RGB color string, or undefined without a 2D context
+ */
+export function extractOffscreenColor(
+  source: CanvasImageSource,
+): string | undefined {
+  const canvas = new OffscreenCanvas(COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return undefined;
+  ctx.drawImage(source, 0, 0, COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE);
+  return averagePixelColor(
+    ctx.getImageData(0, 0, COLOR_SAMPLE_SIZE, COLOR_SAMPLE_SIZE).data,
+  );
+}
 
+/** Average RGB of RGBA pixel data, ignoring alpha */
+function averagePixelColor(data: Uint8ClampedArray): string {
   let r = 0,
     g = 0,
     b = 0;
-  const pixelCount = targetSize * targetSize;
+  const pixelCount = data.length / 4;
 
   // Sum all RGB values
   for (let i = 0; i < data.length; i += 4) {
@@ -1,5 +1,10 @@
 import { App, TFile } from "obsidian";
 import { getSlideshowMaxImages } from "./style-settings";
+import {
+  getPersistedEmbedSources,
+  setPersistedEmbedSources,
+} from "./persistent-cache";
+import { registerVaultImage } from "./thumbnail-cache";
 
 /**
  * Maximum content size to parse for image extraction (100KB)
@@ -123,6 +128,7 @@ export function resolveInternalImagePaths(
     );
     if (imageFile && VALID_IMAGE_EXTENSIONS.includes(imageFile.extension)) {
       const resourcePath = app.vault.getResourcePath(imageFile);
+      registerVaultImage(resourcePath, imageFile);
       resourcePaths.push(resourcePath);
     }
   }
@@ -501,9 +507,32 @@ export async function extractImageEmbeds(
     includeCardLink?: boolean;
   },
 ): Promise<string[]> {
-  const includeYoutube = options?.includeYoutube ?? true;
   const includeCardLink = options?.includeCardLink ?? true;
-  const maxImages = getSlideshowMaxImages();
+  // Reuse persisted sources while the file is unchanged (skips the read)
+  const variant = String(includeCardLink);
+  let sources = getPersistedEmbedSources(file, variant);
+  if (!sources) {
+    sources = await extractImageEmbedSources(file, app, { includeCardLink });
+    setPersistedEmbedSources(file, variant, sources);
+  }
+  return resolveImageEmbedSources(sources, file, app, {
+    includeYoutube: options?.includeYoutube,
+  });
+}
+
+/**
+ * Read a file and collect its raw embed sources (link paths and URLs)
+ * This is the file-reading half of extractImageEmbeds; the result only
+ * changes when the file does, so it can be cached by path + mtime
+ *
+ * @returns Unique embed sources in document order, unresolved
+ */
+export async function extractImageEmbedSources(
+  file: TFile,
+  app: App,
+  options?: { includeCardLink?: boolean },
+): Promise<string[]> {
+  const includeCardLink = options?.includeCardLink ?? true;
 
   // Read and truncate content at line boundary to avoid splitting wikilinks
   let content = await app.vault.cachedRead(file);
@@ -630,14 +659,30 @@ export async function extractImageEmbeds(
     return true;
   });
 
-  // Process embeds and resolve to URLs
+  return uniqueEmbeds.map((e) => e.path);
+}
+
+/**
+ * Resolve raw embed sources to image URLs (no file reads)
+ * Internal links resolve to resource paths; YouTube links to thumbnails
+ *
+ * @param sources - Embed sources from extractImageEmbedSources
+ * @param file - File the sources were read from (link resolution context)
+ * @returns Array of validated image resource URLs, capped at slideshow max
+ */
+export async function resolveImageEmbedSources(
+  sources: string[],
+  file: TFile,
+  app: App,
+  options?: { includeYoutube?: boolean },
+): Promise<string[]> {
+  const includeYoutube = options?.includeYoutube ?? true;
+  const maxImages = getSlideshowMaxImages();
   const resultUrls: string[] = [];
 
-  for (const embed of uniqueEmbeds) {
+  for (const path of sources) {
     if (resultUrls.length >= maxImages) break;
 
-    const path = embed.path;
-
     if (isExternalUrl(path)) {
       // Check for YouTube - skip if it's a YouTube URL (video page, not image)
       const videoId = getYouTubeVideoId(path);
@@ -661,6 +706,7 @@ export async function extractImageEmbeds(
       );
       if (targetFile && VALID_IMAGE_EXTENSIONS.includes(targetFile.extension)) {
         const resourcePath = app.vault.getResourcePath(targetFile);
+        registerVaultImage(resourcePath, targetFile);
         resultUrls.push(resourcePath);
       }
     }
@@ -327,3 +327,226 @@ export function calculateIncrementalMasonryLayout(
     columns,
   };
 }
+
+export interface JustifiedPosition {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface JustifiedLayoutParams {
+  aspectRatios: number[]; // Cover height / width per card (image-loader convention)
+  containerWidth: number;
+  targetRowHeight: number;
+  gap: number;
+}
+
+export interface IncrementalJustifiedParams {
+  previous: JustifiedLayoutResult;
+  aspectRatios: number[]; // Cards from previous.lastRowStart onward (trailing row + new)
+  containerWidth: number;
+  targetRowHeight: number;
+  gap: number;
+}
+
+export interface JustifiedLayoutResult {
+  positions: JustifiedPosition[];
+  containerHeight: number;
+  containerWidth: number;
+  lastRowStart: number; // Index of first card in the trailing (unfilled) row
+  lastRowTop: number;
+}
+
+/**
+ * Pack cards into rows starting at `startTop`
+ * Full rows are scaled so widths fill the container exactly; the trailing
+ * row keeps the target height and stays left-aligned until more cards arrive
+ */
+function packJustifiedRows(
+  aspectRatios: number[],
+  containerWidth: number,
+  targetRowHeight: number,
+  gap: number,
+  startTop: number,
+): {
+  positions: JustifiedPosition[];
+  bottom: number;
+  lastRowStart: number;
+  lastRowTop: number;
+} {
+  const positions: JustifiedPosition[] = [];
+  let top = startTop;
+  let rowStart = 0;
+  // Sum of width/height over the current row (width per unit of row height)
+  let rowWidthFactor = 0;
+
+  const placeRow = (start: number, end: number, height: number) => {
+    let left = 0;
+    for (let i = start; i < end; i++) {
+      const width = height / aspectRatios[i];
+      positions.push({ left, top, width, height });
+      left += width + gap;
+    }
+  };
+
+  for (let i = 0; i < aspectRatios.length; i++) {
+    rowWidthFactor += 1 / aspectRatios[i];
+    const count = i - rowStart + 1;
+    const rowWidth = rowWidthFactor * targetRowHeight + gap * (count - 1);
+    if (rowWidth < containerWidth) continue;
+
+    // Row is full - shrink height so it fills the width exactly
+    const height = Math.max(
+      0,
+      (containerWidth - gap * (count - 1)) / rowWidthFactor,
+    );
+    placeRow(rowStart, i + 1, height);
+    top += height + gap;
+    rowStart = i + 1;
+    rowWidthFactor = 0;
+  }
+
+  const lastRowTop = top;
+  if (rowStart < aspectRatios.length) {
+    placeRow(rowStart, aspectRatios.length, targetRowHeight);
+    top += targetRowHeight + gap;
+  }
+
+  return {
+    positions,
+    bottom: top,
+    lastRowStart: rowStart,
+    lastRowTop,
+  };
+}
+
+/** Clamp aspect ratios to positive finite values so widths stay finite */
+function sanitizeAspectRatios(aspectRatios: number[]): number[] {
+  return aspectRatios.map((ratio) =>
+    Number.isFinite(ratio) && ratio > 0 ? ratio : 1,
+  );
+}
+
+/**
+ * Calculate justified-rows layout (photo gallery style)
+ * Each card's width follows its aspect ratio; all cards in a row share a height
+ */
+export function calculateJustifiedLayout(
+  params: JustifiedLayoutParams,
+): JustifiedLayoutResult {
+  // Validate inputs - clamp negative values to 0
+  const containerWidth = Math.max(0, params.containerWidth);
+  const targetRowHeight = Math.max(1, params.targetRowHeight);
+  const gap = Math.max(0, params.gap);
+  const aspectRatios = sanitizeAspectRatios(params.aspectRatios);
+
+  logMasonry("justified", "FULL LAYOUT START", {
+    cardCount: aspectRatios.length,
+    containerWidth,
+    targetRowHeight,
+    gap,
+  });
+
+  const packed = packJustifiedRows(
+    aspectRatios,
+    containerWidth,
+    targetRowHeight,
+    gap,
+    0,
+  );
+
+  // Subtract trailing gap after last row
+  const containerHeight = Math.round(
+    packed.bottom > 0 ? packed.bottom - gap : 0,
+  );
+
+  logMasonry("justified", "FULL LAYOUT END", {
+    containerHeight,
+    lastRowStart: packed.lastRowStart,
+  });
+
+  return {
+    positions: packed.positions,
+    containerHeight,
+    containerWidth,
+    lastRowStart: packed.lastRowStart,
+    lastRowTop: packed.lastRowTop,
+  };
+}
+
+/**
+ * Calculate incremental justified layout for newly appended cards
+ * Completed rows don't move; only the trailing row is re-flowed with the new cards.
+ * Returned positions cover every card (previous ones unchanged)
+ */
+export function calculateIncrementalJustifiedLayout(
+  params: IncrementalJustifiedParams,
+): JustifiedLayoutResult {
+  const { previous } = params;
+  const containerWidth = Math.max(0, params.containerWidth);
+  const targetRowHeight = Math.max(1, params.targetRowHeight);
+  const gap = Math.max(0, params.gap);
+  const aspectRatios = sanitizeAspectRatios(params.aspectRatios);
+
+  logMasonry("justified-incr", "INCREMENTAL LAYOUT START", {
+    reflowCount: aspectRatios.length,
+    lastRowStart: previous.lastRowStart,
+    lastRowTop: Math.round(previous.lastRowTop),
+  });
+
+  const packed = packJustifiedRows(
+    aspectRatios,
+    containerWidth,
+    targetRowHeight,
+    gap,
+    previous.lastRowTop,
+  );
+
+  const positions = [
+    ...previous.positions.slice(0, previous.lastRowStart),
+    ...packed.positions,
+  ];
+  const containerHeight = Math.round(
+    packed.bottom > 0 ? packed.bottom - gap : 0,
+  );
+
+  logMasonry("justified-incr", "INCREMENTAL LAYOUT END", {
+    containerHeight,
+    lastRowStart: previous.lastRowStart + packed.lastRowStart,
+  });
+
+  return {
+    positions,
+    containerHeight,
+    containerWidth,
+    lastRowStart: previous.lastRowStart + packed.lastRowStart,
+    lastRowTop: packed.lastRowTop,
+  };
+}
+
+/**
+ * Apply justified layout directly to DOM elements
+ * Card height is fixed to the row height so no measurement pass is needed
+ */
+export function applyJustifiedLayout(
+  container: HTMLElement,
+  cards: HTMLElement[],
+  result: JustifiedLayoutResult,
+): void {
+  container.classList.add("masonry-container");
+  container.style.setProperty(
+    "--masonry-height",
+    `${result.containerHeight}px`,
+  );
+
+  cards.forEach((card, index) => {
+    const pos = result.positions[index];
+    if (!pos) return;
+    card.classList.add("masonry-positioned");
+    card.style.setProperty("--masonry-width", `${pos.width}px`);
+    card.style.setProperty("--masonry-justified-height", `${pos.height}px`);
+    card.style.setProperty("--masonry-left", `${pos.left}px`);
+    card.style.setProperty("--masonry-top", `${pos.top}px`);
+  });
+}
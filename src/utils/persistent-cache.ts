@@ -0,0 +1,196 @@
+/**
+ * Persistent on-disk cache for text previews, image embed sources and image
+ * colors
+ * Entries are keyed by path and validated against file mtime, so a restart
+ * can warm views from disk instead of re-reading every file.
+ * Module-level state (like tips.ts) avoids threading the plugin through loaders.
+ */
+
+import { TFile, type Plugin } from "obsidian";
+
+/** Cache file name, stored in the plugin folder */
+const CACHE_FILE = "content-cache.json";
+
+/** Bump when the persisted format or preview output changes */
+const CACHE_VERSION = 1;
+
+/** Delay before writing changes to disk */
+const SAVE_DELAY_MS = 2000;
+
+interface PersistedFileEntry {
+  mtime: number;
+  /** Text previews by variant key (settings that affect the output) */
+  text?: Record<string, string>;
+  /** Raw embed sources by variant key, before link resolution */
+  embeds?: Record<string, string[]>;
+  /** Average color of an image file, as "rgb(r, g, b)" */
+  color?: string;
+}
+
+interface PersistedCacheData {
+  version: number;
+  files: Record<string, PersistedFileEntry>;
+}
+
+let cachePlugin: Plugin | null = null;
+let files: Record<string, PersistedFileEntry> = {};
+let saveTimer: number | null = null;
+/** Bumped per init and cleanup to drop reads that outlive their plugin */
+let loadId = 0;
+
+function getCachePath(plugin: Plugin): string {
+  return `${plugin.manifest.dir ?? ""}/${CACHE_FILE}`;
+}
+
+/**
+ * Load the cache file (started at plugin load, not awaited)
+ * The cache stays cold - reads miss and writes are dropped - until the file
+ * is read. A missing, unreadable or outdated cache starts empty.
+ */
+export async function initPersistentCache(plugin: Plugin): Promise<void> {
+  const id = ++loadId;
+  cachePlugin = null;
+  files = {};
+  const adapter = plugin.app.vault.adapter;
+  const path = getCachePath(plugin);
+  let loaded: Record<string, PersistedFileEntry> = {};
+  try {
+    if (await adapter.exists(path)) {
+      const data = JSON.parse(await adapter.read(path)) as PersistedCacheData;
+      if (data?.version === CACHE_VERSION && data.files) {
+        loaded = data.files;
+      }
+    }
+  } catch (error) {
+    console.error("Failed to load content cache:", error);
+  }
+  // Unloaded or re-initialized while reading
+  if (id !== loadId) return;
+  files = loaded;
+  cachePlugin = plugin;
+}
+
+/** Write pending changes and release state at plugin unload */
+export async function cleanupPersistentCache(): Promise<void> {
+  loadId++;
+  if (saveTimer !== null) {
+    window.clearTimeout(saveTimer);
+    saveTimer = null;
+    await savePersistentCache();
+  }
+  cachePlugin = null;
+  files = {};
+}
+
+/**
+ * Drop entries for files that no longer exist or changed while closed
+ * Call once the vault is indexed (onLayoutReady)
+ */
+export function prunePersistentCache(): void {
+  if (!cachePlugin) return;
+  const vault = cachePlugin.app.vault;
+  let changed = false;
+  for (const [path, entry] of Object.entries(files)) {
+    const file = vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile) || file.stat.mtime !== entry.mtime) {
+      delete files[path];
+      changed = true;
+    }
+  }
+  if (changed) scheduleSave();
+}
+
+/** Forget a file's entry (modified, deleted or renamed) */
+export function invalidatePersistedFile(path: string): void {
+  if (!(path in files)) return;
+  delete files[path];
+  scheduleSave();
+}
+
+/** Get the entry for a file if it's still current */
+function getEntry(file: TFile): PersistedFileEntry | undefined {
+  if (!cachePlugin) return undefined;
+  const entry = files[file.path];
+  if (!entry || entry.mtime !== file.stat?.mtime) return undefined;
+  return entry;
+}
+
+/** Get or create the entry for a file, resetting it if the mtime changed */
+function getOrCreateEntry(file: TFile): PersistedFileEntry {
+  const current = getEntry(file);
+  if (current) return current;
+  const entry: PersistedFileEntry = { mtime: file.stat.mtime };
+  files[file.path] = entry;
+  return entry;
+}
+
+export function getPersistedTextPreview(
+  file: TFile,
+  variant: string,
+): string | undefined {
+  return getEntry(file)?.text?.[variant];
+}
+
+export function setPersistedTextPreview(
+  file: TFile,
+  variant: string,
+  text: string,
+): void {
+  if (!cachePlugin) return;
+  const entry = getOrCreateEntry(file);
+  entry.text = { ...entry.text, [variant]: text };
+  scheduleSave();
+}
+
+export function getPersistedEmbedSources(
+  file: TFile,
+  variant: string,
+): string[] | undefined {
+  return getEntry(file)?.embeds?.[variant];
+}
+
+export function setPersistedEmbedSources(
+  file: TFile,
+  variant: string,
+  sources: string[],
+): void {
+  if (!cachePlugin) return;
+  const entry = getOrCreateEntry(file);
+  entry.embeds = { ...entry.embeds, [variant]: sources };
+  scheduleSave();
+}
+
+export function getPersistedImageColor(file: TFile): string | undefined {
+  return getEntry(file)?.color;
+}
+
+export function setPersistedImageColor(file: TFile, color: string): void {
+  if (!cachePlugin) return;
+  getOrCreateEntry(file).color = color;
+  scheduleSave();
+}
+
+/** Debounce writes - a large view fills hundreds of entries at once */
+function scheduleSave(): void {
+  if (!cachePlugin || saveTimer !== null) return;
+  saveTimer = window.setTimeout(() => {
+    saveTimer = null;
+    void savePersistentCache();
+  }, SAVE_DELAY_MS);
+}
+
+async function savePersistentCache(): Promise<void> {
+  if (!cachePlugin) return;
+  const data: PersistedCacheData = {
+    version: CACHE_VERSION,
+    files,
+  };
+  try {
+    await cachePlugin.app.vault.adapter.write(
+      getCachePath(cachePlugin),
+      JSON.stringify(data),
+    );
+  } catch (error) {
+    console.error("Failed to save content cache:", error);
+  }
+}
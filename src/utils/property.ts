@@ -47,6 +47,27 @@ export function isCheckboxProperty(app: App, propertyName: string): boolean {
   return getPropertyInfo(app, propertyName)?.widget === "checkbox";
 }
 
+/**
+ * Get a property's widget type ("text", "number", "date", "multitext", ...)
+ * Prefers the metadataTypeManager assignment, falling back to the registry
+ * @param app - Obsidian App instance
+ * @param propertyName - Property name (may include "note." prefix)
+ * @returns Widget type, or undefined if the property is unknown
+ */
+export function getPropertyWidget(
+  app: App,
+  propertyName: string,
+): string | undefined {
+  const fmProp = stripNotePrefix(propertyName);
+  const typeManager = app.metadataTypeManager;
+  const assigned =
+    typeManager?.getAssignedWidget?.(fmProp) ??
+    typeManager?.getAssignedType?.(fmProp);
+  if (assigned) return assigned;
+  const info = getPropertyInfo(app, propertyName);
+  return info?.widget ?? info?.type;
+}
+
 /**
  * Hardcoded fallback map: display name → syntax name
  * Used when Bases API is unavailable (Datacore path)
@@ -173,6 +194,10 @@ const PROPERTY_SETTINGS_KEYS = [
   "urlProperty",
   "invertPropertyPairing",
   "invertPropertyPosition",
+  "calendarDateProperty",
+  "timelineDateProperty",
+  "secondaryGroupBy",
+  "tertiaryGroupBy",
 ] as const;
 
 /**
@@ -184,7 +209,7 @@ export function normalizeSettingsPropertyNames(
   app: App,
   settings: {
     [K in (typeof PROPERTY_SETTINGS_KEYS)[number]]?: string;
-  } & { _displayNameMap?: Record<string, string> },
+  } & { groupSummaries?: string; _displayNameMap?: Record<string, string> },
   reverseMap: Record<string, string>,
   displayNameMap: Record<string, string>,
 ): void {
@@ -194,6 +219,18 @@ export function normalizeSettingsPropertyNames(
       settings[key] = normalizePropertyString(app, value, reverseMap);
     }
   }
+  // Summaries pair a function with each property ("sum: cost")
+  if (settings.groupSummaries) {
+    settings.groupSummaries = settings.groupSummaries
+      .split(",")
+      .map((part) => {
+        const index = part.indexOf(":");
+        if (index === -1) return part.trim();
+        const property = part.slice(index + 1);
+        return `${part.slice(0, index).trim()}: ${normalizePropertyName(app, property, reverseMap)}`;
+      })
+      .join(",");
+  }
   settings._displayNameMap = displayNameMap;
 }
 
@@ -1,8 +1,23 @@
 import { App, Notice, View, BasesEntry, PaneType, Keymap } from "obsidian";
 import type { DynamicViewsGridView } from "../bases/grid-view";
 import type { DynamicViewsMasonryView } from "../bases/masonry-view";
-
-type DynamicBasesView = DynamicViewsGridView | DynamicViewsMasonryView;
+import type { DynamicViewsKanbanView } from "../bases/kanban-view";
+import type { DynamicViewsCalendarView } from "../bases/calendar-view";
+import type { DynamicViewsTimelineView } from "../bases/timeline-view";
+import type { DynamicViewsListView } from "../bases/list-view";
+import type { DynamicViewsCarouselView } from "../bases/carousel-view";
+import type { DynamicViewsTreeView } from "../bases/tree-view";
+import { getBasesViewType } from "../constants";
+
+type DynamicBasesView =
+  | DynamicViewsGridView
+  | DynamicViewsMasonryView
+  | DynamicViewsKanbanView
+  | DynamicViewsCalendarView
+  | DynamicViewsTimelineView
+  | DynamicViewsListView
+  | DynamicViewsCarouselView
+  | DynamicViewsTreeView;
 
 /**
  * Calculate pane type based on modifier keys and setting.
@@ -75,10 +90,7 @@ export function getActiveBasesView(
 
       // For dynamic-views custom views, return the actual view instance
       // This ensures property modifications (isShuffled, shuffledOrder) persist
-      if (
-        viewInstanceType === "dynamic-views-grid" ||
-        viewInstanceType === "dynamic-views-masonry"
-      ) {
+      if (getBasesViewType(viewInstanceType)) {
         return wrapper.controller.view;
       }
 
@@ -105,15 +117,13 @@ export function getActiveBasesView(
 }
 
 /**
- * Get the active Bases view if it's a dynamic-views view (Grid or Masonry)
+ * Get the active Bases view if it's a dynamic-views view (Grid, Masonry, Kanban,
+ * Calendar, Timeline, List, Carousel or Folder tree)
  */
 export function getActiveDynamicViewsBase(app: App): DynamicBasesView | null {
   const basesView = getActiveBasesView(app);
 
-  if (
-    basesView?.type === "dynamic-views-grid" ||
-    basesView?.type === "dynamic-views-masonry"
-  ) {
+  if (getBasesViewType(basesView?.type)) {
     return basesView as DynamicBasesView;
   }
 
@@ -165,9 +175,7 @@ export function toggleShuffleActiveView(app: App): void {
   }
 
   // Check if this is a dynamic-views Bases view (which supports persistent shuffle state)
-  const isDynamicView =
-    basesView.type === "dynamic-views-grid" ||
-    basesView.type === "dynamic-views-masonry";
+  const isDynamicView = getBasesViewType(basesView.type) !== null;
 
   if (isDynamicView) {
     // Always reshuffle — original sort restores on view reopen
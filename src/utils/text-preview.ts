@@ -3,7 +3,7 @@
  * Extracts and sanitizes content for card previews
  */
 
-import { App, TFile } from "obsidian";
+import { App, CachedMetadata, TFile } from "obsidian";
 
 /**
  * Markdown patterns for syntax stripping
@@ -239,13 +239,159 @@ export function sanitizeForPreview(
   return normalized;
 }
 
+/** Rendered previews stop after this many lines of the opening section */
+const PREVIEW_MARKDOWN_MAX_LINES = 40;
+/** ...or once the opening section reaches this many characters */
+const PREVIEW_MARKDOWN_MAX_CHARS = 2000;
+
+/**
+ * Extract a note's opening section as markdown for rendered previews
+ * The section runs from the start of the body (after frontmatter and an
+ * omitted first line) to the next heading, capped in lines and characters.
+ * An unclosed code fence at the cut is closed so the rest doesn't render as
+ * code.
+ * @param content - Raw markdown content
+ * @param omitFirstLine - When to omit first line: "always", "ifMatchesTitle", or "never"
+ * @param filename - Optional filename to compare against first line
+ * @param titleValue - Optional title value to compare against first line
+ */
+export function extractPreviewMarkdown(
+  content: string,
+  omitFirstLine: "always" | "ifMatchesTitle" | "never" = "ifMatchesTitle",
+  filename?: string,
+  titleValue?: string,
+): string {
+  const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---/, "").trim();
+  let lines = body.split(/\r?\n/);
+
+  // First line is compared without syntax, so "# Title" matches "Title"
+  const firstLine = stripMarkdownSyntax(
+    (lines[0] ?? "").replace(/^#{1,6}\s+/, ""),
+  ).trim();
+  const shouldOmit =
+    omitFirstLine === "always" ||
+    (omitFirstLine === "ifMatchesTitle" &&
+      ((filename && firstLine === filename) ||
+        (titleValue && firstLine === titleValue)));
+  if (shouldOmit) lines = lines.slice(1);
+
+  const section: string[] = [];
+  let length = 0;
+  let inFence = false;
+  let hasContent = false;
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    // Next heading ends the opening section (a leading heading is kept)
+    if (!inFence && hasContent && /^#{1,6}\s/.test(line)) break;
+    if (
+      section.length >= PREVIEW_MARKDOWN_MAX_LINES ||
+      length + line.length > PREVIEW_MARKDOWN_MAX_CHARS
+    ) {
+      break;
+    }
+    section.push(line);
+    length += line.length + 1;
+    if (line.trim() !== "") hasContent = true;
+  }
+
+  const fenceCount = section.filter((l) => /^\s*(```|~~~)/.test(l)).length;
+  if (fenceCount % 2 === 1) section.push("```");
+  return section.join("\n").trim();
+}
+
+/** Part of a note targeted by the textPreviewSection setting */
+type PreviewSectionTarget =
+  | { type: "heading"; heading: string }
+  | { type: "block"; id: string }
+  | { type: "callout"; calloutType: string };
+
+/**
+ * Parse a textPreviewSection value
+ * "^id" targets a block, "[!type]" (or "> [!type]") the first callout of that
+ * type, and anything else a heading ("#Summary", "## Summary" or "Summary").
+ */
+function parsePreviewSection(value: string): PreviewSectionTarget | null {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("^")) {
+    const id = trimmed.slice(1).trim();
+    return id ? { type: "block", id } : null;
+  }
+  const calloutMatch = trimmed.match(/^>?\s*\[!([\w-]+)\]$/);
+  if (calloutMatch) {
+    return { type: "callout", calloutType: calloutMatch[1].toLowerCase() };
+  }
+  const heading = trimmed.replace(/^#+\s*/, "").trim();
+  return heading ? { type: "heading", heading } : null;
+}
+
+/**
+ * Slice the targeted section out of a note using its metadata cache
+ * A heading's section runs to the next heading of the same or a higher level.
+ * @param content - Raw markdown content (cache offsets index into it)
+ * @param cache - Metadata cache of the file
+ * @param section - textPreviewSection value
+ * @returns Markdown of the section, or null when the note has no such section
+ */
+export function extractPreviewSection(
+  content: string,
+  cache: CachedMetadata | null,
+  section: string,
+): string | null {
+  const target = parsePreviewSection(section);
+  if (!target || !cache) return null;
+
+  if (target.type === "heading") {
+    const headings = cache.headings ?? [];
+    const name = target.heading.toLowerCase();
+    const index = headings.findIndex(
+      (h) => h.heading.trim().toLowerCase() === name,
+    );
+    if (index === -1) return null;
+    const heading = headings[index];
+    const next = headings
+      .slice(index + 1)
+      .find((h) => h.level <= heading.level);
+    return content.slice(
+      heading.position.end.offset,
+      next?.position.start.offset ?? content.length,
+    );
+  }
+
+  if (target.type === "block") {
+    const block =
+      cache.blocks?.[target.id] ?? cache.blocks?.[target.id.toLowerCase()];
+    if (!block) return null;
+    return content
+      .slice(block.position.start.offset, block.position.end.offset)
+      .replace(/\s+\^[\w-]+\s*$/, ""); // Block ID marker
+  }
+
+  const calloutPattern = new RegExp(
+    `^>\\s*\\[!${target.calloutType}\\]`,
+    "i",
+  );
+  const callout = cache.sections?.find(
+    (s) =>
+      s.type === "callout" &&
+      calloutPattern.test(
+        content.slice(s.position.start.offset, s.position.end.offset),
+      ),
+  );
+  if (!callout) return null;
+  return content.slice(
+    callout.position.start.offset,
+    callout.position.end.offset,
+  );
+}
+
 /**
  * Load text preview for a file
  * Handles property extraction and content fallback
  * @param file - TFile to load preview for
  * @param app - Obsidian App instance
  * @param propertyValue - Value from text preview property (if any)
- * @param settings - Preview settings (fallback behavior, omit first line)
+ * @param settings - Preview settings (fallback behavior, omit first line,
+ *   plain text or markdown for rendered previews, targeted section)
  * @param fileName - File name for first line comparison
  * @param titleValue - Title property value for first line comparison
  * @returns Preview text (empty string if none available)
@@ -257,6 +403,8 @@ export async function loadFilePreview(
   settings: {
     fallbackToContent: boolean;
     omitFirstLine: "always" | "ifMatchesTitle" | "never";
+    textPreviewStyle?: "plain" | "rendered";
+    textPreviewSection?: string;
   },
   fileName?: string,
   titleValue?: string,
@@ -274,6 +422,28 @@ export async function loadFilePreview(
   // Fallback to content if enabled
   if (settings.fallbackToContent) {
     const content = await app.vault.cachedRead(file);
+    // A targeted section replaces the note's opening lines (the title line
+    // isn't part of it); notes without the section fall back to them
+    const section = settings.textPreviewSection
+      ? extractPreviewSection(
+          content,
+          app.metadataCache.getFileCache(file),
+          settings.textPreviewSection,
+        )
+      : null;
+    if (section !== null) {
+      return settings.textPreviewStyle === "rendered"
+        ? extractPreviewMarkdown(section, "never")
+        : sanitizeForPreview(section, "never");
+    }
+    if (settings.textPreviewStyle === "rendered") {
+      return extractPreviewMarkdown(
+        content,
+        settings.omitFirstLine,
+        fileName,
+        titleValue,
+      );
+    }
     return sanitizeForPreview(
       content,
       settings.omitFirstLine,
@@ -0,0 +1,350 @@
+/**
+ * Local thumbnails for oversized vault images
+ * Large raster images are downsized with an OffscreenCanvas into the plugin's
+ * thumbnails folder, keyed by path, mtime and target size. Cards render the
+ * thumbnail; the image viewer maps it back to the original. The average color
+ * is sampled from the same downsized canvas and persisted with the file.
+ * Module-level state (like persistent-cache.ts) avoids threading the plugin
+ * through renderers.
+ */
+
+import { TFile, type Plugin } from "obsidian";
+import type { ViewDefaults } from "../types";
+import { extractOffscreenColor } from "./image-color";
+import {
+  getPersistedImageColor,
+  setPersistedImageColor,
+} from "./persistent-cache";
+
+/** Thumbnail folder name, stored in the plugin folder */
+const THUMBNAIL_FOLDER = "thumbnails";
+
+/** Images smaller than this on disk load fast enough as-is */
+const MIN_FILE_SIZE = 512 * 1024;
+
+/** Target sizes are rounded up to this step so similar card sizes share files */
+const SIZE_STEP = 256;
+
+/** CSS size of thumbnail-format images (largest thumbnailSize option is 94.5px) */
+const THUMBNAIL_FORMAT_SIZE = 128;
+
+/** Covers can stretch past the card size setting in grid and masonry columns */
+const COVER_SIZE_MULTIPLIER = 1.5;
+
+const THUMBNAIL_QUALITY = 0.85;
+
+/** Formats OffscreenCanvas can decode and re-encode without losing content */
+const RASTER_EXTENSIONS = new Set(["png", "jpg", "jpeg", "webp", "bmp"]);
+
+let thumbnailPlugin: Plugin | null = null;
+/** Thumbnail file names present on disk */
+let storedNames = new Set<string>();
+/** Resource URL → vault file, filled as image paths are resolved */
+const vaultImages = new Map<string, TFile>();
+/**
+ * Vault path → its current resource URL
+ * URLs carry an mtime query, so each edit resolves to a new one; only the
+ * latest is kept.
+ */
+const vaultImageUrls = new Map<string, string>();
+/** Thumbnail resource URL → original resource URL */
+const originalUrls = new Map<string, string>();
+/** Thumbnail names whose source didn't need downsizing (this session only) */
+const skippedNames = new Set<string>();
+const pendingNames = new Set<string>();
+/** Generation runs one image at a time to bound decode memory */
+let queue: Promise<void> = Promise.resolve();
+/** Bumped per init and cleanup to drop listings that outlive their plugin */
+let loadId = 0;
+
+function getFolderPath(plugin: Plugin): string {
+  return `${plugin.manifest.dir ?? ""}/${THUMBNAIL_FOLDER}`;
+}
+
+function isSupported(): boolean {
+  return (
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap === "function"
+  );
+}
+
+/** FNV-1a, run with two seeds for a 64-bit hex digest */
+function hashPath(path: string): string {
+  const fnv = (seed: number): string => {
+    let hash = seed;
+    for (let i = 0; i < path.length; i++) {
+      hash ^= path.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+  };
+  return fnv(0x811c9dc5) + fnv(0x050c5d1f);
+}
+
+/** File name for a thumbnail of a given image version and size */
+export function getThumbnailName(
+  path: string,
+  mtime: number,
+  size: number,
+): string {
+  return `${hashPath(path)}-${mtime}-${size}.webp`;
+}
+
+/**
+ * Device-pixel size of the shortest thumbnail edge for an image format
+ * Rounded up to SIZE_STEP so small card size changes reuse thumbnails
+ */
+export function getThumbnailTargetSize(
+  imageFormat: ViewDefaults["imageFormat"],
+  cardSize: number,
+  pixelRatio = window.devicePixelRatio || 1,
+): number {
+  const cssSize =
+    imageFormat === "thumbnail"
+      ? THUMBNAIL_FORMAT_SIZE
+      : cardSize * COVER_SIZE_MULTIPLIER;
+  return Math.ceil((cssSize * pixelRatio) / SIZE_STEP) * SIZE_STEP;
+}
+
+/** Whether a vault image is worth downsizing */
+export function isThumbnailCandidate(file: TFile): boolean {
+  return (
+    RASTER_EXTENSIONS.has(file.extension.toLowerCase()) &&
+    (file.stat?.size ?? 0) >= MIN_FILE_SIZE
+  );
+}
+
+/**
+ * Scaled dimensions with the shortest edge at the target size
+ * Returns null when the image is already small enough
+ */
+export function getThumbnailDimensions(
+  width: number,
+  height: number,
+  targetSize: number,
+): { width: number; height: number } | null {
+  const scale = targetSize / Math.min(width, height);
+  if (scale >= 1) return null;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * List existing thumbnails (started at plugin load, not awaited)
+ * Cards use originals until the listing is done, so existing thumbnails
+ * aren't regenerated. Stays inert where OffscreenCanvas is unavailable.
+ */
+export async function initThumbnailCache(plugin: Plugin): Promise<void> {
+  const id = ++loadId;
+  thumbnailPlugin = null;
+  storedNames = new Set();
+  if (!isSupported()) return;
+  const adapter = plugin.app.vault.adapter;
+  const folder = getFolderPath(plugin);
+  const listedNames = new Set<string>();
+  try {
+    if (await adapter.exists(folder)) {
+      const listed = await adapter.list(folder);
+      for (const filePath of listed.files) {
+        listedNames.add(filePath.slice(filePath.lastIndexOf("/") + 1));
+      }
+    } else {
+      await adapter.mkdir(folder);
+    }
+  } catch (error) {
+    console.error("Failed to load thumbnail cache:", error);
+  }
+  // Unloaded or re-initialized while listing
+  if (id !== loadId) return;
+  storedNames = listedNames;
+  thumbnailPlugin = plugin;
+}
+
+/** Release state at plugin unload (files stay on disk) */
+export function cleanupThumbnailCache(): void {
+  loadId++;
+  thumbnailPlugin = null;
+  storedNames = new Set();
+  vaultImages.clear();
+  vaultImageUrls.clear();
+  originalUrls.clear();
+  skippedNames.clear();
+  pendingNames.clear();
+  queue = Promise.resolve();
+}
+
+/**
+ * Delete thumbnails of images that were removed or changed while closed
+ * Call once the vault is indexed (onLayoutReady)
+ */
+export function pruneThumbnailCache(): void {
+  if (!thumbnailPlugin) return;
+  const current = new Set<string>();
+  for (const file of thumbnailPlugin.app.vault.getFiles()) {
+    if (RASTER_EXTENSIONS.has(file.extension.toLowerCase())) {
+      current.add(`${hashPath(file.path)}-${file.stat.mtime}-`);
+    }
+  }
+  const stale = Array.from(storedNames).filter(
+    (name) => !current.has(name.slice(0, name.lastIndexOf("-") + 1)),
+  );
+  void removeThumbnails(stale);
+}
+
+/** Delete every thumbnail of an image (modified, deleted or renamed) */
+export function invalidateThumbnails(path: string): void {
+  forgetVaultImage(path);
+  if (!thumbnailPlugin) return;
+  const prefix = `${hashPath(path)}-`;
+  void removeThumbnails(
+    Array.from(storedNames).filter((name) => name.startsWith(prefix)),
+  );
+}
+
+async function removeThumbnails(names: string[]): Promise<void> {
+  if (!thumbnailPlugin || names.length === 0) return;
+  const adapter = thumbnailPlugin.app.vault.adapter;
+  const folder = getFolderPath(thumbnailPlugin);
+  for (const name of names) {
+    storedNames.delete(name);
+    try {
+      await adapter.remove(`${folder}/${name}`);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/** Remember which vault file a resolved resource URL points to */
+export function registerVaultImage(resourceUrl: string, file: TFile): void {
+  if (vaultImageUrls.get(file.path) !== resourceUrl) {
+    forgetVaultImage(file.path);
+    vaultImageUrls.set(file.path, resourceUrl);
+  }
+  vaultImages.set(resourceUrl, file);
+}
+
+/** Drop the resource URL (and its thumbnail URLs) registered for a path */
+function forgetVaultImage(path: string): void {
+  const url = vaultImageUrls.get(path);
+  if (url === undefined) return;
+  vaultImageUrls.delete(path);
+  vaultImages.delete(url);
+  for (const [thumbnailUrl, originalUrl] of originalUrls) {
+    if (originalUrl === url) originalUrls.delete(thumbnailUrl);
+  }
+}
+
+/**
+ * URL a card should load for an image
+ * Returns the stored thumbnail when one exists; otherwise returns the original
+ * and queues generation so the next render picks the thumbnail up.
+ */
+export function getCardImageUrl(url: string, targetSize: number): string {
+  if (!thumbnailPlugin) return url;
+  const file = vaultImages.get(url);
+  if (!file || !isThumbnailCandidate(file)) return url;
+
+  const name = getThumbnailName(file.path, file.stat.mtime, targetSize);
+  if (storedNames.has(name)) {
+    const thumbnailUrl = thumbnailPlugin.app.vault.adapter.getResourcePath(
+      `${getFolderPath(thumbnailPlugin)}/${name}`,
+    );
+    originalUrls.set(thumbnailUrl, url);
+    return thumbnailUrl;
+  }
+
+  if (!skippedNames.has(name) && !pendingNames.has(name)) {
+    pendingNames.add(name);
+    const plugin = thumbnailPlugin;
+    queue = queue.then(() => generateThumbnail(plugin, file, name, targetSize));
+  }
+  return url;
+}
+
+/** Original image URL for a card image URL (identity for non-thumbnails) */
+export function getOriginalImageUrl(url: string): string {
+  return originalUrls.get(url) ?? url;
+}
+
+/**
+ * Persisted average color of a registered vault image
+ * Accepts thumbnail URLs too, so cards can tint before the image loads.
+ */
+export function getStoredImageColor(url: string): string | undefined {
+  const file = vaultImages.get(getOriginalImageUrl(url));
+  return file ? getPersistedImageColor(file) : undefined;
+}
+
+/** Persist a color measured from a loaded image (no-op for external URLs) */
+export function storeImageColor(url: string, color: string): void {
+  const file = vaultImages.get(getOriginalImageUrl(url));
+  if (file) setPersistedImageColor(file, color);
+}
+
+/** Sample color from the downsized canvas; a failure only loses the tint */
+function sampleThumbnailColor(file: TFile, canvas: OffscreenCanvas): void {
+  if (getPersistedImageColor(file) !== undefined) return;
+  try {
+    const color = extractOffscreenColor(canvas);
+    if (color !== undefined) setPersistedImageColor(file, color);
+  } catch {
+    // Measured on load instead
+  }
+}
+
+async function generateThumbnail(
+  plugin: Plugin,
+  file: TFile,
+  name: string,
+  targetSize: number,
+): Promise<void> {
+  // Plugin unloaded or reloaded while queued
+  if (thumbnailPlugin !== plugin) return;
+  try {
+    const data = await plugin.app.vault.readBinary(file);
+    const bitmap = await createImageBitmap(new Blob([data]));
+    let blob: Blob | null = null;
+    try {
+      const dimensions = getThumbnailDimensions(
+        bitmap.width,
+        bitmap.height,
+        targetSize,
+      );
+      if (dimensions) {
+        const canvas = new OffscreenCanvas(dimensions.width, dimensions.height);
+        const ctx = canvas.getContext("2d");
+        if (ctx) {
+          ctx.imageSmoothingQuality = "high";
+          ctx.drawImage(bitmap, 0, 0, dimensions.width, dimensions.height);
+          sampleThumbnailColor(file, canvas);
+          blob = await canvas.convertToBlob({
+            type: "image/webp",
+            quality: THUMBNAIL_QUALITY,
+          });
+        }
+      }
+    } finally {
+      bitmap.close();
+    }
+
+    if (thumbnailPlugin !== plugin) return;
+    if (!blob) {
+      skippedNames.add(name);
+      return;
+    }
+    await plugin.app.vault.adapter.writeBinary(
+      `${getFolderPath(plugin)}/${name}`,
+      await blob.arrayBuffer(),
+    );
+    storedNames.add(name);
+  } catch (error) {
+    // Corrupt or unsupported image - cards keep using the original
+    console.warn(`Failed to generate thumbnail for ${file.path}:`, error);
+    skippedNames.add(name);
+  } finally {
+    pendingNames.delete(name);
+  }
+}
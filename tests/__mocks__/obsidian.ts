@@ -248,6 +248,63 @@ export class Notice {
   }
 }
 
+// Mock Modal
+export class Modal {
+  app: App;
+  contentEl = document.createElement("div");
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  open(): void {}
+
+  close(): void {}
+}
+
+// Mock FuzzySuggestModal
+export class FuzzySuggestModal<T> extends Modal {
+  setPlaceholder(placeholder: string): void {}
+}
+
+// Mock Menu
+export class Menu {
+  addItem(cb: (item: any) => any): this {
+    return this;
+  }
+
+  addSeparator(): this {
+    return this;
+  }
+
+  showAtMouseEvent(e: MouseEvent): void {}
+}
+
+// Mock Keymap ("Mod" is Ctrl in tests)
+export class Keymap {
+  static isModifier(
+    evt: MouseEvent | KeyboardEvent,
+    modifier: string,
+  ): boolean {
+    if (modifier === "Mod" || modifier === "Ctrl") return evt.ctrlKey;
+    if (modifier === "Shift") return evt.shiftKey;
+    if (modifier === "Alt") return evt.altKey;
+    if (modifier === "Meta") return evt.metaKey;
+    return false;
+  }
+
+  static isModEvent(evt?: UIEvent | null): boolean | string {
+    return !!(evt as MouseEvent | undefined)?.ctrlKey;
+  }
+}
+
+// Mock Platform
+export const Platform = {
+  isMobile: false,
+  isDesktop: true,
+  isMacOS: false,
+};
+
 // Mock requestUrl
 export function requestUrl(request: string | { url: string }): Promise<any> {
   return Promise.resolve({
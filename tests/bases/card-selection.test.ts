@@ -0,0 +1,112 @@
+import { App } from "obsidian";
+import {
+  CardSelection,
+  SELECTED_CARD_CLASS,
+} from "../../src/bases/card-selection";
+import type { FocusState } from "../../src/types";
+
+describe("CardSelection", () => {
+  let container: HTMLElement;
+  let focusState: FocusState;
+  let selection: CardSelection;
+  let cards: HTMLElement[];
+
+  // Dispatch so the event has a target, like a real click
+  const click = (cardEl: HTMLElement, init: MouseEventInit = {}): boolean => {
+    let consumed = false;
+    const listener = (e: MouseEvent) => {
+      consumed = selection.handleClick(e, cardEl);
+    };
+    cardEl.addEventListener("click", listener);
+    cardEl.dispatchEvent(new MouseEvent("click", { bubbles: true, ...init }));
+    cardEl.removeEventListener("click", listener);
+    return consumed;
+  };
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    cards = Array.from({ length: 5 }, (_, i) => {
+      const cardEl = document.createElement("div");
+      cardEl.className = "card";
+      cardEl.setAttribute("data-path", `note-${i}.md`);
+      container.appendChild(cardEl);
+      return cardEl;
+    });
+    focusState = {
+      cardIndex: 0,
+      hoveredEl: null,
+      selectedPaths: new Set(),
+      selectionAnchor: null,
+    };
+    selection = new CardSelection({
+      app: new App(),
+      focusState,
+      getCardsContainer: () => container,
+      getBarParent: () => null,
+      getSourcePath: () => "view.base",
+    });
+  });
+
+  it("should toggle cards with Mod-click", () => {
+    expect(click(cards[1], { ctrlKey: true })).toBe(true);
+    expect(click(cards[3], { ctrlKey: true })).toBe(true);
+    expect(click(cards[1], { ctrlKey: true })).toBe(true);
+
+    expect([...focusState.selectedPaths]).toEqual(["note-3.md"]);
+    expect(cards[1].classList.contains(SELECTED_CARD_CLASS)).toBe(false);
+    expect(cards[3].classList.contains(SELECTED_CARD_CLASS)).toBe(true);
+  });
+
+  it("should select a range from the anchor with Shift-click", () => {
+    click(cards[1], { ctrlKey: true });
+    click(cards[3], { shiftKey: true });
+
+    expect(selection.size).toBe(3);
+    expect(selection.isSelected("note-2.md")).toBe(true);
+    expect(focusState.selectionAnchor).toBe("note-1.md");
+  });
+
+  it("should clear the selection on a plain click without consuming it", () => {
+    click(cards[0], { ctrlKey: true });
+
+    expect(click(cards[2])).toBe(false);
+    expect(selection.size).toBe(0);
+    expect(cards[0].classList.contains(SELECTED_CARD_CLASS)).toBe(false);
+  });
+
+  it("should ignore modifier clicks on links inside cards", () => {
+    const link = cards[0].appendChild(document.createElement("a"));
+    let consumed: boolean | undefined;
+    cards[0].addEventListener("click", (e) => {
+      consumed = selection.handleClick(e, cards[0]);
+    });
+
+    link.dispatchEvent(
+      new MouseEvent("click", { bubbles: true, ctrlKey: true }),
+    );
+
+    expect(consumed).toBe(false);
+    expect(selection.size).toBe(0);
+  });
+
+  it("should extend from the focused card with keyboard ranges", () => {
+    selection.extendTo(cards[4], cards[3]);
+    selection.extendTo(cards[3], cards[2]);
+
+    expect([...focusState.selectedPaths].sort()).toEqual([
+      "note-2.md",
+      "note-3.md",
+      "note-4.md",
+    ]);
+  });
+
+  it("should drop selected paths missing after refresh", () => {
+    click(cards[1], { ctrlKey: true });
+    click(cards[2], { ctrlKey: true });
+
+    selection.refresh(new Set(["note-2.md"]));
+
+    expect([...focusState.selectedPaths]).toEqual(["note-2.md"]);
+    expect(focusState.selectionAnchor).toBe("note-2.md");
+  });
+});
@@ -0,0 +1,144 @@
+import type { BasesEntry } from "obsidian";
+import {
+  CardVirtualizer,
+  VIRTUALIZED_CARD_CLASS,
+} from "../../src/bases/card-virtualizer";
+import { VIRTUALIZE_MIN_CARDS } from "../../src/shared/constants";
+
+type IntersectionCallback = (entries: IntersectionObserverEntry[]) => void;
+
+let triggerIntersections: IntersectionCallback = () => {};
+
+class MockIntersectionObserver {
+  observe = jest.fn();
+  unobserve = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(callback: IntersectionCallback) {
+    triggerIntersections = callback;
+  }
+}
+
+const intersection = (
+  target: HTMLElement,
+  isIntersecting: boolean,
+  height = 120,
+): IntersectionObserverEntry =>
+  ({
+    target,
+    isIntersecting,
+    boundingClientRect: { height } as DOMRectReadOnly,
+  }) as IntersectionObserverEntry;
+
+describe("CardVirtualizer", () => {
+  let container: HTMLElement;
+  let renderCard: jest.Mock;
+  let releaseCard: jest.Mock;
+  let onRestore: jest.Mock;
+  let virtualizer: CardVirtualizer;
+
+  const addCard = (index: number): HTMLElement => {
+    const cardEl = document.createElement("div");
+    cardEl.className = "card masonry-positioned";
+    cardEl.setAttribute("data-path", `note-${index}.md`);
+    cardEl.style.setProperty("--masonry-top", `${index * 100}px`);
+    container.appendChild(cardEl);
+    virtualizer.track(
+      cardEl,
+      { file: { path: `note-${index}.md` } } as unknown as BasesEntry,
+      index,
+    );
+    return cardEl;
+  };
+
+  beforeEach(() => {
+    (global as any).IntersectionObserver = MockIntersectionObserver;
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    renderCard = jest.fn((parent: HTMLElement) => {
+      const cardEl = document.createElement("div");
+      cardEl.className = "card";
+      parent.appendChild(cardEl);
+      return cardEl;
+    });
+    releaseCard = jest.fn();
+    onRestore = jest.fn();
+    virtualizer = new CardVirtualizer({
+      scrollEl: document.body,
+      renderCard,
+      releaseCard,
+      onRestore,
+    });
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it("should keep cards mounted in small views", () => {
+    const cardEl = addCard(0);
+
+    triggerIntersections([intersection(cardEl, false)]);
+
+    expect(cardEl.isConnected).toBe(true);
+    expect(releaseCard).not.toHaveBeenCalled();
+  });
+
+  it("should swap off-screen cards for sized placeholders", () => {
+    const cards = Array.from({ length: VIRTUALIZE_MIN_CARDS }, (_, i) =>
+      addCard(i),
+    );
+
+    triggerIntersections([intersection(cards[5], false, 150)]);
+
+    expect(releaseCard).toHaveBeenCalledWith(cards[5]);
+    expect(cards[5].isConnected).toBe(false);
+    const placeholder = container.children[5] as HTMLElement;
+    expect(placeholder.classList.contains(VIRTUALIZED_CARD_CLASS)).toBe(true);
+    expect(placeholder.classList.contains("masonry-positioned")).toBe(true);
+    expect(placeholder.getAttribute("data-path")).toBe("note-5.md");
+    expect(placeholder.style.getPropertyValue("--masonry-top")).toBe("500px");
+    expect(
+      placeholder.style.getPropertyValue("--dynamic-views-virtual-height"),
+    ).toBe("150px");
+  });
+
+  it("should re-render placeholders in place when they return", () => {
+    const cards = Array.from({ length: VIRTUALIZE_MIN_CARDS }, (_, i) =>
+      addCard(i),
+    );
+    triggerIntersections([intersection(cards[5], false)]);
+    const placeholder = container.children[5] as HTMLElement;
+
+    triggerIntersections([intersection(placeholder, true)]);
+
+    expect(renderCard).toHaveBeenCalledWith(
+      container,
+      expect.objectContaining({ file: { path: "note-5.md" } }),
+      5,
+    );
+    const restored = container.children[5] as HTMLElement;
+    expect(placeholder.isConnected).toBe(false);
+    expect(restored.classList.contains(VIRTUALIZED_CARD_CLASS)).toBe(false);
+    expect(restored.style.getPropertyValue("--masonry-top")).toBe("500px");
+    expect(container.children).toHaveLength(VIRTUALIZE_MIN_CARDS);
+    expect(onRestore).toHaveBeenCalledWith([restored], expect.any(Boolean));
+  });
+
+  it("should not release cards rejected by canRelease", () => {
+    virtualizer = new CardVirtualizer({
+      scrollEl: document.body,
+      renderCard,
+      releaseCard,
+      canRelease: () => false,
+    });
+    const cards = Array.from({ length: VIRTUALIZE_MIN_CARDS }, (_, i) =>
+      addCard(i),
+    );
+
+    triggerIntersections([intersection(cards[0], false)]);
+
+    expect(cards[0].isConnected).toBe(true);
+    expect(releaseCard).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  getCarouselArrowState,
+  planCarouselRows,
+  setupCarouselNavigation,
+} from "../../src/bases/carousel";
+import { UNDEFINED_GROUP_KEY_SENTINEL } from "../../src/bases/utils";
+import { CAROUSEL_ROW_BATCH_SIZE } from "../../src/shared/constants";
+import type { BasesEntry, BasesEntryGroup } from "obsidian";
+
+const mockEntries = (prefix: string, count: number): BasesEntry[] =>
+  Array.from(
+    { length: count },
+    (_, i) => ({ file: { path: `${prefix}/${i}.md` } }) as BasesEntry,
+  );
+
+const mockGroup = (key?: string): BasesEntryGroup =>
+  ({
+    hasKey: () => key !== undefined,
+    key,
+  }) as unknown as BasesEntryGroup;
+
+describe("planCarouselRows", () => {
+  const open = mockEntries("open", 30);
+  const done = mockEntries("done", 3);
+  const none = mockEntries("none", 2);
+  const groups = [
+    { group: mockGroup("Open"), entries: open },
+    { group: mockGroup("Done"), entries: done },
+    { group: mockGroup(), entries: none },
+  ];
+
+  it("should plan one row per group with a first batch of cards", () => {
+    const rows = planCarouselRows(groups, true, new Set(), new Map());
+    expect(rows.map((row) => row.collapseKey)).toEqual([
+      "Open",
+      "Done",
+      UNDEFINED_GROUP_KEY_SENTINEL,
+    ]);
+    expect(rows[0].groupKey).toBe("Open");
+    expect(rows[2].groupKey).toBeUndefined();
+    expect(rows[0].initialEntries).toEqual(
+      open.slice(0, CAROUSEL_ROW_BATCH_SIZE),
+    );
+    expect(rows[1].initialEntries).toEqual(done);
+  });
+
+  it("should keep the card count a row had scrolled to", () => {
+    const rows = planCarouselRows(
+      groups,
+      true,
+      new Set(),
+      new Map([["Open", 25]]),
+    );
+    expect(rows[0].initialEntries).toHaveLength(25);
+  });
+
+  it("should render no cards in collapsed rows", () => {
+    const rows = planCarouselRows(groups, true, new Set(["Done"]), new Map());
+    expect(rows[1].isCollapsed).toBe(true);
+    expect(rows[1].initialEntries).toEqual([]);
+    expect(rows[1].entries).toBe(done);
+  });
+
+  it("should ignore collapse state when ungrouped", () => {
+    const [row] = planCarouselRows(
+      [{ group: mockGroup(), entries: none }],
+      false,
+      new Set([UNDEFINED_GROUP_KEY_SENTINEL]),
+      new Map(),
+    );
+    expect(row.isCollapsed).toBe(false);
+    expect(row.initialEntries).toEqual(none);
+  });
+});
+
+describe("getCarouselArrowState", () => {
+  const track = (scrollLeft: number) => ({
+    scrollLeft,
+    clientWidth: 300,
+    scrollWidth: 900,
+  });
+
+  it("should disable only the previous arrow at the start", () => {
+    expect(getCarouselArrowState(track(0), true)).toEqual({
+      atStart: true,
+      atEnd: false,
+    });
+  });
+
+  it("should disable only the next arrow at the end", () => {
+    expect(getCarouselArrowState(track(600), true)).toEqual({
+      atStart: false,
+      atEnd: true,
+    });
+  });
+
+  it("should tolerate subpixel scroll positions at both edges", () => {
+    expect(getCarouselArrowState(track(0.5), true).atStart).toBe(true);
+    expect(getCarouselArrowState(track(599.5), true).atEnd).toBe(true);
+  });
+
+  it("should keep the next arrow enabled while cards remain to load", () => {
+    expect(getCarouselArrowState(track(600), false).atEnd).toBe(false);
+  });
+});
+
+describe("setupCarouselNavigation", () => {
+  let controller: AbortController;
+  let trackEl: HTMLElement;
+  let prevEl: HTMLElement;
+  let nextEl: HTMLElement;
+  let scrollBy: jest.Mock;
+
+  beforeEach(() => {
+    controller = new AbortController();
+    trackEl = document.createElement("div");
+    prevEl = document.createElement("button");
+    nextEl = document.createElement("button");
+    Object.defineProperty(trackEl, "clientWidth", { value: 300 });
+    scrollBy = jest.fn();
+    trackEl.scrollBy = scrollBy;
+    setupCarouselNavigation(trackEl, prevEl, nextEl, controller.signal);
+  });
+
+  afterEach(() => controller.abort());
+
+  const touch = (type: string, clientX: number) => {
+    const event = new Event(type, { cancelable: true });
+    Object.defineProperty(event, "touches", {
+      value: [{ clientX, clientY: 0 }],
+    });
+    trackEl.dispatchEvent(event);
+  };
+
+  it("should scroll a page per arrow click", () => {
+    nextEl.click();
+    prevEl.click();
+    expect(scrollBy.mock.calls).toEqual([
+      [{ left: 300, behavior: "smooth" }],
+      [{ left: -300, behavior: "smooth" }],
+    ]);
+  });
+
+  it("should scroll a page once per trackpad swipe", () => {
+    trackEl.dispatchEvent(
+      new WheelEvent("wheel", { deltaX: 20, cancelable: true }),
+    );
+    trackEl.dispatchEvent(
+      new WheelEvent("wheel", { deltaX: 10, cancelable: true }),
+    );
+    expect(scrollBy).toHaveBeenCalledTimes(1);
+    expect(scrollBy).toHaveBeenCalledWith({ left: 300, behavior: "smooth" });
+  });
+
+  it("should scroll back a page on a rightward touch swipe", () => {
+    touch("touchstart", 100);
+    touch("touchmove", 150);
+    expect(scrollBy).toHaveBeenCalledWith({ left: -300, behavior: "smooth" });
+  });
+
+  it("should stop navigating once the signal aborts", () => {
+    controller.abort();
+    nextEl.click();
+    expect(scrollBy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  aggregateSummaryValues,
+  getSummaryValue,
+  parseGroupSummaries,
+} from "../../src/bases/group-summaries";
+import type { App, BasesEntry } from "obsidian";
+
+jest.mock("../../src/shared/render-utils", () => ({
+  ...jest.requireActual("../../src/shared/render-utils"),
+  formatTimestamp: jest.fn(
+    (timestamp: number, isDateOnly: boolean) =>
+      `${timestamp}${isDateOnly ? "-date" : ""}`,
+  ),
+}));
+
+const app = {} as App;
+
+/** Minimal entry whose getValue reads from a plain record */
+function mockEntry(values: Record<string, unknown>): BasesEntry {
+  return {
+    file: { path: "note.md", stat: { ctime: 100, mtime: 200 } },
+    getValue: (property: string) => values[property] ?? null,
+  } as unknown as BasesEntry;
+}
+
+describe("parseGroupSummaries", () => {
+  it("should parse function: property pairs", () => {
+    expect(parseGroupSummaries("sum: note.cost, Latest:note.due")).toEqual([
+      { fn: "sum", property: "note.cost" },
+      { fn: "latest", property: "note.due" },
+    ]);
+  });
+
+  it("should accept aliases and skip invalid pairs", () => {
+    expect(
+      parseGroupSummaries("average: note.hours, median: x, sum:, note.y"),
+    ).toEqual([{ fn: "avg", property: "note.hours" }]);
+    expect(parseGroupSummaries("")).toEqual([]);
+  });
+});
+
+describe("getSummaryValue", () => {
+  it("should read numbers, numeric text and checkboxes", () => {
+    const entry = mockEntry({
+      "note.cost": { data: 12.5 },
+      "note.text": { data: " 40 " },
+      "note.title": { data: "Budget" },
+      "note.done": { data: true },
+    });
+    expect(getSummaryValue(app, entry, "note.cost")).toBe(12.5);
+    expect(getSummaryValue(app, entry, "note.text")).toBe(40);
+    expect(getSummaryValue(app, entry, "note.title")).toBeNull();
+    expect(getSummaryValue(app, entry, "note.done")).toBe(true);
+    expect(getSummaryValue(app, entry, "note.missing")).toBeNull();
+  });
+
+  it("should read dates and file timestamps", () => {
+    const date = new Date(2024, 0, 5);
+    const entry = mockEntry({ "note.due": { date, time: false } });
+    expect(getSummaryValue(app, entry, "note.due")).toEqual({
+      timestamp: date.getTime(),
+      isDateOnly: true,
+    });
+    expect(getSummaryValue(app, entry, "file.mtime")).toEqual({
+      timestamp: 200,
+      isDateOnly: false,
+    });
+  });
+});
+
+describe("aggregateSummaryValues", () => {
+  const values = [3, 1.5, null, true, 10];
+
+  it("should aggregate numbers only", () => {
+    expect(aggregateSummaryValues("sum", values)).toBe("14.5");
+    expect(aggregateSummaryValues("avg", values)).toBe("4.83");
+    expect(aggregateSummaryValues("min", values)).toBe("1.5");
+    expect(aggregateSummaryValues("max", [1000, 2500])).toBe("2,500");
+    expect(aggregateSummaryValues("sum", [null, true])).toBeNull();
+  });
+
+  it("should aggregate groups too large to spread into Math.min", () => {
+    const values = Array.from({ length: 500_000 }, (_, i) => i % 100);
+    expect(aggregateSummaryValues("min", values)).toBe("0");
+    expect(aggregateSummaryValues("max", values)).toBe("99");
+    expect(aggregateSummaryValues("avg", values)).toBe("49.5");
+  });
+
+  it("should count checked checkboxes out of all checkboxes", () => {
+    expect(aggregateSummaryValues("checked", [true, false, true, 4])).toBe(
+      "2/3",
+    );
+    expect(aggregateSummaryValues("checked", [4])).toBeNull();
+  });
+
+  it("should pick the earliest and latest dates", () => {
+    const dates = [
+      { timestamp: 300, isDateOnly: true },
+      { timestamp: 100, isDateOnly: false },
+      5,
+    ];
+    expect(aggregateSummaryValues("earliest", dates)).toBe("100");
+    expect(aggregateSummaryValues("latest", dates)).toBe("300-date");
+    expect(aggregateSummaryValues("latest", [])).toBeNull();
+  });
+});
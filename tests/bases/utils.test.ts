@@ -1,4 +1,34 @@
-import { serializeGroupKey } from "../../src/bases/utils";
+import {
+  serializeGroupKey,
+  getWritableGroupProperty,
+  groupKeyToFrontmatterValue,
+  getCollapseKey,
+  getSubgroupProperties,
+  splitIntoSubgroups,
+  nestGroups,
+  getGroupSectionParent,
+  syncGroupHeadingHeight,
+  planGroupBatch,
+  NESTED_GROUP_KEY_SEPARATOR,
+  UNDEFINED_GROUP_KEY_SENTINEL,
+  applyCustomClasses,
+  BasesCardPins,
+} from "../../src/bases/utils";
+import type { BasesEntry, BasesView } from "obsidian";
+import type DynamicViews from "../../main";
+
+/** Minimal entry whose getValue reads from a plain record */
+function mockEntry(
+  path: string,
+  values: Record<string, unknown>,
+): BasesEntry {
+  return {
+    file: { path },
+    getValue: (property: string) => values[property] ?? null,
+  } as unknown as BasesEntry;
+}
+
+const paths = (entries: BasesEntry[]) => entries.map((e) => e.file.path);
 
 describe("serializeGroupKey", () => {
   describe("primitives", () => {
@@ -153,3 +183,365 @@ describe("serializeGroupKey", () => {
     });
   });
 });
+
+describe("getWritableGroupProperty", () => {
+  it("should strip the note. prefix", () => {
+    expect(getWritableGroupProperty("note.status")).toBe("status");
+  });
+
+  it("should return bare property names as-is", () => {
+    expect(getWritableGroupProperty("status")).toBe("status");
+  });
+
+  it("should reject file and formula properties", () => {
+    expect(getWritableGroupProperty("file.folder")).toBeNull();
+    expect(getWritableGroupProperty("formula.score")).toBeNull();
+  });
+
+  it("should return null for missing property", () => {
+    expect(getWritableGroupProperty(undefined)).toBeNull();
+    expect(getWritableGroupProperty("")).toBeNull();
+  });
+});
+
+describe("groupKeyToFrontmatterValue", () => {
+  it("should return null for empty keys", () => {
+    expect(groupKeyToFrontmatterValue(undefined)).toBeNull();
+    expect(groupKeyToFrontmatterValue(null)).toBeNull();
+    expect(groupKeyToFrontmatterValue("")).toBeNull();
+    expect(groupKeyToFrontmatterValue({ icon: "x", data: null })).toBeNull();
+  });
+
+  it("should keep primitive types", () => {
+    expect(groupKeyToFrontmatterValue("done")).toBe("done");
+    expect(groupKeyToFrontmatterValue(3)).toBe(3);
+    expect(groupKeyToFrontmatterValue(false)).toBe(false);
+  });
+
+  it("should unwrap Value objects", () => {
+    expect(groupKeyToFrontmatterValue({ icon: "x", data: "todo" })).toBe(
+      "todo",
+    );
+    expect(groupKeyToFrontmatterValue({ data: 5 })).toBe(5);
+  });
+
+  it("should format date values as YYYY-MM-DD", () => {
+    const date = new Date(2024, 0, 5, 14, 30);
+    expect(groupKeyToFrontmatterValue({ date, time: false })).toBe(
+      "2024-01-05",
+    );
+  });
+
+  it("should include time when the date value has time", () => {
+    const date = new Date(2024, 0, 5, 14, 30);
+    expect(groupKeyToFrontmatterValue({ date, time: true })).toBe(
+      "2024-01-05T14:30",
+    );
+  });
+
+  it("should convert list values and strip tag hashes", () => {
+    const key = {
+      data: [{ data: "#reading" }, { data: "#books" }],
+    };
+    expect(groupKeyToFrontmatterValue(key)).toEqual(["reading", "books"]);
+    expect(groupKeyToFrontmatterValue(["a", "b"])).toEqual(["a", "b"]);
+  });
+
+  it("should handle array-like proxies", () => {
+    const proxy = { length: 2, 0: { data: "x" }, 1: { data: "y" } };
+    expect(groupKeyToFrontmatterValue(proxy)).toEqual(["x", "y"]);
+  });
+
+  it("should return null for empty lists", () => {
+    expect(groupKeyToFrontmatterValue([])).toBeNull();
+    expect(groupKeyToFrontmatterValue({ data: [] })).toBeNull();
+  });
+});
+
+describe("getCollapseKey", () => {
+  it("should keep top-level keys unchanged", () => {
+    expect(getCollapseKey("Work")).toBe("Work");
+    expect(getCollapseKey(undefined)).toBe(UNDEFINED_GROUP_KEY_SENTINEL);
+  });
+
+  it("should nest subgroup keys under their parent", () => {
+    expect(getCollapseKey("High", "Work")).toBe(
+      `Work${NESTED_GROUP_KEY_SEPARATOR}High`,
+    );
+    expect(getCollapseKey(undefined, "Work")).toBe(
+      `Work${NESTED_GROUP_KEY_SEPARATOR}${UNDEFINED_GROUP_KEY_SENTINEL}`,
+    );
+  });
+});
+
+describe("getSubgroupProperties", () => {
+  const grouped = { groupBy: { property: "note.status" } };
+
+  it("should return nothing without a Bases group by", () => {
+    const settings = { secondaryGroupBy: "a", tertiaryGroupBy: "b" };
+    expect(getSubgroupProperties({ groupBy: undefined }, settings)).toEqual(
+      [],
+    );
+  });
+
+  it("should only use the tertiary level under a secondary one", () => {
+    expect(
+      getSubgroupProperties(grouped, {
+        secondaryGroupBy: "a",
+        tertiaryGroupBy: "b",
+      }),
+    ).toEqual(["a", "b"]);
+    expect(
+      getSubgroupProperties(grouped, {
+        secondaryGroupBy: "",
+        tertiaryGroupBy: "b",
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("splitIntoSubgroups", () => {
+  it("should sort subgroups by value with None last", () => {
+    const entries = [
+      mockEntry("a.md", { priority: "P10" }),
+      mockEntry("b.md", {}),
+      mockEntry("c.md", { priority: "P2" }),
+      mockEntry("d.md", { priority: "P10" }),
+    ];
+    const subgroups = splitIntoSubgroups(entries, "priority");
+    expect(subgroups.map((s) => s.groupKey)).toEqual(["P2", "P10", undefined]);
+    expect(paths(subgroups[1].entries)).toEqual(["a.md", "d.md"]);
+    expect(subgroups[2].group.hasKey()).toBe(false);
+  });
+
+  it("should treat a throwing getValue as no value", () => {
+    const entry = {
+      file: { path: "x.md" },
+      getValue: () => {
+        throw new Error("null property data");
+      },
+    } as unknown as BasesEntry;
+    const subgroups = splitIntoSubgroups([entry], "priority");
+    expect(subgroups).toHaveLength(1);
+    expect(subgroups[0].groupKey).toBeUndefined();
+  });
+});
+
+describe("nestGroups", () => {
+  const entries = [
+    mockEntry("a.md", { area: "Home", priority: "High" }),
+    mockEntry("b.md", { area: "Work", priority: "Low" }),
+    mockEntry("c.md", { area: "Work", priority: "High" }),
+  ];
+  const groups = [
+    { group: { hasKey: () => true, key: "Open" }, entries },
+    { group: { hasKey: () => false }, entries: [] },
+  ];
+
+  it("should pass groups through without subgroup properties", () => {
+    const nested = nestGroups(groups, [], new Set());
+    expect(nested.map((g) => g.collapseKey)).toEqual([
+      "Open",
+      UNDEFINED_GROUP_KEY_SENTINEL,
+    ]);
+    expect(paths(nested[0].entries)).toEqual(["a.md", "b.md", "c.md"]);
+  });
+
+  it("should flatten subgroups depth-first with counts", () => {
+    const nested = nestGroups(groups, ["area", "priority"], new Set());
+    const sep = NESTED_GROUP_KEY_SEPARATOR;
+    expect(nested.map((g) => [g.collapseKey, g.depth, g.count])).toEqual([
+      ["Open", 0, 3],
+      [`Open${sep}Home`, 1, 1],
+      [`Open${sep}Home${sep}High`, 2, 1],
+      [`Open${sep}Work`, 1, 2],
+      [`Open${sep}Work${sep}High`, 2, 1],
+      [`Open${sep}Work${sep}Low`, 2, 1],
+      [UNDEFINED_GROUP_KEY_SENTINEL, 0, 0],
+    ]);
+    // Headers of split groups hold no entries of their own
+    expect(nested[0].hasSubgroups).toBe(true);
+    expect(nested[0].entries).toEqual([]);
+    expect(nested[1].property).toBe("area");
+    expect(nested[0].parentCollapseKey).toBeUndefined();
+    expect(nested[2].parentCollapseKey).toBe(nested[1].collapseKey);
+    expect(paths(nested[5].entries)).toEqual(["b.md"]);
+  });
+
+  it("should leave out subgroups of collapsed groups", () => {
+    const sep = NESTED_GROUP_KEY_SEPARATOR;
+    const nested = nestGroups(
+      groups,
+      ["area", "priority"],
+      new Set([`Open${sep}Work`]),
+    );
+    expect(nested.map((g) => g.collapseKey)).toEqual([
+      "Open",
+      `Open${sep}Home`,
+      `Open${sep}Home${sep}High`,
+      `Open${sep}Work`,
+      UNDEFINED_GROUP_KEY_SENTINEL,
+    ]);
+  });
+});
+
+describe("applyCustomClasses", () => {
+  const mockEl = () =>
+    ({ addClass: jest.fn(), removeClass: jest.fn() }) as unknown as HTMLElement;
+
+  it("should swap the previous classes for the listed ones", () => {
+    const el = mockEl();
+    expect(applyCustomClasses(el, " wide, dense ,", ["old"])).toEqual([
+      "wide",
+      "dense",
+    ]);
+    expect(el.removeClass).toHaveBeenCalledWith("old");
+    expect(el.addClass).toHaveBeenCalledTimes(2);
+  });
+
+  it("should leave the element alone when the classes are unchanged", () => {
+    const el = mockEl();
+    const previous = ["wide"];
+    expect(applyCustomClasses(el, "wide", previous)).toBe(previous);
+    expect(el.addClass).not.toHaveBeenCalled();
+    expect(el.removeClass).not.toHaveBeenCalled();
+  });
+});
+
+describe("getGroupSectionParent", () => {
+  const rootEl = document.createElement("div");
+  const parentSection = document.createElement("div");
+  const sections = new Map([["Open", parentSection]]);
+
+  it("should nest a subgroup in its parent's section", () => {
+    expect(getGroupSectionParent(sections, rootEl, "Open")).toBe(parentSection);
+  });
+
+  it("should fall back to the root for top-level or unknown parents", () => {
+    expect(getGroupSectionParent(sections, rootEl, undefined)).toBe(rootEl);
+    expect(getGroupSectionParent(sections, rootEl, "Done")).toBe(rootEl);
+  });
+});
+
+describe("syncGroupHeadingHeight", () => {
+  const heightVar = "--dynamic-views-group-heading-height";
+
+  it("should expose the top-level heading height", () => {
+    const containerEl = document.createElement("div");
+    containerEl.innerHTML =
+      '<div class="dynamic-views-group-section">' +
+      '<div class="bases-group-heading"></div></div>';
+    const headingEl = containerEl.querySelector(".bases-group-heading")!;
+    Object.defineProperty(headingEl, "offsetHeight", { value: 36 });
+
+    syncGroupHeadingHeight(containerEl);
+    expect(containerEl.style.getPropertyValue(heightVar)).toBe("36px");
+  });
+
+  it("should leave ungrouped views alone", () => {
+    const containerEl = document.createElement("div");
+    syncGroupHeadingHeight(containerEl);
+    expect(containerEl.style.getPropertyValue(heightVar)).toBe("");
+  });
+});
+
+describe("planGroupBatch", () => {
+  const groups = [
+    { name: "a", entries: ["a1", "a2", "a3"].map((p) => mockEntry(p, {})) },
+    { name: "b", entries: ["b1"].map((p) => mockEntry(p, {})) },
+    { name: "c", entries: ["c1", "c2"].map((p) => mockEntry(p, {})) },
+  ];
+  const start = { groupIndex: 0, offset: 0 };
+  const slicePaths = (slices: { entries: BasesEntry[] }[]) =>
+    slices.map((slice) => paths(slice.entries));
+
+  it("should fill a batch across groups and resume mid-group", () => {
+    const first = planGroupBatch(groups, start, 4, () => false);
+    expect(slicePaths(first.slices)).toEqual([["a1", "a2", "a3"], ["b1"]]);
+    expect(first.position).toEqual({ groupIndex: 2, offset: 0 });
+
+    const partial = planGroupBatch(groups, first.position, 1, () => false);
+    expect(slicePaths(partial.slices)).toEqual([["c1"]]);
+    expect(partial.slices[0].isComplete).toBe(false);
+    expect(partial.position).toEqual({ groupIndex: 2, offset: 1 });
+
+    const rest = planGroupBatch(groups, partial.position, 5, () => false);
+    expect(slicePaths(rest.slices)).toEqual([["c2"]]);
+    expect(rest.slices[0].isComplete).toBe(true);
+    expect(rest.position).toEqual({ groupIndex: 3, offset: 0 });
+  });
+
+  it("should include collapsed headers past the budget", () => {
+    const { slices, position } = planGroupBatch(
+      groups,
+      start,
+      3,
+      (group) => group.name === "b",
+    );
+    expect(slices.map((slice) => slice.group.name)).toEqual(["a", "b"]);
+    expect(slices[1]).toMatchObject({ entries: [], isCollapsed: true });
+    expect(position).toEqual({ groupIndex: 2, offset: 0 });
+  });
+
+  it("should return nothing once every group is rendered", () => {
+    const done = { groupIndex: groups.length, offset: 0 };
+    expect(planGroupBatch(groups, done, 10, () => false).slices).toEqual([]);
+  });
+});
+
+describe("BasesCardPins", () => {
+  const setup = (pinnedPaths: string[]) => {
+    let onRename: (file: { path: string }, oldPath: string) => void = () => {};
+    const view = {
+      app: {
+        vault: {
+          on: (_name: string, callback: typeof onRename) => {
+            onRename = callback;
+          },
+        },
+      },
+      registerEvent: jest.fn(),
+    } as unknown as BasesView;
+    const persistenceManager = {
+      getBasesState: jest.fn(() => ({ pinnedPaths })),
+      setBasesState: jest.fn().mockResolvedValue(undefined),
+    };
+    const plugin = { persistenceManager } as unknown as DynamicViews;
+    const onChange = jest.fn();
+    const pins = new BasesCardPins(view, plugin, () => "view-1", onChange);
+    return {
+      pins,
+      persistenceManager,
+      onChange,
+      rename: (oldPath: string, path: string) => onRename({ path }, oldPath),
+    };
+  };
+  const entries = ["a.md", "b.md", "c.md"].map((path) => mockEntry(path, {}));
+
+  it("should load persisted pins once and move them first", () => {
+    const { pins, persistenceManager } = setup(["c.md"]);
+    pins.load();
+    pins.load();
+    expect(persistenceManager.getBasesState).toHaveBeenCalledTimes(1);
+    expect(paths(pins.apply(entries))).toEqual(["c.md", "a.md", "b.md"]);
+  });
+
+  it("should persist a toggle and notify the view", () => {
+    const { pins, persistenceManager, onChange } = setup([]);
+    pins.load();
+    pins.togglePin("b.md");
+    expect(pins.isPinned("b.md")).toBe(true);
+    expect(persistenceManager.setBasesState).toHaveBeenCalledWith("view-1", {
+      pinnedPaths: ["b.md"],
+    });
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should follow renamed notes", () => {
+    const { pins, rename } = setup(["a.md"]);
+    pins.load();
+    rename("a.md", "archive/a.md");
+    expect(pins.isPinned("a.md")).toBe(false);
+    expect(pins.isPinned("archive/a.md")).toBe(true);
+  });
+});
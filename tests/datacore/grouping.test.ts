@@ -0,0 +1,136 @@
+import {
+  getDateBucket,
+  getGroupByLabel,
+  getGroupByProperty,
+  groupDatacoreFiles,
+  isGroupingEnabled,
+} from "../../src/datacore/grouping";
+import type { DatacoreFile } from "../../src/datacore/types";
+
+const NOW = new Date(2025, 5, 15, 12, 0, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeFile = (
+  path: string,
+  options: {
+    tags?: string[];
+    mtime?: number;
+    props?: Record<string, unknown>;
+  } = {},
+): DatacoreFile =>
+  ({
+    $path: path,
+    $name: path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, ""),
+    $tags: options.tags ?? [],
+    $mtime: { toMillis: () => options.mtime ?? 0 },
+    $ctime: { toMillis: () => 0 },
+    value: (key: string) => options.props?.[key],
+  }) as unknown as DatacoreFile;
+
+const toText = (value: unknown) => String(value);
+const paths = (files: DatacoreFile[]) => files.map((f) => f.$path);
+
+describe("grouping", () => {
+  describe("group-by values", () => {
+    it("parses property group-by values", () => {
+      expect(getGroupByProperty("property:status")).toBe("status");
+      expect(getGroupByProperty("property: ")).toBeNull();
+      expect(getGroupByProperty("folder")).toBeNull();
+    });
+
+    it("labels built-in and property groupings", () => {
+      expect(getGroupByLabel("folder")).toBe("Folder");
+      expect(getGroupByLabel("mtime")).toBe("Modified time");
+      expect(getGroupByLabel("property:status")).toBe("status");
+    });
+
+    it("only enables known groupings", () => {
+      expect(isGroupingEnabled("")).toBe(false);
+      expect(isGroupingEnabled("bogus")).toBe(false);
+      expect(isGroupingEnabled("property:")).toBe(false);
+      expect(isGroupingEnabled("tag")).toBe(true);
+      expect(isGroupingEnabled("property:status")).toBe(true);
+    });
+  });
+
+  describe("groupDatacoreFiles", () => {
+    it("groups by folder, keeping sort order within groups", () => {
+      const files = [
+        makeFile("b/one.md"),
+        makeFile("root.md"),
+        makeFile("a/two.md"),
+        makeFile("b/three.md"),
+      ];
+      const groups = groupDatacoreFiles(files, "folder", toText, NOW);
+      expect(groups.map((g) => g.label)).toEqual(["/", "a", "b"]);
+      expect(paths(groups[2].files)).toEqual(["b/one.md", "b/three.md"]);
+    });
+
+    it("puts multi-tag files in each tag group, untagged last", () => {
+      const files = [
+        makeFile("one.md", { tags: ["#work", "#Urgent"] }),
+        makeFile("two.md", { tags: ["#urgent"] }),
+        makeFile("three.md"),
+      ];
+      const groups = groupDatacoreFiles(files, "tag", toText, NOW);
+      expect(groups.map((g) => g.key)).toEqual(["#urgent", "#work", ""]);
+      expect(groups[0].label).toBe("#Urgent");
+      expect(paths(groups[0].files)).toEqual(["one.md", "two.md"]);
+      expect(groups[2].label).toBe("None");
+      expect(paths(groups[2].files)).toEqual(["three.md"]);
+    });
+
+    it("groups by property values, splitting lists", () => {
+      const files = [
+        makeFile("one.md", { props: { status: "done" } }),
+        makeFile("two.md", { props: { status: ["todo", "done"] } }),
+        makeFile("three.md", { props: { status: "" } }),
+        makeFile("four.md", { props: { status: 2 } }),
+      ];
+      const groups = groupDatacoreFiles(files, "property:status", toText, NOW);
+      expect(groups.map((g) => g.label)).toEqual(["2", "done", "todo", "None"]);
+      expect(paths(groups[1].files)).toEqual(["one.md", "two.md"]);
+    });
+
+    it("orders date buckets newest first", () => {
+      const files = [
+        makeFile("old.md", { mtime: new Date(2024, 11, 3).getTime() }),
+        makeFile("today.md", { mtime: NOW - 60 * 1000 }),
+        makeFile("week.md", { mtime: NOW - 3 * DAY }),
+        makeFile("yesterday.md", { mtime: NOW - DAY }),
+        makeFile("never.md"),
+      ];
+      const groups = groupDatacoreFiles(files, "mtime", toText, NOW);
+      expect(groups.map((g) => g.key)).toEqual([
+        "today",
+        "yesterday",
+        "previous-7-days",
+        "2024-12",
+        "",
+      ]);
+    });
+
+    it("returns no groups for no files", () => {
+      expect(groupDatacoreFiles([], "folder", toText, NOW)).toEqual([]);
+    });
+  });
+
+  describe("getDateBucket", () => {
+    it("buckets by calendar day and month", () => {
+      const midnight = new Date(2025, 5, 15).getTime();
+      expect(getDateBucket(midnight, NOW).key).toBe("today");
+      expect(getDateBucket(midnight - 1, NOW).key).toBe("yesterday");
+      expect(getDateBucket(NOW - 20 * DAY, NOW).key).toBe("previous-30-days");
+      expect(getDateBucket(new Date(2023, 0, 9).getTime(), NOW).key).toBe(
+        "2023-01",
+      );
+    });
+
+    it("puts future dates in their month", () => {
+      const future = new Date(2025, 8, 1).getTime();
+      const bucket = getDateBucket(future, NOW);
+      expect(bucket.key).toBe("2025-09");
+      expect(bucket.rank).toBeGreaterThan(getDateBucket(NOW, NOW).rank);
+    });
+  });
+});
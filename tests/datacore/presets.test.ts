@@ -0,0 +1,72 @@
+import {
+  createPreset,
+  deletePreset,
+  findActivePreset,
+  savePreset,
+} from "../../src/datacore/presets";
+
+const state = {
+  searchQuery: "#work",
+  sortMethod: "mtime-desc",
+  thenSortBy: ["name-asc"],
+  resultLimit: "",
+  viewMode: "grid",
+};
+
+describe("createPreset", () => {
+  it("should trim the name and copy the sort keys", () => {
+    const preset = createPreset("  Work  ", state);
+    expect(preset).toEqual({ name: "Work", ...state });
+    expect(preset.thenSortBy).not.toBe(state.thenSortBy);
+  });
+
+  it("should cap long names", () => {
+    expect(createPreset("x".repeat(100), state).name).toHaveLength(60);
+  });
+});
+
+describe("savePreset", () => {
+  const work = createPreset("Work", state);
+  const recent = createPreset("Recent", { ...state, searchQuery: "" });
+
+  it("should append new presets", () => {
+    expect(savePreset([work], recent)).toEqual([work, recent]);
+  });
+
+  it("should replace a preset with the same name in place", () => {
+    const updated = createPreset("work", { ...state, viewMode: "list" });
+    expect(savePreset([work, recent], updated)).toEqual([updated, recent]);
+  });
+});
+
+describe("deletePreset", () => {
+  it("should remove the named preset", () => {
+    const work = createPreset("Work", state);
+    const recent = createPreset("Recent", state);
+    expect(deletePreset([work, recent], "Work")).toEqual([recent]);
+  });
+
+  it("should match names case-insensitively like savePreset", () => {
+    const work = createPreset("Work", state);
+    const recent = createPreset("Recent", state);
+    expect(deletePreset([work, recent], "work")).toEqual([recent]);
+  });
+});
+
+describe("findActivePreset", () => {
+  const work = createPreset("Work", state);
+  const list = createPreset("List", { ...state, viewMode: "list" });
+
+  it("should find the preset matching every field", () => {
+    expect(findActivePreset([work, list], { ...state, viewMode: "list" })).toBe(
+      list,
+    );
+  });
+
+  it("should return null when any field differs", () => {
+    expect(
+      findActivePreset([work, list], { ...state, thenSortBy: ["name-desc"] }),
+    ).toBeNull();
+    expect(findActivePreset([], state)).toBeNull();
+  });
+});
@@ -0,0 +1,298 @@
+import {
+  getMatchSnippet,
+  getSearchSuggestions,
+  matchesSearchQuery,
+  parseSearchQuery,
+  searchNoteBodies,
+  searchNoteBody,
+} from "../../src/datacore/search";
+import { TFile } from "obsidian";
+import type { DatacoreFile } from "../../src/datacore/types";
+
+const NOW = new Date(2025, 5, 15, 12, 0, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeFile = (
+  path: string,
+  options: {
+    tags?: string[];
+    mtime?: number;
+    props?: Record<string, unknown>;
+  } = {},
+): DatacoreFile =>
+  ({
+    $path: path,
+    $name: path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, ""),
+    $tags: options.tags ?? [],
+    $mtime: { toMillis: () => options.mtime ?? 0 },
+    $ctime: { toMillis: () => 0 },
+    value: (key: string) => options.props?.[key],
+  }) as unknown as DatacoreFile;
+
+const toText = (value: unknown) => String(value);
+
+/** Paths of the files matching a query */
+const search = (files: DatacoreFile[], query: string) =>
+  files
+    .filter((file) =>
+      matchesSearchQuery(file, parseSearchQuery(query), toText, undefined, NOW),
+    )
+    .map((file) => file.$path);
+
+describe("parseSearchQuery", () => {
+  it("should group OR terms and collect positive words and phrases", () => {
+    const query = parseSearchQuery('plan "next steps" OR #idea -draft');
+    expect(query.clauses.map((clause) => clause.length)).toEqual([1, 2, 1]);
+    expect(query.textTerms).toEqual(["plan", "next steps"]);
+    expect(query.errors).toEqual([]);
+  });
+
+  it("should report invalid terms and leave them out", () => {
+    const query = parseSearchQuery('rating:>high mtime:today OR "open');
+    expect(query.clauses).toEqual([
+      [{ type: "text", value: "open", negated: false }],
+    ]);
+    expect(query.errors).toEqual([
+      "Missing closing quote",
+      '"rating:>high": expected a number, date (2025-01-31) or age (7d) after >',
+      '"mtime:today": mtime needs a comparison, like mtime:>7d',
+      "OR needs a term on each side",
+    ]);
+  });
+
+  it("should spell months mo and reject a bare m", () => {
+    expect(parseSearchQuery("mtime:>2mo").errors).toEqual([]);
+    expect(parseSearchQuery("mtime:>2m").errors).toEqual([
+      '"mtime:>2m": months are written mo, like 2mo',
+    ]);
+  });
+});
+
+describe("matchesSearchQuery", () => {
+  const files = [
+    makeFile("Projects/Alpha.md", {
+      tags: ["#work"],
+      mtime: NOW - 2 * DAY,
+      props: { rating: 4, status: "In progress", due: "2025-06-20" },
+    }),
+    makeFile("Projects/Archive/Beta.md", {
+      tags: ["#work", "#old"],
+      mtime: NOW - 40 * DAY,
+      props: { rating: "2", status: ["Done", "Filed"] },
+    }),
+    makeFile("Home/Gamma.md", { mtime: NOW - 10 * DAY }),
+  ];
+
+  it("should match names, tags, paths and folders", () => {
+    expect(search(files, "alp")).toEqual(["Projects/Alpha.md"]);
+    expect(search(files, "#work -#old")).toEqual(["Projects/Alpha.md"]);
+    expect(search(files, "path:archive")).toEqual(["Projects/Archive/Beta.md"]);
+    expect(search(files, "folder:projects")).toEqual([
+      "Projects/Alpha.md",
+      "Projects/Archive/Beta.md",
+    ]);
+    expect(search(files, "folder:Proj")).toEqual([]);
+  });
+
+  it("should match property text, presence and OR", () => {
+    expect(search(files, 'status:"in prog"')).toEqual(["Projects/Alpha.md"]);
+    expect(search(files, "status:filed")).toEqual(["Projects/Archive/Beta.md"]);
+    expect(search(files, "-status:")).toEqual(["Home/Gamma.md"]);
+    expect(search(files, "gamma OR status:done")).toEqual([
+      "Projects/Archive/Beta.md",
+      "Home/Gamma.md",
+    ]);
+  });
+
+  it("should compare numbers, dates and ages", () => {
+    expect(search(files, "rating:>3")).toEqual(["Projects/Alpha.md"]);
+    expect(search(files, "rating:<=2")).toEqual(["Projects/Archive/Beta.md"]);
+    expect(search(files, "due:>=2025-06-20")).toEqual(["Projects/Alpha.md"]);
+    expect(search(files, "due:<2025-06-20")).toEqual([]);
+    expect(search(files, "mtime:>7d")).toEqual(["Projects/Alpha.md"]);
+    expect(search(files, "mtime:<1w mtime:>1mo")).toEqual(["Home/Gamma.md"]);
+  });
+
+  it("should read ages and dates the same way: > is later", () => {
+    // NOW is 2025-06-15, so 7d ago is 2025-06-08
+    expect(search(files, "mtime:>7d")).toEqual(
+      search(files, "mtime:>2025-06-08"),
+    );
+    expect(search(files, "mtime:<7d")).toEqual(
+      search(files, "mtime:<2025-06-08"),
+    );
+    expect(search(files, "mtime:<7d")).toEqual([
+      "Projects/Archive/Beta.md",
+      "Home/Gamma.md",
+    ]);
+  });
+
+  it("should match words in note bodies, but exclude by name only", () => {
+    const [alpha] = files;
+    const query = parseSearchQuery("budget");
+    const bodyMatch = { terms: ["budget"], snippet: "the budget" };
+    expect(matchesSearchQuery(alpha, query, toText, bodyMatch, NOW)).toBe(true);
+    expect(matchesSearchQuery(alpha, query, toText, undefined, NOW)).toBe(
+      false,
+    );
+    expect(
+      matchesSearchQuery(
+        alpha,
+        parseSearchQuery("-budget"),
+        toText,
+        bodyMatch,
+        NOW,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("getSearchSuggestions", () => {
+  it("should complete fields and properties for the last word", () => {
+    expect(getSearchSuggestions("#idea -st", ["status", "stage"])).toEqual([
+      { value: "#idea -status:" },
+      { value: "#idea -stage:" },
+    ]);
+    expect(getSearchSuggestions("m", ["modified time", "mood"])).toEqual([
+      { value: "mtime:" },
+      { value: "mood:" },
+    ]);
+  });
+
+  it("should offer time comparison examples with their meaning", () => {
+    expect(getSearchSuggestions("#idea mtime:", [])).toEqual([
+      { value: "#idea mtime:>7d", label: "Within the last 7 days" },
+      { value: "#idea mtime:<2mo", label: "More than 2 months (mo) ago" },
+      { value: "#idea mtime:>=2025-01-01", label: "On or after 2025-01-01" },
+      { value: "#idea mtime:<2025-01-01", label: "Before 2025-01-01" },
+    ]);
+    expect(
+      getSearchSuggestions("-ctime:<", []).map((item) => item.value),
+    ).toEqual(["-ctime:<2mo", "-ctime:<2025-01-01"]);
+  });
+
+  it("should not complete values, tags or quoted text", () => {
+    expect(getSearchSuggestions("status:do", ["status"])).toEqual([]);
+    expect(getSearchSuggestions("#pa", ["path"])).toEqual([]);
+    expect(getSearchSuggestions('"pa', ["path"])).toEqual([]);
+  });
+});
+
+describe("searchNoteBody", () => {
+  const note = [
+    "---",
+    "status: budget",
+    "---",
+    "# Planning",
+    "We reviewed the **Budget** for Q3 with [[Finance|finance team]].",
+    "See [docs](https://example.com/roadmap).",
+  ].join("\n");
+
+  it("should find terms in the body text, not frontmatter or markup", () => {
+    expect(searchNoteBody(note, ["budget", "finance"])).toEqual({
+      terms: ["budget", "finance"],
+      snippet: "We reviewed the Budget for Q3 with finance team. See docs.",
+    });
+    expect(searchNoteBody(note, ["status"])).toBeNull();
+    expect(searchNoteBody(note, ["roadmap"])).toBeNull();
+  });
+
+  it("should return the terms found when only some match", () => {
+    expect(searchNoteBody(note, ["missing", "docs"])?.terms).toEqual(["docs"]);
+    expect(searchNoteBody(note, [])).toBeNull();
+  });
+});
+
+describe("searchNoteBodies", () => {
+  const makeNote = (path: string, mtime: number): TFile => {
+    const file = new TFile();
+    file.path = path;
+    file.stat = { ctime: 0, mtime, size: 0 };
+    return file;
+  };
+  const contents: Record<string, string> = {
+    "a.md": "The budget for next year",
+    "b.md": "Nothing relevant",
+  };
+  const read = jest.fn((file: TFile) => Promise.resolve(contents[file.path]));
+
+  beforeEach(() => read.mockClear());
+
+  it("should re-read only notes changed since the last run", async () => {
+    const first = await searchNoteBodies(
+      [makeNote("a.md", 1), makeNote("b.md", 1)],
+      ["budget"],
+      read,
+      null,
+    );
+    expect([...first.matches.keys()]).toEqual(["a.md"]);
+
+    contents["b.md"] = "A smaller budget";
+    const second = await searchNoteBodies(
+      [makeNote("a.md", 1), makeNote("b.md", 2)],
+      ["budget"],
+      read,
+      first.cache,
+    );
+    expect(read.mock.calls.map(([file]) => file.path)).toEqual([
+      "a.md",
+      "b.md",
+      "b.md",
+    ]);
+    expect([...second.matches.keys()]).toEqual(["a.md", "b.md"]);
+  });
+
+  it("should read every note again for new terms", async () => {
+    const { cache } = await searchNoteBodies(
+      [makeNote("a.md", 1)],
+      ["budget"],
+      read,
+      null,
+    );
+    const { matches } = await searchNoteBodies(
+      [makeNote("a.md", 1)],
+      ["year"],
+      read,
+      cache,
+    );
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(matches.get("a.md")?.terms).toEqual(["year"]);
+  });
+
+  it("should forget notes that left the results", async () => {
+    const { cache } = await searchNoteBodies(
+      [makeNote("a.md", 1), makeNote("b.md", 1)],
+      ["budget"],
+      read,
+      null,
+    );
+    const next = await searchNoteBodies(
+      [makeNote("a.md", 1)],
+      ["budget"],
+      read,
+      cache,
+    );
+    expect([...next.cache.entries.keys()]).toEqual(["a.md"]);
+  });
+});
+
+describe("getMatchSnippet", () => {
+  const words = Array.from({ length: 100 }, (_, i) => `word${i}`);
+  const text = words.join(" ");
+
+  it("should cut around the match on word boundaries", () => {
+    const index = text.indexOf("word50");
+    const snippet = getMatchSnippet(text, index);
+    expect(snippet.startsWith("…word")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("word50");
+    expect(snippet.length).toBeLessThanOrEqual(242);
+    expect(snippet.split(" ").every((w) => /^…?word\d+…?$/.test(w))).toBe(
+      true,
+    );
+  });
+
+  it("should not add ellipses at the edges of the text", () => {
+    expect(getMatchSnippet("short note text", 6)).toBe("short note text");
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  getSortField,
+  getSortKeyLabel,
+  parseSortKey,
+  sortDatacoreFiles,
+  toggleSortDirection,
+} from "../../src/datacore/sorting";
+import type { DatacoreFile } from "../../src/datacore/types";
+
+const makeFile = (
+  name: string,
+  props: Record<string, unknown> = {},
+  mtime = 0,
+): DatacoreFile =>
+  ({
+    $path: `${name}.md`,
+    $name: name,
+    $tags: [],
+    $mtime: { toMillis: () => mtime },
+    $ctime: { toMillis: () => 0 },
+    value: (key: string) => props[key],
+  }) as unknown as DatacoreFile;
+
+const toText = (value: unknown) => String(value);
+const names = (files: DatacoreFile[]) => files.map((f) => f.$name);
+
+describe("sorting", () => {
+  describe("sort keys", () => {
+    it("parses built-in and property keys", () => {
+      expect(parseSortKey("name-asc")).toEqual({
+        field: "name",
+        descending: false,
+      });
+      expect(parseSortKey("property:due-date-desc")).toEqual({
+        field: "property:due-date",
+        descending: true,
+      });
+    });
+
+    it("rejects invalid keys", () => {
+      expect(parseSortKey("name")).toBeNull();
+      expect(parseSortKey("size-asc")).toBeNull();
+      expect(parseSortKey("property:-asc")).toBeNull();
+      expect(parseSortKey("name-up")).toBeNull();
+    });
+
+    it("maps typed names to sort fields", () => {
+      expect(getSortField("file.mtime")).toBe("mtime");
+      expect(getSortField(" rating ")).toBe("property:rating");
+    });
+
+    it("toggles direction and labels keys", () => {
+      expect(toggleSortDirection("property:rating-desc")).toBe(
+        "property:rating-asc",
+      );
+      expect(getSortKeyLabel("name-desc")).toBe("File name (Z to A)");
+      expect(getSortKeyLabel("property:rating-desc")).toBe(
+        "rating (descending)",
+      );
+    });
+  });
+
+  describe("sortDatacoreFiles", () => {
+    it("sorts numbers numerically and strings naturally", () => {
+      const files = [
+        makeFile("Item 10", { rating: 10 }),
+        makeFile("Item 2", { rating: 9 }),
+        makeFile("item 1", { rating: 100 }),
+      ];
+      expect(
+        names(sortDatacoreFiles([...files], ["name-asc"], toText)),
+      ).toEqual(["item 1", "Item 2", "Item 10"]);
+      expect(
+        names(sortDatacoreFiles([...files], ["property:rating-asc"], toText)),
+      ).toEqual(["Item 2", "Item 10", "item 1"]);
+    });
+
+    it("compares dates and booleans by value", () => {
+      const files = [
+        makeFile("later", { due: new Date(2025, 5, 2), done: true }),
+        makeFile("sooner", { due: { toMillis: () => 1000 }, done: false }),
+      ];
+      expect(
+        names(sortDatacoreFiles([...files], ["property:due-asc"], toText)),
+      ).toEqual(["sooner", "later"]);
+      expect(
+        names(sortDatacoreFiles([...files], ["property:done-desc"], toText)),
+      ).toEqual(["later", "sooner"]);
+    });
+
+    it("breaks ties with secondary keys", () => {
+      const files = [
+        makeFile("Dune", { rating: 5 }),
+        makeFile("Anathem", { rating: 4 }),
+        makeFile("Contact", { rating: 5 }),
+      ];
+      const sorted = sortDatacoreFiles(
+        files,
+        ["property:rating-desc", "name-asc"],
+        toText,
+      );
+      expect(names(sorted)).toEqual(["Contact", "Dune", "Anathem"]);
+    });
+
+    it("keeps missing values last in both directions", () => {
+      const files = [
+        makeFile("none"),
+        makeFile("low", { rating: 1 }),
+        makeFile("empty", { rating: "" }),
+        makeFile("high", { rating: 3 }),
+      ];
+      const asc = sortDatacoreFiles(
+        [...files],
+        ["property:rating-asc"],
+        toText,
+      );
+      const desc = sortDatacoreFiles(
+        [...files],
+        ["property:rating-desc"],
+        toText,
+      );
+      expect(names(asc).slice(0, 2)).toEqual(["low", "high"]);
+      expect(names(desc).slice(0, 2)).toEqual(["high", "low"]);
+    });
+
+    it("sorts lists by their first item", () => {
+      const files = [
+        makeFile("b", { authors: ["Zed", "Amy"] }),
+        makeFile("a", { authors: ["Bo"] }),
+      ];
+      expect(
+        names(sortDatacoreFiles(files, ["property:authors-asc"], toText)),
+      ).toEqual(["a", "b"]);
+    });
+
+    it("falls back to modified time without valid keys", () => {
+      const files = [makeFile("old", {}, 1), makeFile("new", {}, 2)];
+      expect(names(sortDatacoreFiles(files, ["bogus"], toText))).toEqual([
+        "new",
+        "old",
+      ]);
+    });
+  });
+});
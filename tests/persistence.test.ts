@@ -24,21 +24,34 @@ jest.mock("../src/constants", () => ({
   VIEW_DEFAULTS: {
     cardSize: 400,
     titleProperty: "file base name",
+    listMarker: "bullet",
   },
   DATACORE_DEFAULTS: {
-    listMarker: "bullet",
     queryHeight: 0,
     pairProperties: true,
   },
+  BASES_VIEW_TYPES: [
+    "grid",
+    "masonry",
+    "kanban",
+    "calendar",
+    "timeline",
+    "list",
+    "carousel",
+    "tree",
+  ],
   DEFAULT_BASES_STATE: {
     collapsedGroups: [],
   },
   DEFAULT_DATACORE_STATE: {
     sortMethod: "mtime-desc",
+    thenSortBy: [],
     viewMode: "grid",
     searchQuery: "",
     resultLimit: "",
     widthMode: "normal",
+    groupBy: "",
+    collapsedGroups: [],
     settings: undefined,
   },
 }));
@@ -204,6 +217,44 @@ describe("PersistenceManager", () => {
       expect(mockPlugin.saveData).not.toHaveBeenCalled();
     });
 
+    it("should keep collapsed folders when only groups change", async () => {
+      await manager.setBasesState("view-1", {
+        collapsedFolders: ["Projects/Archive"],
+      });
+      await manager.setBasesState("view-1", { collapsedGroups: ["group1"] });
+
+      expect(manager.getBasesState("view-1")).toEqual({
+        collapsedGroups: ["group1"],
+        collapsedFolders: ["Projects/Archive"],
+      });
+    });
+
+    it("should keep the manual order when only groups change", async () => {
+      await manager.setBasesState("view-1", {
+        manualOrder: ["b.md", "a.md"],
+      });
+      await manager.setBasesState("view-1", { collapsedGroups: ["group1"] });
+
+      expect(manager.getBasesState("view-1")).toEqual({
+        collapsedGroups: ["group1"],
+        manualOrder: ["b.md", "a.md"],
+      });
+    });
+
+    it("should delete entry when both lists are empty", async () => {
+      await manager.setBasesState("view-1", {
+        collapsedGroups: ["group1"],
+        collapsedFolders: ["Projects"],
+      });
+      await manager.setBasesState("view-1", { collapsedGroups: [] });
+      expect(manager.getBasesState("view-1").collapsedFolders).toEqual([
+        "Projects",
+      ]);
+
+      await manager.setBasesState("view-1", { collapsedFolders: [] });
+      expect(manager.getBasesState("view-1")).toEqual({ collapsedGroups: [] });
+    });
+
     it("should sanitize collapsedGroups", async () => {
       const { sanitizeString } = require("../src/utils/sanitize");
 
@@ -238,6 +289,34 @@ describe("PersistenceManager", () => {
     });
   });
 
+  describe("renamePinnedPaths", () => {
+    it("should rename pins in Bases and Datacore states", async () => {
+      await manager.setBasesState("view-1", {
+        pinnedPaths: ["Index.md", "b.md"],
+      });
+      await manager.setDatacoreState("query-1", { pinnedPaths: ["Index.md"] });
+
+      await manager.renamePinnedPaths("Index.md", "Home.md");
+
+      expect(manager.getBasesState("view-1").pinnedPaths).toEqual([
+        "Home.md",
+        "b.md",
+      ]);
+      expect(manager.getDatacoreState("query-1").pinnedPaths).toEqual([
+        "Home.md",
+      ]);
+    });
+
+    it("should not save when no pin matches", async () => {
+      await manager.setBasesState("view-1", { pinnedPaths: ["a.md"] });
+      (mockPlugin.saveData as jest.Mock).mockClear();
+
+      await manager.renamePinnedPaths("b.md", "c.md");
+
+      expect(mockPlugin.saveData).not.toHaveBeenCalled();
+    });
+  });
+
   describe("getDatacoreState", () => {
     it("should return default state when no queryId", () => {
       const state = manager.getDatacoreState();
@@ -249,10 +328,13 @@ describe("PersistenceManager", () => {
       const state = manager.getDatacoreState("unknown-query");
       expect(state).toEqual({
         sortMethod: "mtime-desc",
+        thenSortBy: [],
         viewMode: "grid",
         searchQuery: "",
         resultLimit: "",
         widthMode: "normal",
+        groupBy: "",
+        collapsedGroups: [],
         settings: undefined,
       });
     });
@@ -323,6 +405,50 @@ describe("PersistenceManager", () => {
 
       expect(sanitizeObject).toHaveBeenCalled();
     });
+
+    it("should store collapsed groups and drop them when empty", async () => {
+      await manager.setDatacoreState("query-1", {
+        groupBy: "folder",
+        collapsedGroups: ["Projects", "Archive"],
+      });
+      expect(manager.getDatacoreState("query-1").collapsedGroups).toEqual([
+        "Projects",
+        "Archive",
+      ]);
+
+      await manager.setDatacoreState("query-1", {
+        groupBy: "",
+        collapsedGroups: [],
+      });
+      expect((manager as any).data.datacoreStates["query-1"]).toBeUndefined();
+    });
+
+    it("should store presets and drop them when empty", async () => {
+      const preset = {
+        name: "Recent",
+        searchQuery: "a".repeat(600),
+        sortMethod: "mtime-desc",
+        thenSortBy: ["name-asc"],
+        resultLimit: "20",
+        viewMode: "list",
+      };
+      await manager.setDatacoreState("query-1", { presets: [preset] });
+      expect(manager.getDatacoreState("query-1").presets).toEqual([
+        { ...preset, searchQuery: "a".repeat(500) },
+      ]);
+
+      await manager.setDatacoreState("query-1", { presets: [] });
+      expect((manager as any).data.datacoreStates["query-1"]).toBeUndefined();
+    });
+
+    it("should sanitize secondary sort keys", async () => {
+      await manager.setDatacoreState("query-1", {
+        thenSortBy: ["property:title-asc", 42 as any],
+      });
+      expect(manager.getDatacoreState("query-1").thenSortBy).toEqual([
+        "property:title-asc",
+      ]);
+    });
   });
 
   describe("getSettingsTemplate", () => {
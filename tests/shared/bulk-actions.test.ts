@@ -0,0 +1,167 @@
+import { App, TFile } from "obsidian";
+import {
+  addTagToFrontmatter,
+  formatFileCount,
+  moveFilesToFolder,
+  normalizeTag,
+  openFilesInTabs,
+  parsePropertyValue,
+  removeTagFromFrontmatter,
+  setPropertyOnFiles,
+} from "../../src/shared/bulk-actions";
+
+const makeFile = (path: string): TFile => {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split("/").pop() ?? path;
+  return file;
+};
+
+describe("bulk-actions", () => {
+  describe("normalizeTag", () => {
+    it("strips whitespace and leading hashes", () => {
+      expect(normalizeTag("  #project ")).toBe("project");
+      expect(normalizeTag("##nested/tag")).toBe("nested/tag");
+    });
+  });
+
+  describe("addTagToFrontmatter", () => {
+    it("creates a tag list when none exists", () => {
+      const frontmatter: Record<string, unknown> = {};
+      addTagToFrontmatter(frontmatter, "#todo");
+      expect(frontmatter.tags).toEqual(["todo"]);
+    });
+
+    it("normalizes string tags and skips duplicates", () => {
+      const frontmatter: Record<string, unknown> = { tags: "#a, b" };
+      addTagToFrontmatter(frontmatter, "B");
+      expect(frontmatter.tags).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("removeTagFromFrontmatter", () => {
+    it("removes tags case-insensitively", () => {
+      const frontmatter: Record<string, unknown> = { tags: ["Todo", "done"] };
+      removeTagFromFrontmatter(frontmatter, "#todo");
+      expect(frontmatter.tags).toEqual(["done"]);
+    });
+
+    it("deletes the tags key when the list becomes empty", () => {
+      const frontmatter: Record<string, unknown> = { tags: ["todo"] };
+      removeTagFromFrontmatter(frontmatter, "todo");
+      expect("tags" in frontmatter).toBe(false);
+    });
+
+    it("leaves frontmatter without tags untouched", () => {
+      const frontmatter: Record<string, unknown> = { status: "open" };
+      removeTagFromFrontmatter(frontmatter, "todo");
+      expect(frontmatter).toEqual({ status: "open" });
+    });
+  });
+
+  describe("parsePropertyValue", () => {
+    it("types booleans and numbers", () => {
+      expect(parsePropertyValue("true")).toBe(true);
+      expect(parsePropertyValue("false")).toBe(false);
+      expect(parsePropertyValue(" 42 ")).toBe(42);
+      expect(parsePropertyValue("-1.5")).toBe(-1.5);
+    });
+
+    it("keeps other input as trimmed text", () => {
+      expect(parsePropertyValue(" in progress ")).toBe("in progress");
+      expect(parsePropertyValue("1.2.3")).toBe("1.2.3");
+    });
+
+    it("returns null for empty input", () => {
+      expect(parsePropertyValue("   ")).toBeNull();
+    });
+  });
+
+  describe("formatFileCount", () => {
+    it("pluralizes", () => {
+      expect(formatFileCount(1)).toBe("1 file");
+      expect(formatFileCount(3)).toBe("3 files");
+    });
+  });
+
+  describe("setPropertyOnFiles", () => {
+    it("continues past files that fail to update", async () => {
+      const app = new App();
+      const written: Record<string, unknown>[] = [];
+      jest
+        .spyOn(app.fileManager, "processFrontMatter")
+        .mockImplementation((file, fn) => {
+          if (file.path === "bad.md") return Promise.reject(new Error("nope"));
+          const frontmatter: Record<string, unknown> = {};
+          fn(frontmatter);
+          written.push(frontmatter);
+          return Promise.resolve();
+        });
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+      jest.spyOn(console, "log").mockImplementation();
+
+      await setPropertyOnFiles(
+        app,
+        [makeFile("a.md"), makeFile("bad.md"), makeFile("b.md")],
+        "status",
+        "done",
+      );
+
+      expect(written).toEqual([{ status: "done" }, { status: "done" }]);
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("moveFilesToFolder", () => {
+    it("skips files already in the target folder", async () => {
+      const app = new App();
+      const renameFile = jest.fn().mockResolvedValue(undefined);
+      (app.fileManager as unknown as { renameFile: jest.Mock }).renameFile =
+        renameFile;
+      jest.spyOn(console, "log").mockImplementation();
+
+      await moveFilesToFolder(
+        app,
+        [makeFile("notes/a.md"), makeFile("inbox/b.md")],
+        "notes",
+      );
+
+      expect(renameFile).toHaveBeenCalledTimes(1);
+      expect(renameFile).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "inbox/b.md" }),
+        "notes/b.md",
+      );
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("openFilesInTabs", () => {
+    it("keeps opening tabs and reports files that fail to open", async () => {
+      const app = new App();
+      const openFile = jest.fn((file: TFile) =>
+        file.path === "bad.md"
+          ? Promise.reject(new Error("nope"))
+          : Promise.resolve(),
+      );
+      (app.workspace as unknown as { getLeaf: jest.Mock }).getLeaf = jest.fn(
+        () => ({ openFile }),
+      );
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+      const logSpy = jest.spyOn(console, "log").mockImplementation();
+
+      await openFilesInTabs(app, [
+        makeFile("a.md"),
+        makeFile("bad.md"),
+        makeFile("b.md"),
+      ]);
+
+      expect(openFile).toHaveBeenCalledTimes(3);
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      expect(logSpy).toHaveBeenCalledWith(
+        "Notice: Opened 2 of 3 files (1 failed)",
+      );
+      jest.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  bucketByDay,
+  formatFrontmatterDate,
+  getCalendarDays,
+  getCalendarTitle,
+  getDroppedDateValue,
+  getWeekdayLabels,
+  getWritableDateProperty,
+  parseDateKey,
+  resolveCalendarTimestamp,
+  shiftCalendarAnchor,
+  toDateKey,
+} from "../../src/shared/calendar";
+
+const keys = (days: Date[]) => days.map(toDateKey);
+
+describe("calendar", () => {
+  describe("day keys", () => {
+    it("formats local dates with optional time", () => {
+      const date = new Date(2025, 5, 3, 9, 5);
+      expect(toDateKey(date)).toBe("2025-06-03");
+      expect(formatFrontmatterDate(date, true)).toBe("2025-06-03T09:05");
+    });
+
+    it("parses keys back to local midnight", () => {
+      expect(parseDateKey("2025-06-03")?.getTime()).toBe(
+        new Date(2025, 5, 3).getTime(),
+      );
+      expect(parseDateKey("2025-02-30")).toBeNull();
+      expect(parseDateKey("June 3")).toBeNull();
+    });
+  });
+
+  describe("getCalendarDays", () => {
+    it("covers the month in full weeks", () => {
+      // June 2025 starts on a Sunday and ends on a Monday
+      const sunday = getCalendarDays(new Date(2025, 5, 18), "month", 0);
+      expect(sunday).toHaveLength(35);
+      expect(toDateKey(sunday[0])).toBe("2025-06-01");
+      expect(toDateKey(sunday[34])).toBe("2025-07-05");
+
+      const monday = getCalendarDays(new Date(2025, 5, 18), "month", 1);
+      expect(monday).toHaveLength(42);
+      expect(toDateKey(monday[0])).toBe("2025-05-26");
+    });
+
+    it("returns the anchor's week", () => {
+      const week = getCalendarDays(new Date(2025, 0, 1), "week", 1);
+      expect(keys(week)).toEqual([
+        "2024-12-30",
+        "2024-12-31",
+        "2025-01-01",
+        "2025-01-02",
+        "2025-01-03",
+        "2025-01-04",
+        "2025-01-05",
+      ]);
+    });
+  });
+
+  describe("navigation", () => {
+    it("shifts by months and weeks", () => {
+      const anchor = new Date(2025, 0, 31);
+      expect(toDateKey(shiftCalendarAnchor(anchor, "month", 1))).toBe(
+        "2025-02-01",
+      );
+      expect(toDateKey(shiftCalendarAnchor(anchor, "week", -1))).toBe(
+        "2025-01-24",
+      );
+    });
+
+    it("labels months and weekdays", () => {
+      expect(getCalendarTitle(new Date(2025, 5, 18), "month", 0)).toContain(
+        "2025",
+      );
+      const labels = getWeekdayLabels(1);
+      expect(labels).toHaveLength(7);
+      expect(labels[0]).toBe(
+        new Date(2025, 5, 16).toLocaleDateString(undefined, {
+          weekday: "short",
+        }),
+      );
+    });
+  });
+
+  describe("placing notes", () => {
+    it("prefers the date property over the fallback", () => {
+      const due = new Date(2025, 5, 3);
+      expect(
+        resolveCalendarTimestamp({ date: due, time: false }, "ctime", 1, 2),
+      ).toBe(due.getTime());
+      expect(resolveCalendarTimestamp(null, "ctime", 1, 2)).toBe(1);
+      expect(resolveCalendarTimestamp(null, "mtime", 1, 2)).toBe(2);
+      expect(resolveCalendarTimestamp(null, "none", 1, 2)).toBeNull();
+    });
+
+    it("buckets items by local day in order", () => {
+      const items = [
+        { name: "a", at: new Date(2025, 5, 3, 23, 30).getTime() },
+        { name: "b", at: null },
+        { name: "c", at: new Date(2025, 5, 3, 8).getTime() },
+        { name: "d", at: new Date(2025, 5, 4).getTime() },
+      ];
+      const buckets = bucketByDay(items, (item) => item.at);
+      expect(buckets.get("2025-06-03")?.map((i) => i.name)).toEqual([
+        "a",
+        "c",
+      ]);
+      expect(buckets.get("2025-06-04")?.map((i) => i.name)).toEqual(["d"]);
+      expect(buckets.size).toBe(2);
+    });
+  });
+
+  describe("dropping notes", () => {
+    it("rewrites the property that dates the note", () => {
+      const hasDate = (property: string) => property === "note.scheduled";
+      expect(getWritableDateProperty("note.due, note.scheduled", hasDate)).toBe(
+        "scheduled",
+      );
+      expect(getWritableDateProperty("note.due", () => false)).toBe("due");
+    });
+
+    it("never writes file or formula properties", () => {
+      expect(
+        getWritableDateProperty("file.ctime, formula.next", () => true),
+      ).toBeNull();
+      expect(getWritableDateProperty("", () => true)).toBeNull();
+    });
+
+    it("keeps the time of day for datetimes", () => {
+      const day = new Date(2025, 5, 10);
+      const datetime = new Date(2025, 5, 3, 14, 45).getTime();
+      expect(
+        getDroppedDateValue({ timestamp: datetime, isDateOnly: false }, day),
+      ).toBe("2025-06-10T14:45");
+      expect(
+        getDroppedDateValue({ timestamp: datetime, isDateOnly: true }, day),
+      ).toBe("2025-06-10");
+      expect(getDroppedDateValue(null, day)).toBe("2025-06-10");
+    });
+  });
+});
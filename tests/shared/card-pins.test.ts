@@ -0,0 +1,55 @@
+import {
+  applyPins,
+  renamePinnedPaths,
+  togglePinnedPath,
+} from "../../src/shared/card-pins";
+
+describe("card-pins", () => {
+  const identity = (path: string) => path;
+
+  describe("applyPins", () => {
+    it("moves pinned items first in pin order", () => {
+      expect(
+        applyPins(["a.md", "b.md", "c.md", "d.md"], identity, [
+          "d.md",
+          "b.md",
+        ]),
+      ).toEqual(["d.md", "b.md", "a.md", "c.md"]);
+    });
+
+    it("ignores pins that aren't among the items", () => {
+      const items = ["a.md", "b.md"];
+      expect(applyPins(items, identity, ["gone.md"])).toBe(items);
+      expect(applyPins(items, identity, ["gone.md", "b.md"])).toEqual([
+        "b.md",
+        "a.md",
+      ]);
+    });
+  });
+
+  describe("togglePinnedPath", () => {
+    it("appends new pins and removes existing ones", () => {
+      expect(togglePinnedPath(["a.md"], "b.md")).toEqual(["a.md", "b.md"]);
+      expect(togglePinnedPath(["a.md", "b.md"], "a.md")).toEqual(["b.md"]);
+    });
+  });
+
+  describe("renamePinnedPaths", () => {
+    it("follows renamed files and folders", () => {
+      expect(
+        renamePinnedPaths(["Index.md", "b.md"], "Index.md", "Home.md"),
+      ).toEqual(["Home.md", "b.md"]);
+      expect(
+        renamePinnedPaths(
+          ["Projects/a.md", "Projects-old/b.md"],
+          "Projects",
+          "Archive/Projects",
+        ),
+      ).toEqual(["Archive/Projects/a.md", "Projects-old/b.md"]);
+    });
+
+    it("returns null when no pin changed", () => {
+      expect(renamePinnedPaths(["a.md"], "b.md", "c.md")).toBeNull();
+    });
+  });
+});
@@ -350,7 +350,12 @@ describe("content-loader", () => {
         mockFile,
         mockApp,
         "preview property",
-        { fallbackToContent: true, omitFirstLine: "never" },
+        {
+          fallbackToContent: true,
+          omitFirstLine: "never",
+          textPreviewStyle: "plain",
+          textPreviewSection: "",
+        },
         undefined,
         undefined,
       );
@@ -376,7 +381,12 @@ describe("content-loader", () => {
         mockFile,
         mockApp,
         "preview property",
-        { fallbackToContent: true, omitFirstLine: "always" },
+        {
+          fallbackToContent: true,
+          omitFirstLine: "always",
+          textPreviewStyle: "plain",
+          textPreviewSection: "",
+        },
         "myFile",
         "My Title",
       );
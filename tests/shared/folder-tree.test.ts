@@ -0,0 +1,76 @@
+import {
+  buildFolderTree,
+  flattenFolderTree,
+  getFolderPaths,
+  getParentFolderPath,
+} from "../../src/shared/folder-tree";
+
+describe("folder-tree", () => {
+  const paths = [
+    "Projects/Beta/plan.md",
+    "inbox.md",
+    "Projects/alpha.md",
+    "Areas/Health/run.md",
+    "Projects/Beta/notes.md",
+    "Projects/Alpha 10/x.md",
+    "Projects/Alpha 2/y.md",
+  ];
+  const tree = buildFolderTree(paths, (p) => p);
+
+  it("finds the parent folder of a path", () => {
+    expect(getParentFolderPath("a/b/c.md")).toBe("a/b");
+    expect(getParentFolderPath("c.md")).toBe("");
+  });
+
+  it("nests items under their folders with recursive counts", () => {
+    expect(tree.items).toEqual(["inbox.md"]);
+    expect(tree.count).toBe(7);
+    expect(tree.children.map((c) => c.path)).toEqual(["Areas", "Projects"]);
+
+    const projects = tree.children[1];
+    expect(projects.depth).toBe(1);
+    expect(projects.count).toBe(5);
+    expect(projects.items).toEqual(["Projects/alpha.md"]);
+
+    // Intermediate folders without direct items still appear
+    expect(tree.children[0].children[0]).toMatchObject({
+      path: "Areas/Health",
+      name: "Health",
+      depth: 2,
+      count: 1,
+    });
+  });
+
+  it("sorts folders by name and keeps item order", () => {
+    const projects = tree.children[1];
+    expect(projects.children.map((c) => c.name)).toEqual([
+      "Alpha 2",
+      "Alpha 10",
+      "Beta",
+    ]);
+    expect(projects.children[2].items).toEqual([
+      "Projects/Beta/plan.md",
+      "Projects/Beta/notes.md",
+    ]);
+  });
+
+  it("flattens depth-first, skipping subfolders of collapsed folders", () => {
+    expect(flattenFolderTree(tree, new Set()).map((n) => n.path)).toEqual([
+      "",
+      "Areas",
+      "Areas/Health",
+      "Projects",
+      "Projects/Alpha 2",
+      "Projects/Alpha 10",
+      "Projects/Beta",
+    ]);
+    expect(
+      flattenFolderTree(tree, new Set(["Projects"])).map((n) => n.path),
+    ).toEqual(["", "Areas", "Areas/Health", "Projects"]);
+  });
+
+  it("lists every folder below the root", () => {
+    expect(getFolderPaths(tree)).toHaveLength(6);
+    expect(getFolderPaths(buildFolderTree(["a.md"], (p) => p))).toEqual([]);
+  });
+});
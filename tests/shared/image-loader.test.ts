@@ -1,4 +1,32 @@
-import { invalidateCacheForFile } from "../../src/shared/image-loader";
+import {
+  applyCachedImageMetadata,
+  handleImageLoad,
+  invalidateCacheForFile,
+} from "../../src/shared/image-loader";
+import {
+  getStoredImageColor,
+  storeImageColor,
+} from "../../src/utils/thumbnail-cache";
+
+jest.mock("../../src/utils/thumbnail-cache", () => ({
+  getStoredImageColor: jest.fn(),
+  storeImageColor: jest.fn(),
+}));
+
+const makeLoadedImage = (src: string): HTMLImageElement => {
+  const img = document.createElement("img");
+  img.src = src;
+  Object.defineProperty(img, "naturalWidth", { value: 400 });
+  Object.defineProperty(img, "naturalHeight", { value: 300 });
+  return img;
+};
+
+const makeCard = (): HTMLElement => {
+  const card = document.createElement("div");
+  card.className = "card";
+  document.body.appendChild(card);
+  return card;
+};
 
 // Access the private imageMetadataCache for testing
 // We need to import the module and test through exported functions
@@ -65,4 +93,105 @@ describe("image-loader", () => {
       ).not.toThrow();
     });
   });
+
+  describe("image color", () => {
+    const getContext = HTMLCanvasElement.prototype.getContext;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.mocked(getStoredImageColor).mockReturnValue(undefined);
+      jest.mocked(storeImageColor).mockClear();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      HTMLCanvasElement.prototype.getContext = getContext;
+      document.body.innerHTML = "";
+    });
+
+    it("should expose the average color once idle", () => {
+      const card = makeCard();
+      handleImageLoad(makeLoadedImage("app://local/color-a.png"), card);
+      expect(card.classList.contains("has-image-color")).toBe(false);
+
+      jest.runOnlyPendingTimers();
+
+      // Setup mock canvas returns all gray pixels
+      expect(card.style.getPropertyValue("--dynamic-views-image-color")).toBe(
+        "rgb(128, 128, 128)",
+      );
+      expect(card.classList.contains("has-image-color")).toBe(true);
+      expect(card.classList.contains("image-color-dark")).toBe(true);
+      expect(card.classList.contains("image-color-light")).toBe(false);
+      expect(storeImageColor).toHaveBeenCalledWith(
+        "app://local/color-a.png",
+        "rgb(128, 128, 128)",
+      );
+    });
+
+    it("should apply the cached color before the image loads", () => {
+      handleImageLoad(makeLoadedImage("app://local/color-b.png"), makeCard());
+      jest.runOnlyPendingTimers();
+
+      const card = makeCard();
+      applyCachedImageMetadata("app://local/color-b.png", card);
+
+      expect(card.style.getPropertyValue("--dynamic-views-image-color")).toBe(
+        "rgb(128, 128, 128)",
+      );
+      expect(card.style.getPropertyValue("--actual-aspect-ratio")).toBe(
+        "0.75",
+      );
+    });
+
+    it("should apply a persisted color before the first load", () => {
+      jest.mocked(getStoredImageColor).mockReturnValue("rgb(240, 240, 240)");
+      const spy = jest.fn(getContext);
+      HTMLCanvasElement.prototype.getContext =
+        spy as unknown as typeof getContext;
+
+      const card = makeCard();
+      applyCachedImageMetadata("app://local/color-d.png", card);
+      expect(card.classList.contains("image-color-light")).toBe(true);
+
+      handleImageLoad(makeLoadedImage("app://local/color-d.png"), card);
+      jest.runOnlyPendingTimers();
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it("should measure each image once", () => {
+      const spy = jest.fn(getContext);
+      HTMLCanvasElement.prototype.getContext =
+        spy as unknown as typeof getContext;
+
+      const first = makeCard();
+      const second = makeCard();
+      handleImageLoad(makeLoadedImage("app://local/color-c.png"), first);
+      handleImageLoad(makeLoadedImage("app://local/color-c.png"), second);
+      jest.runOnlyPendingTimers();
+      handleImageLoad(makeLoadedImage("app://local/color-c.png"), makeCard());
+      jest.runOnlyPendingTimers();
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(second.classList.contains("has-image-color")).toBe(true);
+    });
+
+    it("should skip the color when the canvas is tainted", () => {
+      HTMLCanvasElement.prototype.getContext = jest.fn(() => ({
+        drawImage: jest.fn(),
+        getImageData: jest.fn(() => {
+          throw new DOMException("Tainted canvas", "SecurityError");
+        }),
+      })) as unknown as typeof getContext;
+
+      const card = makeCard();
+      handleImageLoad(makeLoadedImage("https://example.com/a.png"), card);
+      jest.runOnlyPendingTimers();
+
+      expect(card.classList.contains("has-image-color")).toBe(false);
+      expect(card.style.getPropertyValue("--actual-aspect-ratio")).toBe(
+        "0.75",
+      );
+    });
+  });
 });
@@ -0,0 +1,63 @@
+import {
+  applyManualOrder,
+  moveInManualOrder,
+} from "../../src/shared/manual-order";
+
+describe("manual-order", () => {
+  describe("applyManualOrder", () => {
+    const identity = (path: string) => path;
+
+    it("orders items by their place in the manual order", () => {
+      expect(
+        applyManualOrder(["a.md", "b.md", "c.md"], identity, [
+          "c.md",
+          "a.md",
+          "b.md",
+        ]),
+      ).toEqual(["c.md", "a.md", "b.md"]);
+    });
+
+    it("puts new items last in their current order", () => {
+      expect(
+        applyManualOrder(["new2.md", "a.md", "new1.md", "b.md"], identity, [
+          "b.md",
+          "a.md",
+        ]),
+      ).toEqual(["b.md", "a.md", "new2.md", "new1.md"]);
+    });
+
+    it("ignores deleted paths and keeps items without an order", () => {
+      expect(applyManualOrder(["a.md"], identity, ["gone.md", "a.md"])).toEqual(
+        ["a.md"],
+      );
+      expect(applyManualOrder(["b.md", "a.md"], identity, [])).toEqual([
+        "b.md",
+        "a.md",
+      ]);
+    });
+  });
+
+  describe("moveInManualOrder", () => {
+    const paths = ["a.md", "b.md", "c.md", "d.md"];
+
+    it("moves a path before or after the target", () => {
+      expect(moveInManualOrder(paths, "d.md", "b.md", "before")).toEqual([
+        "a.md",
+        "d.md",
+        "b.md",
+        "c.md",
+      ]);
+      expect(moveInManualOrder(paths, "a.md", "c.md", "after")).toEqual([
+        "b.md",
+        "c.md",
+        "a.md",
+        "d.md",
+      ]);
+    });
+
+    it("leaves the order alone for unknown targets or self drops", () => {
+      expect(moveInManualOrder(paths, "a.md", "a.md", "after")).toBe(paths);
+      expect(moveInManualOrder(paths, "a.md", "x.md", "before")).toBe(paths);
+    });
+  });
+});
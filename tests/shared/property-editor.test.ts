@@ -0,0 +1,115 @@
+import { App } from "obsidian";
+import {
+  formatEditorValue,
+  getEditableWidget,
+  parseEditorValue,
+  readEditorInput,
+} from "../../src/shared/property-editor";
+
+const withWidgets = (widgets: Record<string, string>): App => {
+  const app = new App();
+  (app as unknown as Record<string, unknown>).metadataTypeManager = {
+    getAssignedWidget: (property: string) => widgets[property] ?? null,
+  };
+  return app;
+};
+
+describe("property-editor", () => {
+  describe("getEditableWidget", () => {
+    const app = withWidgets({
+      rating: "number",
+      due: "date",
+      aliases: "aliases",
+      done: "checkbox",
+    });
+
+    it("returns the widget for editable note properties", () => {
+      expect(getEditableWidget(app, "note.rating")).toBe("number");
+      expect(getEditableWidget(app, "due")).toBe("date");
+      expect(getEditableWidget(app, "aliases")).toBe("aliases");
+    });
+
+    it("returns null for checkbox, unknown, file and formula properties", () => {
+      expect(getEditableWidget(app, "done")).toBeNull();
+      expect(getEditableWidget(app, "missing")).toBeNull();
+      expect(getEditableWidget(app, "file.name")).toBeNull();
+      expect(getEditableWidget(app, "formula.total")).toBeNull();
+    });
+
+    it("falls back to the property registry", () => {
+      const registryApp = new App();
+      (
+        registryApp.metadataCache as unknown as Record<string, unknown>
+      ).getAllPropertyInfos = () => ({ status: { widget: "text" } });
+      expect(getEditableWidget(registryApp, "note.status")).toBe("text");
+    });
+  });
+
+  describe("formatEditorValue", () => {
+    it("joins list values", () => {
+      expect(formatEditorValue("multitext", ["a", "b"])).toBe("a, b");
+      expect(formatEditorValue("tags", "solo")).toBe("solo");
+    });
+
+    it("trims dates to native input formats", () => {
+      expect(formatEditorValue("date", "2024-03-05T10:00")).toBe("2024-03-05");
+      expect(formatEditorValue("datetime", "2024-03-05 10:30:00")).toBe(
+        "2024-03-05T10:30",
+      );
+    });
+
+    it("returns empty text for missing values", () => {
+      expect(formatEditorValue("text", null)).toBe("");
+      expect(formatEditorValue("number", undefined)).toBe("");
+    });
+  });
+
+  describe("parseEditorValue", () => {
+    it("parses numbers and rejects invalid input", () => {
+      expect(parseEditorValue("number", " 4.5 ")).toBe(4.5);
+      expect(parseEditorValue("number", "abc")).toBeUndefined();
+    });
+
+    it("splits lists and normalizes tags", () => {
+      expect(parseEditorValue("multitext", "a, b ,, c")).toEqual([
+        "a",
+        "b",
+        "c",
+      ]);
+      expect(parseEditorValue("tags", "#one, two")).toEqual(["one", "two"]);
+    });
+
+    it("clears empty input", () => {
+      expect(parseEditorValue("text", "  ")).toBeNull();
+      expect(parseEditorValue("aliases", "")).toBeNull();
+      expect(parseEditorValue("date", "")).toBeNull();
+    });
+
+    it("keeps text trimmed", () => {
+      expect(parseEditorValue("text", " in progress ")).toBe("in progress");
+    });
+  });
+
+  describe("readEditorInput", () => {
+    const numberInput = (value: string, badInput: boolean) => {
+      const input = document.createElement("input");
+      input.type = "number";
+      input.value = value;
+      Object.defineProperty(input, "validity", { value: { badInput } });
+      return input;
+    };
+
+    it("rejects unparseable number text instead of clearing", () => {
+      // Browsers expose "abc" in a number input as an empty value
+      expect(readEditorInput("number", numberInput("", true))).toBeUndefined();
+    });
+
+    it("clears a number input the user emptied", () => {
+      expect(readEditorInput("number", numberInput("", false))).toBeNull();
+    });
+
+    it("parses valid input", () => {
+      expect(readEditorInput("number", numberInput("3", false))).toBe(3);
+    });
+  });
+});
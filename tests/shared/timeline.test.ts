@@ -0,0 +1,89 @@
+import {
+  buildTimeline,
+  formatTimelineDate,
+  getTimelineGap,
+  getTimelineMarker,
+  orderByTime,
+} from "../../src/shared/timeline";
+import {
+  TIMELINE_MAX_GAP,
+  TIMELINE_UNIT_SIZE,
+} from "../../src/shared/constants";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("timeline", () => {
+  describe("getTimelineGap", () => {
+    it("scales elapsed time by the zoom unit", () => {
+      expect(getTimelineGap(DAY, "day")).toBe(TIMELINE_UNIT_SIZE);
+      expect(getTimelineGap(14 * DAY, "week")).toBe(TIMELINE_UNIT_SIZE * 2);
+      expect(getTimelineGap(DAY, "week")).toBe(
+        Math.round(TIMELINE_UNIT_SIZE / 7),
+      );
+    });
+
+    it("caps long gaps and ignores ties", () => {
+      expect(getTimelineGap(365 * DAY, "day")).toBe(TIMELINE_MAX_GAP);
+      expect(getTimelineGap(0, "day")).toBe(0);
+      expect(getTimelineGap(-DAY, "day")).toBe(0);
+    });
+  });
+
+  describe("markers", () => {
+    it("uses months when zoomed in and years when zoomed out", () => {
+      const june = new Date(2025, 5, 3).getTime();
+      expect(getTimelineMarker(june, "day").key).toBe("2025-06");
+      expect(getTimelineMarker(june, "week").label).toContain("2025");
+      expect(getTimelineMarker(june, "month")).toEqual({
+        key: "2025",
+        label: "2025",
+      });
+    });
+
+    it("adds the year to entry dates only at year zoom", () => {
+      const june = new Date(2025, 5, 3).getTime();
+      expect(formatTimelineDate(june, "day")).not.toContain("2025");
+      expect(formatTimelineDate(june, "year")).toContain("2025");
+    });
+  });
+
+  describe("buildTimeline", () => {
+    const items = [
+      { name: "c", at: new Date(2025, 6, 1).getTime() },
+      { name: "undated", at: null },
+      { name: "a", at: new Date(2025, 5, 1).getTime() },
+      { name: "b", at: new Date(2025, 5, 3).getTime() },
+      { name: "b2", at: new Date(2025, 5, 3).getTime() },
+    ];
+
+    it("orders dated items oldest first, keeping ties in input order", () => {
+      expect(orderByTime(items, (i) => i.at).map((e) => e.item.name)).toEqual([
+        "a",
+        "b",
+        "b2",
+        "c",
+      ]);
+    });
+
+    it("splits sections at each marker and spaces entries by time", () => {
+      const sections = buildTimeline(items, (i) => i.at, "day");
+      expect(sections.map((s) => s.key)).toEqual(["2025-06", "2025-07"]);
+      expect(sections[0].entries.map((e) => e.item.name)).toEqual([
+        "a",
+        "b",
+        "b2",
+      ]);
+      expect(sections[0].entries.map((e) => e.gap)).toEqual([
+        0,
+        TIMELINE_UNIT_SIZE * 2,
+        0,
+      ]);
+      // The gap before the first entry of a section counts from the last one
+      expect(sections[1].entries[0].gap).toBe(TIMELINE_MAX_GAP);
+    });
+
+    it("returns no sections without dated items", () => {
+      expect(buildTimeline([{ at: null }], (i) => i.at, "year")).toEqual([]);
+    });
+  });
+});
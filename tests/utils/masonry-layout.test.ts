@@ -1,6 +1,9 @@
 import {
   calculateMasonryLayout,
   applyMasonryLayout,
+  calculateJustifiedLayout,
+  calculateIncrementalJustifiedLayout,
+  applyJustifiedLayout,
 } from "../../src/utils/masonry-layout";
 
 describe("masonry-layout", () => {
@@ -253,4 +256,164 @@ describe("masonry-layout", () => {
       expect(card2.style.getPropertyValue("--masonry-top")).toBeTruthy();
     });
   });
+
+  describe("calculateJustifiedLayout", () => {
+    it("should scale full rows to fill the container width", () => {
+      const result = calculateJustifiedLayout({
+        aspectRatios: [1, 1, 1, 1, 1, 1],
+        containerWidth: 1000,
+        targetRowHeight: 200,
+        gap: 10,
+      });
+
+      // 5 squares at 200px overflow 1000px, so the row shrinks to (1000 - 40) / 5
+      const firstRow = result.positions.slice(0, 5);
+      firstRow.forEach((pos) => {
+        expect(pos.top).toBe(0);
+        expect(pos.height).toBeCloseTo(192);
+        expect(pos.width).toBeCloseTo(192);
+      });
+      const last = firstRow[4];
+      expect(last.left + last.width).toBeCloseTo(1000);
+    });
+
+    it("should keep the trailing row at target height and left-aligned", () => {
+      const result = calculateJustifiedLayout({
+        aspectRatios: [1, 1, 1, 1, 1, 1],
+        containerWidth: 1000,
+        targetRowHeight: 200,
+        gap: 10,
+      });
+
+      expect(result.positions[5]).toEqual({
+        left: 0,
+        top: 202,
+        width: 200,
+        height: 200,
+      });
+      expect(result.lastRowStart).toBe(5);
+      expect(result.lastRowTop).toBe(202);
+      expect(result.containerHeight).toBe(402);
+    });
+
+    it("should size widths by aspect ratio within a row", () => {
+      const result = calculateJustifiedLayout({
+        aspectRatios: [0.5, 1, 2],
+        containerWidth: 10000,
+        targetRowHeight: 100,
+        gap: 0,
+      });
+
+      expect(result.positions.map((p) => p.width)).toEqual([200, 100, 50]);
+      expect(result.positions.map((p) => p.left)).toEqual([0, 200, 300]);
+    });
+
+    it("should fall back to square for invalid aspect ratios", () => {
+      const result = calculateJustifiedLayout({
+        aspectRatios: [0, NaN, -1],
+        containerWidth: 10000,
+        targetRowHeight: 100,
+        gap: 0,
+      });
+
+      result.positions.forEach((pos) => {
+        expect(pos.width).toBe(100);
+      });
+    });
+
+    it("should return zero height for no cards", () => {
+      const result = calculateJustifiedLayout({
+        aspectRatios: [],
+        containerWidth: 1000,
+        targetRowHeight: 200,
+        gap: 10,
+      });
+
+      expect(result.positions).toEqual([]);
+      expect(result.containerHeight).toBe(0);
+      expect(result.lastRowStart).toBe(0);
+    });
+  });
+
+  describe("calculateIncrementalJustifiedLayout", () => {
+    it("should match a full layout of the same cards", () => {
+      const ratios = [1, 0.5, 1.5, 1, 0.75, 1, 2, 0.6, 1, 1.2];
+      const params = { containerWidth: 900, targetRowHeight: 180, gap: 8 };
+      const first = calculateJustifiedLayout({
+        ...params,
+        aspectRatios: ratios.slice(0, 6),
+      });
+
+      const incremental = calculateIncrementalJustifiedLayout({
+        ...params,
+        previous: first,
+        aspectRatios: ratios.slice(first.lastRowStart),
+      });
+      const full = calculateJustifiedLayout({
+        ...params,
+        aspectRatios: ratios,
+      });
+
+      expect(incremental.positions).toHaveLength(ratios.length);
+      incremental.positions.forEach((pos, i) => {
+        expect(pos.left).toBeCloseTo(full.positions[i].left);
+        expect(pos.top).toBeCloseTo(full.positions[i].top);
+        expect(pos.width).toBeCloseTo(full.positions[i].width);
+        expect(pos.height).toBeCloseTo(full.positions[i].height);
+      });
+      expect(incremental.containerHeight).toBe(full.containerHeight);
+      expect(incremental.lastRowStart).toBe(full.lastRowStart);
+    });
+
+    it("should not move completed rows", () => {
+      const params = { containerWidth: 1000, targetRowHeight: 200, gap: 10 };
+      const first = calculateJustifiedLayout({
+        ...params,
+        aspectRatios: [1, 1, 1, 1, 1, 1],
+      });
+
+      const result = calculateIncrementalJustifiedLayout({
+        ...params,
+        previous: first,
+        aspectRatios: [1, 1, 1, 1, 1],
+      });
+
+      expect(result.positions.slice(0, 5)).toEqual(
+        first.positions.slice(0, 5),
+      );
+      // Former trailing row is now full and shrinks to fit
+      expect(result.positions[5].height).toBeCloseTo(192);
+      expect(result.lastRowStart).toBe(10);
+      expect(result.containerHeight).toBe(394);
+    });
+  });
+
+  describe("applyJustifiedLayout", () => {
+    it("should apply size and position custom properties", () => {
+      const container = document.createElement("div");
+      const cards = [
+        document.createElement("div"),
+        document.createElement("div"),
+      ];
+      const result = calculateJustifiedLayout({
+        aspectRatios: [1, 0.5],
+        containerWidth: 10000,
+        targetRowHeight: 100,
+        gap: 10,
+      });
+
+      applyJustifiedLayout(container, cards, result);
+
+      expect(container.classList.contains("masonry-container")).toBe(true);
+      expect(container.style.getPropertyValue("--masonry-height")).toBe(
+        "100px",
+      );
+      expect(cards[1].classList.contains("masonry-positioned")).toBe(true);
+      expect(cards[1].style.getPropertyValue("--masonry-width")).toBe("200px");
+      expect(
+        cards[1].style.getPropertyValue("--masonry-justified-height"),
+      ).toBe("100px");
+      expect(cards[1].style.getPropertyValue("--masonry-left")).toBe("110px");
+    });
+  });
 });
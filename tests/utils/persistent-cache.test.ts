@@ -0,0 +1,181 @@
+import { App, Plugin, TFile } from "obsidian";
+import {
+  cleanupPersistentCache,
+  getPersistedEmbedSources,
+  getPersistedImageColor,
+  getPersistedTextPreview,
+  initPersistentCache,
+  invalidatePersistedFile,
+  prunePersistentCache,
+  setPersistedEmbedSources,
+  setPersistedImageColor,
+  setPersistedTextPreview,
+} from "../../src/utils/persistent-cache";
+
+const CACHE_PATH = ".obsidian/plugins/dynamic-views/content-cache.json";
+
+const makeFile = (path: string, mtime: number): TFile => {
+  const file = new TFile();
+  file.path = path;
+  file.stat = { ctime: 0, mtime, size: 0 };
+  return file;
+};
+
+describe("persistent-cache", () => {
+  let app: App;
+  let plugin: Plugin;
+  let stored: string | null;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    stored = null;
+    app = new App();
+    const adapter = app.vault.adapter as unknown as Record<string, jest.Mock>;
+    adapter.exists = jest.fn(() => Promise.resolve(stored !== null));
+    adapter.read = jest.fn(() => Promise.resolve(stored ?? ""));
+    adapter.write = jest.fn((_path: string, data: string) => {
+      stored = data;
+      return Promise.resolve();
+    });
+    plugin = new Plugin();
+    plugin.app = app;
+    plugin.manifest = {
+      dir: ".obsidian/plugins/dynamic-views",
+    } as Plugin["manifest"];
+    await initPersistentCache(plugin);
+  });
+
+  afterEach(async () => {
+    await cleanupPersistentCache();
+    jest.useRealTimers();
+  });
+
+  it("should return entries only while the file mtime matches", () => {
+    setPersistedTextPreview(makeFile("a.md", 100), "v", "hello");
+
+    expect(getPersistedTextPreview(makeFile("a.md", 100), "v")).toBe("hello");
+    expect(getPersistedTextPreview(makeFile("a.md", 200), "v")).toBeUndefined();
+    expect(getPersistedTextPreview(makeFile("a.md", 100), "x")).toBeUndefined();
+  });
+
+  it("should keep variants separately for one file", () => {
+    const file = makeFile("a.md", 100);
+    setPersistedEmbedSources(file, "true", ["cover.png"]);
+    setPersistedEmbedSources(file, "false", []);
+
+    expect(getPersistedEmbedSources(file, "true")).toEqual(["cover.png"]);
+    expect(getPersistedEmbedSources(file, "false")).toEqual([]);
+  });
+
+  it("should keep an image color until the image changes", () => {
+    setPersistedImageColor(makeFile("cover.png", 100), "rgb(1, 2, 3)");
+
+    expect(getPersistedImageColor(makeFile("cover.png", 100))).toBe(
+      "rgb(1, 2, 3)",
+    );
+    expect(getPersistedImageColor(makeFile("cover.png", 200))).toBeUndefined();
+  });
+
+  it("should restore saved entries after a restart", async () => {
+    setPersistedTextPreview(makeFile("a.md", 100), "v", "hello");
+    await cleanupPersistentCache();
+
+    expect(app.vault.adapter.write).toHaveBeenCalledWith(
+      CACHE_PATH,
+      expect.any(String),
+    );
+
+    await initPersistentCache(plugin);
+    expect(getPersistedTextPreview(makeFile("a.md", 100), "v")).toBe("hello");
+  });
+
+  it("should debounce writes", () => {
+    setPersistedTextPreview(makeFile("a.md", 100), "v", "one");
+    setPersistedTextPreview(makeFile("b.md", 100), "v", "two");
+    expect(app.vault.adapter.write).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+    expect(app.vault.adapter.write).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop invalidated files", () => {
+    const file = makeFile("a.md", 100);
+    setPersistedTextPreview(file, "v", "hello");
+
+    invalidatePersistedFile("a.md");
+
+    expect(getPersistedTextPreview(file, "v")).toBeUndefined();
+  });
+
+  it("should prune files missing from the vault or changed on disk", () => {
+    const kept = makeFile("kept.md", 100);
+    const changed = makeFile("changed.md", 100);
+    setPersistedTextPreview(kept, "v", "kept");
+    setPersistedTextPreview(changed, "v", "stale");
+    setPersistedTextPreview(makeFile("gone.md", 100), "v", "gone");
+    const vaultFiles: Record<string, TFile> = {
+      "kept.md": kept,
+      "changed.md": makeFile("changed.md", 200),
+    };
+    jest
+      .spyOn(app.vault, "getAbstractFileByPath")
+      .mockImplementation((path) => vaultFiles[path] ?? null);
+
+    prunePersistentCache();
+
+    expect(getPersistedTextPreview(kept, "v")).toBe("kept");
+    expect(getPersistedTextPreview(changed, "v")).toBeUndefined();
+    expect(
+      getPersistedTextPreview(makeFile("gone.md", 100), "v"),
+    ).toBeUndefined();
+  });
+
+  it("should ignore a cache file from another format version", async () => {
+    await cleanupPersistentCache();
+    stored = JSON.stringify({
+      version: 0,
+      files: { "a.md": { mtime: 100, text: { v: "old" } } },
+    });
+
+    await initPersistentCache(plugin);
+
+    expect(
+      getPersistedTextPreview(makeFile("a.md", 100), "v"),
+    ).toBeUndefined();
+  });
+
+  it("should be inert before init", async () => {
+    await cleanupPersistentCache();
+    const file = makeFile("a.md", 100);
+
+    setPersistedTextPreview(file, "v", "hello");
+
+    expect(getPersistedTextPreview(file, "v")).toBeUndefined();
+  });
+
+  it("should stay cold until the cache file is read", async () => {
+    setPersistedTextPreview(makeFile("a.md", 100), "v", "hello");
+    await cleanupPersistentCache();
+
+    const loading = initPersistentCache(plugin);
+    setPersistedTextPreview(makeFile("b.md", 100), "v", "early");
+    expect(getPersistedTextPreview(makeFile("a.md", 100), "v")).toBeUndefined();
+
+    await loading;
+    expect(getPersistedTextPreview(makeFile("a.md", 100), "v")).toBe("hello");
+    expect(
+      getPersistedTextPreview(makeFile("b.md", 100), "v"),
+    ).toBeUndefined();
+  });
+
+  it("should drop a read that finishes after unload", async () => {
+    setPersistedTextPreview(makeFile("a.md", 100), "v", "hello");
+    await cleanupPersistentCache();
+
+    const loading = initPersistentCache(plugin);
+    await cleanupPersistentCache();
+    await loading;
+
+    expect(getPersistedTextPreview(makeFile("a.md", 100), "v")).toBeUndefined();
+  });
+});
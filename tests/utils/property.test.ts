@@ -880,6 +880,17 @@ describe("property", () => {
       expect(settings.titleProperty).toBe("file.name,file.ctime");
     });
 
+    it("should normalize the property of each group summary", () => {
+      const reverseMap = { "created time": "file.ctime" };
+      const settings: Record<string, unknown> = {
+        groupSummaries: "latest: created time, sum:cost",
+      };
+
+      normalizeSettingsPropertyNames(mockApp, settings as any, reverseMap, {});
+
+      expect(settings.groupSummaries).toBe("latest: file.ctime,sum: cost");
+    });
+
     it("should attach displayNameMap to settings", () => {
       const displayNameMap = { "file.name": "filename123" };
       const settings: Record<string, unknown> = {};
@@ -1,8 +1,56 @@
 import {
   sanitizeForPreview,
+  extractPreviewMarkdown,
+  extractPreviewSection,
   loadFilePreview,
 } from "../../src/utils/text-preview";
 import { App, TFile } from "obsidian";
+import type { CachedMetadata } from "obsidian";
+
+/** Cache position spanning the first occurrence of text in content */
+function spanOf(content: string, text: string) {
+  const start = content.indexOf(text);
+  return { start: { offset: start }, end: { offset: start + text.length } };
+}
+
+const sectionNote = [
+  "# Meeting",
+  "Intro",
+  "## Summary",
+  "The gist",
+  "### Detail",
+  "More",
+  "## Next",
+  "Key point ^key-1",
+  "",
+  "> [!note]",
+  "> Aside",
+  "",
+  "> [!summary]- Gist",
+  "> Short",
+].join("\n");
+
+const sectionCache = {
+  headings: [
+    { heading: "Meeting", level: 1, text: "# Meeting" },
+    { heading: "Summary", level: 2, text: "## Summary" },
+    { heading: "Detail", level: 3, text: "### Detail" },
+    { heading: "Next", level: 2, text: "## Next" },
+  ].map(({ text, ...h }) => ({ ...h, position: spanOf(sectionNote, text) })),
+  blocks: {
+    "key-1": {
+      id: "key-1",
+      position: spanOf(sectionNote, "Key point ^key-1"),
+    },
+  },
+  sections: [
+    { type: "callout", position: spanOf(sectionNote, "> [!note]\n> Aside") },
+    {
+      type: "callout",
+      position: spanOf(sectionNote, "> [!summary]- Gist\n> Short"),
+    },
+  ],
+} as unknown as CachedMetadata;
 
 describe("preview", () => {
   describe("sanitizeForPreview", () => {
@@ -521,6 +569,69 @@ After`;
     });
   });
 
+  describe("extractPreviewMarkdown", () => {
+    it("should keep markdown up to the next heading", () => {
+      const content = [
+        "---",
+        "tags: [meeting]",
+        "---",
+        "# Standup",
+        "- [ ] Ship **release**",
+        "- See [[Roadmap]]",
+        "",
+        "## Notes",
+        "Later section",
+      ].join("\n");
+      expect(
+        extractPreviewMarkdown(content, "ifMatchesTitle", "Standup"),
+      ).toBe("- [ ] Ship **release**\n- See [[Roadmap]]");
+    });
+
+    it("should keep a leading heading when the first line stays", () => {
+      expect(
+        extractPreviewMarkdown("# Intro\nText\n# Next\nMore", "never"),
+      ).toBe("# Intro\nText");
+    });
+
+    it("should ignore headings inside code and close a cut fence", () => {
+      const lines = ["Intro", "```", "# not a heading", ...Array(50).fill("x")];
+      const result = extractPreviewMarkdown(lines.join("\n"), "never");
+      expect(result).toContain("# not a heading");
+      expect(result.split("\n")).toHaveLength(41);
+      expect(result.endsWith("\n```")).toBe(true);
+    });
+  });
+
+  describe("extractPreviewSection", () => {
+    it("should slice a heading up to the next heading of its level", () => {
+      expect(
+        extractPreviewSection(sectionNote, sectionCache, "## summary"),
+      ).toBe("\nThe gist\n### Detail\nMore\n");
+      expect(extractPreviewSection(sectionNote, sectionCache, "#Detail")).toBe(
+        "\nMore\n",
+      );
+    });
+
+    it("should slice a block without its ID and a callout by type", () => {
+      expect(extractPreviewSection(sectionNote, sectionCache, "^key-1")).toBe(
+        "Key point",
+      );
+      expect(
+        extractPreviewSection(sectionNote, sectionCache, "[!Summary]"),
+      ).toBe("> [!summary]- Gist\n> Short");
+    });
+
+    it("should return null for missing sections or metadata", () => {
+      expect(
+        extractPreviewSection(sectionNote, sectionCache, "Missing"),
+      ).toBeNull();
+      expect(
+        extractPreviewSection(sectionNote, sectionCache, "[!tip]"),
+      ).toBeNull();
+      expect(extractPreviewSection(sectionNote, null, "Summary")).toBeNull();
+    });
+  });
+
   describe("loadFilePreview", () => {
     let mockApp: App;
     let mockFile: TFile;
@@ -708,6 +819,48 @@ title: Test
       expect(mockApp.vault.cachedRead).not.toHaveBeenCalled();
     });
 
+    it("should load markdown for rendered previews", async () => {
+      mockApp.vault.cachedRead = jest
+        .fn()
+        .mockResolvedValue("# test\n- **one**\n- two");
+
+      const result = await loadFilePreview(
+        mockFile,
+        mockApp,
+        null,
+        {
+          fallbackToContent: true,
+          omitFirstLine: "ifMatchesTitle",
+          textPreviewStyle: "rendered",
+        },
+        "test",
+      );
+
+      expect(result).toBe("- **one**\n- two");
+    });
+
+    it("should preview the targeted section or the opening lines", async () => {
+      mockApp.vault.cachedRead = jest.fn().mockResolvedValue(sectionNote);
+      mockApp.metadataCache.getFileCache = jest
+        .fn()
+        .mockReturnValue(sectionCache);
+      const settings = {
+        fallbackToContent: true,
+        omitFirstLine: "always" as const,
+        textPreviewSection: "Summary",
+      };
+
+      expect(await loadFilePreview(mockFile, mockApp, null, settings)).toBe(
+        "The gist More",
+      );
+      expect(
+        await loadFilePreview(mockFile, mockApp, null, {
+          ...settings,
+          textPreviewSection: "^missing",
+        }),
+      ).toMatch(/^Intro The gist/);
+    });
+
     it("should handle number 0 as valid property value", async () => {
       const result = await loadFilePreview(mockFile, mockApp, 0, {
         fallbackToContent: true,
@@ -0,0 +1,321 @@
+import { App, Plugin, TFile } from "obsidian";
+import {
+  cleanupThumbnailCache,
+  getCardImageUrl,
+  getOriginalImageUrl,
+  getStoredImageColor,
+  getThumbnailDimensions,
+  getThumbnailName,
+  getThumbnailTargetSize,
+  initThumbnailCache,
+  invalidateThumbnails,
+  isThumbnailCandidate,
+  pruneThumbnailCache,
+  registerVaultImage,
+} from "../../src/utils/thumbnail-cache";
+import {
+  cleanupPersistentCache,
+  initPersistentCache,
+} from "../../src/utils/persistent-cache";
+
+const FOLDER = ".obsidian/plugins/dynamic-views/thumbnails";
+const MB = 1024 * 1024;
+
+const makeFile = (path: string, mtime: number, size: number): TFile => {
+  const file = new TFile();
+  file.path = path;
+  file.extension = path.slice(path.lastIndexOf(".") + 1);
+  file.stat = { ctime: 0, mtime, size };
+  return file;
+};
+
+/** Let queued generation settle */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("thumbnail-cache", () => {
+  describe("getThumbnailTargetSize", () => {
+    it("rounds covers up to the size step at the pixel ratio", () => {
+      expect(getThumbnailTargetSize("cover", 400, 1)).toBe(768);
+      expect(getThumbnailTargetSize("cover", 400, 2)).toBe(1280);
+    });
+
+    it("uses a fixed size for the thumbnail format", () => {
+      expect(getThumbnailTargetSize("thumbnail", 400, 1)).toBe(256);
+      expect(getThumbnailTargetSize("thumbnail", 800, 1)).toBe(256);
+    });
+
+    it("shares sizes between similar card sizes", () => {
+      expect(getThumbnailTargetSize("backdrop", 300, 1)).toBe(
+        getThumbnailTargetSize("backdrop", 320, 1),
+      );
+    });
+  });
+
+  describe("getThumbnailDimensions", () => {
+    it("scales the shortest edge to the target", () => {
+      expect(getThumbnailDimensions(6000, 4000, 800)).toEqual({
+        width: 1200,
+        height: 800,
+      });
+      expect(getThumbnailDimensions(3000, 4500, 600)).toEqual({
+        width: 600,
+        height: 900,
+      });
+    });
+
+    it("returns null when no downsizing is needed", () => {
+      expect(getThumbnailDimensions(800, 600, 600)).toBeNull();
+      expect(getThumbnailDimensions(400, 300, 768)).toBeNull();
+    });
+  });
+
+  describe("getThumbnailName", () => {
+    it("changes with path, mtime and size", () => {
+      const name = getThumbnailName("a.jpg", 1, 768);
+      expect(name).toMatch(/^[0-9a-f]{16}-1-768\.webp$/);
+      expect(getThumbnailName("a.jpg", 1, 768)).toBe(name);
+      expect(getThumbnailName("b.jpg", 1, 768)).not.toBe(name);
+      expect(getThumbnailName("a.jpg", 2, 768)).not.toBe(name);
+      expect(getThumbnailName("a.jpg", 1, 1024)).not.toBe(name);
+    });
+  });
+
+  describe("isThumbnailCandidate", () => {
+    it("accepts large raster images only", () => {
+      expect(isThumbnailCandidate(makeFile("a.jpg", 1, 5 * MB))).toBe(true);
+      expect(isThumbnailCandidate(makeFile("a.PNG", 1, 5 * MB))).toBe(true);
+      expect(isThumbnailCandidate(makeFile("a.jpg", 1, 100 * 1024))).toBe(
+        false,
+      );
+      expect(isThumbnailCandidate(makeFile("a.gif", 1, 5 * MB))).toBe(false);
+      expect(isThumbnailCandidate(makeFile("a.svg", 1, 5 * MB))).toBe(false);
+    });
+  });
+
+  describe("with a plugin", () => {
+    let app: App;
+    let plugin: Plugin;
+    let adapter: Record<string, jest.Mock>;
+    let onDisk: Set<string>;
+    let drawImage: jest.Mock;
+
+    beforeEach(async () => {
+      onDisk = new Set();
+      drawImage = jest.fn();
+      (global as Record<string, unknown>).createImageBitmap = jest.fn(() =>
+        Promise.resolve({ width: 6000, height: 4000, close: jest.fn() }),
+      );
+      (global as Record<string, unknown>).OffscreenCanvas = jest.fn(
+        (width: number, height: number) => ({
+          width,
+          height,
+          getContext: () => ({
+            drawImage,
+            getImageData: () => ({ data: new Uint8ClampedArray(8).fill(200) }),
+          }),
+          convertToBlob: () =>
+            Promise.resolve({
+              arrayBuffer: () => Promise.resolve(new ArrayBuffer(4)),
+            }),
+        }),
+      );
+
+      app = new App();
+      (app.vault as unknown as Record<string, jest.Mock>).readBinary = jest.fn(
+        () => Promise.resolve(new ArrayBuffer(8)),
+      );
+      adapter = app.vault.adapter as unknown as Record<string, jest.Mock>;
+      adapter.exists = jest.fn(() => Promise.resolve(true));
+      adapter.mkdir = jest.fn(() => Promise.resolve());
+      adapter.list = jest.fn(() =>
+        Promise.resolve({
+          files: Array.from(onDisk).map((name) => `${FOLDER}/${name}`),
+          folders: [],
+        }),
+      );
+      adapter.writeBinary = jest.fn((path: string) => {
+        onDisk.add(path.slice(FOLDER.length + 1));
+        return Promise.resolve();
+      });
+      adapter.remove = jest.fn((path: string) => {
+        onDisk.delete(path.slice(FOLDER.length + 1));
+        return Promise.resolve();
+      });
+      adapter.getResourcePath = jest.fn(
+        (path: string) => `app://local/${path}`,
+      );
+      plugin = new Plugin();
+      plugin.app = app;
+      plugin.manifest = {
+        dir: ".obsidian/plugins/dynamic-views",
+      } as Plugin["manifest"];
+    });
+
+    afterEach(() => {
+      cleanupThumbnailCache();
+      delete (global as Record<string, unknown>).createImageBitmap;
+      delete (global as Record<string, unknown>).OffscreenCanvas;
+    });
+
+    it("stays inert without OffscreenCanvas", async () => {
+      delete (global as Record<string, unknown>).OffscreenCanvas;
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo", makeFile("photo.jpg", 1, 5 * MB));
+      expect(getCardImageUrl("app://photo", 768)).toBe("app://photo");
+      await flush();
+      expect(adapter.writeBinary).not.toHaveBeenCalled();
+    });
+
+    it("returns unregistered and small images unchanged", async () => {
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://small", makeFile("small.jpg", 1, 1024));
+      expect(getCardImageUrl("https://example.com/a.jpg", 768)).toBe(
+        "https://example.com/a.jpg",
+      );
+      expect(getCardImageUrl("app://small", 768)).toBe("app://small");
+      await flush();
+      expect(adapter.writeBinary).not.toHaveBeenCalled();
+    });
+
+    it("generates a thumbnail and serves it on the next lookup", async () => {
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo", makeFile("photo.jpg", 1, 5 * MB));
+
+      expect(getCardImageUrl("app://photo", 768)).toBe("app://photo");
+      await flush();
+
+      const name = getThumbnailName("photo.jpg", 1, 768);
+      expect(adapter.writeBinary).toHaveBeenCalledTimes(1);
+      expect(adapter.writeBinary.mock.calls[0][0]).toBe(`${FOLDER}/${name}`);
+      expect(drawImage).toHaveBeenCalledWith(
+        expect.anything(),
+        0,
+        0,
+        1152,
+        768,
+      );
+
+      const thumbnailUrl = getCardImageUrl("app://photo", 768);
+      expect(thumbnailUrl).toBe(`app://local/${FOLDER}/${name}`);
+      expect(getOriginalImageUrl(thumbnailUrl)).toBe("app://photo");
+      expect(getOriginalImageUrl("app://other")).toBe("app://other");
+    });
+
+    it("persists the color sampled while downsizing", async () => {
+      adapter.exists.mockImplementation((path: string) =>
+        Promise.resolve(!path.endsWith(".json")),
+      );
+      adapter.write = jest.fn(() => Promise.resolve());
+      await initPersistentCache(plugin);
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo", makeFile("photo.jpg", 1, 5 * MB));
+
+      getCardImageUrl("app://photo", 768);
+      await flush();
+
+      expect(getStoredImageColor("app://photo")).toBe("rgb(200, 200, 200)");
+      const thumbnailUrl = getCardImageUrl("app://photo", 768);
+      expect(getStoredImageColor(thumbnailUrl)).toBe("rgb(200, 200, 200)");
+      await cleanupPersistentCache();
+    });
+
+    it("queues each thumbnail once", async () => {
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo", makeFile("photo.jpg", 1, 5 * MB));
+      getCardImageUrl("app://photo", 768);
+      getCardImageUrl("app://photo", 768);
+      await flush();
+      expect(adapter.writeBinary).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips images already smaller than the target", async () => {
+      (global as Record<string, unknown>).createImageBitmap = jest.fn(() =>
+        Promise.resolve({ width: 700, height: 500, close: jest.fn() }),
+      );
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo", makeFile("photo.png", 1, 5 * MB));
+      getCardImageUrl("app://photo", 768);
+      await flush();
+      expect(adapter.writeBinary).not.toHaveBeenCalled();
+      expect(getCardImageUrl("app://photo", 768)).toBe("app://photo");
+    });
+
+    it("loads existing thumbnails from disk", async () => {
+      onDisk.add(getThumbnailName("photo.jpg", 1, 768));
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo", makeFile("photo.jpg", 1, 5 * MB));
+      expect(getCardImageUrl("app://photo", 768)).toContain(FOLDER);
+    });
+
+    it("serves originals without queueing until the listing is done", async () => {
+      onDisk.add(getThumbnailName("photo.jpg", 1, 768));
+      const loading = initThumbnailCache(plugin);
+      registerVaultImage("app://photo", makeFile("photo.jpg", 1, 5 * MB));
+      expect(getCardImageUrl("app://photo", 768)).toBe("app://photo");
+
+      await loading;
+      await flush();
+      expect(adapter.writeBinary).not.toHaveBeenCalled();
+      expect(getCardImageUrl("app://photo", 768)).toContain(FOLDER);
+    });
+
+    it("deletes thumbnails of an invalidated image", async () => {
+      onDisk.add(getThumbnailName("photo.jpg", 1, 768));
+      onDisk.add(getThumbnailName("photo.jpg", 1, 1280));
+      onDisk.add(getThumbnailName("other.jpg", 1, 768));
+      await initThumbnailCache(plugin);
+
+      invalidateThumbnails("photo.jpg");
+      await flush();
+
+      expect(Array.from(onDisk)).toEqual([
+        getThumbnailName("other.jpg", 1, 768),
+      ]);
+    });
+
+    it("forgets the resource URL of an invalidated image", async () => {
+      onDisk.add(getThumbnailName("photo.jpg", 1, 768));
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo?1", makeFile("photo.jpg", 1, 5 * MB));
+      const thumbnailUrl = getCardImageUrl("app://photo?1", 768);
+      expect(thumbnailUrl).toContain(FOLDER);
+
+      invalidateThumbnails("photo.jpg");
+      await flush();
+
+      expect(getCardImageUrl("app://photo?1", 768)).toBe("app://photo?1");
+      expect(getOriginalImageUrl(thumbnailUrl)).toBe(thumbnailUrl);
+      expect(adapter.writeBinary).not.toHaveBeenCalled();
+    });
+
+    it("keeps only the latest resource URL per image", async () => {
+      await initThumbnailCache(plugin);
+      registerVaultImage("app://photo?1", makeFile("photo.jpg", 1, 5 * MB));
+      registerVaultImage("app://photo?2", makeFile("photo.jpg", 2, 5 * MB));
+
+      expect(getCardImageUrl("app://photo?1", 768)).toBe("app://photo?1");
+      await flush();
+      expect(adapter.writeBinary).not.toHaveBeenCalled();
+    });
+
+    it("prunes thumbnails of missing or changed images", async () => {
+      onDisk.add(getThumbnailName("kept.jpg", 1, 768));
+      onDisk.add(getThumbnailName("changed.jpg", 1, 768));
+      onDisk.add(getThumbnailName("deleted.jpg", 1, 768));
+      jest
+        .spyOn(app.vault, "getFiles")
+        .mockReturnValue([
+          makeFile("kept.jpg", 1, 5 * MB),
+          makeFile("changed.jpg", 2, 5 * MB),
+        ]);
+      await initThumbnailCache(plugin);
+
+      pruneThumbnailCache();
+      await flush();
+
+      expect(Array.from(onDisk)).toEqual([
+        getThumbnailName("kept.jpg", 1, 768),
+      ]);
+    });
+  });
+});